@@ -3,6 +3,7 @@ import { useMap } from 'react-leaflet';
 import L from 'leaflet';
 import './Legend.css';
 import { escapeHTML } from '../utils/stringUtils';
+import { NO_DATA_COLOR, TRAVEL_TIME_CLASSES } from '../utils/travelTime';
 
 interface LegendProps {
     title?: string;
@@ -37,6 +38,11 @@ const Legend: React.FC<LegendProps> = ({ title = 'Property Prices (€/m²)' })
                     { color: '#1a9850', label: ' ≥ 15%' },
                     { color: '#cccccc', label: ' No data' },
                 ];
+            } else if (safeTitle.includes('Travel Time')) {
+                items = [
+                    ...TRAVEL_TIME_CLASSES.map(({ color, label }) => ({ color, label })),
+                    { color: NO_DATA_COLOR, label: ' No trip found' },
+                ];
             } else {
                 items = [
                     { color: '#1a9850', label: ' < 2000' },
@@ -1,13 +1,15 @@
 import React, { useRef, useEffect } from 'react';
 import L from 'leaflet';
 import './PeriodSlider.css'; // Use dedicated CSS file
+import { TREND_PERIODS, TrendPeriod, getEarliestEndYear, getPeriodStartYear } from '../utils/trendPeriod';
 
 interface PeriodSliderProps {
     minYear: number;
     maxYear: number;
     endYear: number;
     onChange: (endYear: number) => void;
-    periodLength?: number;
+    period?: TrendPeriod;
+    onPeriodChange?: (period: TrendPeriod) => void;
 }
 
 const PeriodSlider: React.FC<PeriodSliderProps> = ({
@@ -15,7 +17,8 @@ const PeriodSlider: React.FC<PeriodSliderProps> = ({
     maxYear,
     endYear,
     onChange,
-    periodLength = 5
+    period = 5,
+    onPeriodChange
 }) => {
     const sliderRef = useRef<HTMLDivElement>(null);
 
@@ -28,10 +31,8 @@ const PeriodSlider: React.FC<PeriodSliderProps> = ({
         }
     }, []); // Run only once on mount
 
-    // Calculate the valid range for the end year
-    // The earliest end year must be minYear + (periodLength - 1) to ensure the period doesn't go below minYear
-    const earliestEndYear = minYear + (periodLength - 1);
-    const adjustedMinYear = Math.max(minYear, earliestEndYear);
+    // Calculate the valid range for the end year so the period doesn't go below minYear
+    const adjustedMinYear = Math.max(minYear, getEarliestEndYear(period, minYear));
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newEndYear = parseInt(e.target.value);
@@ -39,13 +40,28 @@ const PeriodSlider: React.FC<PeriodSliderProps> = ({
     };
 
     // Calculate the start year based on the current end year
-    const startYear = endYear - (periodLength - 1);
+    const startYear = getPeriodStartYear(period, endYear, minYear);
+    const periodLength = endYear - startYear + 1;
 
     return (
         <div ref={sliderRef} className="year-slider">
             <div className="year-slider-label">
                 Price Trend Period: {startYear}-{endYear} ({periodLength} years)
             </div>
+            {onPeriodChange && (
+                <div className="period-options">
+                    {TREND_PERIODS.map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            className={`period-option${option === period ? ' active' : ''}`}
+                            onClick={() => onPeriodChange(option)}
+                        >
+                            {option === 'full' ? 'Full' : `${option} years`}
+                        </button>
+                    ))}
+                </div>
+            )}
             <input
                 type="range"
                 min={adjustedMinYear}
@@ -62,4 +78,4 @@ const PeriodSlider: React.FC<PeriodSliderProps> = ({
     );
 };
 
-export default PeriodSlider; 
+export default PeriodSlider;
@@ -1,7 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { GeoJSON, useMap } from 'react-leaflet';
 import axios, { AxiosResponse } from 'axios';
-import proj4 from 'proj4';
 import L from 'leaflet';
 import { Feature, FeatureCollection, GeoJsonProperties, Geometry } from 'geojson';
 import Legend from './Legend';
@@ -10,24 +9,9 @@ import PeriodSlider from './PeriodSlider';
 import VisualizationSelector, { VisualizationType } from './VisualizationSelector';
 import LayerControl from './LayerControl';
 import { escapeHTML } from '../utils/stringUtils';
-
-// Helper function to transform a single coordinate pair
-const transformCoordinatePair = (pair: number[]): number[] => {
-    const [x, y] = pair;
-    return proj4('EPSG:3879', 'EPSG:4326', [x, y]);
-};
-
-// Helper function to transform all coordinates in a ring (returns new array)
-const transformRing = (ring: number[][]): number[][] => {
-    // Use map to create a new array with transformed coordinates
-    return ring.map(transformCoordinatePair);
-};
-
-// Define the coordinate systems
-// EPSG:3879 - Helsinki local coordinate system (used by HSY)
-// EPSG:4326 - WGS84 (used by Leaflet)
-proj4.defs('EPSG:3879', '+proj=tmerc +lat_0=0 +lon_0=25 +k=1 +x_0=25500000 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
-proj4.defs('EPSG:4326', '+proj=longlat +datum=WGS84 +no_defs +type=crs');
+import { TrendPeriod, getEarliestEndYear, getPeriodStartYear } from '../utils/trendPeriod';
+import { PeriodGranularity, convertPeriodKey, getLatestCompletedQuarter, listPeriodKeys, toPeriodKey } from '../utils/periodKey';
+import { getTravelTimeColor } from '../utils/travelTime';
 
 // Define interface for property price data
 interface PropertyPrice {
@@ -38,6 +22,15 @@ interface PropertyPrice {
     prices: {
         [buildingType: string]: number | string;
     };
+    // Number of sales behind each price
+    transactions?: {
+        [buildingType: string]: number | string;
+    };
+    // Price as a percentage of the municipality and capital region averages (yearly prices only)
+    priceIndex?: {
+        municipality: { [buildingType: string]: number | null };
+        region: { [buildingType: string]: number | null };
+    };
 }
 
 // Define interface for price trend data
@@ -46,6 +39,8 @@ interface PriceTrend {
     district: string;
     municipality: string;
     fullLabel: string;
+    startYear: number;
+    endYear: number;
     trends: {
         [buildingType: string]: {
             percentChange: number;
@@ -53,10 +48,27 @@ interface PriceTrend {
             startPrice: number | null;
             endPrice: number | null;
             averageYearlyChange: number;
+            cagr: number;
+            slope: number;
+            rSquared: number;
+            volatility: number | null;
+            yearsWithData: number;
         } | null;
     };
 }
 
+// Median public transport travel time from a postcode area to the destination
+interface PostcodeTravelTime {
+    postalCode: string;
+    minutes: number | null;
+    itineraryCount: number;
+}
+
+interface TravelTimeMetadata {
+    destination: { name: string; lat: number; lon: number };
+    departure: string; // Local Helsinki time, e.g. '2026-10-20T08:00'
+}
+
 // Green Space specific type
 // Use intersection type instead of extends
 type GreenSpaceProperties = GeoJsonProperties & {
@@ -67,9 +79,16 @@ type GreenSpaceProperties = GeoJsonProperties & {
 const CURRENT_YEAR = new Date().getFullYear();
 const START_YEAR = 2010;
 const DEFAULT_YEAR = 2024;
+const QUARTERLY_START_YEAR = 2015; // Quarterly prices are published per municipality from 2015
+
+const YEAR_PERIODS = listPeriodKeys('year', START_YEAR, toPeriodKey(CURRENT_YEAR - 1));
+const QUARTER_PERIODS = listPeriodKeys('quarter', QUARTERLY_START_YEAR, getLatestCompletedQuarter(new Date()));
 
 const GREEN_SPACE_PANE = 'greenSpacePane';
 
+// Zoom level the server simplifies the boundaries for: a couple of levels closer than the initial view
+const BOUNDARY_DETAIL_ZOOM = 13;
+
 // Flag to completely disable green spaces functionality
 const GREEN_SPACES_ENABLED = false;
 
@@ -77,11 +96,15 @@ const PostcodeBoundaries: React.FC = () => {
     const [boundariesGeoJSON, setBoundariesGeoJSON] = useState<FeatureCollection | null>(null);
     const [propertyPrices, setPropertyPrices] = useState<PropertyPrice[]>([]);
     const [priceTrends, setPriceTrends] = useState<PriceTrend[]>([]);
+    const [travelTimes, setTravelTimes] = useState<PostcodeTravelTime[]>([]);
+    const [travelTimeMetadata, setTravelTimeMetadata] = useState<TravelTimeMetadata | null>(null);
     const [greenSpacesGeoJSON, setGreenSpacesGeoJSON] = useState<FeatureCollection<Geometry, GreenSpaceProperties> | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
-    const [selectedYear, setSelectedYear] = useState<number>(DEFAULT_YEAR);
+    const [selectedPricePeriod, setSelectedPricePeriod] = useState<string>(toPeriodKey(DEFAULT_YEAR));
+    const [priceGranularity, setPriceGranularity] = useState<PeriodGranularity>('year');
     const [selectedEndYear, setSelectedEndYear] = useState<number>(DEFAULT_YEAR);
+    const [selectedPeriod, setSelectedPeriod] = useState<TrendPeriod>(5);
     const [visualizationType, setVisualizationType] = useState<VisualizationType>('heatmap');
 
     const [boundariesLoaded, setBoundariesLoaded] = useState<boolean>(false);
@@ -94,14 +117,25 @@ const PostcodeBoundaries: React.FC = () => {
 
     const map = useMap(); // Get map instance
 
-    const handleYearChange = useCallback((year: number) => {
-        setSelectedYear(year);
+    const handleYearChange = useCallback((period: string) => {
+        setSelectedPricePeriod(period);
+    }, []);
+
+    const handleGranularityChange = useCallback((granularity: PeriodGranularity) => {
+        setPriceGranularity(granularity);
+        setSelectedPricePeriod(prev => convertPeriodKey(prev, granularity, granularity === 'quarter' ? QUARTER_PERIODS : YEAR_PERIODS));
     }, []);
 
     const handlePeriodChange = useCallback((endYear: number) => {
         setSelectedEndYear(endYear);
     }, []);
 
+    const handlePeriodLengthChange = useCallback((period: TrendPeriod) => {
+        setSelectedPeriod(period);
+        // Move the end year forward if the longer period would start before the first year
+        setSelectedEndYear(prev => Math.max(prev, getEarliestEndYear(period, START_YEAR)));
+    }, []);
+
     const handleVisualizationChange = useCallback((type: VisualizationType) => {
         setVisualizationType(type);
         setDataLoadedForMode(false);
@@ -111,48 +145,19 @@ const PostcodeBoundaries: React.FC = () => {
         setShowGreenSpaces(prev => !prev);
     }, []);
 
-    const transformCoordinates = useCallback((geoJSON: FeatureCollection): FeatureCollection => {
-        const transformed = JSON.parse(JSON.stringify(geoJSON));
-
-        transformed.features.forEach((feature: Feature) => {
-            if (feature.geometry) {
-                switch (feature.geometry.type) {
-                    case 'Polygon':
-                        if (feature.geometry.coordinates) {
-                            // Use map to assign the new transformed rings back
-                            feature.geometry.coordinates = feature.geometry.coordinates.map(transformRing);
-                        }
-                        break;
-                    case 'MultiPolygon':
-                        if (feature.geometry.coordinates) {
-                            // Use nested map to assign the new transformed polygons/rings back
-                            feature.geometry.coordinates = feature.geometry.coordinates.map((polygon: number[][][]) =>
-                                polygon.map(transformRing)
-                            );
-                        }
-                        break;
-                    // Add cases for other geometry types if needed
-                }
-            }
-        });
-
-        return transformed;
-    }, []);
-
-    const fetchPropertyPrices = useCallback(async (year: number) => {
-        const yearString = year.toString();
+    const fetchPropertyPrices = useCallback(async (periodKey: string) => {
         try {
-            const response = await axios.get<{ data: PropertyPrice[] }>(`/api/property-prices?year=${yearString}`);
+            const response = await axios.get<{ data: PropertyPrice[] }>(`/api/property-prices?periodKey=${periodKey}`);
             return response.data.data;
         } catch (error) {
-            console.error(`Error fetching property prices for year ${yearString}:`, error);
-            throw new Error(`Failed to fetch property prices for ${yearString}.`);
+            console.error(`Error fetching property prices for period ${periodKey}:`, error);
+            throw new Error(`Failed to fetch property prices for ${periodKey}.`);
         }
     }, []);
 
-    const fetchPriceTrends = useCallback(async (endYear: number) => {
+    const fetchPriceTrends = useCallback(async (endYear: number, period: TrendPeriod) => {
         try {
-            const response = await axios.get<{ data: PriceTrend[] }>(`/api/property-prices/trends?endYear=${endYear}`);
+            const response = await axios.get<{ data: PriceTrend[] }>(`/api/property-prices/trends?endYear=${endYear}&period=${period}`);
             return response.data.data;
         } catch (error) {
             console.error(`Error fetching price trends ending at ${endYear}:`, error);
@@ -160,6 +165,16 @@ const PostcodeBoundaries: React.FC = () => {
         }
     }, []);
 
+    const fetchTravelTimes = useCallback(async () => {
+        try {
+            const response = await axios.get<{ data: PostcodeTravelTime[]; metadata: TravelTimeMetadata }>('/api/map-data/travel-times');
+            return response.data;
+        } catch (error) {
+            console.error('Error fetching travel times:', error);
+            throw new Error('Failed to fetch travel times.');
+        }
+    }, []);
+
     const fetchGreenSpacesData = useCallback(async () => {
         // Skip if green spaces are disabled
         if (!GREEN_SPACES_ENABLED) {
@@ -260,11 +275,13 @@ const PostcodeBoundaries: React.FC = () => {
         switch (visualizationType) {
             case 'trend':
                 return getTrendColor(postalCode);
+            case 'travelTime':
+                return getTravelTimeColor(travelTimes.find(t => t.postalCode === postalCode)?.minutes);
             case 'heatmap':
             default:
                 return getPriceColor(postalCode);
         }
-    }, [getPriceColor, getTrendColor, visualizationType]);
+    }, [getPriceColor, getTrendColor, travelTimes, visualizationType]);
 
     const styleBoundaries = useCallback((feature?: Feature) => {
         const postalCode = feature?.properties?.postalCode;
@@ -290,32 +307,46 @@ const PostcodeBoundaries: React.FC = () => {
     };
 
     // Helper function to generate tooltip content for heatmap mode
-    const getHeatmapTooltipContent = useCallback((postalCode: string, prices: PropertyPrice[]): string => {
+    const getHeatmapTooltipContent = useCallback((postalCode: string, prices: PropertyPrice[], granularity: PeriodGranularity): string => {
         let content = `<b>Postcode: ${escapeHTML(postalCode)}</b>`;
         const priceData = prices.find(p => p.postalCode === postalCode);
         if (priceData) {
             content += `<br/><b>${escapeHTML(priceData.district)}, ${escapeHTML(priceData.municipality)}</b><br/><hr/>`;
             const priceInfo = Object.entries(priceData.prices)
                 .filter(([, price]) => price !== 'N/A' && !isNaN(Number(price)) && Number(price) > 0)
-                .map(([type, price]) => `${escapeHTML(type)}: ${escapeHTML(price)} €/m²`);
+                .map(([type, price]) => {
+                    // eslint-disable-next-line security/detect-object-injection
+                    const count = priceData.transactions?.[type];
+                    const countStr = typeof count === 'number' ? ` (${escapeHTML(count)} sales)` : '';
+                    // eslint-disable-next-line security/detect-object-injection
+                    const municipalityIndex = priceData.priceIndex?.municipality[type];
+                    const indexStr = typeof municipalityIndex === 'number'
+                        ? `, index ${escapeHTML(municipalityIndex)} vs ${escapeHTML(priceData.municipality)}`
+                        : '';
+                    return `${escapeHTML(type)}: ${escapeHTML(price)} €/m²${countStr}${indexStr}`;
+                });
             if (priceInfo.length > 0) {
-                content += '<b>Avg. Prices (€/m²):</b><br/>' + priceInfo.join('<br/>');
+                // Quarterly prices are municipality averages
+                const heading = granularity === 'quarter'
+                    ? `<b>Avg. Prices in ${escapeHTML(priceData.municipality)} (€/m²):</b><br/>`
+                    : '<b>Avg. Prices (€/m²):</b><br/>';
+                content += heading + priceInfo.join('<br/>');
             } else {
-                content += 'No valid price data available for this year';
+                content += 'No valid price data available for this period';
             }
         } else {
-            content += '<br/>No property price data found for this year';
+            content += '<br/>No property price data found for this period';
         }
         return content;
     }, []);
 
     // Helper function to generate tooltip content for trend mode
-    const getTrendTooltipContent = useCallback((postalCode: string, trends: PriceTrend[], endYear: number): string => {
+    const getTrendTooltipContent = useCallback((postalCode: string, trends: PriceTrend[]): string => {
         let content = `<b>Postcode: ${escapeHTML(postalCode)}</b>`;
         const trendData = trends.find(p => p.postalCode === postalCode);
         if (trendData) {
             content += `<br/><b>${escapeHTML(trendData.district)}, ${escapeHTML(trendData.municipality)}</b><br/><hr/>`;
-            content += `<b>Price Trends (${escapeHTML(endYear - 4)}-${escapeHTML(endYear)}):</b><br/>`;
+            content += `<b>Price Trends (${escapeHTML(trendData.startYear)}-${escapeHTML(trendData.endYear)}):</b><br/>`;
             const trendInfo = Object.entries(trendData.trends)
                 .filter(([, data]) => data !== null)
                 .map(([type, data]) => {
@@ -328,7 +359,10 @@ const PostcodeBoundaries: React.FC = () => {
                     }
                     const startPriceStr = data.startPrice !== null ? escapeHTML(data.startPrice) : 'N/A';
                     const endPriceStr = data.endPrice !== null ? escapeHTML(data.endPrice) : 'N/A';
-                    return `${escapeHTML(type)}: ${escapeHTML(data.percentChange.toFixed(1))}% ${directionArrow} (${startPriceStr} → ${endPriceStr} €/m²)`;
+                    const volatilityStr = data.volatility !== null ? `, volatility ${escapeHTML(data.volatility.toFixed(1))}%` : '';
+                    return `${escapeHTML(type)}: ${escapeHTML(data.percentChange.toFixed(1))}% ${directionArrow} (${startPriceStr} → ${endPriceStr} €/m²)`
+                        + `<br/><small>CAGR ${escapeHTML(data.cagr.toFixed(1))}%/yr, fit ${escapeHTML(Math.round(data.slope))} €/m²/yr `
+                        + `(R² ${escapeHTML(data.rSquared.toFixed(2))})${volatilityStr}, ${escapeHTML(data.yearsWithData)} years of data</small>`;
                 })
                 .filter(info => info !== '');
             if (trendInfo.length > 0) {
@@ -342,6 +376,21 @@ const PostcodeBoundaries: React.FC = () => {
         return content;
     }, []);
 
+    // Helper function to generate tooltip content for travel time mode
+    const getTravelTimeTooltipContent = useCallback((postalCode: string, times: PostcodeTravelTime[], metadata: TravelTimeMetadata | null): string => {
+        let content = `<b>Postcode: ${escapeHTML(postalCode)}</b>`;
+        const travelTime = times.find(t => t.postalCode === postalCode);
+        if (travelTime && travelTime.minutes !== null) {
+            const destination = metadata ? ` to ${escapeHTML(metadata.destination.name)}` : '';
+            content += `<br/><hr/><b>Public transport${destination}:</b> ${escapeHTML(travelTime.minutes)} min`;
+            content += `<br/><small>Median of ${escapeHTML(travelTime.itineraryCount)} trips`;
+            content += metadata ? ` departing ${escapeHTML(metadata.departure.replace('T', ' at '))}</small>` : '</small>';
+        } else {
+            content += '<br/>No public transport trip found for this area';
+        }
+        return content;
+    }, []);
+
     const onEachBoundaryFeature = useCallback((feature: Feature, layer: L.Layer) => {
         if (!feature || !feature.properties) return;
         const postalCode = feature.properties.postalCode;
@@ -354,9 +403,11 @@ const PostcodeBoundaries: React.FC = () => {
             }
 
             if (visualizationType === 'heatmap') {
-                return getHeatmapTooltipContent(postalCode, propertyPrices);
+                return getHeatmapTooltipContent(postalCode, propertyPrices, priceGranularity);
             } else if (visualizationType === 'trend') {
-                return getTrendTooltipContent(postalCode, priceTrends, selectedEndYear);
+                return getTrendTooltipContent(postalCode, priceTrends);
+            } else if (visualizationType === 'travelTime') {
+                return getTravelTimeTooltipContent(postalCode, travelTimes, travelTimeMetadata);
             }
             // Fallback or default content if needed
             return `<b>Postcode: ${escapeHTML(postalCode)}</b>`;
@@ -386,12 +437,15 @@ const PostcodeBoundaries: React.FC = () => {
     }, [
         propertyPrices,
         priceTrends,
+        travelTimes,
+        travelTimeMetadata,
+        priceGranularity,
         visualizationType,
         styleBoundaries,
-        selectedEndYear,
         dataLoadedForMode,
         getHeatmapTooltipContent, // Add new dependencies
-        getTrendTooltipContent   // Add new dependencies
+        getTrendTooltipContent,   // Add new dependencies
+        getTravelTimeTooltipContent
     ]);
 
     const onEachGreenSpaceFeature = (feature: Feature<Geometry, GreenSpaceProperties>, layer: L.Layer) => {
@@ -421,7 +475,7 @@ const PostcodeBoundaries: React.FC = () => {
             setError(null);
             try {
                 // Explicitly type the FeatureCollection generics
-                const boundariesResponse: AxiosResponse<FeatureCollection<Geometry, GeoJsonProperties>> = await axios.get<FeatureCollection>('/api/postcodes');
+                const boundariesResponse: AxiosResponse<FeatureCollection<Geometry, GeoJsonProperties>> = await axios.get<FeatureCollection>('/api/postcodes', { params: { zoom: BOUNDARY_DETAIL_ZOOM } });
 
                 // Robust check for valid FeatureCollection structure
                 if (!boundariesResponse.data ||
@@ -432,23 +486,10 @@ const PostcodeBoundaries: React.FC = () => {
                     throw new Error('Failed to fetch boundary data (invalid, empty, or missing features array).');
                 }
 
-                const transformedBoundaries = transformCoordinates(boundariesResponse.data);
-                transformedBoundaries.features.forEach((feature: Feature<Geometry, GeoJsonProperties>) => {
-                    const props = feature.properties;
-                    if (props && props.posno) {
-                        // Ensure properties object exists before modification
-                        if (!feature.properties) {
-                            feature.properties = {};
-                        }
-                        feature.properties.postalCode = props.posno;
-                    } else {
-                        // Log if a feature is missing the postcode property
-                        // console.warn('Feature missing posno property:', feature.properties);
-                    }
-                });
+                // The server returns WGS84 coordinates with a postalCode property on every feature
                 if (isMounted) {
-                    console.log("Boundaries fetched and transformed successfully.");
-                    setBoundariesGeoJSON(transformedBoundaries);
+                    console.log("Boundaries fetched successfully.");
+                    setBoundariesGeoJSON(boundariesResponse.data);
                     setBoundariesLoaded(true);
 
                     // Only fetch green spaces if enabled
@@ -468,7 +509,7 @@ const PostcodeBoundaries: React.FC = () => {
         };
         fetchBoundariesAndGreenSpaces();
         return () => { isMounted = false; };
-    }, [transformCoordinates, fetchGreenSpacesData, boundariesGeoJSON]);
+    }, [fetchGreenSpacesData, boundariesGeoJSON]);
 
     useEffect(() => {
         if (!boundariesLoaded) {
@@ -478,32 +519,34 @@ const PostcodeBoundaries: React.FC = () => {
 
         let isMounted = true;
         const loadModeData = async () => {
-            console.log(`Fetching data for mode: ${visualizationType}, year/period: ${visualizationType === 'heatmap' ? selectedYear : selectedEndYear}`);
+            console.log(`Fetching data for mode: ${visualizationType}, year/period: ${visualizationType === 'heatmap' ? selectedPricePeriod : selectedEndYear}`);
             setDataLoadedForMode(false);
             setIsLoading(true);
             setError(null);
 
             try {
+                // Fetch the data of the selected mode; the other modes' data is cleared
+                let pricesData: PropertyPrice[] = [];
+                let trendsData: PriceTrend[] = [];
+                let travelTimeData: { data: PostcodeTravelTime[]; metadata: TravelTimeMetadata } | null = null;
                 if (visualizationType === 'heatmap') {
-                    const pricesData = await fetchPropertyPrices(selectedYear);
-                    if (isMounted) {
-                        setPropertyPrices(pricesData);
-                        setPriceTrends([]);
-                        setDataLoadedForMode(true);
-                        console.log(`Heatmap data loaded for ${selectedYear}`);
-                    }
+                    pricesData = await fetchPropertyPrices(selectedPricePeriod);
                 } else if (visualizationType === 'trend') {
-                    const trendsData = await fetchPriceTrends(selectedEndYear);
-                    if (isMounted) {
-                        setPriceTrends(trendsData);
-                        setPropertyPrices([]);
-                        setDataLoadedForMode(true);
-                        console.log(`Trend data loaded for period ending ${selectedEndYear}`);
-                    }
+                    trendsData = await fetchPriceTrends(selectedEndYear, selectedPeriod);
+                } else if (visualizationType === 'travelTime') {
+                    travelTimeData = await fetchTravelTimes();
                 }
-                if (isMounted) {
-                    setIsLoading(false);
+                if (!isMounted) return;
+
+                setPropertyPrices(pricesData);
+                setPriceTrends(trendsData);
+                setTravelTimes(travelTimeData?.data ?? []);
+                if (travelTimeData) {
+                    setTravelTimeMetadata(travelTimeData.metadata);
                 }
+                setDataLoadedForMode(true);
+                setIsLoading(false);
+                console.log(`${visualizationType} data loaded`);
             } catch (err: unknown) {
                 const errorMessage = err instanceof Error ? err.message : String(err);
                 console.error(`Error loading ${visualizationType} data:`, err);
@@ -512,6 +555,7 @@ const PostcodeBoundaries: React.FC = () => {
                     setIsLoading(false);
                     setPropertyPrices([]);
                     setPriceTrends([]);
+                    setTravelTimes([]);
                     setDataLoadedForMode(false);
                 }
             }
@@ -519,7 +563,7 @@ const PostcodeBoundaries: React.FC = () => {
 
         loadModeData();
         return () => { isMounted = false; };
-    }, [visualizationType, selectedYear, selectedEndYear, boundariesLoaded, fetchPropertyPrices, fetchPriceTrends]);
+    }, [visualizationType, selectedPricePeriod, selectedEndYear, selectedPeriod, boundariesLoaded, fetchPropertyPrices, fetchPriceTrends, fetchTravelTimes]);
 
     if (!boundariesLoaded && isLoading) {
         return <div style={{ textAlign: 'center', padding: '20px' }}>Loading map data...</div>;
@@ -534,9 +578,12 @@ const PostcodeBoundaries: React.FC = () => {
     const modeDataIsLoading = isLoading && boundariesLoaded;
     const showGeoJson = boundariesLoaded && dataLoadedForMode;
 
-    const legendTitle = visualizationType === 'heatmap'
-        ? `Property Prices (€/m²)`
-        : `Price Trend ${selectedEndYear - 4}-${selectedEndYear}`;
+    let legendTitle = `Property Prices (€/m²)`;
+    if (visualizationType === 'trend') {
+        legendTitle = `Price Trend ${getPeriodStartYear(selectedPeriod, selectedEndYear, START_YEAR)}-${selectedEndYear}`;
+    } else if (visualizationType === 'travelTime') {
+        legendTitle = `Travel Time to ${travelTimeMetadata?.destination.name ?? 'City Centre'} (min)`;
+    }
 
     return (
         <>
@@ -548,7 +595,7 @@ const PostcodeBoundaries: React.FC = () => {
 
             {showGeoJson && boundariesGeoJSON && boundariesGeoJSON.features.length > 0 ? (
                 <GeoJSON
-                    key={`${visualizationType}-${selectedYear}-${selectedEndYear}`}
+                    key={`${visualizationType}-${selectedPricePeriod}-${selectedEndYear}-${selectedPeriod}`}
                     data={boundariesGeoJSON}
                     style={styleBoundaries}
                     onEachFeature={onEachBoundaryFeature}
@@ -589,21 +636,25 @@ const PostcodeBoundaries: React.FC = () => {
             {boundariesLoaded && (
                 <>
                     <Legend title={legendTitle} />
-                    {visualizationType === 'heatmap' ? (
+                    {visualizationType === 'heatmap' && (
                         <YearSlider
                             key="year-slider"
-                            minYear={START_YEAR}
-                            maxYear={CURRENT_YEAR - 1}
-                            selectedYear={selectedYear}
+                            periods={priceGranularity === 'quarter' ? QUARTER_PERIODS : YEAR_PERIODS}
+                            selectedPeriod={selectedPricePeriod}
                             onChange={handleYearChange}
+                            granularity={priceGranularity}
+                            onGranularityChange={handleGranularityChange}
                         />
-                    ) : (
+                    )}
+                    {visualizationType === 'trend' && (
                         <PeriodSlider
                             key="period-slider"
                             minYear={START_YEAR}
                             maxYear={CURRENT_YEAR - 1}
                             endYear={selectedEndYear}
                             onChange={handlePeriodChange}
+                            period={selectedPeriod}
+                            onPeriodChange={handlePeriodLengthChange}
                         />
                     )}
                 </>
@@ -1,7 +1,7 @@
 import React from 'react';
 import './VisualizationSelector.css';
 
-export type VisualizationType = 'heatmap' | 'trend';
+export type VisualizationType = 'heatmap' | 'trend' | 'travelTime';
 
 interface VisualizationSelectorProps {
     currentType: VisualizationType;
@@ -39,6 +39,16 @@ const VisualizationSelector: React.FC<VisualizationSelectorProps> = ({
                 />
                 Price Trend
             </label>
+            <label>
+                <input
+                    type="radio"
+                    name="visualizationType"
+                    value="travelTime"
+                    checked={currentType === 'travelTime'}
+                    onChange={handleChange}
+                />
+                Travel Time
+            </label>
         </div>
     );
 };
@@ -1,19 +1,27 @@
 import React, { useRef, useEffect } from 'react';
 import L from 'leaflet'; // Import Leaflet
 import './YearSlider.css'; // We'll create this CSS file
+import { PeriodGranularity, formatPeriodKey } from '../utils/periodKey';
 
 interface YearSliderProps {
-    minYear: number;
-    maxYear: number;
-    selectedYear: number;
-    onChange: (year: number) => void;
+    periods: string[]; // Period keys in order, e.g. ["2022", "2023"] or ["2023Q1", "2023Q2"]
+    selectedPeriod: string;
+    onChange: (period: string) => void;
+    granularity?: PeriodGranularity;
+    onGranularityChange?: (granularity: PeriodGranularity) => void;
 }
 
+const GRANULARITY_OPTIONS: { value: PeriodGranularity; label: string }[] = [
+    { value: 'year', label: 'Yearly' },
+    { value: 'quarter', label: 'Quarterly' }
+];
+
 const YearSlider: React.FC<YearSliderProps> = ({
-    minYear,
-    maxYear,
-    selectedYear,
-    onChange
+    periods,
+    selectedPeriod,
+    onChange,
+    granularity = 'year',
+    onGranularityChange
 }) => {
     const sliderRef = useRef<HTMLDivElement>(null); // Create a ref for the container
 
@@ -26,29 +34,48 @@ const YearSlider: React.FC<YearSliderProps> = ({
         }
     }, []); // Run only once on mount
 
+    // The slider steps through the period list by index
+    const selectedIndex = Math.max(0, periods.indexOf(selectedPeriod));
+
     const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        onChange(parseInt(event.target.value, 10));
+        onChange(periods[parseInt(event.target.value, 10)]);
     };
 
     return (
         // Attach the ref to the container div
         <div ref={sliderRef} className="year-slider">
-            <div className="year-slider-label">Year: {selectedYear}</div>
+            <div className="year-slider-label">
+                {granularity === 'quarter' ? 'Quarter' : 'Year'}: {formatPeriodKey(selectedPeriod)}
+            </div>
+            {onGranularityChange && (
+                <div className="granularity-options">
+                    {GRANULARITY_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            className={`granularity-option${option.value === granularity ? ' active' : ''}`}
+                            onClick={() => onGranularityChange(option.value)}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            )}
             <input
                 type="range"
-                min={minYear}
-                max={maxYear}
+                min={0}
+                max={periods.length - 1}
                 step="1"
-                value={selectedYear}
+                value={selectedIndex}
                 onChange={handleChange}
                 className="year-slider-input"
             />
             <div className="year-slider-values">
-                <span>{minYear}</span>
-                <span>{maxYear}</span>
+                <span>{formatPeriodKey(periods[0])}</span>
+                <span>{formatPeriodKey(periods[periods.length - 1])}</span>
             </div>
         </div>
     );
 };
 
-export default YearSlider; 
+export default YearSlider;
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { convertPeriodKey, formatPeriodKey, getLatestCompletedQuarter, listPeriodKeys } from '../periodKey';
+
+describe('periodKey', () => {
+    describe('getLatestCompletedQuarter', () => {
+        it('returns the previous quarter', () => {
+            expect(getLatestCompletedQuarter(new Date(2024, 4, 15))).toBe('2024Q1');
+            expect(getLatestCompletedQuarter(new Date(2024, 11, 31))).toBe('2024Q3');
+        });
+
+        it('returns the last quarter of the previous year in the first quarter', () => {
+            expect(getLatestCompletedQuarter(new Date(2024, 1, 1))).toBe('2023Q4');
+        });
+    });
+
+    describe('listPeriodKeys', () => {
+        it('lists years', () => {
+            expect(listPeriodKeys('year', 2021, '2023')).toEqual(['2021', '2022', '2023']);
+        });
+
+        it('lists quarters up to the last key', () => {
+            expect(listPeriodKeys('quarter', 2022, '2023Q2')).toEqual(['2022Q1', '2022Q2', '2022Q3', '2022Q4', '2023Q1', '2023Q2']);
+        });
+    });
+
+    describe('convertPeriodKey', () => {
+        const quarters = listPeriodKeys('quarter', 2022, '2024Q2');
+
+        it('switches a year to its last quarter', () => {
+            expect(convertPeriodKey('2023', 'quarter', quarters)).toBe('2023Q4');
+        });
+
+        it('uses the latest quarter of an unfinished year', () => {
+            expect(convertPeriodKey('2024', 'quarter', quarters)).toBe('2024Q2');
+        });
+
+        it('switches a quarter to its year', () => {
+            expect(convertPeriodKey('2023Q2', 'year', ['2022', '2023'])).toBe('2023');
+        });
+
+        it('falls back to the latest period', () => {
+            expect(convertPeriodKey('2010', 'quarter', quarters)).toBe('2024Q2');
+        });
+    });
+
+    it('formats period keys for display', () => {
+        expect(formatPeriodKey('2023Q2')).toBe('2023 Q2');
+        expect(formatPeriodKey('2023')).toBe('2023');
+    });
+});
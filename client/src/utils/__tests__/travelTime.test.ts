@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { NO_DATA_COLOR, TRAVEL_TIME_CLASSES, getTravelTimeColor } from '../travelTime';
+
+describe('travelTime', () => {
+    describe('getTravelTimeColor', () => {
+        it('colours a travel time by the first class it is below', () => {
+            expect(getTravelTimeColor(8)).toBe('#1a9850');
+            expect(getTravelTimeColor(15)).toBe('#91cf60');
+            expect(getTravelTimeColor(59)).toBe('#fc8d59');
+            expect(getTravelTimeColor(95)).toBe('#d73027');
+        });
+
+        it('uses the no data colour for areas without a trip', () => {
+            expect(getTravelTimeColor(null)).toBe(NO_DATA_COLOR);
+            expect(getTravelTimeColor(undefined)).toBe(NO_DATA_COLOR);
+        });
+    });
+
+    it('orders the classes from the shortest travel time', () => {
+        const limits = TRAVEL_TIME_CLASSES.map(travelTimeClass => travelTimeClass.maxMinutes);
+        expect(limits).toEqual([...limits].sort((a, b) => a - b));
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { getEarliestEndYear, getPeriodStartYear } from '../trendPeriod';
+
+describe('trendPeriod', () => {
+    describe('getPeriodStartYear', () => {
+        it('counts the period back from the end year', () => {
+            expect(getPeriodStartYear(5, 2024, 2010)).toBe(2020);
+            expect(getPeriodStartYear(3, 2024, 2010)).toBe(2022);
+        });
+
+        it('starts the full period at the first year', () => {
+            expect(getPeriodStartYear('full', 2024, 2010)).toBe(2010);
+        });
+    });
+
+    describe('getEarliestEndYear', () => {
+        it('keeps the whole period at or after the first year', () => {
+            expect(getEarliestEndYear(10, 2010)).toBe(2019);
+            expect(getEarliestEndYear('full', 2010)).toBe(2011);
+        });
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * Granularity of the property price time controls.
+ */
+export type PeriodGranularity = 'year' | 'quarter';
+
+/**
+ * Builds the period key of a year ("2023") or a quarter ("2023Q2"), as used by the API.
+ */
+export const toPeriodKey = (year: number, quarter?: number): string =>
+    quarter ? `${year}Q${quarter}` : year.toString();
+
+/**
+ * Returns the year of a period key.
+ */
+export const getPeriodYear = (periodKey: string): number => parseInt(periodKey.slice(0, 4), 10);
+
+/**
+ * Formats a period key for display, e.g. "2023 Q2".
+ */
+export const formatPeriodKey = (periodKey: string): string => periodKey.replace('Q', ' Q');
+
+/**
+ * Returns the period key of the last quarter that has ended before the given date.
+ */
+export const getLatestCompletedQuarter = (date: Date): string => {
+    const quarter = Math.floor(date.getMonth() / 3); // 0-based current quarter = 1-based previous quarter
+    return quarter === 0 ? toPeriodKey(date.getFullYear() - 1, 4) : toPeriodKey(date.getFullYear(), quarter);
+};
+
+/**
+ * Lists every period key from the first year up to and including the last key, in order.
+ * @param granularity Whether to step by year or by quarter.
+ * @param firstYear The first year to include.
+ * @param lastKey The last period key to include, with the same granularity.
+ */
+export const listPeriodKeys = (granularity: PeriodGranularity, firstYear: number, lastKey: string): string[] => {
+    const keys: string[] = [];
+    const lastYear = getPeriodYear(lastKey);
+    for (let year = firstYear; year <= lastYear; year++) {
+        if (granularity === 'year') {
+            keys.push(toPeriodKey(year));
+            continue;
+        }
+        for (let quarter = 1; quarter <= 4; quarter++) {
+            const key = toPeriodKey(year, quarter);
+            keys.push(key);
+            if (key === lastKey) break;
+        }
+    }
+    return keys;
+};
+
+/**
+ * Picks the period to show after switching granularity: the last quarter of the selected year,
+ * or the year of the selected quarter. Falls back to the latest available period.
+ * @param periodKey The currently selected period key.
+ * @param granularity The new granularity.
+ * @param availableKeys The period keys available with the new granularity.
+ */
+export const convertPeriodKey = (periodKey: string, granularity: PeriodGranularity, availableKeys: string[]): string => {
+    const year = getPeriodYear(periodKey);
+    const candidate = granularity === 'quarter' ? toPeriodKey(year, 4) : toPeriodKey(year);
+    if (availableKeys.includes(candidate)) {
+        return candidate;
+    }
+    const sameYear = availableKeys.filter(key => getPeriodYear(key) === year);
+    return sameYear.length > 0 ? sameYear[sameYear.length - 1] : availableKeys[availableKeys.length - 1];
+};
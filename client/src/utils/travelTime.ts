@@ -0,0 +1,31 @@
+/**
+ * Colour class of the travel time choropleth: areas up to `maxMinutes` (exclusive) get `color`.
+ */
+export interface TravelTimeClass {
+    maxMinutes: number;
+    color: string;
+    label: string;
+}
+
+// Shortest commutes in green, as the lowest prices are in the price heatmap
+export const TRAVEL_TIME_CLASSES: TravelTimeClass[] = [
+    { maxMinutes: 15, color: '#1a9850', label: ' < 15 min' },
+    { maxMinutes: 25, color: '#91cf60', label: ' 15 - 25 min' },
+    { maxMinutes: 35, color: '#d9ef8b', label: ' 25 - 35 min' },
+    { maxMinutes: 45, color: '#fee08b', label: ' 35 - 45 min' },
+    { maxMinutes: 60, color: '#fc8d59', label: ' 45 - 60 min' },
+    { maxMinutes: Infinity, color: '#d73027', label: ' ≥ 60 min' },
+];
+
+export const NO_DATA_COLOR = '#cccccc';
+
+/**
+ * Returns the choropleth colour of a travel time.
+ * @param minutes The median travel time, or null if no trip was found.
+ */
+export const getTravelTimeColor = (minutes: number | null | undefined): string => {
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes)) {
+        return NO_DATA_COLOR;
+    }
+    return TRAVEL_TIME_CLASSES.find(travelTimeClass => minutes < travelTimeClass.maxMinutes)?.color ?? NO_DATA_COLOR;
+};
@@ -0,0 +1,24 @@
+/**
+ * Trend period length in years, or 'full' for every year since the first published year.
+ */
+export type TrendPeriod = 3 | 5 | 10 | 'full';
+
+export const TREND_PERIODS: TrendPeriod[] = [3, 5, 10, 'full'];
+
+/**
+ * Returns the first year of a trend period.
+ * @param period The period length.
+ * @param endYear The last year of the period.
+ * @param minYear The first year with published data.
+ */
+export const getPeriodStartYear = (period: TrendPeriod, endYear: number, minYear: number): number =>
+    period === 'full' ? minYear : endYear - (period - 1);
+
+/**
+ * Returns the earliest end year for which the whole period stays at or after minYear.
+ * A full period needs at least two years.
+ * @param period The period length.
+ * @param minYear The first year with published data.
+ */
+export const getEarliestEndYear = (period: TrendPeriod, minYear: number): number =>
+    period === 'full' ? minYear + 1 : minYear + (period - 1);
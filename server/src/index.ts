@@ -4,6 +4,9 @@ import mapDataRouter from './routes/mapDataRoutes'; // Import the map data route
 import hsyWmsRouter from './routes/hsyWmsRoutes'; // Import the HSY WMS router
 import postcodeRoutes from './routes/postcodeRoutes'; // Import the postcode router
 import propertyPricesAndTrendsRouter from './routes/propertyPricesRoutes'; // Renamed import for clarity
+import rentalPricesRouter from './routes/rentalPricesRoutes'; // Import the rental prices router
+import tileRouter from './routes/tileRoutes'; // Import the vector tile router
+import adminRouter from './routes/adminRoutes'; // Import the admin router (requires ADMIN_API_KEY)
 import { initializeScheduledTasks } from './scheduledTasks'; // Import the scheduler initializer
 
 const app = express();
@@ -65,9 +68,12 @@ app.get('/', (req: Request, res: Response) => {
 
 // Mount routers
 app.use('/api/property-prices', propertyPricesAndTrendsRouter);
+app.use('/api/rental-prices', rentalPricesRouter); // Mount the rental prices router
 app.use('/api/map-data', mapDataRouter); // Mount the new router
 app.use('/api/walking-distance', hsyWmsRouter); // Mount the HSY WMS router
 app.use('/api/postcodes', postcodeRoutes); // Mount the postcode router
+app.use('/api/tiles', tileRouter); // Mount the vector tile router
+app.use('/api/admin', adminRouter); // Mount the admin router for cache and job introspection
 
 // Global error handler (optional basic example)
 app.use((err: Error, req: Request, res: Response) => {
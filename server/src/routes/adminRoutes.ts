@@ -0,0 +1,165 @@
+import express, { Request, Response, Router, NextFunction, RequestHandler } from 'express';
+import crypto from 'crypto';
+import { getRegisteredCache, getRegisteredCaches, SimpleCache } from '../utils/cache';
+import { getJobStatuses, runJob } from '../scheduledTasks';
+
+const router: Router = express.Router();
+
+/**
+ * Compares two strings in constant time.
+ */
+function safeEqual(a: string, b: string): boolean {
+    const hashA = crypto.createHash('sha256').update(a).digest();
+    const hashB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Requires an `Authorization: Bearer <ADMIN_API_KEY>` header.
+ * The admin API is disabled entirely when ADMIN_API_KEY is not set.
+ */
+const requireAdminApiKey: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
+    const adminApiKey = process.env.ADMIN_API_KEY;
+    if (!adminApiKey) {
+        res.status(503).json({ error: 'Admin API is disabled. Set the ADMIN_API_KEY environment variable to enable it.' });
+        return;
+    }
+
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : undefined;
+    if (!token || !safeEqual(token, adminApiKey)) {
+        res.status(401).json({ error: 'Missing or invalid admin API key.' });
+        return;
+    }
+    next();
+};
+
+router.use(requireAdminApiKey);
+
+/**
+ * Resolves the cache named in the route, or sends a 404.
+ */
+function findCache(req: Request, res: Response): SimpleCache<unknown> | undefined {
+    const cache = getRegisteredCache(req.params.name);
+    if (!cache) {
+        res.status(404).json({ error: `Unknown cache: ${req.params.name}` });
+    }
+    return cache;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+    return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * @route GET /api/admin/caches
+ * @description List every named cache with its entry count, keys, entry ages and hit/miss counters.
+ */
+router.get('/caches', (_req: Request, res: Response) => {
+    res.json({ data: getRegisteredCaches().map(cache => cache.getStats()) });
+});
+
+/**
+ * @route GET /api/admin/caches/:name
+ * @description Show a single cache.
+ */
+router.get('/caches/:name', (req: Request, res: Response) => {
+    const cache = findCache(req, res);
+    if (!cache) return;
+    res.json({ data: cache.getStats() });
+});
+
+/**
+ * @route DELETE /api/admin/caches/:name
+ * @description Clear all entries of a cache.
+ */
+router.delete('/caches/:name', (req: Request, res: Response) => {
+    const cache = findCache(req, res);
+    if (!cache) return;
+    cache.clear();
+    res.json({ data: cache.getStats() });
+});
+
+/**
+ * @route DELETE /api/admin/caches/:name/keys/:key
+ * @description Delete a single cache entry.
+ */
+router.delete('/caches/:name/keys/:key', (req: Request, res: Response) => {
+    const cache = findCache(req, res);
+    if (!cache) return;
+    if (!cache.delete(req.params.key)) {
+        res.status(404).json({ error: `Unknown key "${req.params.key}" in cache ${cache.name}.` });
+        return;
+    }
+    res.json({ data: cache.getStats() });
+});
+
+/**
+ * @route POST /api/admin/caches/:name/refresh
+ * @description Re-fetch every refreshable key of a cache. The old values are served until the new ones arrive.
+ */
+router.post('/caches/:name/refresh', async (req: Request, res: Response) => {
+    const cache = findCache(req, res);
+    if (!cache) return;
+    try {
+        const { refreshed, failed } = await cache.refreshAll();
+        res.status(failed.length > 0 ? 502 : 200).json({ refreshed, failed, data: cache.getStats() });
+    } catch (error) {
+        console.error(`Error refreshing cache ${cache.name}:`, error);
+        res.status(500).json({ error: errorMessage(error, 'Failed to refresh cache.') });
+    }
+});
+
+/**
+ * @route POST /api/admin/caches/:name/keys/:key/refresh
+ * @description Re-fetch a single cache key.
+ */
+router.post('/caches/:name/keys/:key/refresh', async (req: Request, res: Response) => {
+    const cache = findCache(req, res);
+    if (!cache) return;
+    const key = req.params.key;
+    if (!cache.getStats().entries.some(entry => entry.key === key && entry.refreshable)) {
+        res.status(404).json({ error: `Key "${key}" in cache ${cache.name} is unknown or cannot be refreshed.` });
+        return;
+    }
+    try {
+        await cache.refresh(key);
+        res.json({ refreshed: [key], failed: [], data: cache.getStats() });
+    } catch (error) {
+        console.error(`Error refreshing key "${key}" in cache ${cache.name}:`, error);
+        res.status(502).json({ error: errorMessage(error, 'Failed to refresh cache key.') });
+    }
+});
+
+/**
+ * @route GET /api/admin/jobs
+ * @description Show each scheduled job's last run time, duration and outcome.
+ */
+router.get('/jobs', (_req: Request, res: Response) => {
+    res.json({ data: getJobStatuses() });
+});
+
+/**
+ * @route POST /api/admin/jobs/:name/run
+ * @description Trigger a scheduled job. Responds with 202 once the job has started;
+ * poll GET /api/admin/jobs for its outcome.
+ */
+router.post('/jobs/:name/run', (req: Request, res: Response) => {
+    const name = req.params.name;
+    const status = getJobStatuses().find(job => job.name === name);
+    if (!status) {
+        res.status(404).json({ error: `Unknown job: ${name}` });
+        return;
+    }
+    if (status.lastOutcome === 'running') {
+        res.status(409).json({ error: `Job ${name} is already running.` });
+        return;
+    }
+
+    runJob(name).catch((error: unknown) => {
+        console.error(`Error running job ${name}:`, error);
+    });
+    res.status(202).json({ data: getJobStatuses().find(job => job.name === name) });
+});
+
+export default router;
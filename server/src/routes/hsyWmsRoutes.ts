@@ -1,5 +1,7 @@
 import express, { Router, Request, Response } from 'express';
-import { getWalkingDistance } from '../services/hsyWmsService';
+import { WalkingDistancePoint, getWalkingDistance, getWalkingDistances } from '../services/hsyWmsService';
+import { getPostcodeTransitAccessibility } from '../services/transitAccessibilityService';
+import { getWalkingZoneCoverage } from '../services/walkingZoneCoverageService';
 
 const router: Router = express.Router();
 
@@ -35,7 +37,7 @@ const getWalkingDistanceHandler = async (req: Request, res: Response) => {
         }
     } catch (error) {
         // This catch block is more for unexpected errors *within this handler*
-        // Service errors during WMS calls are handled within getWalkingDistance/checkWmsLayer
+        // Service errors during WMS calls are handled within getWalkingDistance
         let errorMessage = 'Internal server error while calculating walking distance.';
         if (error instanceof Error) {
             errorMessage = error.message;
@@ -47,7 +49,105 @@ const getWalkingDistanceHandler = async (req: Request, res: Response) => {
     }
 };
 
+const MAX_BATCH_POINTS = 500;
+
+/**
+ * Resolves the points of a batch request body: `{ "points": [{ "x": ..., "y": ... }, ...] }` in EPSG:3879.
+ * @returns The points, or an error message for a 400 response.
+ */
+function resolveBatchPoints(body: unknown): WalkingDistancePoint[] | { error: string } {
+    const points: unknown = typeof body === 'object' && body !== null ? (body as { points?: unknown }).points : undefined;
+    if (!Array.isArray(points) || points.length === 0) {
+        return { error: 'Missing or invalid request body: points must be a non-empty array of { x, y } objects.' };
+    }
+    if (points.length > MAX_BATCH_POINTS) {
+        return { error: `Too many points: at most ${MAX_BATCH_POINTS} points can be queried at once.` };
+    }
+    const isPoint = (point: unknown): point is WalkingDistancePoint =>
+        typeof point === 'object' && point !== null &&
+        Number.isFinite((point as WalkingDistancePoint).x) && Number.isFinite((point as WalkingDistancePoint).y);
+    if (!points.every(isPoint)) {
+        return { error: 'Invalid coordinate values: every point must have numeric x and y.' };
+    }
+    return points.map(({ x, y }) => ({ x, y }));
+}
+
 // Use the typed handler
 router.get('/', getWalkingDistanceHandler);
 
+// Route to get the walking distance zone and transit accessibility class of many points (EPSG:3879)
+// Expects a JSON body: { points: [{ x, y }, ...] }
+router.post('/batch', async (req: Request, res: Response) => {
+    try {
+        const points = resolveBatchPoints(req.body);
+        if ('error' in points) {
+            res.status(400).json({ error: points.error });
+            return;
+        }
+
+        const results = await getWalkingDistances(points);
+        res.json({
+            data: results,
+            metadata: { count: results.length }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating walking distances.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /api/walking-distance/batch route handler:', error.message);
+        } else {
+            console.error('Unknown error in /api/walking-distance/batch route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+// Route to get the walking distance zone and transit accessibility class of every postcode area,
+// measured at the interior point of each area
+router.get('/postcodes', async (req: Request, res: Response) => {
+    try {
+        const dataset = await getPostcodeTransitAccessibility();
+        res.json({
+            data: dataset,
+            metadata: { count: dataset.length }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating postcode transit accessibility.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /api/walking-distance/postcodes route handler:', error.message);
+        } else {
+            console.error('Unknown error in /api/walking-distance/postcodes route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+// Route to get the share of every postcode area within a 5, 10 and 15 minute walk of public transport,
+// from the walking zone polygons
+router.get('/coverage', async (req: Request, res: Response) => {
+    try {
+        const dataset = await getWalkingZoneCoverage();
+        res.json({
+            data: dataset,
+            metadata: { count: dataset.length, unit: '%' }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating walking zone coverage.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /api/walking-distance/coverage route handler:', error.message);
+        } else {
+            console.error('Unknown error in /api/walking-distance/coverage route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
 export default router; 
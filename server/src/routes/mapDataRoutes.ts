@@ -1,33 +1,217 @@
 import express, { Request, Response, Router } from 'express';
-import { fetchGreenSpaces } from '../services/overpassService';
+import {
+    MAX_OVERPASS_TILES,
+    OVERPASS_CATEGORY_IDS,
+    fetchCategory,
+    fetchCategoryInBoundingBox,
+    getOverpassTiles,
+    isOverpassCategory
+} from '../services/overpassService';
+import { LARGE_PARK_MIN_AREA_M2, getGreenSpaceMetrics } from '../services/greenSpaceMetricsService';
+import { getAmenityCounts } from '../services/amenityCountService';
+import { getTransitStopCounts, getTransitStops } from '../services/digitransitService';
+import { getTravelTimes } from '../services/travelTimeService';
+import { BoundingBox } from '../utils/geometry';
 
 const router: Router = express.Router();
 
 /**
- * @route GET /api/map-data/green-spaces
- * @description Get green space data (parks, forests etc.) for the Helsinki Metropolitan Area.
- * @returns {Object} GeoJSON FeatureCollection representing green spaces.
+ * @route GET /api/map-data/green-spaces/metrics
+ * @description Get the green area, green share, park count and distance to the nearest park of at least
+ * one hectare for every postcode area, computed from the green spaces and postcode boundaries.
+ * @returns {Object} `{ data, metadata }` with one entry per postcode area.
  */
-router.get('/green-spaces', async (req: Request, res: Response) => {
+router.get('/green-spaces/metrics', async (req: Request, res: Response) => {
     try {
-        // Call service without bbox
-        const greenSpaceGeoJson = await fetchGreenSpaces();
+        const metrics = await getGreenSpaceMetrics();
+        res.json({
+            data: metrics,
+            metadata: { count: metrics.length, largeParkMinAreaM2: LARGE_PARK_MIN_AREA_M2 }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating green space metrics.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /green-spaces/metrics route handler:', error.message);
+        } else {
+            console.error('Unknown error in /green-spaces/metrics route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+/**
+ * @route GET /api/map-data/transit-stops
+ * @description Get the public transport stops of the Helsinki region from Digitransit, with the
+ * transport modes and routes serving each stop.
+ * @returns {Object} GeoJSON FeatureCollection of stop points.
+ */
+router.get('/transit-stops', async (req: Request, res: Response) => {
+    try {
+        res.json(await getTransitStops());
+    } catch (error) {
+        let errorMessage = 'Internal server error while fetching transit stops.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /transit-stops route handler:', error.message);
+        } else {
+            console.error('Unknown error in /transit-stops route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+/**
+ * @route GET /api/map-data/transit-stops/counts
+ * @description Get the number of transit stops and distinct routes in every postcode area.
+ * @returns {Object} `{ data, metadata }` with one entry per postcode area.
+ */
+router.get('/transit-stops/counts', async (req: Request, res: Response) => {
+    try {
+        const counts = await getTransitStopCounts();
+        res.json({
+            data: counts,
+            metadata: { count: counts.length }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while counting transit stops.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /transit-stops/counts route handler:', error.message);
+        } else {
+            console.error('Unknown error in /transit-stops/counts route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+/**
+ * @route GET /api/map-data/travel-times
+ * @description Get the median public transport travel time from every postcode area to the configured
+ * destination (Helsinki Central Station by default), departing on a weekday morning.
+ * @returns {Object} `{ data, metadata }` with one entry per postcode area; the metadata names the destination and departure.
+ */
+router.get('/travel-times', async (req: Request, res: Response) => {
+    try {
+        const { destination, departure, travelTimes } = await getTravelTimes();
+        res.json({
+            data: travelTimes,
+            metadata: { destination, departure, count: travelTimes.length, unit: 'min' }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating travel times.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /travel-times route handler:', error.message);
+        } else {
+            console.error('Unknown error in /travel-times route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+const unknownCategoryError = (category: string): string =>
+    `Unknown map data category: ${category}. Available categories: ${OVERPASS_CATEGORY_IDS.join(', ')}.`;
+
+/**
+ * @route GET /api/map-data/:category/counts
+ * @description Get the number of features of a category in every postcode area, and the count per km².
+ * @returns {Object} `{ data, metadata }` with one entry per postcode area.
+ */
+router.get('/:category/counts', async (req: Request, res: Response) => {
+    const { category } = req.params;
+    if (!isOverpassCategory(category)) {
+        res.status(404).json({ error: unknownCategoryError(category) });
+        return;
+    }
+    try {
+        const counts = await getAmenityCounts(category);
+        res.json({
+            data: counts,
+            metadata: { category, count: counts.length }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while counting map data.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error(`Error in /${category}/counts route handler:`, error.message);
+        } else {
+            console.error(`Unknown error in /${category}/counts route handler:`, error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+/**
+ * Resolves the optional `bbox` query parameter, `minLon,minLat,maxLon,maxLat` in WGS84.
+ * @returns The box, null if the parameter is absent, or an error message for a 400 response.
+ */
+function resolveBoundingBox(query: Request['query']): BoundingBox | null | { error: string } {
+    const { bbox } = query;
+    if (bbox === undefined) {
+        return null;
+    }
+    const values = typeof bbox === 'string' ? bbox.split(',').map(value => (value.trim() === '' ? NaN : Number(value))) : [];
+    const [minLon, minLat, maxLon, maxLat] = values;
+    if (values.length !== 4 || !values.every(Number.isFinite)) {
+        return { error: 'Invalid bbox: expected minLon,minLat,maxLon,maxLat in WGS84.' };
+    }
+    if (!(minLon >= -180 && maxLon <= 180 && minLat >= -90 && maxLat <= 90 && minLon < maxLon && minLat < maxLat)) {
+        return { error: 'Invalid bbox: the minimum must be below the maximum, with longitudes from -180 to 180 and latitudes from -90 to 90.' };
+    }
+    const box: BoundingBox = [minLon, minLat, maxLon, maxLat];
+    const tileCount = getOverpassTiles(box).length;
+    if (tileCount > MAX_OVERPASS_TILES) {
+        return { error: `The bbox is too large: it spans ${tileCount} tiles of 0.1°, the maximum is ${MAX_OVERPASS_TILES}.` };
+    }
+    return box;
+}
+
+/**
+ * @route GET /api/map-data/:category
+ * @description Get the features of a category (green spaces, schools, grocery stores etc., see
+ * OVERPASS_CATEGORIES), for the Helsinki Metropolitan Area or within the optional `bbox`
+ * (`minLon,minLat,maxLon,maxLat` in WGS84, e.g. the map viewport). Boxes are served from a grid
+ * of 0.1° tiles, so features just outside the box may be included.
+ * @returns {Object} GeoJSON FeatureCollection of the category's features.
+ */
+router.get('/:category', async (req: Request, res: Response) => {
+    const { category } = req.params;
+    if (!isOverpassCategory(category)) {
+        res.status(404).json({ error: unknownCategoryError(category) });
+        return;
+    }
+    const bbox = resolveBoundingBox(req.query);
+    if (bbox && 'error' in bbox) {
+        res.status(400).json({ error: bbox.error });
+        return;
+    }
+    try {
+        const categoryGeoJson = bbox ? await fetchCategoryInBoundingBox(category, bbox) : await fetchCategory(category);
 
         // Return the GeoJSON FeatureCollection directly
-        res.json(greenSpaceGeoJson); // Send the GeoJSON data
+        res.json(categoryGeoJson); // Send the GeoJSON data
 
     } catch (error) {
-        // The service function now handles logging and returns empty GeoJSON on error,
+        // The service function handles logging and returns empty GeoJSON on error,
         // but we still need to catch potential unexpected errors here.
-        const userMessage = 'Internal server error while processing green space data.';
-        let logMessage = 'Unexpected error in /green-spaces route:';
-        let errorDetails: unknown = error; // Changed string | unknown to unknown
+        const userMessage = 'Internal server error while processing map data.';
+        let logMessage = `Unexpected error in /${category} route:`;
+        let errorDetails: unknown = error;
 
         if (error instanceof Error) {
-            logMessage = `Unexpected error in /green-spaces route: ${error.message}`;
+            logMessage = `Unexpected error in /${category} route: ${error.message}`;
             errorDetails = error.message;
-        } else {
-            // errorDetails remains the original error object for logging if not an Error instance
         }
         console.error(logMessage, error instanceof Error ? '' : error);
 
@@ -1,17 +1,172 @@
 import express, { Request, Response } from 'express';
-import { getPostcodeBoundaries } from '../services/hsyWfsService';
+import { getPostcodeBoundaries, getPostcodeSummaries } from '../services/hsyWfsService';
+import { lookupPostcode } from '../services/postcodeLookupService';
+import { PostcodeBoundaryFormat, PostcodeBoundaryOptions } from '../types/geojson.types';
+import { HELSINKI_CRS, SUPPORTED_CRS, SupportedCrs, WGS84_CRS, isSupportedCrs } from '../utils/projection';
+import { MAX_SIMPLIFICATION_ZOOM, toleranceForZoom } from '../utils/simplification';
 
 const router = express.Router();
 
-// Route to get all postcode boundaries as GeoJSON
-router.get('/', async (_req: Request, res: Response) => {
+const BOUNDARY_FORMATS: PostcodeBoundaryFormat[] = ['geojson', 'topojson'];
+const MAX_ZOOM = MAX_SIMPLIFICATION_ZOOM;
+const MAX_TOLERANCE = 10000; // Metres; anything coarser collapses whole postal code areas
+
+/**
+ * Resolves the boundary options from the query parameters:
+ * - `crs` (EPSG:4326 or EPSG:3879; default EPSG:4326),
+ * - either `zoom` (0-22, simplified for that map zoom level) or `tolerance` (metres, snapped to the nearest zoom level by the service), and
+ * - `format` (geojson or topojson; default geojson).
+ * @returns The options, or an error message for a 400 response.
+ */
+function resolveBoundaryOptions(query: Request['query']): PostcodeBoundaryOptions | { error: string } {
+    const { crs = WGS84_CRS, zoom, tolerance, format = 'geojson' } = query;
+
+    if (typeof crs !== 'string' || !isSupportedCrs(crs)) {
+        return { error: `Invalid crs query parameter. Supported values: ${SUPPORTED_CRS.join(', ')}.` };
+    }
+    if (typeof format !== 'string' || !BOUNDARY_FORMATS.includes(format as PostcodeBoundaryFormat)) {
+        return { error: `Invalid format query parameter. Allowed values: ${BOUNDARY_FORMATS.join(', ')}.` };
+    }
+    const options: PostcodeBoundaryOptions = { crs, format: format as PostcodeBoundaryFormat };
+
+    if (zoom !== undefined) {
+        if (tolerance !== undefined) {
+            return { error: 'Provide either zoom or tolerance, not both.' };
+        }
+        if (typeof zoom !== 'string' || !/^\d{1,2}$/.test(zoom) || parseInt(zoom) > MAX_ZOOM) {
+            return { error: `Invalid zoom query parameter. Please provide a zoom level from 0 to ${MAX_ZOOM}.` };
+        }
+        options.tolerance = toleranceForZoom(parseInt(zoom));
+    } else if (tolerance !== undefined) {
+        const value = typeof tolerance === 'string' ? Number(tolerance) : NaN;
+        if (!(value > 0 && value <= MAX_TOLERANCE)) {
+            return { error: `Invalid tolerance query parameter. Please provide a number of metres above 0 and at most ${MAX_TOLERANCE}.` };
+        }
+        options.tolerance = value;
+    }
+
+    return options;
+}
+
+interface LookupPoint {
+    x: number;
+    y: number;
+    crs: SupportedCrs;
+}
+
+const parseCoordinate = (value: unknown): number =>
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+/**
+ * Resolves the point to look up from the query parameters: either `lat` and `lon` (WGS84)
+ * or `x` and `y` (EPSG:3879, as accepted by the walking-distance route).
+ * @returns The point, or an error message for a 400 response.
+ */
+function resolveLookupPoint(query: Request['query']): LookupPoint | { error: string } {
+    const { lat, lon, x, y } = query;
+    const hasWgs84 = lat !== undefined || lon !== undefined;
+    const hasHelsinki = x !== undefined || y !== undefined;
+
+    if (hasWgs84 === hasHelsinki) {
+        return { error: 'Provide either lat and lon (WGS84) or x and y (EPSG:3879).' };
+    }
+    if (hasWgs84) {
+        const latitude = parseCoordinate(lat);
+        const longitude = parseCoordinate(lon);
+        if (!(Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180)) {
+            return { error: 'Invalid coordinates: lat must be a number from -90 to 90 and lon a number from -180 to 180.' };
+        }
+        return { x: longitude, y: latitude, crs: WGS84_CRS };
+    }
+    const easting = parseCoordinate(x);
+    const northing = parseCoordinate(y);
+    if (!Number.isFinite(easting) || !Number.isFinite(northing)) {
+        return { error: 'Invalid coordinates: x and y must be numbers.' };
+    }
+    return { x: easting, y: northing, crs: HELSINKI_CRS };
+}
+
+// Route to find the postcode area containing a point, with its latest prices and price trend
+router.get('/lookup', async (req: Request, res: Response) => {
+    try {
+        const point = resolveLookupPoint(req.query);
+        if ('error' in point) {
+            res.status(400).json({ error: point.error });
+            return;
+        }
+
+        const lookup = await lookupPostcode(point.x, point.y, point.crs);
+        if (!lookup) {
+            res.status(404).json({ error: 'The point is not inside any postcode area.' });
+            return;
+        }
+        res.json({
+            data: lookup,
+            metadata: point
+        });
+    } catch (error) {
+        let errorMessage = 'Failed to look up the postcode.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /postcodes/lookup route handler:', error.message);
+        } else {
+            console.error('Unknown error in /postcodes/lookup route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+// Route to list the area, interior point, bounding box and neighbours of every postcode area without the geometries,
+// with coordinates in WGS84 unless `crs` asks for another supported CRS
+router.get('/summary', async (req: Request, res: Response) => {
+    try {
+        const { crs = WGS84_CRS } = req.query;
+        if (typeof crs !== 'string' || !isSupportedCrs(crs)) {
+            res.status(400).json({ error: `Invalid crs query parameter. Supported values: ${SUPPORTED_CRS.join(', ')}.` });
+            return;
+        }
+
+        const summaries = await getPostcodeSummaries(crs);
+        if (!summaries) {
+            res.status(500).json({ error: 'Failed to retrieve postcode boundaries.' });
+            return;
+        }
+        res.json({
+            data: summaries,
+            metadata: { crs, count: summaries.length }
+        });
+    } catch (error) {
+        let errorMessage = 'Failed to get postcode summaries.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /postcodes/summary route handler:', error.message);
+        } else {
+            console.error('Unknown error in /postcodes/summary route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+// Route to get all postcode boundaries as GeoJSON or TopoJSON, in WGS84 unless `crs` asks for another supported CRS,
+// simplified for a map zoom level (`zoom`) or tolerance in metres (`tolerance`) when given
+router.get('/', async (req: Request, res: Response) => {
     try {
         console.log('Received request for /api/postcodes');
-        const boundaries = await getPostcodeBoundaries();
+        const options = resolveBoundaryOptions(req.query);
+        if ('error' in options) {
+            res.status(400).json({ error: options.error });
+            return;
+        }
+
+        const boundaries = await getPostcodeBoundaries(options);
 
         if (boundaries) {
-            // Set appropriate content type for GeoJSON
-            res.setHeader('Content-Type', 'application/geo+json');
+            // Set appropriate content type for GeoJSON; TopoJSON has no registered media type of its own
+            res.setHeader('Content-Type', options.format === 'topojson' ? 'application/json' : 'application/geo+json');
             res.json(boundaries);
         } else {
             // Service layer would have logged the specific error
@@ -31,4 +186,4 @@ router.get('/', async (_req: Request, res: Response) => {
     }
 });
 
-export default router; 
+export default router;
@@ -1,37 +1,66 @@
 import express, { Request, Response, Router, RequestHandler } from 'express';
-import { fetchStatFiPropertyData, calculatePriceTrends } from '../services/statFiService';
+import {
+    fetchStatFiPropertyData,
+    fetchStatFiPropertyDataRange,
+    fetchStatFiQuarterlyPostalCodeData,
+    calculatePriceTrends,
+    getPostalCodePriceHistory,
+    STATFI_FIRST_YEAR,
+    STATFI_FIRST_QUARTERLY_YEAR
+} from '../services/statFiService';
+import {
+    AGGREGATION_METHODS,
+    addPriceIndexes,
+    addQuarterlyPriceIndexes,
+    addTrendPriceIndexes,
+    getAreaAggregates
+} from '../services/priceAggregateService';
+import { AggregationMethod } from '../types/statfi.types';
+import { parsePeriodKey } from '../utils/statFiUtils';
 
 const router: Router = express.Router();
 
-// Handler for getting property prices for a specific year
+// Handler for getting property prices for a specific year, or for a quarter with `periodKey=2023Q2`
 const pricesForYearHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
     try {
-        const year = req.query.year as string;
-        if (!year || !/^\d{4}$/.test(year)) {
-            res.status(400).json({ error: 'Invalid or missing year query parameter. Please provide a 4-digit year.' });
+        const periodKey = (req.query.periodKey ?? req.query.year) as string;
+        const parsedPeriod = typeof periodKey === 'string' ? parsePeriodKey(periodKey) : null;
+        if (!parsedPeriod) {
+            res.status(400).json({ error: 'Invalid or missing year query parameter. Please provide a 4-digit year, or a period key such as 2023 or 2023Q2.' });
             return;
         }
 
         // Basic check for reasonable year range (optional)
-        const numericYear = parseInt(year);
-        if (numericYear < 2010 || numericYear > new Date().getFullYear()) {
-            res.status(400).json({ error: `Year ${year} is out of the reasonable range (2010-${new Date().getFullYear()}).` });
+        const firstYear = parsedPeriod.granularity === 'quarter' ? STATFI_FIRST_QUARTERLY_YEAR : STATFI_FIRST_YEAR;
+        if (parsedPeriod.year < firstYear || parsedPeriod.year > new Date().getFullYear()) {
+            res.status(400).json({ error: `Year ${parsedPeriod.year} is out of the reasonable range (${firstYear}-${new Date().getFullYear()}).` });
             return;
         }
 
-        const priceData = await fetchStatFiPropertyData(year);
-        res.json({ data: priceData });
+        // Quarterly prices are municipality averages, so they are indexed once per municipality
+        const priceData = parsedPeriod.granularity === 'quarter'
+            ? addQuarterlyPriceIndexes(await fetchStatFiQuarterlyPostalCodeData(periodKey))
+            : addPriceIndexes(await fetchStatFiPropertyData(periodKey));
+        res.json({
+            data: priceData,
+            metadata: {
+                periodKey,
+                granularity: parsedPeriod.granularity,
+                areaLevel: parsedPeriod.granularity === 'quarter' ? 'municipality' : 'postalCode'
+            }
+        });
     } catch (error) {
-        let reqYear = 'unknown';
-        if (req.query.year && typeof req.query.year === 'string') {
-            reqYear = req.query.year;
+        let reqPeriod = 'unknown';
+        const periodParam = req.query.periodKey ?? req.query.year;
+        if (periodParam && typeof periodParam === 'string') {
+            reqPeriod = periodParam;
         }
         let errorMessage = 'Internal server error while retrieving property prices for the specified year.';
         if (error instanceof Error) {
             errorMessage = error.message;
-            console.error(`Error in / route handler for year ${reqYear}:`, error.message);
+            console.error(`Error in / route handler for period ${reqPeriod}:`, error.message);
         } else {
-            console.error(`Unknown error in / route handler for year ${reqYear}:`, error);
+            console.error(`Unknown error in / route handler for period ${reqPeriod}:`, error);
         }
         if (!res.headersSent) {
             res.status(500).json({ error: errorMessage });
@@ -39,31 +68,88 @@ const pricesForYearHandler: RequestHandler = async (req: Request, res: Response)
     }
 };
 
+// Trend period lengths accepted by the `period` query parameter ('full' = first year to end year)
+const TREND_PERIODS = ['3', '5', '10', 'full'];
+const DEFAULT_TREND_PERIOD = '5';
+
+interface TrendPeriodRange {
+    startYear: number;
+    endYear: number;
+}
+
+/**
+ * Resolves the trend period from the query parameters:
+ * - `endYear` (default: last year) with `period` (3, 5, 10 or full; default 5), or
+ * - an explicit `startYear`/`endYear` pair.
+ * @returns The period, or an error message for a 400 response.
+ */
+function resolveTrendPeriod(query: Request['query']): TrendPeriodRange | { error: string } {
+    const lastYear = new Date().getFullYear() - 1;
+    const { startYear: startYearParam, endYear: endYearParam, period: periodParam } = query;
+
+    let endYear = lastYear;
+    if (endYearParam !== undefined) {
+        if (typeof endYearParam !== 'string' || !/^\d{4}$/.test(endYearParam)) {
+            return { error: 'Invalid endYear query parameter. Please provide a 4-digit year.' };
+        }
+        endYear = parseInt(endYearParam);
+        if (endYear > lastYear) {
+            return { error: `Invalid period. End year (${endYear}) must be ${lastYear} or earlier.` };
+        }
+    }
+
+    if (startYearParam !== undefined) {
+        if (periodParam !== undefined) {
+            return { error: 'Provide either startYear or period, not both.' };
+        }
+        if (typeof startYearParam !== 'string' || !/^\d{4}$/.test(startYearParam)) {
+            return { error: 'Invalid startYear query parameter. Please provide a 4-digit year.' };
+        }
+        const startYear = parseInt(startYearParam);
+        if (startYear < STATFI_FIRST_YEAR) {
+            return { error: `Invalid period. Start year (${startYear}) must be ${STATFI_FIRST_YEAR} or later.` };
+        }
+        if (startYear >= endYear) {
+            return { error: `Invalid period. Start year (${startYear}) must be before end year (${endYear}).` };
+        }
+        return { startYear, endYear };
+    }
+
+    const period = periodParam ?? DEFAULT_TREND_PERIOD;
+    if (typeof period !== 'string' || !TREND_PERIODS.includes(period)) {
+        return { error: `Invalid period query parameter. Allowed values: ${TREND_PERIODS.join(', ')}.` };
+    }
+
+    const startYear = period === 'full' ? STATFI_FIRST_YEAR : endYear - (parseInt(period) - 1);
+    if (startYear < STATFI_FIRST_YEAR) {
+        return { error: `Invalid period. Start year (${startYear}) must be ${STATFI_FIRST_YEAR} or later.` };
+    }
+    if (startYear >= endYear) {
+        return { error: `Invalid period. Start year (${startYear}) must be before end year (${endYear}).` };
+    }
+    return { startYear, endYear };
+}
+
 // Explicitly type the handler with void return for async
 const trendsHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
     try {
-        const endYear = parseInt(req.query.endYear as string) || (new Date().getFullYear() - 1);
-        const periodLength = 5; // Fixed at 5 years
-        const startYear = endYear - (periodLength - 1);
-
-        if (startYear < 2010) {
+        const range = resolveTrendPeriod(req.query);
+        if ('error' in range) {
             // Explicitly return to satisfy Promise<void>
-            res.status(400).json({
-                error: `Invalid period. Start year (${startYear}) must be 2010 or later.`
-            });
+            res.status(400).json({ error: range.error });
             return;
         }
+        const { startYear, endYear } = range;
+        const periodLength = endYear - startYear + 1;
 
-        // Fetch data for each year in the period
-        const yearPromises = [];
-        for (let year = startYear; year <= endYear; year++) {
-            yearPromises.push(fetchStatFiPropertyData(year.toString()));
-        }
-
-        const yearlyData = await Promise.all(yearPromises);
+        // Fetch every year in the period with a single StatFin query
+        const yearlyData = await fetchStatFiPropertyDataRange(startYear, endYear);
 
-        // Calculate trends using the imported service function
-        const trends = calculatePriceTrends(yearlyData, startYear, endYear);
+        // Calculate trends using the imported service function, with the end year's price index
+        const trends = addTrendPriceIndexes(
+            calculatePriceTrends(yearlyData, startYear, endYear),
+            yearlyData[yearlyData.length - 1] ?? []
+        );
 
         // No return needed here, res.json handles the response
         res.json({
@@ -89,10 +175,87 @@ const trendsHandler: RequestHandler = async (req: Request, res: Response): Promi
     }
 };
 
-// Route to get property price data for a specific year
+// Handler for prices and trends aggregated per municipality and for the capital region
+const aggregatesHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const method = (req.query.method ?? 'weighted') as AggregationMethod;
+        if (!AGGREGATION_METHODS.includes(method)) {
+            res.status(400).json({ error: `Invalid method query parameter. Allowed values: ${AGGREGATION_METHODS.join(', ')}.` });
+            return;
+        }
+
+        // The aggregated year is the end year of the trend period
+        const range = resolveTrendPeriod(req.query);
+        if ('error' in range) {
+            res.status(400).json({ error: range.error });
+            return;
+        }
+        const { startYear, endYear } = range;
+
+        const aggregates = await getAreaAggregates(startYear, endYear, method);
+        res.json({
+            data: aggregates,
+            metadata: {
+                year: endYear,
+                startYear,
+                endYear,
+                method
+            }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while aggregating property prices.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error('Error in /aggregates route handler:', error.message);
+        } else {
+            console.error('Unknown error in /aggregates route handler:', error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+};
+
+// Handler for the price time series of a single postal code
+const historyHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+    const postalCode = req.params.postalCode;
+    try {
+        if (!/^\d{5}$/.test(postalCode)) {
+            res.status(400).json({ error: 'Invalid postal code. Please provide a 5-digit postal code.' });
+            return;
+        }
+
+        const history = await getPostalCodePriceHistory(postalCode);
+        if (!history) {
+            res.status(404).json({ error: `No property price data found for postal code ${postalCode}.` });
+            return;
+        }
+
+        res.json({ data: history });
+    } catch (error) {
+        let errorMessage = 'Internal server error while retrieving the property price history.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error(`Error in /${postalCode}/history route handler:`, error.message);
+        } else {
+            console.error(`Unknown error in /${postalCode}/history route handler:`, error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+};
+
+// Route to get property price data for a specific year or quarter
 router.get('/', pricesForYearHandler);
 
 // Route to get property price trend data over a specified period
 router.get('/trends', trendsHandler); // Use the typed handler
 
+// Route to get prices and trends per municipality and for the whole capital region
+router.get('/aggregates', aggregatesHandler);
+
+// Route to get every year's prices for a single postal code
+router.get('/:postalCode/history', historyHandler);
+
 export default router; 
@@ -0,0 +1,87 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import { fetchStatFiRentalData, getRentalYields, RENTAL_FIRST_YEAR, RENTAL_METRICS, RENTAL_TABLE_ID } from '../services/statFiRentalService';
+
+const router: Router = express.Router();
+
+/**
+ * Validates the `year` query parameter against the years the rent table covers.
+ * @returns The year, or undefined after sending a 400 response.
+ */
+function parseRentalYear(req: Request, res: Response): string | undefined {
+    const year = req.query.year as string;
+    if (!year || !/^\d{4}$/.test(year)) {
+        res.status(400).json({ error: 'Invalid or missing year query parameter. Please provide a 4-digit year.' });
+        return undefined;
+    }
+
+    const numericYear = parseInt(year);
+    if (numericYear < RENTAL_FIRST_YEAR || numericYear > new Date().getFullYear()) {
+        res.status(400).json({ error: `Year ${year} is out of the reasonable range (${RENTAL_FIRST_YEAR}-${new Date().getFullYear()}).` });
+        return undefined;
+    }
+    return year;
+}
+
+// Handler for getting rents for a specific year
+const rentsForYearHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+    const year = parseRentalYear(req, res);
+    if (!year) return;
+
+    try {
+        const rentData = await fetchStatFiRentalData(year);
+        res.json({
+            data: rentData,
+            metadata: {
+                year: parseInt(year),
+                sourceTable: RENTAL_TABLE_ID,
+                metrics: RENTAL_METRICS
+            }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while retrieving rental prices for the specified year.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error(`Error in /rental-prices route handler for year ${year}:`, error.message);
+        } else {
+            console.error(`Unknown error in /rental-prices route handler for year ${year}:`, error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+};
+
+// Handler for the rent-to-price yield of every postal code for a specific year
+const yieldsForYearHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+    const year = parseRentalYear(req, res);
+    if (!year) return;
+
+    try {
+        const yields = await getRentalYields(year);
+        res.json({
+            data: yields,
+            metadata: {
+                year: parseInt(year)
+            }
+        });
+    } catch (error) {
+        let errorMessage = 'Internal server error while calculating rental yields.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error(`Error in /rental-prices/yield route handler for year ${year}:`, error.message);
+        } else {
+            console.error(`Unknown error in /rental-prices/yield route handler for year ${year}:`, error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+};
+
+// Route to get rents per postal code and room count for a specific year
+router.get('/', rentsForYearHandler);
+
+// Route to get the rent-to-price yield per postal code for a specific year
+router.get('/yield', yieldsForYearHandler);
+
+export default router;
@@ -0,0 +1,58 @@
+import express, { Request, Response, Router } from 'express';
+import { TILE_LAYERS, getVectorTile } from '../services/vectorTileService';
+import { STATFI_FIRST_YEAR } from '../services/statFiService';
+import { TileLayer } from '../types/geojson.types';
+import { MAX_TILE_ZOOM, isValidTile } from '../utils/vectorTiles';
+
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/tiles/:layer/:z/:x/:y.mvt
+ * @description Get a Mapbox Vector Tile of the postcode or green-space layer.
+ * Postcode tiles carry the prices of `year` (default: last year) and the trend over the five years up to it.
+ * @returns {Buffer} The encoded tile, or 204 No Content if no feature touches the tile.
+ */
+router.get('/:layer/:z/:x/:y.mvt', async (req: Request, res: Response) => {
+    const { layer, z, x, y } = req.params;
+    try {
+        if (!TILE_LAYERS.includes(layer as TileLayer)) {
+            res.status(400).json({ error: `Invalid tile layer. Allowed values: ${TILE_LAYERS.join(', ')}.` });
+            return;
+        }
+
+        const coordinates = { z: Number(z), x: Number(x), y: Number(y) };
+        if (![z, x, y].every(value => /^\d+$/.test(value)) || !isValidTile(coordinates)) {
+            res.status(400).json({ error: `Invalid tile coordinates. Zoom levels 0-${MAX_TILE_ZOOM} are supported.` });
+            return;
+        }
+
+        const lastYear = new Date().getFullYear() - 1;
+        const yearParam = req.query.year ?? lastYear.toString();
+        const year = typeof yearParam === 'string' && /^\d{4}$/.test(yearParam) ? parseInt(yearParam) : NaN;
+        if (!(year >= STATFI_FIRST_YEAR && year <= lastYear)) {
+            res.status(400).json({ error: `Invalid year query parameter. Please provide a year from ${STATFI_FIRST_YEAR} to ${lastYear}.` });
+            return;
+        }
+
+        const tile = await getVectorTile(layer as TileLayer, coordinates, year);
+        if (!tile) {
+            res.status(204).end();
+            return;
+        }
+        res.setHeader('Content-Type', 'application/vnd.mapbox-vector-tile');
+        res.send(tile);
+    } catch (error) {
+        let errorMessage = 'Internal server error while generating the vector tile.';
+        if (error instanceof Error) {
+            errorMessage = error.message;
+            console.error(`Error in /${layer}/${z}/${x}/${y}.mvt route handler:`, error.message);
+        } else {
+            console.error(`Unknown error in /${layer}/${z}/${x}/${y}.mvt route handler:`, error);
+        }
+        if (!res.headersSent) {
+            res.status(500).json({ error: errorMessage });
+        }
+    }
+});
+
+export default router;
@@ -1,44 +1,294 @@
 import cron from 'node-cron';
 import { clearWalkingDistanceCache } from './services/hsyWmsService';
-import { clearStatFiCache } from './services/statFiService';
-import { clearOverpassCache } from './services/overpassService';
+import { refreshStatFiPropertyDataRange, STATFI_FIRST_YEAR } from './services/statFiService';
+import { OVERPASS_CATEGORY_IDS, refreshCategory, refreshGreenSpaces } from './services/overpassService';
+import { refreshPostcodeBoundaries } from './services/hsyWfsService';
+import { refreshPostcodeTransitAccessibility } from './services/transitAccessibilityService';
+import { refreshWalkingZoneCoverage } from './services/walkingZoneCoverageService';
+import { refreshGreenSpaceMetrics } from './services/greenSpaceMetricsService';
+import { refreshAmenityCounts } from './services/amenityCountService';
+import { refreshTransitStopCounts, refreshTransitStops } from './services/digitransitService';
+import { getTravelTimes, refreshTravelTimes } from './services/travelTimeService';
 
 /**
- * Initializes and schedules all recurring tasks for the application.
+ * Returns the years that have published StatFi price data (first year to last year).
+ */
+export function getStatFiWarmUpYears(): string[] {
+    const lastYear = new Date().getFullYear() - 1;
+    const years: string[] = [];
+    for (let year = STATFI_FIRST_YEAR; year <= lastYear; year++) {
+        years.push(year.toString());
+    }
+    return years;
+}
+
+/**
+ * Re-fetches StatFi property prices for every published year into the cache with a single StatFin query.
+ * Cached data is only replaced once the new data has arrived.
+ * @returns The years that could not be refreshed: every year if the query failed.
+ */
+export async function warmUpStatFiCache(): Promise<string[]> {
+    const years = getStatFiWarmUpYears();
+    try {
+        await refreshStatFiPropertyDataRange(STATFI_FIRST_YEAR, Number(years[years.length - 1]));
+        return [];
+    } catch (error) {
+        console.error(`Warm-up failed for StatFi years ${years[0]}-${years[years.length - 1]}:`, error instanceof Error ? error.message : error);
+        return years;
+    }
+}
+
+/**
+ * Re-fetches every Overpass category other than green spaces (which have a daily job of their own)
+ * and rebuilds its per-postcode counts. Categories are queried one at a time to stay within the
+ * Overpass API's rate limits. Cached data is only replaced once the new data has arrived.
+ * @returns The categories that could not be refreshed.
+ */
+export async function refreshAmenityCategories(): Promise<string[]> {
+    const failedCategories: string[] = [];
+    for (const category of OVERPASS_CATEGORY_IDS.filter(id => id !== 'green-spaces')) {
+        try {
+            await refreshCategory(category);
+            await refreshAmenityCounts(category);
+        } catch (error) {
+            console.error(`Refresh failed for Overpass category ${category}:`, error instanceof Error ? error.message : error);
+            failedCategories.push(category);
+        }
+    }
+    return failedCategories;
+}
+
+/**
+ * Re-fetches postcode boundaries, StatFi property prices and green spaces into their caches.
+ * Every warm-up runs even if another one fails; failures are logged and the previous
+ * cached data stays in use.
+ * @throws If any part of the warm-up failed, after all parts have finished.
+ */
+export async function warmUpCaches(): Promise<void> {
+    console.log('Warming up caches...');
+    const startTime = Date.now();
+
+    const [postcodeResult, statFiResult, greenSpaceResult] = await Promise.allSettled([
+        refreshPostcodeBoundaries(),
+        warmUpStatFiCache(),
+        refreshGreenSpaces()
+    ]);
+
+    const failures: string[] = [];
+    if (postcodeResult.status === 'rejected') {
+        console.error('Warm-up failed for postcode boundaries:', postcodeResult.reason instanceof Error ? postcodeResult.reason.message : postcodeResult.reason);
+        failures.push('postcode boundaries');
+    }
+    if (statFiResult.status === 'fulfilled' && statFiResult.value.length > 0) {
+        console.error(`Warm-up failed for StatFi years: ${statFiResult.value.join(', ')}`);
+        failures.push(`StatFi years ${statFiResult.value.join(', ')}`);
+    }
+    if (greenSpaceResult.status === 'rejected') {
+        console.error('Warm-up failed for green spaces:', greenSpaceResult.reason instanceof Error ? greenSpaceResult.reason.message : greenSpaceResult.reason);
+        failures.push('green spaces');
+    }
+
+    console.log(`Cache warm-up finished in ${((Date.now() - startTime) / 1000).toFixed(1)}s.`);
+    if (failures.length > 0) {
+        throw new Error(`Warm-up failed for: ${failures.join('; ')}`);
+    }
+}
+
+// --------- Job registry ---------
+
+export type JobOutcome = 'running' | 'success' | 'failure';
+
+export interface JobStatus {
+    name: string;
+    description: string;
+    schedule: string | null; // Cron expression, or null for jobs that only run on start-up or on demand
+    lastRunAt: string | null; // ISO timestamp of the last start
+    lastDurationMs: number | null;
+    lastOutcome: JobOutcome | null;
+    lastError: string | null;
+}
+
+interface ScheduledJob {
+    name: string;
+    description: string;
+    schedule: string | null;
+    run: () => Promise<void>;
+}
+
+const scheduledJobs: ScheduledJob[] = [
+    {
+        name: 'clear-walking-distance-cache',
+        description: 'Clears the HSY walking distance cache (per-point lookups, nothing to warm up).',
+        schedule: '0 0 * * *', // Daily at midnight
+        run: () => {
+            clearWalkingDistanceCache();
+            return Promise.resolve();
+        }
+    },
+    {
+        name: 'refresh-green-spaces',
+        description: 'Re-fetches Overpass green spaces into the cache.',
+        schedule: '0 1 * * *', // Daily at 1 AM (staggered)
+        run: async () => { await refreshGreenSpaces(); }
+    },
+    {
+        name: 'refresh-postcode-boundaries',
+        description: 'Re-fetches HSY postcode boundaries into the cache.',
+        schedule: '30 1 * * *', // Daily at 1:30 AM
+        run: async () => { await refreshPostcodeBoundaries(); }
+    },
+    {
+        name: 'refresh-green-space-metrics',
+        description: 'Rebuilds the green space metrics of every postcode area from the refreshed green spaces and boundaries.',
+        schedule: '0 2 * * *', // Daily at 2 AM, after both sources are refreshed
+        run: async () => { await refreshGreenSpaceMetrics(); }
+    },
+    {
+        name: 'refresh-transit-accessibility',
+        description: 'Rebuilds the walking distance zone of every postcode area from HSY WMS, after the walking distance cache is cleared and the boundaries are refreshed.',
+        schedule: '30 2 * * *', // Daily at 2:30 AM
+        run: async () => { await refreshPostcodeTransitAccessibility(); }
+    },
+    {
+        name: 'refresh-transit-stops',
+        description: 'Re-fetches the Digitransit stops and rebuilds the stop and route counts of every postcode area.',
+        schedule: '30 3 * * *', // Daily at 3:30 AM, after the boundaries are refreshed
+        run: async () => {
+            await refreshTransitStops();
+            await refreshTransitStopCounts();
+        }
+    },
+    {
+        name: 'refresh-travel-times',
+        description: 'Re-plans the weekday morning public transport trip from every postcode area to the travel time destination.',
+        schedule: '0 4 * * 2', // Weekly on Tuesday at 4 AM; a few hundred planner queries
+        run: async () => { await refreshTravelTimes(); }
+    },
+    {
+        name: 'refresh-walking-zone-coverage',
+        description: 'Re-fetches the HSY walking zone polygons and rebuilds the share of every postcode area within each zone.',
+        schedule: '0 3 * * 1', // Weekly on Monday at 3 AM; the zones change rarely
+        run: async () => { await refreshWalkingZoneCoverage(); }
+    },
+    {
+        name: 'refresh-amenity-categories',
+        description: 'Re-fetches the Overpass amenity categories (schools, grocery stores etc.) and rebuilds their per-postcode counts.',
+        schedule: '0 3 * * 0', // Weekly on Sunday at 3 AM
+        run: async () => {
+            const failedCategories = await refreshAmenityCategories();
+            if (failedCategories.length > 0) {
+                throw new Error(`Failed categories: ${failedCategories.join(', ')}`);
+            }
+        }
+    },
+    {
+        name: 'refresh-statfi-prices',
+        description: `Re-fetches StatFi property prices for every year since ${STATFI_FIRST_YEAR} into the cache.`,
+        schedule: '0 2 * * 0', // Weekly on Sunday at 2 AM
+        run: async () => {
+            const failedYears = await warmUpStatFiCache();
+            if (failedYears.length > 0) {
+                throw new Error(`Failed years: ${failedYears.join(', ')}`);
+            }
+        }
+    },
+    {
+        name: 'warm-up-caches',
+        description: 'Re-fetches postcode boundaries, StatFi prices and green spaces. Runs on start-up.',
+        schedule: null,
+        run: warmUpCaches
+    },
+    {
+        name: 'warm-up-travel-times',
+        description: 'Builds the travel time dataset if it is not cached, so no request has to wait for it. Runs on start-up, after the cache warm-up.',
+        schedule: null,
+        run: async () => { await getTravelTimes(); }
+    }
+];
+
+const jobStatuses = new Map<string, JobStatus>(scheduledJobs.map(job => [job.name, {
+    name: job.name,
+    description: job.description,
+    schedule: job.schedule,
+    lastRunAt: null,
+    lastDurationMs: null,
+    lastOutcome: null,
+    lastError: null
+}]));
+
+/**
+ * Returns the last run time, duration and outcome of every scheduled job.
+ */
+export function getJobStatuses(): JobStatus[] {
+    return Array.from(jobStatuses.values()).map(status => ({ ...status }));
+}
+
+/**
+ * Runs a job by name and records its run time, duration and outcome.
+ * Errors raised by the job are recorded and logged rather than thrown.
+ * @param name The job name.
+ * @returns The job status after the run.
+ * @throws If no job with that name exists or it is already running.
+ */
+export async function runJob(name: string): Promise<JobStatus> {
+    const job = scheduledJobs.find(candidate => candidate.name === name);
+    const status = jobStatuses.get(name);
+    if (!job || !status) {
+        throw new Error(`Unknown job: ${name}`);
+    }
+    if (status.lastOutcome === 'running') {
+        throw new Error(`Job ${name} is already running.`);
+    }
+
+    const startTime = Date.now();
+    status.lastRunAt = new Date(startTime).toISOString();
+    status.lastDurationMs = null;
+    status.lastOutcome = 'running';
+    status.lastError = null;
+
+    try {
+        await job.run();
+        status.lastOutcome = 'success';
+    } catch (error) {
+        status.lastOutcome = 'failure';
+        status.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Job ${name} failed:`, status.lastError);
+    } finally {
+        status.lastDurationMs = Date.now() - startTime;
+    }
+    return { ...status };
+}
+
+/**
+ * Initializes and schedules all recurring tasks for the application,
+ * and runs the cache warm-up once at start-up.
  */
 export function initializeScheduledTasks() {
     console.log('Initializing scheduled tasks...');
 
-    // Schedule HSY walking distance cache clear daily at midnight
-    cron.schedule('0 0 * * *', () => {
-        console.log('Running daily task: Clearing HSY walking distance cache...');
-        clearWalkingDistanceCache();
-    }, {
-        scheduled: true,
-        timezone: "Europe/Helsinki"
-    });
-
-    // Schedule Overpass API cache clear daily at 1 AM (staggered)
-    cron.schedule('0 1 * * *', () => {
-        console.log('Running daily task: Clearing Overpass API cache...');
-        clearOverpassCache();
-    }, {
-        scheduled: true,
-        timezone: "Europe/Helsinki"
-    });
-
-    // Schedule StatFi property data cache clear weekly on Sunday at 2 AM
-    cron.schedule('0 2 * * 0', () => { // 0 = Sunday
-        console.log('Running weekly task: Clearing StatFi property data cache...');
-        clearStatFiCache();
-    }, {
-        scheduled: true,
-        timezone: "Europe/Helsinki"
-    });
-
-    // --- Add more scheduled tasks here --- 
-    // Example: Pre-cache specific data
-    // cron.schedule('...', () => { ... }); 
+    for (const job of scheduledJobs) {
+        if (!job.schedule) continue;
+        cron.schedule(job.schedule, () => {
+            console.log(`Running scheduled task: ${job.name}...`);
+            runJob(job.name).catch((error: unknown) => {
+                // Only thrown if the previous run is still going
+                console.warn(error instanceof Error ? error.message : error);
+            });
+        }, {
+            scheduled: true,
+            timezone: "Europe/Helsinki"
+        });
+    }
+
+    // --- Add more scheduled tasks to scheduledJobs above ---
 
     console.log('Scheduled tasks initialized.');
-} 
+
+    // Fill the caches once at start-up so the first users don't pay for the upstream calls.
+    // The travel times are planned from the postcode boundaries, so they wait for the boundaries to be warm
+    runJob('warm-up-caches')
+        .then(() => runJob('warm-up-travel-times'))
+        .catch((error: unknown) => {
+            console.error('Start-up cache warm-up could not be started:', error);
+        });
+}
@@ -5,6 +5,8 @@ import {
     PostalCodeData,
     TableRow
 } from '../types/statfi.types'; // Import types
+import { JsonStatDataset } from '../utils/jsonStat';
+import { parsePostalCodeLabel } from '../utils/statFiUtils';
 
 // Base URL for the StatFin PX-Web API
 const STATFI_API_BASE_URL = 'https://pxdata.stat.fi:443/PxWeb/api/v1/fi/StatFin/ashi/';
@@ -60,74 +62,46 @@ async function fetchPropertyData() {
             return;
         }
 
+        const dataset = new JsonStatDataset(data);
+
         // Get info about the response dimensions
-        const dimensions = data.id;  // ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot']
+        const dimensions = dataset.id;  // ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot']
         console.log(`\nData dimensions: ${dimensions.join(', ')}`);
 
         // Get the year being displayed
-        const yearLabel = Object.values(data.dimension.Vuosi.category.label)[0];
+        const yearLabel = dataset.label('Vuosi', dataset.categories('Vuosi')[0]);
         console.log(`Year: ${yearLabel}`);
 
         // Get the building types dimension
-        const buildingTypes = data.dimension.Talotyyppi.category.label;
-        console.log(`Building types: ${Object.values(buildingTypes).join(', ')}`);
+        const buildingTypes = dataset.categories('Talotyyppi');
+        console.log(`Building types: ${buildingTypes.map(key => dataset.label('Talotyyppi', key)).join(', ')}`);
 
         // Get all postal code areas
-        const postalCodes = data.dimension.Postinumero.category.label;
-        const postalCodeIndexes = data.dimension.Postinumero.category.index;
+        const postalCodeKeys = dataset.categories('Postinumero');
 
         // Create a structure to hold data by building type
         const pricesByPostalCode: PostalCodeData[] = [];
 
         // Go through each postal code
-        for (const postalCodeKey in postalCodeIndexes) {
-            const postalCodeLabel = postalCodes[postalCodeKey];
-            const postalCodeIndex = postalCodeIndexes[postalCodeKey];
+        for (const postalCodeKey of postalCodeKeys) {
+            const postalCodeLabel = dataset.label('Postinumero', postalCodeKey);
 
             // Extract just the postal code from the full label (e.g., "00100" from "00100 Helsinki centrum...")
             const postalCodeNumber = postalCodeKey.trim();
 
             // Extract the district and municipality from the full label
             const fullLabel = postalCodeLabel;
-            const districtMatch = fullLabel.match(/^\d+\s+(.+?)\s*\((.+?)\)$/);
-
-            let district = '', municipality = '';
-            if (districtMatch && districtMatch.length >= 3) {
-                district = districtMatch[1].trim();
-                municipality = districtMatch[2].trim();
-            }
-
-            // The structure is: data.value[yearIdx * postcodeSize * btypeSize * dataTypeSize + 
-            //                           postcodeIdx * btypeSize * dataTypeSize + 
-            //                           btypeIdx * dataTypeSize + 
-            //                           dataTypeIdx]
-            // With yearSize=1, dataTypeSize=1 and fixed at 0, we simplify to:
-            // data.value[postcodeIdx * btypeSize + btypeIdx]
+            const { district, municipality } = parsePostalCodeLabel(fullLabel);
 
-            const buildingTypeSize = Object.keys(buildingTypes).length;
             const buildingTypePrices: BuildingPrices = {};
 
-            // Get price values for different building types
-            for (let btypeIdx = 0; btypeIdx < buildingTypeSize; btypeIdx++) {
-                const valueIndex = postalCodeIndex * buildingTypeSize + btypeIdx;
-
-                // Check if the index is valid in the data array
-                if (valueIndex < data.value.length) {
-                    const price = data.value[valueIndex];
-
-                    // Get the building type key based on its index
-                    const buildingTypeKey = Object.keys(buildingTypes).find(
-                        key => data.dimension.Talotyyppi.category.index[key] === btypeIdx
-                    );
-
-                    if (buildingTypeKey) {
-                        const buildingTypeLabel = buildingTypes[buildingTypeKey];
+            // Get price values for different building types; the year and metric dimensions have a single category
+            for (const buildingTypeKey of buildingTypes) {
+                const price = dataset.get({ Postinumero: postalCodeKey, Talotyyppi: buildingTypeKey });
 
-                        // Add to the building type prices object
-                        if (price !== '.' && price !== '...') {
-                            buildingTypePrices[buildingTypeLabel] = isNaN(Number(price)) ? price : Number(price);
-                        }
-                    }
+                // Add to the building type prices object
+                if (price !== null) {
+                    buildingTypePrices[dataset.label('Talotyyppi', buildingTypeKey)] = price;
                 }
             }
 
@@ -144,7 +118,7 @@ async function fetchPropertyData() {
         }
 
         // Display statistics about the data
-        const totalAreas = Object.keys(postalCodeIndexes).length;
+        const totalAreas = postalCodeKeys.length;
         const areasWithData = pricesByPostalCode.length;
         const dataCompleteness = (areasWithData / totalAreas * 100).toFixed(1);
 
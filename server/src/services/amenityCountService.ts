@@ -0,0 +1,96 @@
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { Position, getInteriorPoint } from '../utils/geometry';
+import { PolygonIndex } from '../utils/spatialIndex';
+import { GeoJSONGeometry } from '../types/geojson.types';
+import { getPostcodeBoundaries } from './hsyWfsService';
+import { OVERPASS_CATEGORIES, OverpassCategoryId, fetchCategory } from './overpassService';
+
+// Number of features of an Overpass category in a postcode area
+export interface PostcodeAmenityCount {
+    postalCode: string;
+    count: number;
+    perKm2: number; // Count per square kilometre of the postcode area, to two decimals
+}
+
+// Cache configuration: counts are rebuilt by the weekly refresh job, the TTL only covers missed runs
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 8; // 8 days in milliseconds
+const countCache = new SimpleCache<PostcodeAmenityCount[]>(
+    'Amenity Counts',
+    CACHE_TTL,
+    createCacheStore<PostcodeAmenityCount[]>('AMENITY_COUNTS') // Store selected via CACHE_STORE / CACHE_STORE_AMENITY_COUNTS
+);
+
+/**
+ * Returns the number of features of a category in every postcode area. Each feature is counted once,
+ * in the area holding its location: the point itself, or the interior point of an area feature.
+ * Served from the count cache, keyed by category; built on the first request if no refresh has run yet.
+ *
+ * @param category The category to count, see OVERPASS_CATEGORIES.
+ * @returns A promise resolving to one entry per postcode area, in the order of the boundaries.
+ * Rejects if the counts cannot be built and nothing is cached.
+ */
+export async function getAmenityCounts(category: OverpassCategoryId): Promise<PostcodeAmenityCount[]> {
+    return countCache.getOrFetch(category, () => buildAmenityCounts(category));
+}
+
+/**
+ * Rebuilds the counts of a category into the cache from the cached boundaries and category features.
+ * The cached counts keep being served until the new ones are complete, and are left untouched if it fails.
+ * @returns A promise resolving to the fresh counts. Rejects if they cannot be built.
+ */
+export async function refreshAmenityCounts(category: OverpassCategoryId): Promise<PostcodeAmenityCount[]> {
+    return countCache.refresh(category, () => buildAmenityCounts(category));
+}
+
+// Location of a feature: points as they are, polygons by their interior point; lines are not counted
+const getLocation = (geometry: GeoJSONGeometry | null): Position | null =>
+    geometry?.type === 'Point' ? geometry.coordinates as Position : getInteriorPoint(geometry);
+
+/**
+ * Counts the features of a category per postcode area, in WGS84 as both datasets are published.
+ */
+async function buildAmenityCounts(category: OverpassCategoryId): Promise<PostcodeAmenityCount[]> {
+    // eslint-disable-next-line security/detect-object-injection
+    const { label } = OVERPASS_CATEGORIES[category];
+    console.log(`Counting ${label.toLowerCase()} per postcode area...`);
+    const [boundaries, features] = await Promise.all([getPostcodeBoundaries(), fetchCategory(category)]);
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
+    }
+    // fetchCategory falls back to an empty collection; empty counts must not replace good ones
+    if (features.features.length === 0) {
+        throw new Error(`${label} are not available.`);
+    }
+
+    const postcodeIndex = new PolygonIndex(boundaries);
+    const counts = new Map<string, number>();
+    features.features.forEach(feature => {
+        const location = getLocation(feature.geometry as GeoJSONGeometry | null);
+        const postalCode = location ? postcodeIndex.findContaining(location[0], location[1])?.properties?.postalCode : undefined;
+        if (typeof postalCode === 'string') {
+            counts.set(postalCode, (counts.get(postalCode) ?? 0) + 1);
+        }
+    });
+
+    return boundaries.features.flatMap(({ properties }): PostcodeAmenityCount[] => {
+        const postalCode = properties?.postalCode;
+        if (typeof postalCode !== 'string') {
+            return [];
+        }
+        const count = counts.get(postalCode) ?? 0;
+        const areaKm2 = Number(properties?.areaKm2);
+        return [{
+            postalCode,
+            count,
+            perKm2: areaKm2 > 0 ? Math.round((count / areaKm2) * 100) / 100 : 0
+        }];
+    });
+}
+
+/**
+ * Clears the amenity count cache.
+ */
+export function clearAmenityCountCache(): void {
+    countCache.clear();
+}
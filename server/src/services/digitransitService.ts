@@ -0,0 +1,225 @@
+import axios from 'axios';
+import { Feature, FeatureCollection, Point } from 'geojson';
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { PolygonIndex } from '../utils/spatialIndex';
+import {
+    DigitransitGraphQLResponse,
+    DigitransitStop,
+    DigitransitStopsQueryResult,
+    TransitStopProperties
+} from '../types/digitransit.types';
+import { getPostcodeBoundaries } from './hsyWfsService';
+
+export type TransitStops = FeatureCollection<Point, TransitStopProperties>;
+
+// Public transport stops and the routes serving them in a postcode area
+export interface PostcodeTransitStopCount {
+    postalCode: string;
+    stopCount: number;
+    routeCount: number; // Distinct routes stopping in the area
+    modes: string[];    // Distinct transport modes of those routes
+}
+
+// HSL routing API (Helsinki region); DIGITRANSIT_API_URL overrides it, e.g. for a local stand-in
+// Ref: https://digitransit.fi/en/developers/apis/1-routing-api/
+const DEFAULT_DIGITRANSIT_API_URL = 'https://api.digitransit.fi/routing/v2/hsl/gtfs/v1';
+
+// Stops with the routes of their patterns; a stop served by no route has no patterns
+const STOPS_QUERY = `
+query GetStops {
+  stops {
+    gtfsId
+    name
+    code
+    lat
+    lon
+    vehicleMode
+    patterns {
+      code
+      route {
+        gtfsId
+        shortName
+        mode
+      }
+    }
+  }
+}
+`;
+
+// Cache configuration: stops change with the timetable seasons, refreshed nightly by the scheduled job
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 2; // 2 days in milliseconds
+const STOPS_CACHE_KEY = 'hsl_stops';
+const COUNTS_CACHE_KEY = 'all_postcodes';
+const stopCache = new SimpleCache<TransitStops>(
+    'Digitransit Stops',
+    CACHE_TTL,
+    createCacheStore<TransitStops>('DIGITRANSIT') // Store selected via CACHE_STORE / CACHE_STORE_DIGITRANSIT
+);
+const countCache = new SimpleCache<PostcodeTransitStopCount[]>(
+    'Transit Stop Counts',
+    CACHE_TTL,
+    createCacheStore<PostcodeTransitStopCount[]>('TRANSIT_STOP_COUNTS') // Store selected via CACHE_STORE / CACHE_STORE_TRANSIT_STOP_COUNTS
+);
+
+/**
+ * Returns the public transport stops of the Helsinki region as GeoJSON points, with the
+ * transport modes and routes serving each stop. Served from the stop cache.
+ * @returns A promise resolving to the stops. Rejects if they cannot be fetched and nothing is cached.
+ */
+export async function getTransitStops(): Promise<TransitStops> {
+    return stopCache.getOrFetch(STOPS_CACHE_KEY, requestTransitStops);
+}
+
+/**
+ * Re-fetches the stops into the cache. The cached stops keep being served until
+ * the new ones have arrived, and are left untouched if the query fails.
+ * @returns A promise resolving to the fresh stops. Rejects if the query fails.
+ */
+export async function refreshTransitStops(): Promise<TransitStops> {
+    return stopCache.refresh(STOPS_CACHE_KEY, requestTransitStops);
+}
+
+/**
+ * Returns the number of stops and distinct routes in every postcode area.
+ * Served from the count cache; built on the first request if no refresh has run yet.
+ * @returns A promise resolving to one entry per postcode area, in the order of the boundaries.
+ * Rejects if the counts cannot be built and nothing is cached.
+ */
+export async function getTransitStopCounts(): Promise<PostcodeTransitStopCount[]> {
+    return countCache.getOrFetch(COUNTS_CACHE_KEY, buildTransitStopCounts);
+}
+
+/**
+ * Rebuilds the counts into the cache from the cached boundaries and stops.
+ * The cached counts keep being served until the new ones are complete, and are left untouched if it fails.
+ * @returns A promise resolving to the fresh counts. Rejects if they cannot be built.
+ */
+export async function refreshTransitStopCounts(): Promise<PostcodeTransitStopCount[]> {
+    return countCache.refresh(COUNTS_CACHE_KEY, buildTransitStopCounts);
+}
+
+const distinct = (values: (string | undefined)[]): string[] =>
+    [...new Set(values.filter((value): value is string => typeof value === 'string' && value !== ''))]
+        .sort((a, b) => a.localeCompare(b, 'fi', { numeric: true }));
+
+function toStopFeature(stop: DigitransitStop): Feature<Point, TransitStopProperties> {
+    const routes = (stop.patterns ?? []).flatMap(pattern => (pattern.route ? [pattern.route] : []));
+    const modes = distinct(routes.map(route => route.mode));
+    return {
+        type: 'Feature',
+        id: stop.gtfsId,
+        geometry: { type: 'Point', coordinates: [stop.lon, stop.lat] },
+        properties: {
+            gtfsId: stop.gtfsId,
+            name: stop.name,
+            code: stop.code ?? null,
+            // A stop without routes still has the mode it is built for
+            modes: modes.length > 0 ? modes : distinct([stop.vehicleMode]),
+            routes: distinct(routes.map(route => route.shortName)),
+            routeIds: distinct(routes.map(route => route.gtfsId))
+        }
+    };
+}
+
+/**
+ * Runs a query against the Digitransit GraphQL API with the subscription key from DIGITRANSIT_API_KEY.
+ * @param query The GraphQL query.
+ * @param variables Values of the query's variables.
+ * @returns A promise resolving to the `data` of the response.
+ * Rejects if no key is set, on request errors, and on GraphQL errors, which are reported with a 200 status.
+ */
+export async function queryDigitransit<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const apiKey = process.env.DIGITRANSIT_API_KEY;
+    if (!apiKey) {
+        throw new Error('DIGITRANSIT_API_KEY is not set.');
+    }
+    const apiUrl = process.env.DIGITRANSIT_API_URL || DEFAULT_DIGITRANSIT_API_URL;
+
+    const response = await axios.post<DigitransitGraphQLResponse<T>>(
+        apiUrl,
+        { query, variables },
+        {
+            headers: {
+                'Content-Type': 'application/json',
+                'digitransit-subscription-key': apiKey
+            }
+        }
+    );
+
+    const { data, errors } = response.data ?? {};
+    if (errors && errors.length > 0) {
+        throw new Error(`Digitransit GraphQL errors: ${errors.map(error => error.message).join('; ')}`);
+    }
+    if (!data) {
+        throw new Error('Unexpected Digitransit API response format: data is missing.');
+    }
+    return data;
+}
+
+/**
+ * Queries the Digitransit GraphQL API for all stops, bypassing the cache.
+ * Throws on request and GraphQL errors so that the cache keeps its last good value.
+ */
+async function requestTransitStops(): Promise<TransitStops> {
+    console.log('Querying Digitransit API for transit stops...');
+    const { stops } = await queryDigitransit<DigitransitStopsQueryResult>(STOPS_QUERY);
+    if (!Array.isArray(stops)) {
+        throw new Error('Unexpected Digitransit API response format: stops are missing.');
+    }
+
+    const features = stops
+        .filter(stop => Number.isFinite(stop.lat) && Number.isFinite(stop.lon))
+        .map(toStopFeature);
+    console.log(`Successfully received ${features.length} transit stops from Digitransit API.`);
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Assigns every stop to the postcode area containing it, in WGS84 as both datasets are published.
+ */
+async function buildTransitStopCounts(): Promise<PostcodeTransitStopCount[]> {
+    console.log('Counting transit stops per postcode area...');
+    const [boundaries, stops] = await Promise.all([getPostcodeBoundaries(), getTransitStops()]);
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
+    }
+
+    const postcodeIndex = new PolygonIndex(boundaries);
+    const stopsByPostcode = new Map<string, TransitStopProperties[]>();
+    stops.features.forEach(({ geometry, properties }) => {
+        const [lon, lat] = geometry.coordinates;
+        const postalCode = postcodeIndex.findContaining(lon, lat)?.properties?.postalCode;
+        if (typeof postalCode !== 'string') {
+            return;
+        }
+        let areaStops = stopsByPostcode.get(postalCode);
+        if (!areaStops) {
+            areaStops = [];
+            stopsByPostcode.set(postalCode, areaStops);
+        }
+        areaStops.push(properties);
+    });
+
+    return boundaries.features.flatMap(({ properties }): PostcodeTransitStopCount[] => {
+        const postalCode = properties?.postalCode;
+        if (typeof postalCode !== 'string') {
+            return [];
+        }
+        const areaStops = stopsByPostcode.get(postalCode) ?? [];
+        return [{
+            postalCode,
+            stopCount: areaStops.length,
+            routeCount: new Set(areaStops.flatMap(stop => stop.routeIds)).size,
+            modes: distinct(areaStops.flatMap(stop => stop.modes))
+        }];
+    });
+}
+
+/**
+ * Clears the stop and count caches.
+ */
+export function clearDigitransitCache(): void {
+    stopCache.clear();
+    countCache.clear();
+}
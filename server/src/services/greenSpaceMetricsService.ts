@@ -0,0 +1,149 @@
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import {
+    BoundingBox,
+    Position,
+    getCoveredArea,
+    getDistanceToGeometry,
+    getGeometryArea,
+    getGeometryBoundingBox,
+    getInteriorPoint
+} from '../utils/geometry';
+import { HELSINKI_CRS, WGS84_CRS, reprojectFeatureCollection } from '../utils/projection';
+import { PolygonIndex } from '../utils/spatialIndex';
+import { GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONGeometry } from '../types/geojson.types';
+import { getPostcodeBoundaries } from './hsyWfsService';
+import { fetchGreenSpaces } from './overpassService';
+
+// Green space figures of a postcode area, all measured in EPSG:3879
+export interface PostcodeGreenSpaceMetrics {
+    postalCode: string;
+    areaKm2: number;
+    greenAreaM2: number;               // Area covered by any green space, overlapping green spaces counted once
+    greenShare: number;                // Green area as a percentage of the postcode area, to one decimal
+    parkCount: number;                 // Parks whose interior point lies in the postcode area
+    nearestLargeParkM: number | null;  // From the postcode's interior point to the edge of the nearest large park; 0 inside one
+}
+
+// Parks of at least one hectare count as large
+export const LARGE_PARK_MIN_AREA_M2 = 10000;
+
+// Cache configuration: the dataset is rebuilt by the nightly refresh job, the TTL only covers missed runs
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 2; // 2 days in milliseconds
+const CACHE_KEY = 'all_postcodes';
+const metricsCache = new SimpleCache<PostcodeGreenSpaceMetrics[]>(
+    'Green Space Metrics',
+    CACHE_TTL,
+    createCacheStore<PostcodeGreenSpaceMetrics[]>('GREEN_SPACE_METRICS') // Store selected via CACHE_STORE / CACHE_STORE_GREEN_SPACE_METRICS
+);
+
+interface Park {
+    geometry: GeoJSONGeometry | null;
+    box: BoundingBox;
+}
+
+/**
+ * Returns the green area, green share, park count and distance to the nearest large park of every
+ * postcode area. Served from the dataset cache; built on the first request if no refresh has run yet.
+ * @returns A promise resolving to one entry per postcode area, in the order of the boundaries.
+ * Rejects if the dataset cannot be built and nothing is cached.
+ */
+export async function getGreenSpaceMetrics(): Promise<PostcodeGreenSpaceMetrics[]> {
+    return metricsCache.getOrFetch(CACHE_KEY, buildGreenSpaceMetrics);
+}
+
+/**
+ * Rebuilds the dataset into the cache from the cached boundaries and green spaces.
+ * The cached dataset keeps being served until the new one is complete, and is left untouched if it fails.
+ * @returns A promise resolving to the fresh dataset. Rejects if it cannot be built.
+ */
+export async function refreshGreenSpaceMetrics(): Promise<PostcodeGreenSpaceMetrics[]> {
+    return metricsCache.refresh(CACHE_KEY, buildGreenSpaceMetrics);
+}
+
+const isPark = (feature: GeoJSONFeature): boolean => feature.properties?.leisure === 'park';
+
+// Lower bound of the distance from a point to anything within a bounding box
+const boxDistance = ([x, y]: Position, [minX, minY, maxX, maxY]: BoundingBox): number =>
+    Math.hypot(Math.max(minX - x, 0, x - maxX), Math.max(minY - y, 0, y - maxY));
+
+/**
+ * Returns the distance from a point to the nearest park, checking parks in order of their
+ * bounding box distance and stopping once no remaining box can be closer.
+ */
+function findNearestParkDistance(point: Position, parks: Park[]): number | null {
+    const candidates = parks
+        .map(park => ({ park, bound: boxDistance(point, park.box) }))
+        .sort((a, b) => a.bound - b.bound);
+    let nearest = Infinity;
+    for (const { park, bound } of candidates) {
+        if (bound >= nearest) break;
+        nearest = Math.min(nearest, getDistanceToGeometry(point, park.geometry));
+    }
+    return Number.isFinite(nearest) ? nearest : null;
+}
+
+/**
+ * Intersects the green spaces with every postcode area. Green spaces are reprojected from WGS84
+ * to EPSG:3879 first, so areas are in square metres and distances in metres.
+ */
+async function buildGreenSpaceMetrics(): Promise<PostcodeGreenSpaceMetrics[]> {
+    console.log('Building green space metrics dataset...');
+    const [boundaries, greenSpaces] = await Promise.all([
+        getPostcodeBoundaries({ crs: HELSINKI_CRS }),
+        fetchGreenSpaces()
+    ]);
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
+    }
+    // fetchGreenSpaces falls back to an empty collection; an empty dataset must not replace a good one
+    if (greenSpaces.features.length === 0) {
+        throw new Error('Green spaces are not available.');
+    }
+
+    const green = reprojectFeatureCollection(greenSpaces as unknown as GeoJSONFeatureCollection, WGS84_CRS, HELSINKI_CRS);
+    const greenIndex = new PolygonIndex(green);
+    const postcodeIndex = new PolygonIndex(boundaries);
+
+    const parkCounts = new Map<string, number>();
+    const largeParks: Park[] = [];
+    green.features.filter(isPark).forEach(park => {
+        const point = getInteriorPoint(park.geometry);
+        const postalCode = point ? postcodeIndex.findContaining(point[0], point[1])?.properties?.postalCode : undefined;
+        if (typeof postalCode === 'string') {
+            parkCounts.set(postalCode, (parkCounts.get(postalCode) ?? 0) + 1);
+        }
+        const box = getGeometryBoundingBox(park.geometry);
+        if (box && getGeometryArea(park.geometry) >= LARGE_PARK_MIN_AREA_M2) {
+            largeParks.push({ geometry: park.geometry, box });
+        }
+    });
+
+    return boundaries.features.flatMap(({ geometry, properties }): PostcodeGreenSpaceMetrics[] => {
+        const postalCode = properties?.postalCode;
+        if (typeof postalCode !== 'string') {
+            return [];
+        }
+        const area = getGeometryArea(geometry);
+        const box = getGeometryBoundingBox(geometry);
+        const greenArea = box ? getCoveredArea(geometry, greenIndex.findPolygonsInBox(box)) : 0;
+        const interiorPoint = properties?.interiorPoint as Position | null | undefined;
+        const nearestLargePark = interiorPoint ? findNearestParkDistance(interiorPoint, largeParks) : null;
+
+        return [{
+            postalCode,
+            areaKm2: Math.round(area / 1000) / 1000, // Square metres to km², to the nearest 1000 m²
+            greenAreaM2: Math.round(greenArea),
+            greenShare: area > 0 ? Math.round(Math.min(100, (greenArea / area) * 100) * 10) / 10 : 0,
+            parkCount: parkCounts.get(postalCode) ?? 0,
+            nearestLargeParkM: nearestLargePark === null ? null : Math.round(nearestLargePark)
+        }];
+    });
+}
+
+/**
+ * Clears the green space metrics dataset cache.
+ */
+export function clearGreenSpaceMetricsCache(): void {
+    metricsCache.clear();
+}
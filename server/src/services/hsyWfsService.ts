@@ -1,73 +1,327 @@
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
+import type { Topology } from 'topojson-specification';
 import { SimpleCache } from '../utils/cache';
-import { GeoJSONFeatureCollection } from '../types/geojson.types'; // Import the GeoJSON types
+import { createCacheStore } from '../utils/cacheStore';
+import { GeoJSONFeature, GeoJSONFeatureCollection, PostcodeBoundaryFormat, PostcodeBoundaryOptions, PostcodeSummary } from '../types/geojson.types'; // Import the GeoJSON types
+import { Position, getGeometryArea, getGeometryBoundingBox, getInteriorPoint } from '../utils/geometry';
+import { HELSINKI_CRS, SupportedCrs, WGS84_CRS, reprojectFeatureCollection, reprojectPoint } from '../utils/projection';
+import { findNeighbours, simplifyFeatureCollection, toTopoJSON, toleranceForZoom, zoomForTolerance } from '../utils/simplification';
+import { PolygonIndex } from '../utils/spatialIndex';
+import { WalkingDistanceZone, walkTimeLayers } from './hsyWmsService';
+
+type PostcodeBoundaries = GeoJSONFeatureCollection | Topology;
 
 // Cache configuration
 const CACHE_TTL = 1000 * 60 * 60 * 24; // 24 hours in milliseconds
-const postcodeCache = new SimpleCache<GeoJSONFeatureCollection>('HSY WFS Postcodes', CACHE_TTL);
+const postcodeCache = new SimpleCache<PostcodeBoundaries>(
+    'HSY WFS Postcodes',
+    CACHE_TTL,
+    createCacheStore<PostcodeBoundaries>('HSY_WFS') // Store selected via CACHE_STORE / CACHE_STORE_HSY_WFS
+);
+
+// Walking zone polygons change rarely; they are kept apart so refreshing one dataset leaves the other alone
+const walkingZoneCache = new SimpleCache<GeoJSONFeatureCollection>(
+    'HSY WFS Walking Zones',
+    CACHE_TTL,
+    createCacheStore<GeoJSONFeatureCollection>('HSY_WFS_ZONES') // Store selected via CACHE_STORE / CACHE_STORE_HSY_WFS_ZONES
+);
 
 // Base URL for the HSY WFS service
 const HSY_WFS_BASE_URL = 'https://kartta.hsy.fi/geoserver/wfs';
 const POSTCODE_LAYER_NAME = 'taustakartat_ja_aluejaot:pks_postinumeroalueet_2022';
 const WFS_VERSION = '2.0.0'; // Use WFS 2.0.0 for better compatibility and JSON output
 const OUTPUT_FORMAT = 'application/json';
-const CRS = 'EPSG:3879';
+const SOURCE_CRS = HELSINKI_CRS; // Boundaries are requested and cached in the CRS HSY publishes them in
 const CACHE_KEY = 'all_postcodes';
+const TOPOJSON_OBJECT_NAME = 'postcodes';
+
+// Source collection the cached variants were built from. When the cache returns a new one, however it was
+// refreshed, the variants are dropped so they are rebuilt from it
+let variantSource: GeoJSONFeatureCollection | null = null;
+
+// Spatial index over the source boundaries, rebuilt when the cache returns a new collection
+let boundaryIndex: { source: GeoJSONFeatureCollection; index: PolygonIndex } | null = null;
+
+// Geometry attributes computed from the unsimplified source boundaries, shared by every variant
+interface SourceAttributes {
+    areaKm2: number;
+    interiorPoint: Position | null; // In the source CRS
+    neighbours: string[];
+}
+let sourceAttributes: { source: GeoJSONFeatureCollection; attributes: SourceAttributes[] } | null = null;
+
+/**
+ * Fetches postcode boundaries from the HSY WFS API, optionally simplified and as TopoJSON.
+ * Uses the postcode cache: expired data is served while a refresh runs, concurrent
+ * misses share one WFS request, and failed refreshes keep the last good value.
+ * Each variant (CRS, tolerance and format) is derived from the cached source boundaries
+ * and cached under its own key until the source is replaced, by a refresh or by the cache.
+ * Each feature gets a `postalCode` property (from HSY's `posno`) and the summary attributes `areaKm2`, `interiorPoint`, `bbox` and `neighbours` (see PostcodeSummary).
+ *
+ * @param options Coordinate system (WGS84 by default), simplification tolerance in metres and output format.
+ * Tolerances snap to the nearest zoom level tolerance (see zoomForTolerance), which bounds the number of cached
+ * variants; leaving the tolerance out or zero leaves the boundaries unsimplified.
+ * @returns A promise resolving to a GeoJSON FeatureCollection or TopoJSON Topology, or null if an error occurs and nothing is cached.
+ */
+export async function getPostcodeBoundaries(options: PostcodeBoundaryOptions = {}): Promise<PostcodeBoundaries | null> {
+    const { crs = WGS84_CRS, format = 'geojson' } = options;
+    const zoom = options.tolerance && options.tolerance > 0 ? zoomForTolerance(options.tolerance) : null;
+    const tolerance = zoom === null ? 0 : toleranceForZoom(zoom);
+    const key = getVariantKey(crs, zoom, format);
+    try {
+        const source = await getSourceBoundaries();
+        return await postcodeCache.getOrFetch(key, () => Promise.resolve(prepareBoundaries(source, { crs, tolerance, format })));
+    } catch {
+        // requestPostcodeBoundaries has already logged the specific error
+        return null;
+    }
+}
+
+// Cache key of a variant, e.g. 'all_postcodes:EPSG:4326:z11:topojson' or 'all_postcodes:EPSG:3879:full:geojson'
+const getVariantKey = (crs: SupportedCrs, zoom: number | null, format: PostcodeBoundaryFormat): string =>
+    [CACHE_KEY, crs, zoom === null ? 'full' : `z${zoom}`, format].join(':');
+
+const isVariantKey = (key: string): boolean => key.startsWith(`${CACHE_KEY}:`);
+
+async function getSourceBoundaries(): Promise<GeoJSONFeatureCollection> {
+    // The source key only ever holds the collection returned by the WFS API
+    const source = await postcodeCache.getOrFetch(CACHE_KEY, requestPostcodeBoundaries) as GeoJSONFeatureCollection;
+    if (!variantSource) {
+        // Variants already cached when the process starts were built from the source cached with them
+        variantSource = source;
+    } else if (variantSource !== source) {
+        replaceVariantSource(source);
+    }
+    return source;
+}
+
+// Drops the cached variants so they are rebuilt from the given source collection
+function replaceVariantSource(source: GeoJSONFeatureCollection): void {
+    postcodeCache.keys().filter(isVariantKey).forEach(key => postcodeCache.delete(key));
+    variantSource = source;
+}
+
+const requestPostcodeBoundaries = (): Promise<GeoJSONFeatureCollection> =>
+    requestWfsFeatures(POSTCODE_LAYER_NAME, 'postcode boundaries');
+
+const requestWalkingZones = (zone: WalkingDistanceZone): Promise<GeoJSONFeatureCollection> =>
+    // eslint-disable-next-line security/detect-object-injection
+    requestWfsFeatures(walkTimeLayers[zone], `${zone} walking zones`);
+
+const getPostalCode = (feature: GeoJSONFeature): string | null => {
+    const postalCode = feature.properties?.posno;
+    return typeof postalCode === 'string' ? postalCode : null;
+};
+
+/**
+ * Returns the area, interior point and neighbours of each source feature, by feature index.
+ * Computed once per cached source collection, from the unsimplified boundaries in metres.
+ */
+function getSourceAttributes(source: GeoJSONFeatureCollection): SourceAttributes[] {
+    if (sourceAttributes?.source === source) {
+        return sourceAttributes.attributes;
+    }
+    const postalCodes = source.features.map(getPostalCode);
+    const neighbourIndexes = findNeighbours(source);
+    const attributes = source.features.map((feature, i): SourceAttributes => ({
+        areaKm2: Math.round(getGeometryArea(feature.geometry) / 1000) / 1000, // Square metres to km², to the nearest 1000 m²
+        interiorPoint: getInteriorPoint(feature.geometry),
+        neighbours: [...new Set((neighbourIndexes.at(i) ?? [])
+            .map(index => postalCodes.at(index))
+            .filter((postalCode): postalCode is string => typeof postalCode === 'string'))]
+            .sort((a, b) => a.localeCompare(b))
+    }));
+    sourceAttributes = { source, attributes };
+    return attributes;
+}
+
+/**
+ * Builds a variant of the source boundaries. Simplification runs before reprojection,
+ * while the coordinates are still in metres. Features keep their order through both,
+ * so the source attributes are matched to them by index.
+ */
+function prepareBoundaries(source: GeoJSONFeatureCollection, { crs, tolerance, format }: Required<PostcodeBoundaryOptions>): PostcodeBoundaries {
+    const attributes = getSourceAttributes(source);
+    const simplified = tolerance > 0 ? simplifyFeatureCollection(source, tolerance) : source;
+    const reprojected = reprojectFeatureCollection(simplified, SOURCE_CRS, crs);
+    const boundaries: GeoJSONFeatureCollection = {
+        ...reprojected,
+        features: reprojected.features.map((feature, i) => {
+            const postalCode = getPostalCode(feature);
+            const { areaKm2, interiorPoint, neighbours } = attributes.at(i) ?? { areaKm2: 0, interiorPoint: null, neighbours: [] };
+            return {
+                ...feature,
+                properties: {
+                    ...feature.properties,
+                    ...(postalCode !== null && { postalCode }),
+                    areaKm2,
+                    interiorPoint: interiorPoint && reprojectPoint(interiorPoint[0], interiorPoint[1], SOURCE_CRS, crs),
+                    bbox: getGeometryBoundingBox(feature.geometry),
+                    neighbours
+                }
+            };
+        })
+    };
+    return format === 'topojson' ? toTopoJSON(boundaries, TOPOJSON_OBJECT_NAME) : boundaries;
+}
+
+/**
+ * Lists the summary attributes of every postcode area, without the geometries.
+ *
+ * @param crs Coordinate system of the interior points and bounding boxes. Defaults to WGS84.
+ * @returns A promise resolving to the summaries in the order HSY publishes the areas,
+ * or null if the boundaries cannot be fetched and nothing is cached.
+ */
+export async function getPostcodeSummaries(crs: SupportedCrs = WGS84_CRS): Promise<PostcodeSummary[] | null> {
+    const boundaries = await getPostcodeBoundaries({ crs });
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        return null;
+    }
+    return boundaries.features.flatMap(({ properties }): PostcodeSummary[] => {
+        if (typeof properties?.postalCode !== 'string') {
+            return [];
+        }
+        return [{
+            postalCode: properties.postalCode,
+            name: typeof properties.nimi === 'string' ? properties.nimi : null,
+            areaKm2: properties.areaKm2 as number,
+            interiorPoint: properties.interiorPoint as Position | null,
+            bbox: properties.bbox as PostcodeSummary['bbox'],
+            neighbours: properties.neighbours as string[]
+        }];
+    });
+}
 
 /**
- * Fetches postcode boundaries as GeoJSON from the HSY WFS API.
- * Uses an in-memory cache.
+ * Finds the postcode area containing a point. Points are tested in the source CRS against
+ * the source boundaries, through a spatial index built once per cached source collection.
+ * The feature is then taken from the unsimplified variant in the CRS of the point.
  *
- * @returns A promise resolving to a GeoJSON FeatureCollection or null if an error occurs.
+ * @param x Easting, or longitude for WGS84.
+ * @param y Northing, or latitude for WGS84.
+ * @param crs Coordinate system of the point. Defaults to WGS84.
+ * @returns The containing feature (with its `postalCode` property), with its geometry, `interiorPoint`
+ * and `bbox` in the CRS of the point, or null if the point is outside every postcode area.
+ * Rejects if the boundaries cannot be fetched.
  */
-export async function getPostcodeBoundaries(): Promise<GeoJSONFeatureCollection | null> {
-    // Check cache first
-    const cachedValue = postcodeCache.get(CACHE_KEY);
-    if (cachedValue !== undefined) {
-        return cachedValue;
+export async function findPostcodeAt(x: number, y: number, crs: SupportedCrs = WGS84_CRS): Promise<GeoJSONFeature | null> {
+    let source: GeoJSONFeatureCollection;
+    try {
+        source = await getSourceBoundaries();
+    } catch {
+        // requestPostcodeBoundaries has already logged the specific error
+        throw new Error('Postcode boundaries are not available.');
+    }
+    if (boundaryIndex?.source !== source) {
+        boundaryIndex = { source, index: new PolygonIndex(source) };
+    }
+
+    const [sourceX, sourceY] = reprojectPoint(x, y, crs, SOURCE_CRS);
+    const feature = boundaryIndex.index.findContaining(sourceX, sourceY);
+    const postalCode = feature && getPostalCode(feature);
+    if (!postalCode) {
+        return null;
+    }
+
+    const variant = await getPostcodeBoundaries({ crs });
+    if (!variant || variant.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
     }
+    return variant.features.find(candidate => candidate.properties?.postalCode === postalCode) ?? null;
+}
+
+/**
+ * Re-fetches the postcode boundaries into the cache. The cached boundaries keep being served
+ * until the new data has arrived, and are left untouched if the request fails.
+ * Once the source has been replaced, the cached variants are dropped so they are rebuilt from it.
+ *
+ * @returns A promise resolving to the fresh FeatureCollection. Rejects if the request fails.
+ */
+export async function refreshPostcodeBoundaries(): Promise<GeoJSONFeatureCollection> {
+    const source = await postcodeCache.refresh(CACHE_KEY, requestPostcodeBoundaries) as GeoJSONFeatureCollection;
+    replaceVariantSource(source);
+    return source;
+}
 
-    // console.log(`Cache miss for key "${CACHE_KEY}" in [${postcodeCache.name}]. Fetching from HSY WFS API...`);
-    // The cache class logs misses internally, no need to log here.
-    console.log(`Fetching postcode boundaries from HSY WFS API...`);
+/**
+ * Fetches the polygons of the areas within a 5, 10 or 15 minute walk of public transport stops,
+ * in EPSG:3879. These are the layers hsyWmsService queries point by point. Uses the walking zone cache
+ * the same way getPostcodeBoundaries uses the postcode cache.
+ *
+ * @param zone The walking time.
+ * @returns A promise resolving to the zone polygons. Rejects if they cannot be fetched and nothing is cached.
+ */
+export async function getWalkingZones(zone: WalkingDistanceZone): Promise<GeoJSONFeatureCollection> {
+    return walkingZoneCache.getOrFetch(zone, () => requestWalkingZones(zone));
+}
+
+/**
+ * Re-fetches the polygons of every walking zone into the cache. Zones that fail keep their cached polygons.
+ * @returns A promise resolving once every zone has been fetched. Rejects if any of them failed.
+ */
+export async function refreshWalkingZones(): Promise<void> {
+    const zones = Object.keys(walkTimeLayers) as WalkingDistanceZone[];
+    const results = await Promise.allSettled(zones.map(zone => walkingZoneCache.refresh(zone, () => requestWalkingZones(zone))));
+    const failed = zones.filter((_, i) => results.at(i)?.status === 'rejected');
+    if (failed.length > 0) {
+        throw new Error(`Failed to refresh walking zones: ${failed.join(', ')}`);
+    }
+}
+
+/**
+ * Requests all features of a layer from the HSY WFS API in the source CRS, bypassing the cache.
+ * Throws if the request fails or the response is not a FeatureCollection.
+ * @param layerName The WFS type name.
+ * @param description What the layer holds, for log and error messages.
+ */
+async function requestWfsFeatures(layerName: string, description: string): Promise<GeoJSONFeatureCollection> {
+    console.log(`Fetching ${description} from HSY WFS API...`);
 
     const params = {
         SERVICE: 'WFS',
         VERSION: WFS_VERSION,
         REQUEST: 'GetFeature',
-        TYPENAMES: POSTCODE_LAYER_NAME,
+        TYPENAMES: layerName,
         OUTPUTFORMAT: OUTPUT_FORMAT,
-        SRSNAME: CRS // Request coordinates in the desired CRS
+        SRSNAME: SOURCE_CRS // Request coordinates in the desired CRS
         // We don't need BBOX if we want *all* features in the layer
     };
 
     const url = HSY_WFS_BASE_URL;
     console.debug(`Querying HSY WFS: ${url} with params: ${JSON.stringify(params)}`);
 
+    let response: AxiosResponse<GeoJSONFeatureCollection>;
     try {
-        const response = await axios.get<GeoJSONFeatureCollection>(url, { params });
-
-        if (response.status === 200 && response.data && response.data.type === 'FeatureCollection') {
-            console.log(`Successfully fetched postcode boundaries from HSY WFS.`);
-            postcodeCache.set(CACHE_KEY, response.data);
-            return response.data;
-        } else {
-            // Handle cases where the API returns 200 OK but the data is not as expected
-            console.error(`Error fetching postcode boundaries: Received status ${response.status} but data is invalid or not a FeatureCollection.`);
-            return null;
-        }
+        response = await axios.get<GeoJSONFeatureCollection>(url, { params });
     } catch (error) {
         if (error instanceof Error) {
             if (axios.isAxiosError(error)) {
-                console.error(`Error fetching postcode boundaries: API request failed with status ${error.response?.status} ${error.response?.statusText}`, error.message);
+                console.error(`Error fetching ${description}: API request failed with status ${error.response?.status} ${error.response?.statusText}`, error.message);
             } else {
-                console.error(`Error fetching postcode boundaries: An unexpected error occurred`, error.message);
+                console.error(`Error fetching ${description}: An unexpected error occurred`, error.message);
             }
         } else {
-            console.error(`Error fetching postcode boundaries: An unknown error occurred`, error);
+            console.error(`Error fetching ${description}: An unknown error occurred`, error);
         }
-        return null;
+        throw error;
     }
+
+    if (response.status === 200 && response.data && response.data.type === 'FeatureCollection') {
+        console.log(`Successfully fetched ${description} from HSY WFS.`);
+        return response.data;
+    }
+
+    // Handle cases where the API returns 200 OK but the data is not as expected
+    const message = `Error fetching ${description}: Received status ${response.status} but data is invalid or not a FeatureCollection.`;
+    console.error(message);
+    throw new Error(message);
+}
+
+/**
+ * Clears the walking zone polygon cache.
+ */
+export function clearWalkingZoneCache(): void {
+    walkingZoneCache.clear();
 }
 
 /**
@@ -75,4 +329,7 @@ export async function getPostcodeBoundaries(): Promise<GeoJSONFeatureCollection
  */
 export function clearPostcodeCache(): void {
     postcodeCache.clear();
+    variantSource = null;
+    boundaryIndex = null;
+    sourceAttributes = null;
 } 
@@ -1,20 +1,44 @@
 import axios from 'axios';
 import querystring from 'querystring';
 import { SimpleCache } from '../utils/cache'; // Import the generic cache
+import { createCacheStore } from '../utils/cacheStore';
 import { GeoJSONFeatureCollection } from '../types/geojson.types';
+import { mapWithConcurrency } from '../utils/concurrency';
 
+// Walking time to the nearest public transport stop, as published by HSY
+export type WalkingDistanceZone = '5min' | '10min' | '15min';
 // Define the specific type for this cache's values
-type HsyWmsValue = '5min' | '10min' | '15min' | null;
+type HsyWmsValue = WalkingDistanceZone | null;
 
-// Cache configuration
+// Transit accessibility class derived from the walking distance zone
+export type TransitAccessibility = 'high' | 'medium' | 'low' | 'none';
+
+export interface WalkingDistancePoint {
+    x: number; // EPSG:3879
+    y: number;
+}
+
+export interface WalkingDistanceResult extends WalkingDistancePoint {
+    walkingDistance: HsyWmsValue;
+    accessibility: TransitAccessibility;
+}
+
+// Cache configuration: keyed by the requested point, so the entry count is capped
 const CACHE_TTL = 1000 * 60 * 60 * 24; // 24 hours in milliseconds
-const hsyWmsCache = new SimpleCache<HsyWmsValue>('HSY WMS Walking Distance', CACHE_TTL);
+const CACHE_MAX_ENTRIES = 10000;
+const hsyWmsCache = new SimpleCache<HsyWmsValue>(
+    'HSY WMS Walking Distance',
+    CACHE_TTL,
+    createCacheStore<HsyWmsValue>('HSY_WMS'), // Store selected via CACHE_STORE / CACHE_STORE_HSY_WMS
+    { maxEntries: CACHE_MAX_ENTRIES }
+);
 
 // Base URL for the HSY WMS service
 const HSY_WMS_BASE_URL = 'https://kartta.hsy.fi/geoserver/wms';
 
-// Target layers for walking distances in order of preference (shortest first)
-const walkTimeLayers = {
+// Target layers for walking distances in order of preference (shortest first).
+// HSY publishes the same layers as polygons through its WFS, see hsyWfsService.getWalkingZones
+export const walkTimeLayers: Record<WalkingDistanceZone, string> = {
     '5min': 'asuminen_ja_maankaytto:kavely_5min',
     '10min': 'asuminen_ja_maankaytto:kavely_10min',
     '15min': 'asuminen_ja_maankaytto:kavely_15min',
@@ -23,11 +47,20 @@ const walkTimeLayers = {
 // Coordinate Reference System used by the HSY service
 const CRS = 'EPSG:3879';
 
+// Points queried at the same time by batch lookups; each point makes up to three WMS requests
+export const WALKING_DISTANCE_CONCURRENCY = 4;
+
+const ACCESSIBILITY_BY_ZONE: Record<WalkingDistanceZone, TransitAccessibility> = {
+    '5min': 'high',
+    '10min': 'medium',
+    '15min': 'low'
+};
+
 /**
  * Internal function to query a single WMS layer for feature info at a point.
- * Returns true if a feature is found, false otherwise.
+ * Returns true if a feature is found, false otherwise. Throws if the request fails.
  */
-async function checkWmsLayer(layerName: string, x: number, y: number): Promise<boolean> {
+async function queryWmsLayer(layerName: string, x: number, y: number): Promise<boolean> {
     const buffer = 10; // Small buffer in meters
     const bbox = `${x - buffer},${y - buffer},${x + buffer},${y + buffer}`;
     const width = 10;
@@ -55,35 +88,22 @@ async function checkWmsLayer(layerName: string, x: number, y: number): Promise<b
     const url = `${HSY_WMS_BASE_URL}?${querystring.stringify(params)}`;
     console.debug(`Querying HSY WMS: ${url}`); // Use debug level logging
 
-    try {
-        const response = await axios.get<GeoJSONFeatureCollection>(url);
-        // Check if the response is GeoJSON and has features
-        const hasFeatures = response.data &&
-            response.data.type === 'FeatureCollection' &&
-            Array.isArray(response.data.features) &&
-            response.data.features.length > 0;
-
-        console.debug(`Layer ${layerName} check result: ${hasFeatures}`);
-        return hasFeatures;
-    } catch (error) {
-        console.error(`Error checking HSY WMS layer ${layerName}:`);
-        if (error instanceof Error) {
-            if (axios.isAxiosError(error)) {
-                console.error(`API Error: Status ${error.response?.status}`, error.message);
-                // Optionally log error.response.data if needed, but be cautious of size
-            } else {
-                console.error(`Unexpected Error:`, error.message);
-            }
-        } else {
-            console.error(`Unknown error:`, error);
-        }
-        return false; // Indicate failure to check layer
-    }
+    const response = await axios.get<GeoJSONFeatureCollection>(url);
+    // Check if the response is GeoJSON and has features
+    const hasFeatures = response.data &&
+        response.data.type === 'FeatureCollection' &&
+        Array.isArray(response.data.features) &&
+        response.data.features.length > 0;
+
+    console.debug(`Layer ${layerName} check result: ${hasFeatures}`);
+    return hasFeatures;
 }
 
 /**
  * Checks HSY WMS layers to determine the shortest walking distance zone (5, 10, or 15 minutes)
- * to public transport stops for a given point. Uses an in-memory cache.
+ * to public transport stops for a given point. Uses the walking distance cache; concurrent
+ * lookups of the same point share one set of WMS requests. A failed WMS request is logged and
+ * resolves to null, but is not cached, so the point is queried again on the next lookup.
  * 
  * @param x The X coordinate in EPSG:3879.
  * @param y The Y coordinate in EPSG:3879.
@@ -91,37 +111,59 @@ async function checkWmsLayer(layerName: string, x: number, y: number): Promise<b
  */
 export async function getWalkingDistance(x: number, y: number): Promise<HsyWmsValue> {
     const cacheKey = `${x},${y}`;
-
-    // Check cache first
-    const cachedValue = hsyWmsCache.get(cacheKey);
-    if (cachedValue !== undefined) {
-        return cachedValue; // Return cached value (including null)
+    try {
+        // Cached values include null (point outside all zones)
+        return await hsyWmsCache.getOrFetch(cacheKey, () => requestWalkingDistance(x, y));
+    } catch {
+        // requestWalkingDistance has logged the failure
+        return null;
     }
+}
 
-    console.log(`Cache miss for key "${cacheKey}" in [HSY WMS Walking Distance]. Checking HSY API...`);
-    // Check layers in order: 5min, 10min, 15min
+/**
+ * Returns the transit accessibility class of a walking distance zone: 'high' within 5 minutes
+ * of a stop, 'medium' within 10, 'low' within 15 and 'none' outside all zones.
+ */
+export function toTransitAccessibility(zone: HsyWmsValue): TransitAccessibility {
+    // eslint-disable-next-line security/detect-object-injection
+    return zone ? ACCESSIBILITY_BY_ZONE[zone] : 'none';
+}
+
+/**
+ * Determines the walking distance zone of many points, querying at most `concurrency` points
+ * at a time. Results are read from and stored in the walking distance cache, per point.
+ * Unlike getWalkingDistance, a failed WMS request is not treated as "outside all zones":
+ * it rejects the whole batch, so a partial result is never mistaken for a complete one.
+ * Points that were resolved before the failure stay cached, so a retry is cheap.
+ *
+ * @param points The points in EPSG:3879.
+ * @param concurrency Maximum number of points queried at the same time.
+ * @returns A promise resolving to the zone and accessibility class of each point, in the order given.
+ */
+export async function getWalkingDistances(points: WalkingDistancePoint[], concurrency: number = WALKING_DISTANCE_CONCURRENCY): Promise<WalkingDistanceResult[]> {
+    return mapWithConcurrency(points, concurrency, async ({ x, y }) => {
+        const walkingDistance = await hsyWmsCache.getOrFetch(`${x},${y}`, () => requestWalkingDistance(x, y));
+        return { x, y, walkingDistance, accessibility: toTransitAccessibility(walkingDistance) };
+    });
+}
+
+/**
+ * Queries the walking distance layers for a point, bypassing the cache.
+ * Throws if any of the WMS requests needed fails.
+ */
+async function requestWalkingDistance(x: number, y: number): Promise<HsyWmsValue> {
     for (const [duration, layerName] of Object.entries(walkTimeLayers)) {
         try {
-            const isInZone = await checkWmsLayer(layerName, x, y);
-            if (isInZone) {
-                const result = duration as HsyWmsValue;
-                console.log(`Point found within ${duration} zone.`);
-                // Store in cache
-                hsyWmsCache.set(cacheKey, result);
-                return result; // Return the first zone found
+            if (await queryWmsLayer(layerName, x, y)) {
+                return duration as WalkingDistanceZone;
             }
         } catch (error) {
-            // Errors are handled within checkWmsLayer, but catch here just in case
-            console.error(`Unexpected error during layer check for ${duration}:`, error);
-            // Do not cache errors, just continue to the next layer instead of returning immediately
-            continue;
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Error checking HSY WMS layer ${layerName} for point ${x},${y}:`, message);
+            throw new Error(`Walking distance query failed for point ${x},${y}: ${message}`);
         }
     }
-
-    console.log('Point is outside all walking distance zones.');
-    // Cache the null result (point not found in any zone)
-    hsyWmsCache.set(cacheKey, null);
-    return null; // Not found in any layer
+    return null;
 }
 
 /**
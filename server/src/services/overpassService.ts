@@ -2,41 +2,128 @@ import axios from 'axios';
 import osm2geojson from 'osm2geojson-lite';
 import { FeatureCollection } from 'geojson';
 import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { BoundingBox } from '../utils/geometry';
 import {
-    OverpassResponse
+    OverpassCategory,
+    OverpassResponse,
+    OverpassTile
 } from '../types/overpass.types';
 
 // Define the specific type for this cache's values (now GeoJSON)
 type OverpassCacheValue = FeatureCollection;
 
-// Cache configuration
+// Cache configuration: bounding box queries add a key per tile, so the entry count is capped
 const OVERPASS_CACHE_TTL = 1000 * 60 * 60; // 1 hour
-const overpassCache = new SimpleCache<OverpassCacheValue>('Overpass Green Spaces GeoJSON', OVERPASS_CACHE_TTL);
+const OVERPASS_CACHE_MAX_ENTRIES = 1000;
+const overpassCache = new SimpleCache<OverpassCacheValue>(
+    'Overpass Categories GeoJSON',
+    OVERPASS_CACHE_TTL,
+    createCacheStore<OverpassCacheValue>('OVERPASS'), // Store selected via CACHE_STORE / CACHE_STORE_OVERPASS
+    { maxEntries: OVERPASS_CACHE_MAX_ENTRIES }
+);
 
 // Define the static bounding box for the Helsinki Metropolitan Area
 const HELSINKI_REGION_BBOX = '59.9,24.4,60.5,25.4'; // South, West, North, East
 
-// Define a static cache key
-const CACHE_KEY = 'helsinki_region_green_spaces';
+// Bounding box queries are split into a fixed grid of 0.1° tiles, each cached on its own, so that
+// overlapping viewports share their tiles. Larger boxes are rejected to keep the query count bounded.
+const TILES_PER_DEGREE = 10;
+export const MAX_OVERPASS_TILES = 64;
+const OVERPASS_TILE_CONCURRENCY = 2; // Overpass allows few parallel queries per client
 
 // Base URL for the Overpass API
 const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
 
-// Tags identifying green spaces in OpenStreetMap
-// Ref: https://wiki.openstreetmap.org/wiki/Tag:leisure%3Dpark
-// Ref: https://wiki.openstreetmap.org/wiki/Tag:landuse%3Dgrass
-// Ref: https://wiki.openstreetmap.org/wiki/Tag:natural%3Dwood
-const greenSpaceTags = [
-    'leisure=park',
-    'leisure=garden',
-    'leisure=dog_park',
-    'landuse=grass',
-    'landuse=forest',
-    'landuse=meadow',
-    'natural=wood',
-    'natural=tree_row',
-    'natural=grassland'
-];
+// Categories of OpenStreetMap features, each fetched for the Helsinki region and cached under its own key
+// Ref: https://wiki.openstreetmap.org/wiki/Map_features
+export const OVERPASS_CATEGORIES = {
+    // Ref: https://wiki.openstreetmap.org/wiki/Tag:leisure%3Dpark
+    // Ref: https://wiki.openstreetmap.org/wiki/Tag:landuse%3Dgrass
+    // Ref: https://wiki.openstreetmap.org/wiki/Tag:natural%3Dwood
+    'green-spaces': {
+        label: 'Green spaces',
+        tags: [
+            'leisure=park',
+            'leisure=garden',
+            'leisure=dog_park',
+            'landuse=grass',
+            'landuse=forest',
+            'landuse=meadow',
+            'natural=wood',
+            'natural=tree_row',
+            'natural=grassland'
+        ]
+    },
+    'schools': {
+        label: 'Schools',
+        tags: ['amenity=school']
+    },
+    'kindergartens': {
+        label: 'Kindergartens',
+        tags: ['amenity=kindergarten']
+    },
+    'grocery-stores': {
+        label: 'Grocery stores',
+        tags: ['shop=supermarket', 'shop=convenience', 'shop=greengrocer']
+    },
+    'healthcare': {
+        label: 'Healthcare',
+        tags: ['amenity=hospital', 'amenity=clinic', 'amenity=doctors', 'amenity=dentist', 'amenity=pharmacy']
+    },
+    'playgrounds': {
+        label: 'Playgrounds',
+        tags: ['leisure=playground']
+    },
+    'sports-facilities': {
+        label: 'Sports facilities',
+        tags: ['leisure=sports_centre', 'leisure=fitness_centre', 'leisure=pitch', 'leisure=stadium', 'leisure=swimming_pool']
+    },
+    'water-bodies': {
+        label: 'Water bodies',
+        tags: ['natural=water', 'waterway=riverbank', 'landuse=reservoir']
+    }
+} satisfies Record<string, OverpassCategory>;
+
+export type OverpassCategoryId = keyof typeof OVERPASS_CATEGORIES;
+
+export const OVERPASS_CATEGORY_IDS = Object.keys(OVERPASS_CATEGORIES) as OverpassCategoryId[];
+
+/**
+ * Checks whether a string names a category of OVERPASS_CATEGORIES.
+ */
+export function isOverpassCategory(value: string): value is OverpassCategoryId {
+    return Object.prototype.hasOwnProperty.call(OVERPASS_CATEGORIES, value);
+}
+
+// Cache key of a category, e.g. 'helsinki_region_green_spaces'
+const getCacheKey = (category: OverpassCategoryId): string => `helsinki_region_${category.replace(/-/g, '_')}`;
+
+// Cache key of a grid tile of a category, e.g. 'tile_green_spaces_249_601'
+const getTileCacheKey = (category: OverpassCategoryId, { column, row }: OverpassTile): string =>
+    `tile_${category.replace(/-/g, '_')}_${column}_${row}`;
+
+/**
+ * Returns the grid tiles overlapping a bounding box, row by row.
+ * @param bbox The box as [minLon, minLat, maxLon, maxLat] in WGS84.
+ */
+export function getOverpassTiles([minLon, minLat, maxLon, maxLat]: BoundingBox): OverpassTile[] {
+    const toCell = (degrees: number): number => Math.floor(degrees * TILES_PER_DEGREE);
+    // A box ending exactly on a tile edge does not reach into the next tile
+    const toLastCell = (min: number, max: number): number => Math.max(toCell(min), Math.ceil(max * TILES_PER_DEGREE) - 1);
+    const tiles: OverpassTile[] = [];
+    for (let row = toCell(minLat); row <= toLastCell(minLat, maxLat); row++) {
+        for (let column = toCell(minLon); column <= toLastCell(minLon, maxLon); column++) {
+            tiles.push({ column, row });
+        }
+    }
+    return tiles;
+}
+
+// Overpass bbox of a tile: South, West, North, East
+const toOverpassBbox = ({ column, row }: OverpassTile): string =>
+    [row, column, row + 1, column + 1].map(cell => cell / TILES_PER_DEGREE).join(',');
 
 /**
  * Helper function to handle API errors consistently.
@@ -63,22 +150,99 @@ function handleApiError(error: unknown, context: string): void {
 }
 
 /**
- * Fetches green space elements for the Helsinki Metropolitan Area
- * from the Overpass API and converts them to GeoJSON. Uses an in-memory cache.
+ * Fetches the elements of a category for the Helsinki Metropolitan Area from the Overpass API
+ * and converts them to GeoJSON. Uses the Overpass cache: expired data is served while a refresh
+ * runs and concurrent misses share one query.
  *
- * @returns A promise resolving to a GeoJSON FeatureCollection representing green spaces.
+ * @param category The category to fetch, see OVERPASS_CATEGORIES.
+ * @returns A promise resolving to a GeoJSON FeatureCollection of the category's features.
+ * Falls back to the last good value on errors, or an empty FeatureCollection if there is none.
  */
-export async function fetchGreenSpaces(): Promise<FeatureCollection> {
-    // Check cache using the static key
-    const cachedValue = overpassCache.get(CACHE_KEY);
-    if (cachedValue !== undefined) {
-        return cachedValue;
+export async function fetchCategory(category: OverpassCategoryId): Promise<FeatureCollection> {
+    try {
+        return await overpassCache.getOrFetch(getCacheKey(category), () => requestCategory(category));
+    } catch (error) {
+        handleApiError(error, `fetchCategory(${category})`);
+        // Return empty GeoJSON on error to prevent breaking the frontend
+        // Errors are not cached
+        return { type: 'FeatureCollection', features: [] };
+    }
+}
+
+/**
+ * Fetches the elements of a category within a bounding box. The box is split into grid tiles
+ * (see getOverpassTiles) that are queried and cached one by one, and the tiles are merged with
+ * elements spanning several tiles included once. The result covers the whole of every tile the
+ * box overlaps, so it may hold elements just outside the box.
+ *
+ * @param category The category to fetch, see OVERPASS_CATEGORIES.
+ * @param bbox The box as [minLon, minLat, maxLon, maxLat] in WGS84, overlapping at most MAX_OVERPASS_TILES tiles.
+ * @returns A promise resolving to a GeoJSON FeatureCollection of the category's features.
+ * Falls back to an empty FeatureCollection if any tile cannot be fetched; the tiles that were
+ * fetched stay cached.
+ */
+export async function fetchCategoryInBoundingBox(category: OverpassCategoryId, bbox: BoundingBox): Promise<FeatureCollection> {
+    try {
+        const tiles = getOverpassTiles(bbox);
+        if (tiles.length > MAX_OVERPASS_TILES) {
+            throw new Error(`The bounding box spans ${tiles.length} tiles, more than the maximum of ${MAX_OVERPASS_TILES}.`);
+        }
+        const tileCollections = await mapWithConcurrency(tiles, OVERPASS_TILE_CONCURRENCY, tile =>
+            overpassCache.getOrFetch(getTileCacheKey(category, tile), () => requestCategory(category, toOverpassBbox(tile)))
+        );
+
+        const seenIds = new Set<string | number>();
+        const features = tileCollections.flatMap(collection => collection.features).filter(feature => {
+            if (feature.id === undefined) return true;
+            if (seenIds.has(feature.id)) return false;
+            seenIds.add(feature.id);
+            return true;
+        });
+        return { type: 'FeatureCollection', features };
+    } catch (error) {
+        handleApiError(error, `fetchCategoryInBoundingBox(${category}, ${bbox.join(',')})`);
+        return { type: 'FeatureCollection', features: [] };
     }
+}
 
-    console.log(`Cache miss for key "${CACHE_KEY}" in [Overpass Green Spaces GeoJSON]. Querying Overpass API for Helsinki region...`);
+/**
+ * Re-fetches a category into the cache. The cached data keeps being served
+ * until the new data has arrived, and is left untouched if the query fails.
+ *
+ * @param category The category to refresh, see OVERPASS_CATEGORIES.
+ * @returns A promise resolving to the fresh FeatureCollection. Rejects if the query fails.
+ */
+export async function refreshCategory(category: OverpassCategoryId): Promise<FeatureCollection> {
+    return overpassCache.refresh(getCacheKey(category), () => requestCategory(category));
+}
 
-    // Construct the Overpass QL query using the static bbox
-    const tagsQueryPart = greenSpaceTags.map(tag => {
+/**
+ * Fetches green space elements (parks, forests etc.), see fetchCategory.
+ */
+export async function fetchGreenSpaces(): Promise<FeatureCollection> {
+    return fetchCategory('green-spaces');
+}
+
+/**
+ * Re-fetches the green spaces into the cache, see refreshCategory.
+ */
+export async function refreshGreenSpaces(): Promise<FeatureCollection> {
+    return refreshCategory('green-spaces');
+}
+
+/**
+ * Queries the Overpass API for the elements of a category, bypassing the cache.
+ * Throws on request errors and unexpected responses so that the cache keeps its last good value.
+ * @param bbox Overpass bbox (South, West, North, East); defaults to the Helsinki region.
+ */
+async function requestCategory(category: OverpassCategoryId, bbox: string = HELSINKI_REGION_BBOX): Promise<FeatureCollection> {
+    // eslint-disable-next-line security/detect-object-injection
+    const { label, tags } = OVERPASS_CATEGORIES[category];
+    const area = bbox === HELSINKI_REGION_BBOX ? 'Helsinki region' : `bbox ${bbox}`;
+    console.log(`Querying Overpass API for ${area} ${label.toLowerCase()}...`);
+
+    // Construct the Overpass QL query for the bbox
+    const tagsQueryPart = tags.map(tag => {
         const [key, value] = tag.split('=');
         return `
       node["${key}"="${value}"];
@@ -87,7 +251,7 @@ export async function fetchGreenSpaces(): Promise<FeatureCollection> {
     }).join('');
 
     const overpassQuery = `
-        [out:json][timeout:60][bbox:${HELSINKI_REGION_BBOX}]; // Use static bbox, increase timeout
+        [out:json][timeout:60][bbox:${bbox}]; // Increase timeout
         (
           ${tagsQueryPart}
         );
@@ -96,40 +260,26 @@ export async function fetchGreenSpaces(): Promise<FeatureCollection> {
         out skel qt;
     `;
 
-    try {
-        const response = await axios.post<OverpassResponse>(
-            OVERPASS_API_URL,
-            overpassQuery,
-            {
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
-            }
-        );
-
-        // Check if the response data is valid Overpass JSON format
-        if (!response.data || typeof response.data !== 'object' || !response.data.elements) {
-            console.warn('Unexpected Overpass API response format:', response.data);
-            // Return empty GeoJSON to avoid errors downstream
-            const emptyGeoJson: FeatureCollection = { type: 'FeatureCollection', features: [] };
-            overpassCache.set(CACHE_KEY, emptyGeoJson); // Use static key
-            return emptyGeoJson;
+    const response = await axios.post<OverpassResponse>(
+        OVERPASS_API_URL,
+        overpassQuery,
+        {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
         }
+    );
 
-        // Convert the Overpass response data to GeoJSON using osm2geojson-lite
-        // Set completeFeature: true to ensure we get a proper FeatureCollection with all elements
-        const geojsonData = osm2geojson(response.data, { completeFeature: true });
+    // Check if the response data is valid Overpass JSON format; throwing keeps the cached data
+    if (!response.data || typeof response.data !== 'object' || !response.data.elements) {
+        throw new Error('Unexpected Overpass API response format: elements are missing.');
+    }
 
-        console.log(`Successfully received and converted ${geojsonData.features.length} green space features from Overpass API for Helsinki region.`);
+    // Convert the Overpass response data to GeoJSON using osm2geojson-lite
+    // Set completeFeature: true to ensure we get a proper FeatureCollection with all elements
+    const geojsonData = osm2geojson(response.data, { completeFeature: true });
 
-        // Cache the GeoJSON result using the static key
-        overpassCache.set(CACHE_KEY, geojsonData);
-        return geojsonData;
+    console.log(`Successfully received and converted ${geojsonData.features.length} ${label.toLowerCase()} features from Overpass API for ${area}.`);
 
-    } catch (error) {
-        handleApiError(error, 'fetchGreenSpaces');
-        // Return empty GeoJSON on error to prevent breaking the frontend
-        // Do not cache errors
-        return { type: 'FeatureCollection', features: [] };
-    }
+    return geojsonData;
 }
 
 /**
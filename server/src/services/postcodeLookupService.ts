@@ -0,0 +1,41 @@
+import { PostcodeLookup } from '../types/geojson.types';
+import { SupportedCrs } from '../utils/projection';
+import { findPostcodeAt } from './hsyWfsService';
+import {
+    DEFAULT_TREND_PERIOD_YEARS,
+    STATFI_FIRST_YEAR,
+    calculatePriceTrends,
+    fetchStatFiPropertyDataRange
+} from './statFiService';
+
+/**
+ * Finds the postcode area containing a point and joins it with the postcode's prices
+ * of the latest year (last year) and its price trend over the default trend period.
+ *
+ * @param x Easting, or longitude for WGS84.
+ * @param y Northing, or latitude for WGS84.
+ * @param crs Coordinate system of the point.
+ * @returns The postcode with its price data, or null if the point is outside every postcode area.
+ * The `interiorPoint` and `bbox` properties are in the coordinate system of the point.
+ */
+export async function lookupPostcode(x: number, y: number, crs: SupportedCrs): Promise<PostcodeLookup | null> {
+    const feature = await findPostcodeAt(x, y, crs);
+    const postalCode = feature?.properties?.postalCode;
+    if (!feature || typeof postalCode !== 'string') {
+        return null;
+    }
+
+    const year = new Date().getFullYear() - 1;
+    const startYear = Math.max(STATFI_FIRST_YEAR, year - (DEFAULT_TREND_PERIOD_YEARS - 1));
+    const yearlyData = (await fetchStatFiPropertyDataRange(startYear, year))
+        .map(yearData => yearData.filter(data => data.postalCode === postalCode));
+
+    return {
+        postalCode,
+        properties: feature.properties ?? {},
+        prices: yearlyData[yearlyData.length - 1]?.[0] ?? null,
+        trend: calculatePriceTrends(yearlyData, startYear, year)[0] ?? null,
+        year,
+        startYear
+    };
+}
@@ -0,0 +1,208 @@
+import {
+    AggregationMethod,
+    AreaAggregate,
+    AreaAggregates,
+    BuildingPrices,
+    PostalCodeData,
+    PriceIndex,
+    PriceTrend
+} from '../types/statfi.types';
+import { calculateAggregateMetrics, fetchStatFiPropertyDataRange } from './statFiService';
+
+export const AGGREGATION_METHODS: AggregationMethod[] = ['weighted', 'median'];
+
+// Municipalities (as named in the StatFin postal code labels) that make up the capital region
+export const CAPITAL_REGION_MUNICIPALITIES = ['Helsinki', 'Espoo', 'Vantaa', 'Kauniainen'];
+export const CAPITAL_REGION_NAME = 'Capital region';
+
+interface AggregatedPrices {
+    prices: BuildingPrices;
+    transactions: BuildingPrices;
+}
+
+const getPositiveNumber = (values: BuildingPrices | undefined, buildingType: string): number | null => {
+    if (!values || !Object.prototype.hasOwnProperty.call(values, buildingType)) {
+        return null;
+    }
+    // eslint-disable-next-line security/detect-object-injection
+    const num = Number(values[buildingType]);
+    return !isNaN(num) && num > 0 ? num : null;
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    // eslint-disable-next-line security/detect-object-injection
+    const upper = sorted[middle];
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + upper) / 2 : upper;
+};
+
+const isCapitalRegion = (data: PostalCodeData): boolean => CAPITAL_REGION_MUNICIPALITIES.includes(data.municipality);
+
+/**
+ * Aggregates the prices of a set of postal codes per building type.
+ * With 'weighted', each price is weighted by its number of sales, so postal codes without
+ * a sales count are left out. With 'median', every postal code with a price counts once.
+ * @returns The aggregated prices ('N/A' where no postal code has a price) and the total number of sales.
+ */
+export function aggregatePrices(data: PostalCodeData[], method: AggregationMethod): AggregatedPrices {
+    const aggregated: AggregatedPrices = { prices: {}, transactions: {} };
+    const buildingTypes = new Set(data.flatMap(postalCodeData => Object.keys(postalCodeData.prices)));
+
+    buildingTypes.forEach(type => {
+        let totalSales = 0;
+        let weightedSum = 0;
+        let weightedSales = 0;
+        const prices: number[] = [];
+
+        data.forEach(postalCodeData => {
+            const price = getPositiveNumber(postalCodeData.prices, type);
+            const sales = getPositiveNumber(postalCodeData.transactions, type);
+            totalSales += sales ?? 0;
+            if (price === null) return;
+            prices.push(price);
+            if (sales !== null) {
+                weightedSum += price * sales;
+                weightedSales += sales;
+            }
+        });
+
+        let price: number | null = null;
+        if (method === 'median' && prices.length > 0) {
+            price = Math.round(median(prices));
+        } else if (method === 'weighted' && weightedSales > 0) {
+            price = Math.round(weightedSum / weightedSales);
+        }
+
+        // eslint-disable-next-line security/detect-object-injection
+        aggregated.prices[type] = price ?? 'N/A';
+        // eslint-disable-next-line security/detect-object-injection
+        aggregated.transactions[type] = totalSales > 0 ? totalSales : 'N/A';
+    });
+
+    return aggregated;
+}
+
+const groupByMunicipality = (data: PostalCodeData[]): Map<string, PostalCodeData[]> => {
+    const groups = new Map<string, PostalCodeData[]>();
+    data.forEach(postalCodeData => {
+        if (postalCodeData.municipality === 'N/A') return;
+        const group = groups.get(postalCodeData.municipality) ?? [];
+        group.push(postalCodeData);
+        groups.set(postalCodeData.municipality, group);
+    });
+    return groups;
+};
+
+/**
+ * Aggregates postal code prices per municipality and for the whole capital region.
+ * Prices are those of the last year; trends are calculated from the aggregated price of every year.
+ * @param yearlyData Postal code data of consecutive years, the aggregated year last.
+ * @param method How the postal code prices are combined, see aggregatePrices.
+ */
+export function calculateAreaAggregates(yearlyData: PostalCodeData[][], method: AggregationMethod): AreaAggregates {
+    const latestData = yearlyData[yearlyData.length - 1] ?? [];
+    const yearlyGroups = yearlyData.map(groupByMunicipality);
+
+    const buildAggregate = (
+        area: string,
+        level: AreaAggregate['level'],
+        yearlyAreaData: PostalCodeData[][]
+    ): AreaAggregate => {
+        const series = yearlyAreaData.map(areaData => aggregatePrices(areaData, method));
+        const latest = series[series.length - 1] ?? { prices: {}, transactions: {} };
+        return {
+            area,
+            level,
+            postalCodeCount: yearlyAreaData[yearlyAreaData.length - 1]?.length ?? 0,
+            prices: latest.prices,
+            transactions: latest.transactions,
+            trends: calculateAggregateMetrics(series)
+        };
+    };
+
+    const municipalities = [...groupByMunicipality(latestData).keys()]
+        .sort((a, b) => a.localeCompare(b))
+        .map(municipality => buildAggregate(
+            municipality,
+            'municipality',
+            yearlyGroups.map(groups => groups.get(municipality) ?? [])
+        ));
+
+    const region = buildAggregate(
+        CAPITAL_REGION_NAME,
+        'region',
+        yearlyData.map(yearData => yearData.filter(isCapitalRegion))
+    );
+
+    return { municipalities, region };
+}
+
+/**
+ * Fetches the postal code data of a period and aggregates it per municipality and for the capital region.
+ * @param startYear First year of the trend period.
+ * @param endYear The aggregated year.
+ */
+export async function getAreaAggregates(startYear: number, endYear: number, method: AggregationMethod): Promise<AreaAggregates> {
+    const yearlyData = await fetchStatFiPropertyDataRange(startYear, endYear);
+    return calculateAreaAggregates(yearlyData, method);
+}
+
+const calculatePriceIndex = (prices: BuildingPrices, reference: BuildingPrices | undefined): PriceIndex['municipality'] => {
+    const index: PriceIndex['municipality'] = {};
+    Object.keys(prices).forEach(type => {
+        const price = getPositiveNumber(prices, type);
+        const referencePrice = getPositiveNumber(reference, type);
+        // eslint-disable-next-line security/detect-object-injection
+        index[type] = price !== null && referencePrice !== null
+            ? Math.round((price / referencePrice) * 1000) / 10
+            : null;
+    });
+    return index;
+};
+
+/**
+ * Adds each postal code's price index relative to the transaction-weighted average
+ * of its municipality and of the capital region (100 = on par with the area).
+ * @param data The postal code data of a single period.
+ * @param reference The postal code data the area averages are taken from. Defaults to data.
+ * @returns Copies of the postal code data with `priceIndex` set.
+ */
+export function addPriceIndexes(data: PostalCodeData[], reference: PostalCodeData[] = data): PostalCodeData[] {
+    const municipalityPrices = new Map(
+        [...groupByMunicipality(reference)].map(([municipality, areaData]) => [municipality, aggregatePrices(areaData, 'weighted').prices])
+    );
+    const regionPrices = aggregatePrices(reference.filter(isCapitalRegion), 'weighted').prices;
+
+    return data.map(postalCodeData => ({
+        ...postalCodeData,
+        priceIndex: {
+            municipality: calculatePriceIndex(postalCodeData.prices, municipalityPrices.get(postalCodeData.municipality)),
+            region: calculatePriceIndex(postalCodeData.prices, regionPrices)
+        }
+    }));
+}
+
+/**
+ * Adds price indexes to a quarter's postal code data, where every postal code carries the prices
+ * of its municipality (see fetchStatFiQuarterlyPostalCodeData). The averages are taken over one entry
+ * per municipality, so that municipalities with many postal codes are not weighted more than once:
+ * the municipality index is 100 and the region index compares the municipality with the capital region.
+ * @param data The postal code data of a single quarter.
+ * @returns Copies of the postal code data with `priceIndex` set.
+ */
+export function addQuarterlyPriceIndexes(data: PostalCodeData[]): PostalCodeData[] {
+    const municipalities = [...groupByMunicipality(data).values()].map(areaData => areaData[0]);
+    return addPriceIndexes(data, municipalities);
+}
+
+/**
+ * Adds the price index of the end year to each postal code's trend.
+ * @param trends The trends of a period, see calculatePriceTrends.
+ * @param endYearData The postal code data of the period's end year.
+ * @returns Copies of the trends with `priceIndex` set, or null for postal codes without end year data.
+ */
+export function addTrendPriceIndexes(trends: PriceTrend[], endYearData: PostalCodeData[]): PriceTrend[] {
+    const indexesByPostalCode = new Map(addPriceIndexes(endYearData).map(data => [data.postalCode, data.priceIndex ?? null]));
+    return trends.map(trend => ({ ...trend, priceIndex: indexesByPostalCode.get(trend.postalCode) ?? null }));
+}
@@ -0,0 +1,255 @@
+import axios from 'axios';
+import {
+    JsonStatResponse,
+    PostalCodeData,
+    RentalPostalCodeData,
+    RentalYield,
+    RoomCountRents
+} from '../types/statfi.types';
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { JsonStatCoordinates, JsonStatDataset } from '../utils/jsonStat';
+import { parsePostalCodeLabel } from '../utils/statFiUtils';
+import { fetchStatFiPropertyData } from './statFiService';
+
+// Define the specific type for this cache's values
+type StatFiRentalValue = RentalPostalCodeData[];
+
+// Cache configuration
+const STATFI_RENTAL_CACHE_TTL = 1000 * 60 * 60 * 24; // 24 hours
+const statFiRentalCache = new SimpleCache<StatFiRentalValue>(
+    'StatFi Rental Prices',
+    STATFI_RENTAL_CACHE_TTL,
+    createCacheStore<StatFiRentalValue>('STATFI_RENTS') // Store selected via CACHE_STORE / CACHE_STORE_STATFI_RENTS
+);
+
+// Base URL for the StatFin rental housing (asvu) tables
+const STATFI_RENTAL_API_BASE_URL = 'https://pxdata.stat.fi:443/PxWeb/api/v1/fi/StatFin/asvu/';
+
+// Yearly rents of non-subsidised rental dwellings by postal code area and room count
+export const RENTAL_TABLE_ID = 'statfin_asvu_pxt_13eb.px';
+
+// Metrics ("Tiedot") published by the table
+const RENT_METRIC = 'keskivuokra';     // Average monthly rent per square meter
+const RENTALS_METRIC = 'lkm_julk20';   // Number of rental agreements
+
+// Metric behind each room count field of RentalPostalCodeData
+export const RENTAL_METRICS = { rents: RENT_METRIC, rentals: RENTALS_METRIC };
+
+// First year published in the postcode-level rent table
+export const RENTAL_FIRST_YEAR = 2015;
+
+// Sale price building type each room count is compared with in the yield calculation
+export const ROOM_COUNT_BUILDING_TYPES: Record<string, string> = {
+    'Yksiöt': 'Kerrostalo yksiöt',
+    'Kaksiot': 'Kerrostalo kaksiot',
+    'Kolmiot+': 'Kerrostalo kolmiot+'
+};
+
+/**
+ * Reads one value for every room count of a postal code.
+ * @param coordinates Categories of the other dimensions, e.g. { Postinumero: '00100', Tiedot: RENT_METRIC }.
+ */
+function readRoomCountValues(dataset: JsonStatDataset, coordinates: JsonStatCoordinates): RoomCountRents {
+    const roomCountValues: RoomCountRents = {};
+
+    for (const roomCountKey of dataset.categories('Huoneluku')) {
+        const roomCountLabel = dataset.label('Huoneluku', roomCountKey);
+        if (roomCountLabel !== '__proto__' &&
+            roomCountLabel !== 'constructor' &&
+            roomCountLabel !== 'prototype') {
+            // eslint-disable-next-line security/detect-object-injection
+            roomCountValues[roomCountLabel] = dataset.get({ ...coordinates, Huoneluku: roomCountKey }) ?? 'N/A';
+        }
+    }
+    return roomCountValues;
+}
+
+function transformRentalData(dataset: JsonStatDataset): RentalPostalCodeData[] {
+    const rentsByPostalCode: RentalPostalCodeData[] = [];
+    const hasMetrics = dataset.hasDimension('Tiedot');
+    const rentCoordinates: JsonStatCoordinates = hasMetrics ? { Tiedot: RENT_METRIC } : {};
+    const hasRentals = hasMetrics && dataset.hasCategory('Tiedot', RENTALS_METRIC);
+
+    for (const postalCodeKey of dataset.categories('Postinumero')) {
+        const postalCodeLabel = dataset.label('Postinumero', postalCodeKey);
+        const { district, municipality } = parsePostalCodeLabel(postalCodeLabel);
+
+        const rents = readRoomCountValues(dataset, { ...rentCoordinates, Postinumero: postalCodeKey });
+        if (Object.values(rents).some(rent => rent !== 'N/A')) {
+            rentsByPostalCode.push({
+                postalCode: postalCodeKey.trim(),
+                district,
+                municipality,
+                fullLabel: postalCodeLabel,
+                rents,
+                rentals: hasRentals
+                    ? readRoomCountValues(dataset, { Postinumero: postalCodeKey, Tiedot: RENTALS_METRIC })
+                    : {}
+            });
+        }
+    }
+    rentsByPostalCode.sort((a, b) => a.postalCode.localeCompare(b.postalCode));
+    return rentsByPostalCode;
+}
+
+/**
+ * Fetches and normalises rents per postal code and room count from Statistics Finland for a given year.
+ * Served from the cache when possible, like fetchStatFiPropertyData.
+ * @param year The year for which to fetch data (e.g., "2023").
+ * @returns {Promise<RentalPostalCodeData[]>} A promise that resolves to the rents of every postal code with data.
+ */
+export async function fetchStatFiRentalData(year: string): Promise<RentalPostalCodeData[]> {
+    return statFiRentalCache.getOrFetch(year, () => requestStatFiRentalData(year));
+}
+
+/**
+ * Re-fetches a year's rents into the cache. The cached data keeps being served until
+ * the new data has arrived, and is left untouched if the request fails.
+ * @param year The year to refresh (e.g., "2023").
+ * @returns The freshly fetched rents.
+ */
+export async function refreshStatFiRentalData(year: string): Promise<RentalPostalCodeData[]> {
+    return statFiRentalCache.refresh(year, () => requestStatFiRentalData(year));
+}
+
+/**
+ * Queries the StatFin API for a year's rents, bypassing the cache.
+ * @param year The year for which to fetch data.
+ * @returns The processed rents.
+ */
+async function requestStatFiRentalData(year: string): Promise<RentalPostalCodeData[]> {
+    const queryPayload = {
+        query: [
+            {
+                code: "Vuosi",
+                selection: {
+                    filter: "item",
+                    values: [year]
+                }
+            },
+            {
+                code: "Tiedot",
+                selection: {
+                    filter: "item",
+                    values: [RENT_METRIC, RENTALS_METRIC]
+                }
+            }
+        ],
+        response: {
+            format: 'json-stat2'
+        }
+    };
+
+    try {
+        console.log(`Fetching StatFin rental price data for year: ${year}`);
+        const apiUrl = `${STATFI_RENTAL_API_BASE_URL}${RENTAL_TABLE_ID}`;
+
+        const response = await axios.post<JsonStatResponse>(apiUrl, queryPayload, {
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        const data = response.data;
+
+        // Basic validation
+        if (!data || !data.id || !data.dimension || !data.value ||
+            !data.dimension.Postinumero || !data.dimension.Huoneluku) {
+            throw new Error("StatFin rental API response is missing expected properties.");
+        }
+
+        const rentsByPostalCode = transformRentalData(new JsonStatDataset(data));
+        console.log(`Successfully processed ${rentsByPostalCode.length} postal code areas with StatFin rent data for ${year}.`);
+        return rentsByPostalCode;
+    } catch (error) {
+        console.error(`Error fetching or processing StatFin rental data for year ${year}:`);
+        let errorMessage = `Failed to fetch rental data for year ${year}.`;
+        if (axios.isAxiosError(error)) {
+            console.error('Axios Error:', error.message);
+            if (error.response) {
+                console.error('Status:', error.response.status);
+                console.error('Data:', error.response.data);
+            }
+            errorMessage = `StatFin API request failed: ${error.message}`;
+        } else if (error instanceof Error) {
+            console.error('Unexpected Error:', error.message);
+            errorMessage = error.message;
+        } else {
+            console.error('Unknown error structure:', error);
+        }
+        throw new Error(errorMessage);
+    }
+}
+
+/**
+ * Clears the StatFi rental data cache.
+ */
+export function clearStatFiRentalCache() {
+    statFiRentalCache.clear();
+}
+
+// --------- Rental Yield Calculation ---------
+
+const toPositiveNumber = (value: number | string | undefined): number | null => {
+    const num = Number(value);
+    return value !== undefined && value !== 'N/A' && !isNaN(num) && num > 0 ? num : null;
+};
+
+/**
+ * Joins rents with sale prices and calculates the gross rental yield
+ * (twelve months of rent as a percentage of the sale price) per postal code and room count.
+ * Room counts are matched to sale price building types with ROOM_COUNT_BUILDING_TYPES.
+ * @param rentData Rents of a year.
+ * @param priceData Sale prices of the same year.
+ * @returns Yields for postal codes that have both rents and sale prices.
+ */
+export function calculateRentalYields(rentData: RentalPostalCodeData[], priceData: PostalCodeData[]): RentalYield[] {
+    const pricesByPostalCode = new Map(priceData.map(data => [data.postalCode, data]));
+    const yields: RentalYield[] = [];
+
+    rentData.forEach(rentalData => {
+        const saleData = pricesByPostalCode.get(rentalData.postalCode);
+        if (!saleData) return;
+
+        const postalCodeYields: RentalYield['yields'] = {};
+        Object.entries(ROOM_COUNT_BUILDING_TYPES).forEach(([roomCount, buildingType]) => {
+            const monthlyRent = Object.prototype.hasOwnProperty.call(rentalData.rents, roomCount)
+                // eslint-disable-next-line security/detect-object-injection
+                ? toPositiveNumber(rentalData.rents[roomCount])
+                : null;
+            const salePrice = Object.prototype.hasOwnProperty.call(saleData.prices, buildingType)
+                // eslint-disable-next-line security/detect-object-injection
+                ? toPositiveNumber(saleData.prices[buildingType])
+                : null;
+
+            // eslint-disable-next-line security/detect-object-injection
+            postalCodeYields[roomCount] = monthlyRent !== null && salePrice !== null
+                ? { buildingType, monthlyRent, salePrice, grossYield: (monthlyRent * 12 / salePrice) * 100 }
+                : null;
+        });
+
+        if (Object.values(postalCodeYields).some(value => value !== null)) {
+            yields.push({
+                postalCode: rentalData.postalCode,
+                district: rentalData.district,
+                municipality: rentalData.municipality,
+                fullLabel: rentalData.fullLabel,
+                yields: postalCodeYields
+            });
+        }
+    });
+
+    return yields;
+}
+
+/**
+ * Fetches a year's rents and sale prices and calculates the gross rental yield per postal code.
+ * @param year The year (e.g., "2023").
+ * @returns The yields, see calculateRentalYields.
+ */
+export async function getRentalYields(year: string): Promise<RentalYield[]> {
+    const [rentData, priceData] = await Promise.all([
+        fetchStatFiRentalData(year),
+        fetchStatFiPropertyData(year)
+    ]);
+    return calculateRentalYields(rentData, priceData);
+}
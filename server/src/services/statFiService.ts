@@ -3,16 +3,25 @@ import {
     JsonStatResponse,
     PostalCodeData,
     BuildingPrices,
-    PriceTrend
+    PriceTrend,
+    PriceHistory,
+    AreaPriceData
 } from '../types/statfi.types'; // Import types
 import { SimpleCache } from '../utils/cache'; // Import the generic cache
+import { createCacheStore } from '../utils/cacheStore';
+import { JsonStatCoordinates, JsonStatDataset } from '../utils/jsonStat';
+import { parsePeriodKey, parsePostalCodeLabel } from '../utils/statFiUtils';
 
 // Define the specific type for this cache's values
 type StatFiValue = PostalCodeData[];
 
 // Cache configuration
 const STATFI_CACHE_TTL = 1000 * 60 * 60 * 24; // 24 hours
-const statFiCache = new SimpleCache<StatFiValue>('StatFi Property Prices', STATFI_CACHE_TTL);
+const statFiCache = new SimpleCache<StatFiValue>(
+    'StatFi Property Prices',
+    STATFI_CACHE_TTL,
+    createCacheStore<StatFiValue>('STATFI') // Store selected via CACHE_STORE / CACHE_STORE_STATFI
+);
 
 // Base URL for the StatFin PX-Web API
 const STATFI_API_BASE_URL = 'https://pxdata.stat.fi:443/PxWeb/api/v1/fi/StatFin/ashi/';
@@ -20,102 +29,89 @@ const STATFI_API_BASE_URL = 'https://pxdata.stat.fi:443/PxWeb/api/v1/fi/StatFin/
 // The specific table ID for property prices
 const TABLE_ID = 'statfin_ashi_pxt_13mu.px';
 
-interface ParsedPostalCode {
-    district: string;
-    municipality: string;
+// Metrics ("Tiedot") published by the table
+const PRICE_METRIC = 'keskihinta_aritm_nw'; // Average price per square meter
+const TRANSACTIONS_METRIC = 'lkm_julk20';   // Number of sales
+
+// First year published in the postcode-level price table
+export const STATFI_FIRST_YEAR = 2010;
+
+// Default length of a trend period in years, ending at the year it is calculated for
+export const DEFAULT_TREND_PERIOD_YEARS = 5;
+
+// Building types used for trend calculations
+export const TREND_BUILDING_TYPES = ["Kerrostalo yksiöt", "Kerrostalo kaksiot", "Kerrostalo kolmiot+", "Rivitalot yhteensä"];
+
+/**
+ * Returns the coordinates that select a metric ("Tiedot"), {} for responses without a metric dimension,
+ * or undefined if the response does not include the metric.
+ */
+function getMetricCoordinates(dataset: JsonStatDataset, metric: string): JsonStatCoordinates | undefined {
+    if (!dataset.hasDimension('Tiedot')) {
+        return {};
+    }
+    return dataset.hasCategory('Tiedot', metric) ? { Tiedot: metric } : undefined;
 }
 
-function parsePostalCodeLabel(postalCodeLabel: string): ParsedPostalCode {
-    // eslint-disable-next-line sonarjs/slow-regex
-    const districtMatch = postalCodeLabel.match(/^(\d+)\s+([^()]+?)\s*\(([^()]+?)\)$/);
-    let district = 'N/A', municipality = 'N/A';
-    if (districtMatch && districtMatch.length >= 3) { // Should be >= 4 due to 3 capture groups + full match
-        district = districtMatch[2].trim();
-        municipality = districtMatch[3].trim();
+/**
+ * @throws If the response has a metric dimension without the price metric.
+ */
+function getPriceCoordinates(dataset: JsonStatDataset): JsonStatCoordinates {
+    const coordinates = getMetricCoordinates(dataset, PRICE_METRIC);
+    if (!coordinates) {
+        throw new Error(`StatFin API response has no ${PRICE_METRIC} values.`);
     }
-    return { district, municipality };
+    return coordinates;
 }
 
-// eslint-disable-next-line sonarjs/cognitive-complexity
-function processBuildingTypePrices(
-    data: JsonStatResponse,
-    postalCodeIndex: number,
-    buildingTypeSize: number,
-    buildingTypes: Record<string, string>
-): BuildingPrices {
-    const buildingTypePrices: BuildingPrices = {};
-    for (let btypeIdx = 0; btypeIdx < buildingTypeSize; btypeIdx++) {
-        const valueIndex = postalCodeIndex * buildingTypeSize + btypeIdx;
-
-        if (valueIndex < data.value.length) {
+/**
+ * Reads one value for every building type of an area (postal code or municipality).
+ * @param coordinates Categories of the other dimensions, e.g. { Vuosi: '2023', Postinumero: '00100', Tiedot: PRICE_METRIC }.
+ */
+function readBuildingTypeValues(dataset: JsonStatDataset, coordinates: JsonStatCoordinates): BuildingPrices {
+    const buildingTypeValues: BuildingPrices = {};
+
+    for (const buildingTypeKey of dataset.categories('Talotyyppi')) {
+        const buildingTypeLabel = dataset.label('Talotyyppi', buildingTypeKey);
+        if (buildingTypeLabel !== '__proto__' &&
+            buildingTypeLabel !== 'constructor' &&
+            buildingTypeLabel !== 'prototype') {
             // eslint-disable-next-line security/detect-object-injection
-            const price = data.value[valueIndex];
-            const buildingTypeKey = Object.keys(buildingTypes).find(
-                // eslint-disable-next-line security/detect-object-injection
-                key => data.dimension.Talotyyppi.category.index[key] === btypeIdx
-            );
-
-            if (buildingTypeKey) {
-                // eslint-disable-next-line security/detect-object-injection
-                const buildingTypeLabel = buildingTypes[buildingTypeKey];
-                let finalPrice: number | 'N/A';
-                if (price === '.' || price === '...') {
-                    finalPrice = 'N/A';
-                } else {
-                    const numPrice = Number(price);
-                    if (isNaN(numPrice)) {
-                        finalPrice = 'N/A';
-                    } else {
-                        finalPrice = numPrice;
-                    }
-                }
-                if (Object.prototype.hasOwnProperty.call(buildingTypes, buildingTypeKey) &&
-                    typeof buildingTypeLabel === 'string' &&
-                    buildingTypeLabel !== '__proto__' &&
-                    buildingTypeLabel !== 'constructor' &&
-                    buildingTypeLabel !== 'prototype') {
-                    // eslint-disable-next-line security/detect-object-injection
-                    buildingTypePrices[buildingTypeLabel] = finalPrice;
-                }
-            }
+            buildingTypeValues[buildingTypeLabel] = dataset.get({ ...coordinates, Talotyyppi: buildingTypeKey }) ?? 'N/A';
         }
     }
-    return buildingTypePrices;
+    return buildingTypeValues;
 }
 
-function transformStatFiData(
-    data: JsonStatResponse,
-    postalCodes: Record<string, string>,
-    postalCodeIndexes: Record<string, number>,
-    buildingTypes: Record<string, string>,
-    buildingTypeSize: number
-): PostalCodeData[] {
+/**
+ * Builds the postal code data of one year of a response.
+ * @param yearCoordinates Selects the year in multi-year responses ({} if the response has no year dimension).
+ */
+function transformStatFiData(dataset: JsonStatDataset, yearCoordinates: JsonStatCoordinates): PostalCodeData[] {
     const pricesByPostalCode: PostalCodeData[] = [];
+    const priceCoordinates = getPriceCoordinates(dataset);
+    const transactionsCoordinates = getMetricCoordinates(dataset, TRANSACTIONS_METRIC);
 
-    for (const postalCodeKey in postalCodeIndexes) {
-        // eslint-disable-next-line security/detect-object-injection
-        const postalCodeLabel = postalCodes[postalCodeKey];
-        // eslint-disable-next-line security/detect-object-injection
-        const postalCodeIndex = postalCodeIndexes[postalCodeKey];
-        const postalCodeNumber = postalCodeKey.trim();
-
+    for (const postalCodeKey of dataset.categories('Postinumero')) {
+        const postalCodeLabel = dataset.label('Postinumero', postalCodeKey);
         const { district, municipality } = parsePostalCodeLabel(postalCodeLabel);
+        const areaCoordinates = { ...yearCoordinates, Postinumero: postalCodeKey };
 
-        const buildingTypePrices = processBuildingTypePrices(
-            data,
-            postalCodeIndex,
-            buildingTypeSize,
-            buildingTypes
-        );
+        const buildingTypePrices = readBuildingTypeValues(dataset, { ...areaCoordinates, ...priceCoordinates });
 
         if (Object.values(buildingTypePrices).some(p => p !== 'N/A')) {
-            pricesByPostalCode.push({
-                postalCode: postalCodeNumber,
+            const postalCodeData: PostalCodeData = {
+                postalCode: postalCodeKey.trim(),
                 district,
                 municipality,
                 fullLabel: postalCodeLabel,
                 prices: buildingTypePrices
-            });
+            };
+            // Responses without a metric dimension only hold prices
+            if (transactionsCoordinates?.Tiedot) {
+                postalCodeData.transactions = readBuildingTypeValues(dataset, { ...areaCoordinates, ...transactionsCoordinates });
+            }
+            pricesByPostalCode.push(postalCodeData);
         }
     }
     pricesByPostalCode.sort((a, b) => a.postalCode.localeCompare(b.postalCode));
@@ -124,36 +120,113 @@ function transformStatFiData(
 
 /**
  * Fetches and processes property price data from Statistics Finland for a given year.
+ * Served from the cache when possible; expired entries are returned while a refresh runs,
+ * and concurrent requests for the same year share a single StatFin API call.
  * @param year The year for which to fetch data (e.g., "2023"). Defaults to "2023".
  * @returns {Promise<PostalCodeData[]>} A promise that resolves to an array of processed postal code data.
  */
 export async function fetchStatFiPropertyData(year: string = "2023"): Promise<PostalCodeData[]> {
-    const cacheKey = year;
+    return statFiCache.getOrFetch(year, () => requestStatFiPropertyData(year));
+}
+
+/**
+ * Re-fetches a year's property prices into the cache. The cached data keeps being served
+ * until the new data has arrived, and is left untouched if the request fails.
+ * @param year The year to refresh (e.g., "2023").
+ * @returns The freshly fetched postal code data.
+ */
+export async function refreshStatFiPropertyData(year: string): Promise<PostalCodeData[]> {
+    return statFiCache.refresh(year, () => requestStatFiPropertyData(year));
+}
+
+/**
+ * Fetches property prices for every year from startYear to endYear with a single StatFin query.
+ * Years that are not cached (or expired) are requested together and stored as the usual
+ * per-year cache entries, so fetchStatFiPropertyData serves them afterwards.
+ * Expired years are served right away while the batch refreshes them.
+ * @param startYear The first year.
+ * @param endYear The last year.
+ * @returns The postal code data of each year, in year order.
+ */
+export async function fetchStatFiPropertyDataRange(startYear: number, endYear: number): Promise<PostalCodeData[][]> {
+    const years = getYearRange(startYear, endYear);
+    const yearsToFetch = years.filter(year => !statFiCache.isFresh(year));
+    if (yearsToFetch.length > 0) {
+        const batch = statFiCache.refreshMany(yearsToFetch, requestStatFiPropertyDataYears);
+        if (yearsToFetch.some(year => !statFiCache.has(year))) {
+            await batch;
+        } else {
+            batch.catch((error: unknown) => {
+                console.error(`Background refresh of StatFi years ${yearsToFetch.join(', ')} failed, keeping last good values:`,
+                    error instanceof Error ? error.message : error);
+            });
+        }
+    }
+
+    // Served from the cache now; registers the per-year fetcher for later refreshes
+    return Promise.all(years.map(year => fetchStatFiPropertyData(year)));
+}
+
+/**
+ * Re-fetches the property prices of every year from startYear to endYear with a single StatFin query
+ * into the per-year cache entries. The cached data keeps being served until the new data has arrived,
+ * and is left untouched if the query fails.
+ * @param startYear The first year.
+ * @param endYear The last year.
+ * @returns The freshly fetched postal code data of each year, in year order. Rejects if the query fails
+ * or the response lacks any of the years.
+ */
+export async function refreshStatFiPropertyDataRange(startYear: number, endYear: number): Promise<PostalCodeData[][]> {
+    const years = getYearRange(startYear, endYear);
+    await statFiCache.refreshMany(years, requestStatFiPropertyDataYears);
+    // Served from the cache now; registers the per-year fetcher for later refreshes
+    return Promise.all(years.map(year => fetchStatFiPropertyData(year)));
+}
 
-    // Check cache first
-    const cachedValue = statFiCache.get(cacheKey);
-    if (cachedValue !== undefined) {
-        return cachedValue;
+const getYearRange = (startYear: number, endYear: number): string[] => {
+    const years: string[] = [];
+    for (let year = startYear; year <= endYear; year++) {
+        years.push(year.toString());
     }
+    return years;
+};
 
-    console.log(`Cache miss for key "${cacheKey}" in [StatFi Property Prices]. Fetching from StatFin API...`);
+/**
+ * Queries the StatFin API for a year's property prices, bypassing the cache.
+ * @param year The year for which to fetch data.
+ * @returns The processed postal code data. Throws if the response has no data for the year.
+ */
+async function requestStatFiPropertyData(year: string): Promise<PostalCodeData[]> {
+    const dataByYear = await requestStatFiPropertyDataYears([year]);
+    const data = dataByYear.get(year);
+    if (!data) {
+        throw new Error(`StatFin API response has no data for year ${year}.`);
+    }
+    return data;
+}
 
+/**
+ * Queries the StatFin API for several years' property prices in one request, bypassing the cache,
+ * and splits the response by year.
+ * @param years The years for which to fetch data.
+ * @returns The processed postal code data by year. Years missing from the response have no entry.
+ */
+async function requestStatFiPropertyDataYears(years: string[]): Promise<Map<string, PostalCodeData[]>> {
+    const yearLabel = years.length === 1 ? `year ${years[0]}` : `years ${years.join(', ')}`;
     const queryPayload = {
         query: [
             {
                 code: "Vuosi",
                 selection: {
                     filter: "item",
-                    values: [year]
+                    values: years
                 }
             },
             {
                 code: "Tiedot",
                 selection: {
                     filter: "item",
-                    values: [
-                        "keskihinta_aritm_nw" // Average price per square meter
-                    ]
+                    values: [PRICE_METRIC, TRANSACTIONS_METRIC]
                 }
             }
         ],
@@ -163,7 +236,7 @@ export async function fetchStatFiPropertyData(year: string = "2023"): Promise<Po
     };
 
     try {
-        console.log(`Fetching StatFin property price data for year: ${year}`);
+        console.log(`Fetching StatFin property price data for ${yearLabel}`);
         const apiUrl = `${STATFI_API_BASE_URL}${TABLE_ID}`;
 
         const response = await axios.post<JsonStatResponse>(apiUrl, queryPayload, {
@@ -173,36 +246,26 @@ export async function fetchStatFiPropertyData(year: string = "2023"): Promise<Po
         const data = response.data;
 
         // Basic validation
-        if (!data || !data.id || !data.dimension || !data.value) {
+        if (!data || !data.id || !data.dimension || !data.value ||
+            !data.dimension.Postinumero || !data.dimension.Talotyyppi) {
             throw new Error("StatFin API response is missing expected properties.");
         }
+        const dataset = new JsonStatDataset(data);
+
+        // Process each postal code of each year
+        const dataByYear = new Map<string, PostalCodeData[]>();
+        const responseYears = dataset.hasDimension('Vuosi') ? dataset.categories('Vuosi') : years.slice(0, 1);
+        for (const year of responseYears) {
+            const pricesByPostalCode = transformStatFiData(dataset, dataset.hasDimension('Vuosi') ? { Vuosi: year } : {});
+            dataByYear.set(year, pricesByPostalCode);
+            console.log(`Successfully processed ${pricesByPostalCode.length} postal code areas with StatFin data for ${year}.`);
+        }
 
-        // Get dimension info
-        const buildingTypes = data.dimension.Talotyyppi.category.label;
-        const postalCodes = data.dimension.Postinumero.category.label;
-        const postalCodeIndexes = data.dimension.Postinumero.category.index;
-
-        const buildingTypeSize = data.size[data.id.indexOf('Talotyyppi')]; // Get size dynamically
-
-        // Process each postal code
-        const pricesByPostalCode = transformStatFiData(
-            data,
-            postalCodes,
-            postalCodeIndexes,
-            buildingTypes,
-            buildingTypeSize
-        );
-
-        console.log(`Successfully processed ${pricesByPostalCode.length} postal code areas with StatFin data for ${year}.`);
-
-        // Cache the successful result
-        statFiCache.set(cacheKey, pricesByPostalCode);
-
-        return pricesByPostalCode;
+        return dataByYear;
 
     } catch (error) {
-        console.error(`Error fetching or processing StatFin data for year ${year}:`);
-        let errorMessage = `Failed to fetch property data for year ${year}.`;
+        console.error(`Error fetching or processing StatFin data for ${yearLabel}:`);
+        let errorMessage = `Failed to fetch property data for ${yearLabel}.`;
         if (axios.isAxiosError(error)) {
             // Keep logging Axios-specific details if available
             console.error('Axios Error:', error.message);
@@ -227,15 +290,219 @@ export async function fetchStatFiPropertyData(year: string = "2023"): Promise<Po
  */
 export function clearStatFiCache() {
     statFiCache.clear();
+    statFiQuarterlyCache.clear();
     // Log message handled by SimpleCache
 }
 
+// --------- Quarterly Prices ---------
+
+// Quarterly prices are only published per municipality
+const QUARTERLY_TABLE_ID = 'statfin_ashi_pxt_112l.px';
+
+// First year published in the quarterly table
+export const STATFI_FIRST_QUARTERLY_YEAR = 2015;
+
+// Municipality codes ("Alue") of the capital region
+const CAPITAL_REGION_MUNICIPALITY_CODES = ['091', '049', '092', '235']; // Helsinki, Espoo, Vantaa, Kauniainen
+
+const statFiQuarterlyCache = new SimpleCache<AreaPriceData[]>(
+    'StatFi Quarterly Property Prices',
+    STATFI_CACHE_TTL,
+    createCacheStore<AreaPriceData[]>('STATFI_QUARTERLY') // Store selected via CACHE_STORE / CACHE_STORE_STATFI_QUARTERLY
+);
+
+/**
+ * Fetches a quarter's prices per capital region municipality.
+ * Served from the cache when possible, like fetchStatFiPropertyData.
+ * @param quarter The quarter's period key (e.g., "2023Q2").
+ * @returns The prices and transaction counts per municipality.
+ */
+export async function fetchStatFiQuarterlyPropertyData(quarter: string): Promise<AreaPriceData[]> {
+    return statFiQuarterlyCache.getOrFetch(quarter, () => requestStatFiQuarterlyPropertyData(quarter));
+}
+
+/**
+ * Re-fetches a quarter's municipality prices into the cache.
+ * @param quarter The quarter's period key (e.g., "2023Q2").
+ * @returns The freshly fetched municipality prices.
+ */
+export async function refreshStatFiQuarterlyPropertyData(quarter: string): Promise<AreaPriceData[]> {
+    return statFiQuarterlyCache.refresh(quarter, () => requestStatFiQuarterlyPropertyData(quarter));
+}
+
+/**
+ * Queries the StatFin API for a quarter's municipality prices, bypassing the cache.
+ * @param quarter The quarter's period key (e.g., "2023Q2").
+ * @returns The processed municipality prices.
+ */
+async function requestStatFiQuarterlyPropertyData(quarter: string): Promise<AreaPriceData[]> {
+    const queryPayload = {
+        query: [
+            {
+                code: "Vuosineljännes",
+                selection: {
+                    filter: "item",
+                    values: [quarter]
+                }
+            },
+            {
+                code: "Alue",
+                selection: {
+                    filter: "item",
+                    values: CAPITAL_REGION_MUNICIPALITY_CODES
+                }
+            },
+            {
+                code: "Tiedot",
+                selection: {
+                    filter: "item",
+                    values: [PRICE_METRIC, TRANSACTIONS_METRIC]
+                }
+            }
+        ],
+        response: {
+            format: 'json-stat2'
+        }
+    };
+
+    try {
+        console.log(`Fetching StatFin quarterly property price data for: ${quarter}`);
+        const response = await axios.post<JsonStatResponse>(`${STATFI_API_BASE_URL}${QUARTERLY_TABLE_ID}`, queryPayload, {
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+        const data = response.data;
+        if (!data || !data.id || !data.dimension || !data.value || !data.dimension.Alue || !data.dimension.Talotyyppi) {
+            throw new Error("StatFin API response is missing expected properties.");
+        }
+
+        const dataset = new JsonStatDataset(data);
+        const priceCoordinates = getPriceCoordinates(dataset);
+        const transactionsCoordinates = getMetricCoordinates(dataset, TRANSACTIONS_METRIC);
+        const quarterCoordinates: JsonStatCoordinates = dataset.hasDimension('Vuosineljännes') ? { 'Vuosineljännes': quarter } : {};
+
+        const areaPrices: AreaPriceData[] = [];
+        for (const areaCode of dataset.categories('Alue')) {
+            const areaCoordinates = { ...quarterCoordinates, Alue: areaCode };
+            const prices = readBuildingTypeValues(dataset, { ...areaCoordinates, ...priceCoordinates });
+            if (!Object.values(prices).some(p => p !== 'N/A')) continue;
+
+            const areaData: AreaPriceData = {
+                areaCode,
+                areaName: dataset.label('Alue', areaCode),
+                prices
+            };
+            if (transactionsCoordinates?.Tiedot) {
+                areaData.transactions = readBuildingTypeValues(dataset, { ...areaCoordinates, ...transactionsCoordinates });
+            }
+            areaPrices.push(areaData);
+        }
+
+        console.log(`Successfully processed ${areaPrices.length} municipalities with StatFin data for ${quarter}.`);
+        return areaPrices;
+    } catch (error) {
+        console.error(`Error fetching or processing StatFin quarterly data for ${quarter}:`);
+        let errorMessage = `Failed to fetch property data for ${quarter}.`;
+        if (axios.isAxiosError(error)) {
+            console.error('Axios Error:', error.message);
+            errorMessage = `StatFin API request failed: ${error.message}`;
+        } else if (error instanceof Error) {
+            console.error('Unexpected Error:', error.message);
+            errorMessage = error.message;
+        } else {
+            console.error('Unknown error structure:', error);
+        }
+        throw new Error(errorMessage);
+    }
+}
+
+/**
+ * Returns postal code prices for a quarter. Quarterly prices are municipality averages,
+ * so every postal code gets the prices of its municipality. Postal codes and their municipalities
+ * come from the annual data of the same year, or of the latest published year for quarters of the current year.
+ * @param quarter The quarter's period key (e.g., "2023Q2").
+ * @returns The postal code data of the quarter.
+ * @throws If the period key is not a quarter.
+ */
+export async function fetchStatFiQuarterlyPostalCodeData(quarter: string): Promise<PostalCodeData[]> {
+    const parsed = parsePeriodKey(quarter);
+    if (parsed?.granularity !== 'quarter') {
+        throw new Error(`Invalid quarter: ${quarter}`);
+    }
+
+    const lastYear = new Date().getFullYear() - 1;
+    const [areaPrices, postalCodes] = await Promise.all([
+        fetchStatFiQuarterlyPropertyData(quarter),
+        fetchStatFiPropertyData(Math.min(parsed.year, lastYear).toString())
+    ]);
+    const pricesByMunicipality = new Map(areaPrices.map(area => [area.areaName, area]));
+
+    return postalCodes.flatMap(postalCode => {
+        const area = pricesByMunicipality.get(postalCode.municipality);
+        if (!area) return [];
+        const postalCodeData: PostalCodeData = { ...postalCode, prices: { ...area.prices } };
+        if (area.transactions) {
+            postalCodeData.transactions = { ...area.transactions };
+        } else {
+            delete postalCodeData.transactions;
+        }
+        return [postalCodeData];
+    });
+}
+
+// --------- Price History ---------
+
+/**
+ * Builds the price time series of a single postal code from StatFi's first year up to last year.
+ * Reuses the per-year data (and cache) of fetchStatFiPropertyData, fetching missing years in one query.
+ * @param postalCode The 5-digit postal code.
+ * @returns The series per building type, with null for years without data,
+ * or null if the postal code has no data in any year.
+ */
+export async function getPostalCodePriceHistory(postalCode: string): Promise<PriceHistory | null> {
+    const lastYear = new Date().getFullYear() - 1;
+    const years: number[] = [];
+    for (let year = STATFI_FIRST_YEAR; year <= lastYear; year++) {
+        years.push(year);
+    }
+
+    const yearlyData = await fetchStatFiPropertyDataRange(STATFI_FIRST_YEAR, lastYear);
+    const postalCodeData = yearlyData.map(yearData => yearData.find(data => data.postalCode === postalCode));
+
+    // Use the most recent entry for the area metadata
+    const representativeData = [...postalCodeData].reverse().find(data => data !== undefined);
+    if (!representativeData) {
+        return null;
+    }
+
+    // Include every building type published for this postal code in any year
+    const buildingTypes = new Set<string>();
+    postalCodeData.forEach(data => {
+        if (data) Object.keys(data.prices).forEach(type => buildingTypes.add(type));
+    });
+
+    const prices: PriceHistory['prices'] = {};
+    buildingTypes.forEach(type => {
+        // eslint-disable-next-line security/detect-object-injection
+        prices[type] = postalCodeData.map(data => (data ? getNumericPrice(data, type) : null));
+    });
+
+    return {
+        postalCode,
+        district: representativeData.district,
+        municipality: representativeData.municipality,
+        fullLabel: representativeData.fullLabel,
+        years,
+        prices
+    };
+}
+
 // --------- Price Trend Calculation ---------
 
 /**
  * Helper function to safely get a numeric price for a specific building type.
  */
-const getNumericPrice = (data: PostalCodeData, buildingType: string): number | null => {
+const getNumericPrice = (data: Pick<PostalCodeData, 'prices'>, buildingType: string): number | null => {
     if (!Object.prototype.hasOwnProperty.call(data.prices, buildingType)) {
         return null; // Or handle as an error/warning
     }
@@ -247,50 +514,116 @@ const getNumericPrice = (data: PostalCodeData, buildingType: string): number | n
     return null;
 };
 
+// Percent change over the period below which a trend counts as stable
+const STABLE_TREND_THRESHOLD = 1;
+
+/**
+ * Fits a least-squares line through the points.
+ * @returns The slope, intercept and coefficient of determination (R², 1 when every y is equal).
+ */
+const linearRegression = (points: { x: number; y: number }[]): { slope: number; intercept: number; rSquared: number } => {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+    let sXY = 0;
+    let sXX = 0;
+    let sYY = 0;
+    points.forEach(p => {
+        sXY += (p.x - meanX) * (p.y - meanY);
+        sXX += (p.x - meanX) ** 2;
+        sYY += (p.y - meanY) ** 2;
+    });
+
+    const slope = sXX > 0 ? sXY / sXX : 0;
+    const intercept = meanY - slope * meanX;
+    const rSquared = sYY > 0 ? (sXY * sXY) / (sXX * sYY) : 1;
+    return { slope, intercept, rSquared };
+};
+
+/**
+ * Standard deviation of the year-over-year percent changes, using only consecutive years that both have data.
+ * @returns The volatility in percentage points, or null if no two consecutive years have data.
+ */
+const calculateVolatility = (prices: (number | null)[]): number | null => {
+    const changes: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+        // eslint-disable-next-line security/detect-object-injection
+        const previous = prices[i - 1], current = prices[i];
+        if (previous !== null && current !== null) {
+            changes.push(((current - previous) / previous) * 100);
+        }
+    }
+    if (changes.length === 0) return null;
+
+    const mean = changes.reduce((sum, c) => sum + c, 0) / changes.length;
+    const variance = changes.reduce((sum, c) => sum + (c - mean) ** 2, 0) / changes.length;
+    return Math.sqrt(variance);
+};
+
 /**
- * Calculates aggregate trend metrics for a single postal code across years.
+ * Calculates aggregate trend metrics for a single postal code (or area) across years.
+ * Start and end prices are taken from the first and last year with data; the direction
+ * follows the least-squares fit over every year with data so one outlier at either end
+ * does not flip the trend.
  */
-const calculateAggregateMetrics = (
-    yearlyDataForPostalCode: (PostalCodeData | undefined)[]
+export const calculateAggregateMetrics = (
+    yearlyDataForPostalCode: (Pick<PostalCodeData, 'prices'> | undefined)[]
 ): PriceTrend['trends'] => {
     const trends: PriceTrend['trends'] = {};
-    const buildingTypes = ["Kerrostalo yksiöt", "Kerrostalo kaksiot", "Kerrostalo kolmiot+", "Rivitalot yhteensä"];
+    const buildingTypes = TREND_BUILDING_TYPES;
     const periodLength = yearlyDataForPostalCode.length;
     if (periodLength < 2) return trends; // Need at least 2 years for a trend
 
     buildingTypes.forEach(type => {
-        const startData = yearlyDataForPostalCode[0];
-        const endData = yearlyDataForPostalCode[periodLength - 1];
-
-        const startPrice = startData ? getNumericPrice(startData, type) : null;
-        const endPrice = endData ? getNumericPrice(endData, type) : null;
-
-        if (startPrice !== null && endPrice !== null && startPrice > 0) {
-            const percentChange = ((endPrice - startPrice) / startPrice) * 100;
-
-            let direction: 'up' | 'down' | 'stable';
-            if (percentChange > 1) {
-                direction = 'up';
-            } else if (percentChange < -1) {
-                direction = 'down';
-            } else {
-                direction = 'stable';
-            }
-
-            const averageYearlyChange = (endPrice - startPrice) / (periodLength - 1);
+        const prices = yearlyDataForPostalCode.map(data => data ? getNumericPrice(data, type) : null);
+        const points = prices
+            .map((price, yearIndex) => ({ x: yearIndex, y: price }))
+            .filter((point): point is { x: number; y: number } => point.y !== null);
 
-            // eslint-disable-next-line security/detect-object-injection
-            trends[type] = {
-                percentChange,
-                direction,
-                startPrice,
-                endPrice,
-                averageYearlyChange,
-            };
-        } else {
+        if (points.length < 2) {
             // eslint-disable-next-line security/detect-object-injection
             trends[type] = null; // Not enough data for this type
+            return;
         }
+
+        const first = points[0];
+        const last = points[points.length - 1];
+        const startPrice = first.y;
+        const endPrice = last.y;
+        const yearsBetween = last.x - first.x;
+
+        const percentChange = ((endPrice - startPrice) / startPrice) * 100;
+        const averageYearlyChange = (endPrice - startPrice) / yearsBetween;
+        const cagr = (Math.pow(endPrice / startPrice, 1 / yearsBetween) - 1) * 100;
+
+        const { slope, intercept, rSquared } = linearRegression(points);
+        const fittedStart = intercept + slope * first.x;
+        const fittedEnd = intercept + slope * last.x;
+        const fittedPercentChange = fittedStart > 0 ? ((fittedEnd - fittedStart) / fittedStart) * 100 : percentChange;
+
+        let direction: 'up' | 'down' | 'stable';
+        if (fittedPercentChange > STABLE_TREND_THRESHOLD) {
+            direction = 'up';
+        } else if (fittedPercentChange < -STABLE_TREND_THRESHOLD) {
+            direction = 'down';
+        } else {
+            direction = 'stable';
+        }
+
+        // eslint-disable-next-line security/detect-object-injection
+        trends[type] = {
+            percentChange,
+            direction,
+            startPrice,
+            endPrice,
+            averageYearlyChange,
+            cagr,
+            slope,
+            rSquared,
+            volatility: calculateVolatility(prices),
+            yearsWithData: points.length,
+        };
     });
 
     return trends;
@@ -301,10 +634,8 @@ const calculateAggregateMetrics = (
  */
 export function calculatePriceTrends(
     yearlyData: PostalCodeData[][],
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _startYear: number, // Prefixed with underscore
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _endYear: number    // Prefixed with underscore
+    startYear: number,
+    endYear: number
 ): PriceTrend[] {
     const trendsByPostalCode: { [postalCode: string]: (PostalCodeData | undefined)[] } = {};
     const allPostalCodes = new Set<string>();
@@ -358,6 +689,8 @@ export function calculatePriceTrends(
                 district: representativeData.district,
                 municipality: representativeData.municipality,
                 fullLabel: representativeData.fullLabel,
+                startYear,
+                endYear,
                 trends: trends
             });
         }
@@ -0,0 +1,76 @@
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { HELSINKI_CRS } from '../utils/projection';
+import { getPostcodeSummaries } from './hsyWfsService';
+import { TransitAccessibility, WalkingDistanceZone, getWalkingDistances } from './hsyWmsService';
+
+// Walking distance zone and transit accessibility class of a postcode area, measured at its interior point
+export interface PostcodeTransitAccessibility {
+    postalCode: string;
+    point: [number, number] | null; // Interior point in EPSG:3879; null for areas without a geometry
+    walkingDistance: WalkingDistanceZone | null;
+    accessibility: TransitAccessibility;
+}
+
+// Cache configuration: the dataset is rebuilt by the nightly refresh job, the TTL only covers missed runs
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 2; // 2 days in milliseconds
+const CACHE_KEY = 'all_postcodes';
+const accessibilityCache = new SimpleCache<PostcodeTransitAccessibility[]>(
+    'Postcode Transit Accessibility',
+    CACHE_TTL,
+    createCacheStore<PostcodeTransitAccessibility[]>('TRANSIT_ACCESSIBILITY') // Store selected via CACHE_STORE / CACHE_STORE_TRANSIT_ACCESSIBILITY
+);
+
+/**
+ * Returns the walking distance zone and transit accessibility class of every postcode area.
+ * Served from the dataset cache; built on the first request if no refresh has run yet.
+ * @returns A promise resolving to one entry per postcode area, in the order of the boundaries.
+ * Rejects if the dataset cannot be built and nothing is cached.
+ */
+export async function getPostcodeTransitAccessibility(): Promise<PostcodeTransitAccessibility[]> {
+    return accessibilityCache.getOrFetch(CACHE_KEY, buildPostcodeTransitAccessibility);
+}
+
+/**
+ * Rebuilds the dataset into the cache. The cached dataset keeps being served until the new
+ * one is complete, and is left untouched if any walking distance query fails.
+ * @returns A promise resolving to the fresh dataset. Rejects if it cannot be built.
+ */
+export async function refreshPostcodeTransitAccessibility(): Promise<PostcodeTransitAccessibility[]> {
+    return accessibilityCache.refresh(CACHE_KEY, buildPostcodeTransitAccessibility);
+}
+
+/**
+ * Queries the walking distance zone at the interior point of every postcode area, a few areas at a time.
+ */
+async function buildPostcodeTransitAccessibility(): Promise<PostcodeTransitAccessibility[]> {
+    console.log('Building postcode transit accessibility dataset...');
+    const summaries = await getPostcodeSummaries(HELSINKI_CRS);
+    if (!summaries) {
+        throw new Error('Postcode boundaries are not available.');
+    }
+
+    const located = summaries.filter(summary => summary.interiorPoint !== null);
+    const results = await getWalkingDistances(located.map(({ interiorPoint }) => {
+        const [x, y] = interiorPoint as number[];
+        return { x, y };
+    }));
+    const byPostalCode = new Map(located.map((summary, i) => [summary.postalCode, results.at(i)]));
+
+    return summaries.map(({ postalCode }) => {
+        const result = byPostalCode.get(postalCode);
+        return {
+            postalCode,
+            point: result ? [result.x, result.y] : null,
+            walkingDistance: result?.walkingDistance ?? null,
+            accessibility: result?.accessibility ?? 'none'
+        };
+    });
+}
+
+/**
+ * Clears the transit accessibility dataset cache.
+ */
+export function clearTransitAccessibilityCache(): void {
+    accessibilityCache.clear();
+}
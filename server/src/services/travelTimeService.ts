@@ -0,0 +1,181 @@
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { Position } from '../utils/geometry';
+import { WGS84_CRS } from '../utils/projection';
+import { DigitransitPlanQueryResult } from '../types/digitransit.types';
+import { getPostcodeSummaries } from './hsyWfsService';
+import { queryDigitransit } from './digitransitService';
+
+export interface TravelTimeDestination {
+    name: string;
+    lat: number;
+    lon: number;
+}
+
+// Public transport travel time from a postcode area to the destination
+export interface PostcodeTravelTime {
+    postalCode: string;
+    minutes: number | null; // Median of the planned itineraries; null if none were found or the planner query failed
+    itineraryCount: number;
+}
+
+export interface TravelTimeDataset {
+    destination: TravelTimeDestination;
+    departure: string; // Local Helsinki time of the planned departure, e.g. '2026-10-20T08:00'
+    travelTimes: PostcodeTravelTime[];
+}
+
+// TRAVEL_TIME_DESTINATION ('lat,lon') and TRAVEL_TIME_DESTINATION_NAME override the destination
+export const DEFAULT_TRAVEL_TIME_DESTINATION: TravelTimeDestination = {
+    name: 'Helsinki Central Station',
+    lat: 60.17116,
+    lon: 24.94143
+};
+export const DEPARTURE_TIME = '08:00';
+const ITINERARIES_PER_POSTCODE = 5; // Consecutive departures from DEPARTURE_TIME onwards
+const TRAVEL_TIME_CONCURRENCY = 4; // Planner queries in flight at a time
+
+const PLAN_QUERY = `
+query PlanTravelTime($from: InputCoordinates!, $to: InputCoordinates!, $date: String!, $time: String!, $numItineraries: Int!) {
+  plan(from: $from, to: $to, date: $date, time: $time, numItineraries: $numItineraries) {
+    itineraries {
+      startTime
+      endTime
+      duration
+    }
+  }
+}
+`;
+
+// Cache configuration: the dataset is rebuilt by the weekly refresh job, the TTL only covers missed runs
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 8; // 8 days in milliseconds
+const travelTimeCache = new SimpleCache<TravelTimeDataset>(
+    'Postcode Travel Times',
+    CACHE_TTL,
+    createCacheStore<TravelTimeDataset>('TRAVEL_TIMES') // Store selected via CACHE_STORE / CACHE_STORE_TRAVEL_TIMES
+);
+
+/**
+ * Returns the configured destination: TRAVEL_TIME_DESTINATION as 'lat,lon' with the optional
+ * TRAVEL_TIME_DESTINATION_NAME, or Helsinki Central Station if it is not set or invalid.
+ */
+export function getTravelTimeDestination(): TravelTimeDestination {
+    const configured = process.env.TRAVEL_TIME_DESTINATION;
+    if (!configured) {
+        return DEFAULT_TRAVEL_TIME_DESTINATION;
+    }
+    const [lat, lon] = configured.split(',').map(value => (value.trim() === '' ? NaN : Number(value)));
+    if (!(Math.abs(lat) <= 90 && Math.abs(lon) <= 180)) {
+        console.warn(`Invalid TRAVEL_TIME_DESTINATION "${configured}", using ${DEFAULT_TRAVEL_TIME_DESTINATION.name}.`);
+        return DEFAULT_TRAVEL_TIME_DESTINATION;
+    }
+    return { name: process.env.TRAVEL_TIME_DESTINATION_NAME || `${lat},${lon}`, lat, lon };
+}
+
+/**
+ * Returns the date of the first weekday (Monday to Friday) after `now` in Helsinki, as 'YYYY-MM-DD'.
+ * Tomorrow at the earliest, so that the departure is never in the past.
+ */
+export function getNextWeekday(now: Date = new Date()): string {
+    const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/Helsinki' }).format(now); // YYYY-MM-DD
+    const date = new Date(`${today}T12:00:00Z`);
+    do {
+        date.setUTCDate(date.getUTCDate() + 1);
+    } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+    return date.toISOString().slice(0, 10);
+}
+
+const getCacheKey = ({ lat, lon }: TravelTimeDestination): string => `${lat.toFixed(5)},${lon.toFixed(5)}`;
+
+/**
+ * Returns the median public transport travel time from every postcode area to a destination,
+ * departing at DEPARTURE_TIME on a weekday morning. Served from the dataset cache, keyed by
+ * destination. The dataset is built at start-up and weekly by the scheduled jobs; a request only
+ * builds it if no job has finished yet.
+ * @param destination Defaults to the configured destination, see getTravelTimeDestination.
+ * @returns A promise resolving to the dataset, with one entry per postcode area in the order of the boundaries.
+ * Rejects if the dataset cannot be built and nothing is cached.
+ */
+export async function getTravelTimes(destination: TravelTimeDestination = getTravelTimeDestination()): Promise<TravelTimeDataset> {
+    return travelTimeCache.getOrFetch(getCacheKey(destination), () => buildTravelTimes(destination));
+}
+
+/**
+ * Rebuilds the dataset of a destination into the cache, for the next weekday morning.
+ * The cached dataset keeps being served until the new one is complete, and is left untouched if every planner query fails.
+ * @returns A promise resolving to the fresh dataset. Rejects if it cannot be built.
+ */
+export async function refreshTravelTimes(destination: TravelTimeDestination = getTravelTimeDestination()): Promise<TravelTimeDataset> {
+    return travelTimeCache.refresh(getCacheKey(destination), () => buildTravelTimes(destination));
+}
+
+// Middle value, or the mean of the two middle values of an even count
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    // eslint-disable-next-line security/detect-object-injection
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Plans trips from the interior point of every postcode area, a few areas at a time. The interior
+ * point stands in for the centroid, which can fall outside concave areas or in the sea.
+ * An area whose planner query fails gets no travel time; the build only fails if every query does.
+ */
+async function buildTravelTimes(destination: TravelTimeDestination): Promise<TravelTimeDataset> {
+    const date = getNextWeekday();
+    console.log(`Building travel times to ${destination.name}, departing ${date} at ${DEPARTURE_TIME}...`);
+    const summaries = await getPostcodeSummaries(WGS84_CRS);
+    if (!summaries) {
+        throw new Error('Postcode boundaries are not available.');
+    }
+
+    const failures: string[] = [];
+    const travelTimes = await mapWithConcurrency(summaries, TRAVEL_TIME_CONCURRENCY, async ({ postalCode, interiorPoint }): Promise<PostcodeTravelTime> => {
+        if (!interiorPoint) {
+            return { postalCode, minutes: null, itineraryCount: 0 };
+        }
+        try {
+            return await planTravelTime(postalCode, interiorPoint, destination, date);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Travel time query failed for postcode ${postalCode}:`, message);
+            failures.push(message);
+            return { postalCode, minutes: null, itineraryCount: 0 };
+        }
+    });
+
+    const planned = summaries.filter(({ interiorPoint }) => interiorPoint).length;
+    if (planned > 0 && failures.length === planned) {
+        throw new Error(`Travel time queries failed for every postcode area: ${failures[failures.length - 1]}`);
+    }
+    if (failures.length > 0) {
+        console.warn(`Travel times to ${destination.name} are missing for ${failures.length} of ${planned} postcode areas.`);
+    }
+    return { destination, departure: `${date}T${DEPARTURE_TIME}`, travelTimes };
+}
+
+// Plans the trips from one point and takes the median of their durations. Throws if the planner query fails
+async function planTravelTime(postalCode: string, [lon, lat]: Position, destination: TravelTimeDestination, date: string): Promise<PostcodeTravelTime> {
+    const { plan } = await queryDigitransit<DigitransitPlanQueryResult>(PLAN_QUERY, {
+        from: { lat, lon },
+        to: { lat: destination.lat, lon: destination.lon },
+        date,
+        time: `${DEPARTURE_TIME}:00`,
+        numItineraries: ITINERARIES_PER_POSTCODE
+    });
+    const durations = (plan?.itineraries ?? []).map(itinerary => itinerary.duration).filter(Number.isFinite);
+    return {
+        postalCode,
+        minutes: durations.length > 0 ? Math.round(median(durations) / 60) : null,
+        itineraryCount: durations.length
+    };
+}
+
+/**
+ * Clears the travel time dataset cache.
+ */
+export function clearTravelTimeCache(): void {
+    travelTimeCache.clear();
+}
@@ -0,0 +1,188 @@
+import { Feature, FeatureCollection } from 'geojson';
+import { SimpleCache } from '../utils/cache';
+import { TILE_INDEX_MAX_ZOOM, TileCoordinates, TileIndex, createTileIndex, encodeDeepTile, encodeTile } from '../utils/vectorTiles';
+import { GeoJSONFeatureCollection, TileLayer } from '../types/geojson.types';
+import { PostalCodeData, PriceTrend } from '../types/statfi.types';
+import { getPostcodeBoundaries } from './hsyWfsService';
+import { fetchGreenSpaces } from './overpassService';
+import {
+    DEFAULT_TREND_PERIOD_YEARS,
+    STATFI_FIRST_YEAR,
+    calculatePriceTrends,
+    fetchStatFiPropertyDataRange
+} from './statFiService';
+
+export const TILE_LAYERS: TileLayer[] = ['postcodes', 'green-spaces'];
+
+// OSM tags kept on green-space features; the rest are left out to keep tiles small
+const GREEN_SPACE_TAGS = ['name', 'leisure', 'landuse', 'natural'];
+
+// Cache configuration
+const TILE_CACHE_TTL = 1000 * 60 * 60; // 1 hour, as the green spaces the tiles are cut from
+// Every year and zoom level adds tiles, so the least recently used ones are evicted beyond this count
+const TILE_CACHE_MAX_ENTRIES = 2000;
+// Encoded tiles are binary, so they are kept in memory rather than in a JSON-backed store
+const tileCache = new SimpleCache<Buffer>('Vector Tiles', TILE_CACHE_TTL, undefined, { maxEntries: TILE_CACHE_MAX_ENTRIES });
+
+interface PreparedTileIndex {
+    sources: unknown[]; // The cached collections and price data the index was built from
+    collection: FeatureCollection; // The tile features, for tiles deeper than the index
+    index: TileIndex;
+}
+
+// Tile indexes per layer variant (e.g. 'postcodes:2023'). An index is rebuilt, and the tiles cut
+// from it dropped, when any of its sources is replaced in its own cache (e.g. by a refresh).
+// Every year is a variant of its own, so only the most recently used indexes are kept.
+const TILE_INDEX_MAX_ENTRIES = 6;
+const tileIndexCache = new SimpleCache<PreparedTileIndex>('Vector Tile Indexes', TILE_CACHE_TTL, undefined, { maxEntries: TILE_INDEX_MAX_ENTRIES });
+
+/**
+ * Returns a Mapbox Vector Tile of a layer, cut from the cached GeoJSON of the layer.
+ * Postcode features carry the postal code, its prices for the year and its price trend
+ * over the five years up to it as `price:<building type>` and `trend:<building type>`
+ * (percent change) properties. Green-space features carry their OSM id, name and type tags.
+ * Tiles are cached per layer variant and tile coordinates; empty tiles are cut again on every request.
+ *
+ * @param layer The layer to cut the tile from. The tile holds a single layer of the same name.
+ * @param coordinates XYZ coordinates of the tile, see isValidTile.
+ * @param year Year of the postcode prices. Ignored for other layers.
+ * @returns The encoded tile, or null if no feature touches the tile. Rejects if the postcode boundaries cannot be fetched.
+ */
+export async function getVectorTile(layer: TileLayer, coordinates: TileCoordinates, year: number): Promise<Buffer | null> {
+    const variant = layer === 'postcodes' ? `${layer}:${year}` : layer;
+    const prepared = layer === 'postcodes'
+        ? await getPostcodeTileIndex(variant, year)
+        : await getGreenSpaceTileIndex(variant);
+
+    // Tiles are cut synchronously, so they are stored directly rather than through a fetcher holding on to the index
+    const { z, x, y } = coordinates;
+    const key = `${variant}/${z}/${x}/${y}`;
+    const cached = tileCache.get(key);
+    if (cached) {
+        return cached;
+    }
+    const tile = z > TILE_INDEX_MAX_ZOOM
+        ? encodeDeepTile(prepared.collection, layer, coordinates)
+        : encodeTile(prepared.index, layer, coordinates);
+    if (tile) {
+        tileCache.set(key, tile);
+    }
+    return tile;
+}
+
+async function getPostcodeTileIndex(variant: string, year: number): Promise<PreparedTileIndex> {
+    const boundaries = await getPostcodeBoundaries();
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
+    }
+    const startYear = Math.max(STATFI_FIRST_YEAR, year - (DEFAULT_TREND_PERIOD_YEARS - 1));
+    const yearlyData = await fetchStatFiPropertyDataRange(startYear, year);
+
+    return getTileIndex(variant, [boundaries, ...yearlyData], () => {
+        const trends = startYear < year ? calculatePriceTrends(yearlyData, startYear, year) : [];
+        return buildPostcodeFeatures(boundaries, yearlyData[yearlyData.length - 1] ?? [], trends);
+    });
+}
+
+async function getGreenSpaceTileIndex(variant: string): Promise<PreparedTileIndex> {
+    const greenSpaces = await fetchGreenSpaces();
+    return getTileIndex(variant, [greenSpaces], () => buildGreenSpaceFeatures(greenSpaces));
+}
+
+/**
+ * Returns the tile index of a layer variant, building it if its sources have changed or it was evicted.
+ * Tiles cut from an earlier index of the variant are dropped, as they may stem from older sources.
+ */
+function getTileIndex(variant: string, sources: unknown[], build: () => FeatureCollection): PreparedTileIndex {
+    const prepared = tileIndexCache.get(variant);
+    const previousSources = prepared?.sources ?? [];
+    if (prepared && previousSources.length === sources.length && sources.every((source, i) => source === previousSources.at(i))) {
+        return prepared;
+    }
+
+    tileCache.keys()
+        .filter(key => key.startsWith(`${variant}/`))
+        .forEach(key => tileCache.delete(key));
+    const collection = build();
+    const rebuilt: PreparedTileIndex = { sources, collection, index: createTileIndex(collection) };
+    tileIndexCache.set(variant, rebuilt);
+    return rebuilt;
+}
+
+type TileProperties = Record<string, string | number>;
+
+const addNumericValues = (properties: TileProperties, prefix: string, values: Record<string, unknown>): void => {
+    Object.entries(values).forEach(([buildingType, value]) => {
+        if (typeof value === 'number') {
+            properties[`${prefix}:${buildingType}`] = value;
+        }
+    });
+};
+
+/**
+ * Joins the boundaries with the prices and trends of each postal code. Feature ids are the
+ * postal codes as numbers, since vector tile ids must be unsigned integers.
+ */
+function buildPostcodeFeatures(
+    boundaries: GeoJSONFeatureCollection,
+    prices: PostalCodeData[],
+    trends: PriceTrend[]
+): FeatureCollection {
+    const pricesByPostalCode = new Map(prices.map(data => [data.postalCode, data]));
+    const trendsByPostalCode = new Map(trends.map(trend => [trend.postalCode, trend]));
+
+    const features = boundaries.features.flatMap(feature => {
+        const postalCode = feature.properties?.postalCode;
+        if (typeof postalCode !== 'string' || !feature.geometry) {
+            return [];
+        }
+
+        const properties: TileProperties = { postalCode };
+        const priceData = pricesByPostalCode.get(postalCode);
+        if (priceData) {
+            properties.district = priceData.district;
+            properties.municipality = priceData.municipality;
+            addNumericValues(properties, 'price', priceData.prices);
+        }
+        const trend = trendsByPostalCode.get(postalCode);
+        if (trend) {
+            addNumericValues(properties, 'trend', Object.fromEntries(
+                Object.entries(trend.trends).map(([buildingType, value]) => [buildingType, value?.percentChange])
+            ));
+        }
+
+        return [{ type: 'Feature', id: Number(postalCode), geometry: feature.geometry, properties } as Feature];
+    });
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Keeps the OSM id and the tags describing each green space. OSM ids ('way/123') are not
+ * integers, so they are stored as a property instead of the feature id.
+ */
+function buildGreenSpaceFeatures(greenSpaces: FeatureCollection): FeatureCollection {
+    const features = greenSpaces.features.map(feature => {
+        const properties: TileProperties = {};
+        if (feature.id !== undefined) {
+            properties.osmId = String(feature.id);
+        }
+        GREEN_SPACE_TAGS.forEach(tag => {
+            // eslint-disable-next-line security/detect-object-injection
+            const value: unknown = feature.properties?.[tag];
+            if (typeof value === 'string') {
+                // eslint-disable-next-line security/detect-object-injection
+                properties[tag] = value;
+            }
+        });
+        return { type: 'Feature', geometry: feature.geometry, properties } as Feature;
+    });
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Clears the vector tile cache and the tile indexes.
+ */
+export function clearVectorTileCache(): void {
+    tileCache.clear();
+    tileIndexCache.clear();
+}
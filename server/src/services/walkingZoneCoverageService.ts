@@ -0,0 +1,88 @@
+import { SimpleCache } from '../utils/cache';
+import { createCacheStore } from '../utils/cacheStore';
+import { getCoveredArea, getGeometryArea, getGeometryBoundingBox } from '../utils/geometry';
+import { HELSINKI_CRS } from '../utils/projection';
+import { PolygonIndex } from '../utils/spatialIndex';
+import { getPostcodeBoundaries, getWalkingZones, refreshWalkingZones } from './hsyWfsService';
+import { WalkingDistanceZone, walkTimeLayers } from './hsyWmsService';
+
+// Share of a postcode area within walking distance of public transport
+export interface PostcodeWalkingZoneCoverage {
+    postalCode: string;
+    areaKm2: number;
+    // Percentage of the area within that walk of a stop, 0-100 to one decimal. Cumulative:
+    // the 10 minute share includes the area within 5 minutes, the 15 minute share both.
+    coverage: Record<WalkingDistanceZone, number>;
+}
+
+const ZONES = Object.keys(walkTimeLayers) as WalkingDistanceZone[]; // Shortest first
+
+// Cache configuration: the dataset is rebuilt by the weekly refresh job, the TTL only covers missed runs
+const CACHE_TTL = 1000 * 60 * 60 * 24 * 8; // 8 days in milliseconds
+const CACHE_KEY = 'all_postcodes';
+const coverageCache = new SimpleCache<PostcodeWalkingZoneCoverage[]>(
+    'Walking Zone Coverage',
+    CACHE_TTL,
+    createCacheStore<PostcodeWalkingZoneCoverage[]>('WALKING_ZONE_COVERAGE') // Store selected via CACHE_STORE / CACHE_STORE_WALKING_ZONE_COVERAGE
+);
+
+/**
+ * Returns the share of every postcode area within a 5, 10 and 15 minute walk of public transport,
+ * from HSY's walking zone polygons. Served from the dataset cache; built on the first request if no
+ * refresh has run yet.
+ * @returns A promise resolving to one entry per postcode area, in the order of the boundaries.
+ * Rejects if the dataset cannot be built and nothing is cached.
+ */
+export async function getWalkingZoneCoverage(): Promise<PostcodeWalkingZoneCoverage[]> {
+    return coverageCache.getOrFetch(CACHE_KEY, buildWalkingZoneCoverage);
+}
+
+/**
+ * Re-fetches the walking zone polygons and rebuilds the dataset into the cache.
+ * The cached dataset keeps being served until the new one is complete, and is left untouched if it fails.
+ * @returns A promise resolving to the fresh dataset. Rejects if the zones or the dataset cannot be refreshed.
+ */
+export async function refreshWalkingZoneCoverage(): Promise<PostcodeWalkingZoneCoverage[]> {
+    await refreshWalkingZones();
+    return coverageCache.refresh(CACHE_KEY, buildWalkingZoneCoverage);
+}
+
+/**
+ * Intersects every postcode area with the zone polygons, all in EPSG:3879 so areas are in square metres.
+ * Only zone polygons whose bounding box overlaps the postcode area are clipped against it.
+ */
+async function buildWalkingZoneCoverage(): Promise<PostcodeWalkingZoneCoverage[]> {
+    console.log('Building walking zone coverage dataset...');
+    const boundaries = await getPostcodeBoundaries({ crs: HELSINKI_CRS });
+    if (!boundaries || boundaries.type !== 'FeatureCollection') {
+        throw new Error('Postcode boundaries are not available.');
+    }
+    const zoneIndexes = await Promise.all(ZONES.map(async zone => new PolygonIndex(await getWalkingZones(zone))));
+
+    return boundaries.features.flatMap(({ geometry, properties }): PostcodeWalkingZoneCoverage[] => {
+        if (typeof properties?.postalCode !== 'string') {
+            return [];
+        }
+        const box = getGeometryBoundingBox(geometry);
+        const area = getGeometryArea(geometry);
+        const coverage = Object.fromEntries(ZONES.map((zone, i) => {
+            // Zones are cumulative, so every zone up to this one counts as covered
+            const covers = box ? zoneIndexes.slice(0, i + 1).flatMap(index => index.findPolygonsInBox(box)) : [];
+            const share = area > 0 ? Math.min(100, (getCoveredArea(geometry, covers) / area) * 100) : 0;
+            return [zone, Math.round(share * 10) / 10];
+        })) as Record<WalkingDistanceZone, number>;
+
+        return [{
+            postalCode: properties.postalCode,
+            areaKm2: Math.round(area / 1000) / 1000, // Square metres to km², to the nearest 1000 m²
+            coverage
+        }];
+    });
+}
+
+/**
+ * Clears the walking zone coverage dataset cache.
+ */
+export function clearWalkingZoneCoverageCache(): void {
+    coverageCache.clear();
+}
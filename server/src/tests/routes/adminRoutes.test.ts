@@ -0,0 +1,159 @@
+import request from 'supertest';
+import express from 'express';
+import adminRouter from '../../routes/adminRoutes';
+import * as scheduledTasks from '../../scheduledTasks';
+import { SimpleCache } from '../../utils/cache';
+
+// Mock the scheduler so no real jobs run
+jest.mock('../../scheduledTasks');
+const mockedScheduledTasks = scheduledTasks as jest.Mocked<typeof scheduledTasks>;
+
+const app = express();
+app.use('/api/admin', adminRouter);
+
+const ADMIN_API_KEY = 'test-admin-key';
+const CACHE_NAME = 'Admin Test Cache';
+
+const idleJobStatus: scheduledTasks.JobStatus = {
+    name: 'refresh-green-spaces',
+    description: 'Re-fetches Overpass green spaces into the cache.',
+    schedule: '0 1 * * *',
+    lastRunAt: null,
+    lastDurationMs: null,
+    lastOutcome: null,
+    lastError: null
+};
+
+describe('Admin Routes (/api/admin)', () => {
+    let cache: SimpleCache<string>;
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+        cache = new SimpleCache<string>(CACHE_NAME, 60_000);
+    });
+
+    afterEach(() => {
+        delete process.env.ADMIN_API_KEY;
+        jest.restoreAllMocks();
+    });
+
+    const authorized = (req: request.Test) => req.set('Authorization', `Bearer ${ADMIN_API_KEY}`);
+
+    describe('authentication', () => {
+        it('should return 503 when ADMIN_API_KEY is not configured', async () => {
+            delete process.env.ADMIN_API_KEY;
+            const response = await request(app).get('/api/admin/caches');
+            expect(response.status).toBe(503);
+        });
+
+        it('should return 401 without a valid key', async () => {
+            const missing = await request(app).get('/api/admin/caches');
+            const wrong = await request(app).get('/api/admin/caches').set('Authorization', 'Bearer wrong-key');
+            expect(missing.status).toBe(401);
+            expect(wrong.status).toBe(401);
+        });
+    });
+
+    describe('caches', () => {
+        it('should list caches with keys, ages and hit/miss counters', async () => {
+            await cache.getOrFetch('2023', async () => 'prices');
+            await cache.getOrFetch('2023', async () => 'prices');
+
+            const response = await authorized(request(app).get('/api/admin/caches'));
+
+            expect(response.status).toBe(200);
+            const stats = response.body.data.find((c: { name: string }) => c.name === CACHE_NAME);
+            expect(stats).toMatchObject({ size: 1, hits: 1, misses: 1, staleHits: 0, ttlMs: 60_000 });
+            expect(stats.entries).toEqual([expect.objectContaining({ key: '2023', expired: false, refreshable: true })]);
+            expect(typeof stats.entries[0].ageMs).toBe('number');
+        });
+
+        it('should return 404 for an unknown cache', async () => {
+            const response = await authorized(request(app).get('/api/admin/caches/Nope'));
+            expect(response.status).toBe(404);
+        });
+
+        it('should clear a cache or a single key', async () => {
+            cache.set('a', 'A');
+            cache.set('b', 'B');
+
+            const deleteKey = await authorized(request(app).delete(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}/keys/a`));
+            expect(deleteKey.status).toBe(200);
+            expect(cache.has('a')).toBe(false);
+            expect(cache.has('b')).toBe(true);
+
+            const missingKey = await authorized(request(app).delete(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}/keys/a`));
+            expect(missingKey.status).toBe(404);
+
+            const clear = await authorized(request(app).delete(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}`));
+            expect(clear.status).toBe(200);
+            expect(cache.size()).toBe(0);
+        });
+
+        it('should refresh a single key with its remembered fetcher', async () => {
+            const fetcher = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+            await cache.getOrFetch('key', fetcher);
+
+            const response = await authorized(request(app).post(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}/keys/key/refresh`));
+
+            expect(response.status).toBe(200);
+            expect(response.body.refreshed).toEqual(['key']);
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            expect(cache.get('key')).toBe('new');
+        });
+
+        it('should return 404 when refreshing a key without a known fetcher', async () => {
+            cache.set('manual', 'value');
+            const response = await authorized(request(app).post(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}/keys/manual/refresh`));
+            expect(response.status).toBe(404);
+        });
+
+        it('should report failed keys when refreshing a whole cache', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            await cache.getOrFetch('ok', async () => 'value');
+            const failing = jest.fn().mockResolvedValueOnce('value').mockRejectedValueOnce(new Error('Upstream down'));
+            await cache.getOrFetch('broken', failing);
+
+            const response = await authorized(request(app).post(`/api/admin/caches/${encodeURIComponent(CACHE_NAME)}/refresh`));
+
+            expect(response.status).toBe(502);
+            expect(response.body.refreshed).toEqual(['ok']);
+            expect(response.body.failed).toEqual(['broken']);
+            expect(cache.get('broken')).toBe('value');
+        });
+    });
+
+    describe('jobs', () => {
+        it('should list job statuses', async () => {
+            mockedScheduledTasks.getJobStatuses.mockReturnValue([idleJobStatus]);
+
+            const response = await authorized(request(app).get('/api/admin/jobs'));
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual([idleJobStatus]);
+        });
+
+        it('should start a job and respond with 202', async () => {
+            mockedScheduledTasks.getJobStatuses.mockReturnValue([idleJobStatus]);
+            mockedScheduledTasks.runJob.mockResolvedValue({ ...idleJobStatus, lastOutcome: 'success' });
+
+            const response = await authorized(request(app).post('/api/admin/jobs/refresh-green-spaces/run'));
+
+            expect(response.status).toBe(202);
+            expect(mockedScheduledTasks.runJob).toHaveBeenCalledWith('refresh-green-spaces');
+        });
+
+        it('should return 404 for unknown jobs and 409 for running jobs', async () => {
+            mockedScheduledTasks.getJobStatuses.mockReturnValue([{ ...idleJobStatus, lastOutcome: 'running' }]);
+
+            const unknown = await authorized(request(app).post('/api/admin/jobs/nope/run'));
+            const running = await authorized(request(app).post('/api/admin/jobs/refresh-green-spaces/run'));
+
+            expect(unknown.status).toBe(404);
+            expect(running.status).toBe(409);
+            expect(mockedScheduledTasks.runJob).not.toHaveBeenCalled();
+        });
+    });
+});
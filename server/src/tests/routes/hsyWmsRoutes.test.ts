@@ -0,0 +1,126 @@
+import request from 'supertest';
+import express from 'express';
+import hsyWmsRoutes from '../../routes/hsyWmsRoutes';
+import * as hsyWmsService from '../../services/hsyWmsService';
+import * as transitAccessibilityService from '../../services/transitAccessibilityService';
+import * as walkingZoneCoverageService from '../../services/walkingZoneCoverageService';
+
+// Mock the service layer
+jest.mock('../../services/hsyWmsService');
+jest.mock('../../services/transitAccessibilityService');
+jest.mock('../../services/walkingZoneCoverageService');
+const mockedHsyWmsService = hsyWmsService as jest.Mocked<typeof hsyWmsService>;
+const mockedTransitAccessibilityService = transitAccessibilityService as jest.Mocked<typeof transitAccessibilityService>;
+const mockedWalkingZoneCoverageService = walkingZoneCoverageService as jest.Mocked<typeof walkingZoneCoverageService>;
+
+// Create a minimal express app to test the router
+const app = express();
+app.use(express.json());
+app.use('/api/walking-distance', hsyWmsRoutes);
+
+describe('Walking Distance Routes API (/api/walking-distance)', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should return the walking distance zone of a point', async () => {
+        mockedHsyWmsService.getWalkingDistance.mockResolvedValue('10min');
+
+        const response = await request(app).get('/api/walking-distance?x=25496800&y=6673050');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ walkingDistance: '10min' });
+        expect(mockedHsyWmsService.getWalkingDistance).toHaveBeenCalledWith(25496800, 6673050);
+    });
+
+    describe('POST /api/walking-distance/batch', () => {
+        it('should return the zone and accessibility class of every point', async () => {
+            const results = [
+                { x: 25496800, y: 6673050, walkingDistance: '5min' as const, accessibility: 'high' as const },
+                { x: 25497000, y: 6672800, walkingDistance: null, accessibility: 'none' as const }
+            ];
+            mockedHsyWmsService.getWalkingDistances.mockResolvedValue(results);
+
+            const response = await request(app)
+                .post('/api/walking-distance/batch')
+                .send({ points: [{ x: 25496800, y: 6673050, label: 'home' }, { x: 25497000, y: 6672800 }] });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: results, metadata: { count: 2 } });
+            expect(mockedHsyWmsService.getWalkingDistances).toHaveBeenCalledWith([{ x: 25496800, y: 6673050 }, { x: 25497000, y: 6672800 }]);
+        });
+
+        it.each([
+            [{}, 'points must be a non-empty array'],
+            [{ points: [] }, 'points must be a non-empty array'],
+            [{ points: [{ x: 25496800 }] }, 'every point must have numeric x and y'],
+            [{ points: [{ x: '25496800', y: '6673050' }] }, 'every point must have numeric x and y'],
+            [{ points: Array.from({ length: 501 }, () => ({ x: 25496800, y: 6673050 })) }, 'at most 500 points']
+        ])('should return 400 for body %#', async (body, message) => {
+            const response = await request(app).post('/api/walking-distance/batch').send(body);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain(message);
+            expect(mockedHsyWmsService.getWalkingDistances).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if a walking distance query fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedHsyWmsService.getWalkingDistances.mockRejectedValue(new Error('Walking distance query failed for point 25496800,6673050: Network Error'));
+
+            const response = await request(app).post('/api/walking-distance/batch').send({ points: [{ x: 25496800, y: 6673050 }] });
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Walking distance query failed for point 25496800,6673050: Network Error' });
+        });
+    });
+
+    describe('GET /api/walking-distance/postcodes', () => {
+        it('should return the dataset of every postcode area', async () => {
+            const dataset = [{ postalCode: '00100', point: [25496800, 6673050] as [number, number], walkingDistance: '5min' as const, accessibility: 'high' as const }];
+            mockedTransitAccessibilityService.getPostcodeTransitAccessibility.mockResolvedValue(dataset);
+
+            const response = await request(app).get('/api/walking-distance/postcodes');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: dataset, metadata: { count: 1 } });
+        });
+
+        it('should return 500 if the dataset cannot be built', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedTransitAccessibilityService.getPostcodeTransitAccessibility.mockRejectedValue(new Error('Postcode boundaries are not available.'));
+
+            const response = await request(app).get('/api/walking-distance/postcodes');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Postcode boundaries are not available.' });
+        });
+    });
+
+    describe('GET /api/walking-distance/coverage', () => {
+        it('should return the walking zone coverage of every postcode area', async () => {
+            const dataset = [{ postalCode: '00100', areaKm2: 2.357, coverage: { '5min': 81.2, '10min': 100, '15min': 100 } }];
+            mockedWalkingZoneCoverageService.getWalkingZoneCoverage.mockResolvedValue(dataset);
+
+            const response = await request(app).get('/api/walking-distance/coverage');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: dataset, metadata: { count: 1, unit: '%' } });
+        });
+
+        it('should return 500 if the dataset cannot be built', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedWalkingZoneCoverageService.getWalkingZoneCoverage.mockRejectedValue(new Error('Postcode boundaries are not available.'));
+
+            const response = await request(app).get('/api/walking-distance/coverage');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Postcode boundaries are not available.' });
+        });
+    });
+});
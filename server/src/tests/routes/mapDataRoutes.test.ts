@@ -0,0 +1,225 @@
+import request from 'supertest';
+import express from 'express';
+import mapDataRoutes from '../../routes/mapDataRoutes';
+import * as amenityCountService from '../../services/amenityCountService';
+import * as digitransitService from '../../services/digitransitService';
+import * as travelTimeService from '../../services/travelTimeService';
+import * as greenSpaceMetricsService from '../../services/greenSpaceMetricsService';
+import * as overpassService from '../../services/overpassService';
+
+// Mock the service layer, keep the large park threshold
+jest.mock('../../services/greenSpaceMetricsService', () => ({
+    ...jest.requireActual<typeof greenSpaceMetricsService>('../../services/greenSpaceMetricsService'),
+    getGreenSpaceMetrics: jest.fn()
+}));
+// Keep the category registry, mock the Overpass requests
+jest.mock('../../services/overpassService', () => ({
+    ...jest.requireActual<typeof overpassService>('../../services/overpassService'),
+    fetchCategory: jest.fn(),
+    fetchCategoryInBoundingBox: jest.fn()
+}));
+jest.mock('../../services/amenityCountService');
+jest.mock('../../services/digitransitService');
+jest.mock('../../services/travelTimeService');
+const mockedTravelTimeService = travelTimeService as jest.Mocked<typeof travelTimeService>;
+const mockedDigitransitService = digitransitService as jest.Mocked<typeof digitransitService>;
+const mockedAmenityCountService = amenityCountService as jest.Mocked<typeof amenityCountService>;
+const mockedGreenSpaceMetricsService = greenSpaceMetricsService as jest.Mocked<typeof greenSpaceMetricsService>;
+const mockedOverpassService = overpassService as jest.Mocked<typeof overpassService>;
+
+// Create a minimal express app to test the router
+const app = express();
+app.use('/api/map-data', mapDataRoutes);
+
+describe('Map Data Routes API (/api/map-data)', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('GET /api/map-data/:category', () => {
+        it('should return the green spaces as GeoJSON', async () => {
+            const greenSpaces = { type: 'FeatureCollection' as const, features: [] };
+            mockedOverpassService.fetchCategory.mockResolvedValue(greenSpaces);
+
+            const response = await request(app).get('/api/map-data/green-spaces');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(greenSpaces);
+            expect(mockedOverpassService.fetchCategory).toHaveBeenCalledWith('green-spaces');
+        });
+
+        it('should return the features of any configured category', async () => {
+            const schools = {
+                type: 'FeatureCollection' as const,
+                features: [{ type: 'Feature' as const, geometry: { type: 'Point' as const, coordinates: [24.9, 60.1] }, properties: { amenity: 'school' } }]
+            };
+            mockedOverpassService.fetchCategory.mockResolvedValue(schools);
+
+            const response = await request(app).get('/api/map-data/schools');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(schools);
+            expect(mockedOverpassService.fetchCategory).toHaveBeenCalledWith('schools');
+        });
+
+        it('should fetch the features within the bbox', async () => {
+            const greenSpaces = { type: 'FeatureCollection' as const, features: [] };
+            mockedOverpassService.fetchCategoryInBoundingBox.mockResolvedValue(greenSpaces);
+
+            const response = await request(app).get('/api/map-data/green-spaces?bbox=24.93,60.16,25.05,60.19');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(greenSpaces);
+            expect(mockedOverpassService.fetchCategoryInBoundingBox).toHaveBeenCalledWith('green-spaces', [24.93, 60.16, 25.05, 60.19]);
+            expect(mockedOverpassService.fetchCategory).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['24.93,60.16,25.05', 'Invalid bbox: expected minLon,minLat,maxLon,maxLat in WGS84.'],
+            ['24.93,60.16,abc,60.19', 'Invalid bbox: expected minLon,minLat,maxLon,maxLat in WGS84.'],
+            ['25.05,60.16,24.93,60.19', 'Invalid bbox: the minimum must be below the maximum, with longitudes from -180 to 180 and latitudes from -90 to 90.'],
+            ['24.93,60.16,25.05,95', 'Invalid bbox: the minimum must be below the maximum, with longitudes from -180 to 180 and latitudes from -90 to 90.'],
+            ['24,60,25.5,61', 'The bbox is too large: it spans 150 tiles of 0.1°, the maximum is 64.']
+        ])('should return 400 for bbox %s', async (bbox, error) => {
+            const response = await request(app).get(`/api/map-data/green-spaces?bbox=${bbox}`);
+
+            expect(response.status).toBe(400);
+            expect(response.body).toEqual({ error });
+            expect(mockedOverpassService.fetchCategoryInBoundingBox).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 for an unknown category', async () => {
+            const response = await request(app).get('/api/map-data/casinos');
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toContain('Unknown map data category: casinos.');
+            expect(response.body.error).toContain('grocery-stores');
+            expect(mockedOverpassService.fetchCategory).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET /api/map-data/:category/counts', () => {
+        it('should return the count of the category in every postcode area', async () => {
+            const counts = [{ postalCode: '00100', count: 4, perKm2: 1.7 }];
+            mockedAmenityCountService.getAmenityCounts.mockResolvedValue(counts);
+
+            const response = await request(app).get('/api/map-data/schools/counts');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: counts, metadata: { category: 'schools', count: 1 } });
+            expect(mockedAmenityCountService.getAmenityCounts).toHaveBeenCalledWith('schools');
+        });
+
+        it('should return 404 for an unknown category', async () => {
+            const response = await request(app).get('/api/map-data/casinos/counts');
+
+            expect(response.status).toBe(404);
+            expect(mockedAmenityCountService.getAmenityCounts).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the counts cannot be computed', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAmenityCountService.getAmenityCounts.mockRejectedValue(new Error('Schools are not available.'));
+
+            const response = await request(app).get('/api/map-data/schools/counts');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Schools are not available.' });
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('GET /api/map-data/green-spaces/metrics', () => {
+        it('should return the metrics of every postcode area', async () => {
+            const metrics = [{ postalCode: '00100', areaKm2: 2.357, greenAreaM2: 412000, greenShare: 17.5, parkCount: 6, nearestLargeParkM: 0 }];
+            mockedGreenSpaceMetricsService.getGreenSpaceMetrics.mockResolvedValue(metrics);
+
+            const response = await request(app).get('/api/map-data/green-spaces/metrics');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: metrics, metadata: { count: 1, largeParkMinAreaM2: 10000 } });
+        });
+
+        it('should return 500 if the metrics cannot be computed', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedGreenSpaceMetricsService.getGreenSpaceMetrics.mockRejectedValue(new Error('Green spaces are not available.'));
+
+            const response = await request(app).get('/api/map-data/green-spaces/metrics');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Green spaces are not available.' });
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+    describe('GET /api/map-data/transit-stops', () => {
+        it('should return the transit stops as GeoJSON', async () => {
+            const stops: digitransitService.TransitStops = {
+                type: 'FeatureCollection',
+                features: [{
+                    type: 'Feature',
+                    geometry: { type: 'Point', coordinates: [24.94335, 60.17123] },
+                    properties: { gtfsId: 'HSL:1020453', name: 'Rautatientori', code: 'H2079', modes: ['BUS'], routes: ['55'], routeIds: ['HSL:1055'] }
+                }]
+            };
+            mockedDigitransitService.getTransitStops.mockResolvedValue(stops);
+
+            const response = await request(app).get('/api/map-data/transit-stops');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(stops);
+            expect(mockedOverpassService.fetchCategory).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the stops cannot be fetched', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedDigitransitService.getTransitStops.mockRejectedValue(new Error('DIGITRANSIT_API_KEY is not set.'));
+
+            const response = await request(app).get('/api/map-data/transit-stops');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'DIGITRANSIT_API_KEY is not set.' });
+
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should return the stop and route counts of every postcode area', async () => {
+            const counts = [{ postalCode: '00100', stopCount: 42, routeCount: 37, modes: ['BUS', 'SUBWAY', 'TRAM'] }];
+            mockedDigitransitService.getTransitStopCounts.mockResolvedValue(counts);
+
+            const response = await request(app).get('/api/map-data/transit-stops/counts');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: counts, metadata: { count: 1 } });
+            expect(mockedAmenityCountService.getAmenityCounts).not.toHaveBeenCalled();
+        });
+    });
+    describe('GET /api/map-data/travel-times', () => {
+        it('should return the travel time of every postcode area with the destination and departure', async () => {
+            const destination = { name: 'Helsinki Central Station', lat: 60.17116, lon: 24.94143 };
+            const travelTimes = [{ postalCode: '00100', minutes: 10, itineraryCount: 5 }];
+            mockedTravelTimeService.getTravelTimes.mockResolvedValue({ destination, departure: '2026-10-20T08:00', travelTimes });
+
+            const response = await request(app).get('/api/map-data/travel-times');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({
+                data: travelTimes,
+                metadata: { destination, departure: '2026-10-20T08:00', count: 1, unit: 'min' }
+            });
+        });
+
+        it('should return 500 if the travel times cannot be computed', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedTravelTimeService.getTravelTimes.mockRejectedValue(new Error('DIGITRANSIT_API_KEY is not set.'));
+
+            const response = await request(app).get('/api/map-data/travel-times');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'DIGITRANSIT_API_KEY is not set.' });
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+});
@@ -2,10 +2,15 @@ import request from 'supertest';
 import express from 'express';
 import postcodeRoutes from '../../routes/postcodeRoutes';
 import * as hsyWfsService from '../../services/hsyWfsService';
+import * as postcodeLookupService from '../../services/postcodeLookupService';
+import type { Topology } from 'topojson-specification';
+import { GeoJSONFeatureCollection, PostcodeSummary } from '../../types/geojson.types';
 
 // Mock the service layer
 jest.mock('../../services/hsyWfsService');
+jest.mock('../../services/postcodeLookupService');
 const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedPostcodeLookupService = postcodeLookupService as jest.Mocked<typeof postcodeLookupService>;
 
 // Create a minimal express app to test the router
 const app = express();
@@ -35,6 +40,61 @@ describe('Postcode Routes API (/api/postcodes)', () => {
         expect(response.headers['content-type']).toMatch(/json/);
         expect(response.body).toEqual(mockGeoJsonResponse);
         expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledTimes(1);
+        expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledWith({ crs: 'EPSG:4326', format: 'geojson' });
+    });
+
+    it('should pass a supported crs to the service', async () => {
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(mockGeoJsonResponse as unknown as GeoJSONFeatureCollection);
+
+        const response = await request(app).get('/api/postcodes?crs=EPSG:3879');
+
+        expect(response.status).toBe(200);
+        expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledWith({ crs: 'EPSG:3879', format: 'geojson' });
+    });
+
+    it('should return 400 for an unsupported crs', async () => {
+        const response = await request(app).get('/api/postcodes?crs=EPSG:3067');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('Supported values: EPSG:4326, EPSG:3879');
+        expect(mockedHsyWfsService.getPostcodeBoundaries).not.toHaveBeenCalled();
+    });
+
+    it('should simplify for a zoom level', async () => {
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(mockGeoJsonResponse as unknown as GeoJSONFeatureCollection);
+
+        const response = await request(app).get('/api/postcodes?zoom=11');
+
+        expect(response.status).toBe(200);
+        const [options] = mockedHsyWfsService.getPostcodeBoundaries.mock.calls[0];
+        expect(options?.tolerance).toBeCloseTo(38.22, 2); // One pixel at zoom 11 in Helsinki
+    });
+
+    it('should pass a tolerance and the TopoJSON format to the service', async () => {
+        const mockTopology: Topology = { type: 'Topology', objects: {}, arcs: [] };
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(mockTopology);
+
+        const response = await request(app).get('/api/postcodes?tolerance=25&format=topojson');
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toMatch(/^application\/json/);
+        expect(response.body).toEqual(mockTopology);
+        expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledWith({ crs: 'EPSG:4326', format: 'topojson', tolerance: 25 });
+    });
+
+    it.each([
+        ['zoom=23', 'Invalid zoom query parameter'],
+        ['zoom=eleven', 'Invalid zoom query parameter'],
+        ['tolerance=0', 'Invalid tolerance query parameter'],
+        ['tolerance=-5', 'Invalid tolerance query parameter'],
+        ['zoom=11&tolerance=25', 'Provide either zoom or tolerance, not both.'],
+        ['format=kml', 'Allowed values: geojson, topojson']
+    ])('should return 400 for %s', async (query, message) => {
+        const response = await request(app).get(`/api/postcodes?${query}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain(message);
+        expect(mockedHsyWfsService.getPostcodeBoundaries).not.toHaveBeenCalled();
     });
 
     it('should return 500 if the service layer returns null (error)', async () => {
@@ -65,4 +125,115 @@ describe('Postcode Routes API (/api/postcodes)', () => {
         consoleErrorSpy.mockRestore(); // Restore console.error
     });
 
-}); 
+    describe('GET /api/postcodes/lookup', () => {
+        const mockLookup = {
+            postalCode: '00100',
+            properties: { posno: '00100', postalCode: '00100' },
+            prices: null,
+            trend: null,
+            year: 2024,
+            startYear: 2020
+        };
+
+        it('should look up a WGS84 point', async () => {
+            mockedPostcodeLookupService.lookupPostcode.mockResolvedValue(mockLookup);
+
+            const response = await request(app).get('/api/postcodes/lookup?lat=60.1699&lon=24.9414');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: mockLookup, metadata: { x: 24.9414, y: 60.1699, crs: 'EPSG:4326' } });
+            expect(mockedPostcodeLookupService.lookupPostcode).toHaveBeenCalledWith(24.9414, 60.1699, 'EPSG:4326');
+        });
+
+        it('should look up an EPSG:3879 point', async () => {
+            mockedPostcodeLookupService.lookupPostcode.mockResolvedValue(mockLookup);
+
+            const response = await request(app).get('/api/postcodes/lookup?x=25496800&y=6673050');
+
+            expect(response.status).toBe(200);
+            expect(mockedPostcodeLookupService.lookupPostcode).toHaveBeenCalledWith(25496800, 6673050, 'EPSG:3879');
+        });
+
+        it('should return 404 for points outside every postcode area', async () => {
+            mockedPostcodeLookupService.lookupPostcode.mockResolvedValue(null);
+
+            const response = await request(app).get('/api/postcodes/lookup?lat=61&lon=24');
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('The point is not inside any postcode area.');
+        });
+
+        it.each([
+            ['', 'Provide either lat and lon (WGS84) or x and y (EPSG:3879).'],
+            ['lat=60.17&lon=24.94&x=25496800&y=6673050', 'Provide either lat and lon (WGS84) or x and y (EPSG:3879).'],
+            ['lat=60.17', 'lat must be a number from -90 to 90'],
+            ['lat=91&lon=24.94', 'lat must be a number from -90 to 90'],
+            ['x=25496800&y=north', 'x and y must be numbers']
+        ])('should return 400 for "%s"', async (query, message) => {
+            const response = await request(app).get(`/api/postcodes/lookup?${query}`);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain(message);
+            expect(mockedPostcodeLookupService.lookupPostcode).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the lookup fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedPostcodeLookupService.lookupPostcode.mockRejectedValue(new Error('Postcode boundaries are not available.'));
+
+            const response = await request(app).get('/api/postcodes/lookup?lat=60.1699&lon=24.9414');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Postcode boundaries are not available.' });
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('GET /api/postcodes/summary', () => {
+        const mockSummaries: PostcodeSummary[] = [{
+            postalCode: '00100',
+            name: 'Helsinki keskusta - Etu-Töölö',
+            areaKm2: 2.357,
+            interiorPoint: [24.9354, 60.1699],
+            bbox: [24.9217, 60.1626, 24.9512, 60.1771],
+            neighbours: ['00120', '00130', '00170']
+        }];
+
+        it('should return the summaries with the CRS and count', async () => {
+            mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(mockSummaries);
+
+            const response = await request(app).get('/api/postcodes/summary');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ data: mockSummaries, metadata: { crs: 'EPSG:4326', count: 1 } });
+            expect(mockedHsyWfsService.getPostcodeSummaries).toHaveBeenCalledWith('EPSG:4326');
+        });
+
+        it('should pass a supported crs to the service', async () => {
+            mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(mockSummaries);
+
+            const response = await request(app).get('/api/postcodes/summary?crs=EPSG:3879');
+
+            expect(response.status).toBe(200);
+            expect(mockedHsyWfsService.getPostcodeSummaries).toHaveBeenCalledWith('EPSG:3879');
+        });
+
+        it('should return 400 for an unsupported crs', async () => {
+            const response = await request(app).get('/api/postcodes/summary?crs=EPSG:3067');
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain('Invalid crs query parameter');
+            expect(mockedHsyWfsService.getPostcodeSummaries).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the boundaries cannot be retrieved', async () => {
+            mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(null);
+
+            const response = await request(app).get('/api/postcodes/summary');
+
+            expect(response.status).toBe(500);
+            expect(response.body).toEqual({ error: 'Failed to retrieve postcode boundaries.' });
+        });
+    });
+});
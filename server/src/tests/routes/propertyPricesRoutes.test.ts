@@ -2,13 +2,20 @@ import request from 'supertest';
 import express from 'express';
 import propertyPricesAndTrendsRouter from '../../routes/propertyPricesRoutes';
 import * as statFiService from '../../services/statFiService';
-import { PostalCodeData, PriceTrendData } from '../../types/statfi.types';
+import * as priceAggregateService from '../../services/priceAggregateService';
+import { AreaAggregates, PostalCodeData, PriceTrendData } from '../../types/statfi.types';
 
 // Mock the entire service module
 jest.mock('../../services/statFiService');
+// Keep the price index calculation, mock only the StatFin-backed aggregation
+jest.mock('../../services/priceAggregateService', () => ({
+    ...jest.requireActual<typeof priceAggregateService>('../../services/priceAggregateService'),
+    getAreaAggregates: jest.fn()
+}));
 
 // Type assertion for the mocked module
 const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+const mockedAggregateService = priceAggregateService as jest.Mocked<typeof priceAggregateService>;
 
 const app = express();
 app.use('/api/property-prices', propertyPricesAndTrendsRouter);
@@ -20,7 +27,7 @@ describe('Property Prices and Trends Routes', () => {
 
     describe('GET /api/property-prices/trends', () => {
         it('should return 200 and calculated trends for a valid period', async () => {
-            // Mock data for fetchStatFiPropertyData for each year (2018-2022)
+            // Mock data for fetchStatFiPropertyDataRange for each year (2018-2022)
             const mockData2018: PostalCodeData[] = [
                 { postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', prices: { 'Kerrostalo yksiöt': 3000 } },
                 { postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)', prices: { 'Kerrostalo yksiöt': 2000 } },
@@ -42,24 +49,20 @@ describe('Property Prices and Trends Routes', () => {
                 { postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)', prices: { 'Kerrostalo yksiöt': 1900 } },
             ];
 
-            // Setup mock implementations for fetchStatFiPropertyData
-            mockedStatFiService.fetchStatFiPropertyData
-                .mockResolvedValueOnce(mockData2018) // 2018
-                .mockResolvedValueOnce(mockData2019) // 2019
-                .mockResolvedValueOnce(mockData2020) // 2020
-                .mockResolvedValueOnce(mockData2021) // 2021
-                .mockResolvedValueOnce(mockData2022); // 2022
+            // Setup mock implementation for fetchStatFiPropertyDataRange (one entry per year)
+            mockedStatFiService.fetchStatFiPropertyDataRange
+                .mockResolvedValueOnce([mockData2018, mockData2019, mockData2020, mockData2021, mockData2022]);
 
             // Define the *expected output* from calculatePriceTrends based on the above yearly data
             const mockTrendResult: PriceTrendData[] = [
                 {
-                    postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)',
-                    trends: { 'Kerrostalo yksiöt': { percentChange: 20.00, direction: 'up', startPrice: 3000, endPrice: 3600, averageYearlyChange: 5.00 } }
+                    postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', startYear: 2018, endYear: 2022,
+                    trends: { 'Kerrostalo yksiöt': { percentChange: 20.00, direction: 'up', startPrice: 3000, endPrice: 3600, averageYearlyChange: 150.00, cagr: 4.66, slope: 140.00, rSquared: 0.89, volatility: 2.72, yearsWithData: 5 } }
                 },
                 {
-                    postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)',
+                    postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)', startYear: 2018, endYear: 2022,
                     // Trend calculated from first (2018) to last (2022) available data point
-                    trends: { 'Kerrostalo yksiöt': { percentChange: -5.00, direction: 'down', startPrice: 2000, endPrice: 1900, averageYearlyChange: -1.25 } }
+                    trends: { 'Kerrostalo yksiöt': { percentChange: -5.00, direction: 'down', startPrice: 2000, endPrice: 1900, averageYearlyChange: -25.00, cagr: -1.32, slope: -13.71, rSquared: 0.06, volatility: 8.41, yearsWithData: 4 } }
                 },
             ];
             // Explicitly mock calculatePriceTrends implementation to return the expected result
@@ -72,14 +75,17 @@ describe('Property Prices and Trends Routes', () => {
             expect(response.status).toBe(200);
             expect(response.body.metadata.startYear).toBe(2018);
             expect(response.body.metadata.endYear).toBe(2022);
-            // Check if the body.data matches the mocked trend result
-            expect(response.body.data).toEqual(mockTrendResult);
+            // Check if the body.data matches the mocked trend result; without sales counts there is no index
+            expect(response.body.data).toEqual(mockTrendResult.map(trend => ({
+                ...trend,
+                priceIndex: { municipality: { 'Kerrostalo yksiöt': null }, region: { 'Kerrostalo yksiöt': null } }
+            })));
             expect(response.body.data).toHaveLength(2);
 
-            // Verify fetchStatFiPropertyData was called 5 times
-            expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledTimes(5);
-            expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledWith('2018');
-            expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledWith('2022');
+            // Verify the whole period was fetched with one range query
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledTimes(1);
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2018, 2022);
+            expect(mockedStatFiService.fetchStatFiPropertyData).not.toHaveBeenCalled();
 
             // Verify calculatePriceTrends was called once with the aggregated data
             expect(mockedStatFiService.calculatePriceTrends).toHaveBeenCalledTimes(1);
@@ -96,13 +102,85 @@ describe('Property Prices and Trends Routes', () => {
             const response = await request(app).get(`/api/property-prices/trends?endYear=${endYear}`);
             expect(response.status).toBe(400);
             expect(response.body.error).toContain('Start year (2009) must be 2010 or later');
-            expect(mockedStatFiService.fetchStatFiPropertyData).not.toHaveBeenCalled();
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).not.toHaveBeenCalled();
             expect(mockedStatFiService.calculatePriceTrends).not.toHaveBeenCalled();
         });
 
-        it('should return 500 if fetchStatFiPropertyData throws an error', async () => {
+        it('should use the requested period length ending at endYear', async () => {
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([[], [], []]);
+            mockedStatFiService.calculatePriceTrends.mockReturnValue([]);
+
+            const response = await request(app).get('/api/property-prices/trends?endYear=2022&period=3');
+
+            expect(response.status).toBe(200);
+            expect(response.body.metadata).toEqual({ startYear: 2020, endYear: 2022, periodLength: 3 });
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2020, 2022);
+            expect(mockedStatFiService.calculatePriceTrends).toHaveBeenCalledWith([[], [], []], 2020, 2022);
+        });
+
+        it('should start the full period at 2010', async () => {
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([]);
+            mockedStatFiService.calculatePriceTrends.mockReturnValue([]);
+
+            const response = await request(app).get('/api/property-prices/trends?endYear=2022&period=full');
+
+            expect(response.status).toBe(200);
+            expect(response.body.metadata).toEqual({ startYear: 2010, endYear: 2022, periodLength: 13 });
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2010, 2022);
+        });
+
+        it('should accept an explicit startYear and endYear', async () => {
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([]);
+            mockedStatFiService.calculatePriceTrends.mockReturnValue([]);
+
+            const response = await request(app).get('/api/property-prices/trends?startYear=2015&endYear=2021');
+
+            expect(response.status).toBe(200);
+            expect(response.body.metadata).toEqual({ startYear: 2015, endYear: 2021, periodLength: 7 });
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2015, 2021);
+            expect(mockedStatFiService.calculatePriceTrends).toHaveBeenCalledWith(expect.any(Array), 2015, 2021);
+        });
+
+        it.each([
+            ['period=7', 'Invalid period query parameter'],
+            ['startYear=2015&period=5', 'either startYear or period'],
+            ['startYear=2009&endYear=2015', 'Start year (2009) must be 2010 or later'],
+            ['startYear=2020&endYear=2020', 'must be before end year (2020)'],
+            ['startYear=abc', 'Invalid startYear'],
+            ['endYear=22', 'Invalid endYear'],
+            [`endYear=${new Date().getFullYear()}`, `must be ${new Date().getFullYear() - 1} or earlier`],
+        ])('should return 400 for %s', async (query, message) => {
+            const response = await request(app).get(`/api/property-prices/trends?${query}`);
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain(message);
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).not.toHaveBeenCalled();
+        });
+
+        it('should add the price index of the end year to each trend', async () => {
+            const endYearData: PostalCodeData[] = [
+                { postalCode: '00100', district: 'A', municipality: 'Helsinki', fullLabel: '00100 A (Helsinki)', prices: { 'Kerrostalo yksiöt': 9000 }, transactions: { 'Kerrostalo yksiöt': 10 } },
+                { postalCode: '00200', district: 'B', municipality: 'Helsinki', fullLabel: '00200 B (Helsinki)', prices: { 'Kerrostalo yksiöt': 6000 }, transactions: { 'Kerrostalo yksiöt': 20 } },
+            ];
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([[], [], [], [], endYearData]);
+            mockedStatFiService.calculatePriceTrends.mockReturnValue([
+                { postalCode: '00100', district: 'A', municipality: 'Helsinki', fullLabel: '00100 A (Helsinki)', startYear: 2018, endYear: 2022, trends: {} },
+                { postalCode: '00300', district: 'C', municipality: 'Helsinki', fullLabel: '00300 C (Helsinki)', startYear: 2018, endYear: 2022, trends: {} }
+            ]);
+
+            const response = await request(app).get('/api/property-prices/trends?endYear=2022');
+
+            expect(response.status).toBe(200);
+            // Helsinki and capital region average (9000 * 10 + 6000 * 20) / 30 = 7000
+            expect(response.body.data[0].priceIndex).toEqual({
+                municipality: { 'Kerrostalo yksiöt': 128.6 },
+                region: { 'Kerrostalo yksiöt': 128.6 }
+            });
+            expect(response.body.data[1].priceIndex).toBeNull(); // No end year data
+        });
+
+        it('should return 500 if fetchStatFiPropertyDataRange throws an error', async () => {
             const mockError = new Error('StatFin API unavailable');
-            mockedStatFiService.fetchStatFiPropertyData.mockRejectedValue(mockError);
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockRejectedValue(mockError);
             const endYear = 2022;
             const response = await request(app).get(`/api/property-prices/trends?endYear=${endYear}`);
             expect(response.status).toBe(500);
@@ -115,14 +193,14 @@ describe('Property Prices and Trends Routes', () => {
             const mockPriceData: PostalCodeData[] = [
                 { postalCode: '00300', district: 'C', municipality: 'Hki', fullLabel: '00300 C (Hki)', prices: { 'Kerrostalo yksiöt': 5000 } },
             ];
-            mockedStatFiService.fetchStatFiPropertyData.mockResolvedValue(mockPriceData);
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([mockPriceData]);
 
             // Mock calculatePriceTrends to return specific results for this case
             const specificTrendResult: PriceTrendData[] = [
                 {
-                    postalCode: '00300', district: 'C', municipality: 'Hki', fullLabel: '00300 C (Hki)',
+                    postalCode: '00300', district: 'C', municipality: 'Hki', fullLabel: '00300 C (Hki)', startYear: 2018, endYear: 2022,
                     trends: {
-                        'Kerrostalo yksiöt': { percentChange: 0.00, direction: 'stable', startPrice: 5000, endPrice: 5000, averageYearlyChange: 0.00 },
+                        'Kerrostalo yksiöt': { percentChange: 0.00, direction: 'stable', startPrice: 5000, endPrice: 5000, averageYearlyChange: 0.00, cagr: 0.00, slope: 0.00, rSquared: 1, volatility: 0.00, yearsWithData: 5 },
                         'Rivitalot yhteensä': null // Explicitly null
                     }
                 },
@@ -132,10 +210,10 @@ describe('Property Prices and Trends Routes', () => {
             const endYear = 2022;
             const response = await request(app).get(`/api/property-prices/trends?endYear=${endYear}`);
             expect(response.status).toBe(200);
-            expect(response.body.data).toEqual(specificTrendResult);
-            const trend00300 = response.body.data.find((d: any) => d.postalCode === '00300');
+            expect(response.body.data).toEqual(specificTrendResult.map(trend => expect.objectContaining(trend)));
+            const trend00300 = (response.body.data as PriceTrendData[]).find(d => d.postalCode === '00300');
             expect(trend00300).toBeDefined();
-            expect(trend00300.trends['Kerrostalo yksiöt']).toBeDefined();
+            expect(trend00300?.trends['Kerrostalo yksiöt']).toBeDefined();
             expect(trend00300?.trends['Rivitalot yhteensä']).toBeNull();
         });
     });
@@ -144,15 +222,20 @@ describe('Property Prices and Trends Routes', () => {
         it('should return 200 and property price data for a valid year', async () => {
             const mockYear = '2022';
             const mockPriceData: PostalCodeData[] = [
-                { postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', prices: { 'Kerrostalo yksiöt': 3600 } },
-                { postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)', prices: { 'Kerrostalo yksiöt': 1900 } },
+                { postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', prices: { 'Kerrostalo yksiöt': 3600 }, transactions: { 'Kerrostalo yksiöt': 10 } },
+                { postalCode: '00200', district: 'B', municipality: 'Hki', fullLabel: '00200 B (Hki)', prices: { 'Kerrostalo yksiöt': 1900 }, transactions: { 'Kerrostalo yksiöt': 30 } },
             ];
             mockedStatFiService.fetchStatFiPropertyData.mockResolvedValue(mockPriceData);
 
             const response = await request(app).get(`/api/property-prices?year=${mockYear}`);
 
             expect(response.status).toBe(200);
-            expect(response.body.data).toEqual(mockPriceData);
+            expect(response.body.data).toEqual(mockPriceData.map(data => expect.objectContaining(data)));
+            // Hki average (3600 * 10 + 1900 * 30) / 40 = 2325; Hki is not a capital region municipality
+            expect(response.body.data[0].priceIndex).toEqual({
+                municipality: { 'Kerrostalo yksiöt': 154.8 },
+                region: { 'Kerrostalo yksiöt': null }
+            });
             expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledTimes(1);
             expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledWith(mockYear);
         });
@@ -178,6 +261,55 @@ describe('Property Prices and Trends Routes', () => {
             expect(mockedStatFiService.fetchStatFiPropertyData).not.toHaveBeenCalled();
         });
 
+        it('should return municipality prices per postal code for a quarterly period', async () => {
+            const mockPriceData: PostalCodeData[] = [
+                { postalCode: '00100', district: 'A', municipality: 'Helsinki', fullLabel: '00100 A (Helsinki)', prices: { 'Kerrostalo yksiöt': 6100 } },
+            ];
+            mockedStatFiService.fetchStatFiQuarterlyPostalCodeData.mockResolvedValue(mockPriceData);
+
+            const response = await request(app).get('/api/property-prices?periodKey=2023Q2');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(mockPriceData.map(data => expect.objectContaining(data)));
+            expect(response.body.metadata).toEqual({ periodKey: '2023Q2', granularity: 'quarter', areaLevel: 'municipality' });
+            expect(mockedStatFiService.fetchStatFiQuarterlyPostalCodeData).toHaveBeenCalledWith('2023Q2');
+            expect(mockedStatFiService.fetchStatFiPropertyData).not.toHaveBeenCalled();
+        });
+
+        it('should index quarterly municipality prices once per municipality', async () => {
+            const postalCodeIn = (postalCode: string, municipality: string, price: number, sales: number): PostalCodeData => ({
+                postalCode, district: postalCode, municipality, fullLabel: `${postalCode} (${municipality})`,
+                prices: { 'Kerrostalo yksiöt': price }, transactions: { 'Kerrostalo yksiöt': sales }
+            });
+            // Every postal code carries its municipality's quarterly prices and sales
+            mockedStatFiService.fetchStatFiQuarterlyPostalCodeData.mockResolvedValue([
+                postalCodeIn('00100', 'Helsinki', 6000, 300),
+                postalCodeIn('00200', 'Helsinki', 6000, 300),
+                postalCodeIn('00300', 'Helsinki', 6000, 300),
+                postalCodeIn('02100', 'Espoo', 4000, 100)
+            ]);
+
+            const response = await request(app).get('/api/property-prices?periodKey=2023Q2');
+
+            expect(response.status).toBe(200);
+            // Capital region average (6000 * 300 + 4000 * 100) / 400 = 5500, counting Helsinki once
+            expect(response.body.data[0].priceIndex).toEqual({
+                municipality: { 'Kerrostalo yksiöt': 100 },
+                region: { 'Kerrostalo yksiöt': 109.1 }
+            });
+            expect(response.body.data[3].priceIndex.region['Kerrostalo yksiöt']).toBe(72.7);
+        });
+
+        it('should return 400 for malformed or too early quarters', async () => {
+            const malformed = await request(app).get('/api/property-prices?periodKey=2023Q5');
+            const tooEarly = await request(app).get('/api/property-prices?periodKey=2012Q1');
+
+            expect(malformed.status).toBe(400);
+            expect(tooEarly.status).toBe(400);
+            expect(tooEarly.body.error).toContain('Year 2012 is out of the reasonable range (2015-');
+            expect(mockedStatFiService.fetchStatFiQuarterlyPostalCodeData).not.toHaveBeenCalled();
+        });
+
         it('should return 500 if fetchStatFiPropertyData throws an error', async () => {
             const mockYear = '2021';
             const mockError = new Error('API Error');
@@ -189,7 +321,88 @@ describe('Property Prices and Trends Routes', () => {
         });
     });
 
-    // --- TODO: Add tests for GET /api/property-prices and GET /api/property-prices/:postalCode --- 
-    // These would be similar, mocking fetchStatFiPropertyData and asserting the response
+    describe('GET /api/property-prices/aggregates', () => {
+        const mockAggregates: AreaAggregates = {
+            municipalities: [
+                { area: 'Espoo', level: 'municipality', postalCodeCount: 1, prices: { 'Kerrostalo yksiöt': 5500 }, transactions: { 'Kerrostalo yksiöt': 10 }, trends: {} }
+            ],
+            region: { area: 'Capital region', level: 'region', postalCodeCount: 1, prices: { 'Kerrostalo yksiöt': 5500 }, transactions: { 'Kerrostalo yksiöt': 10 }, trends: {} }
+        };
+
+        it('should return the aggregates of the period ending at endYear', async () => {
+            mockedAggregateService.getAreaAggregates.mockResolvedValue(mockAggregates);
+
+            const response = await request(app).get('/api/property-prices/aggregates?endYear=2022&period=3&method=median');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(mockAggregates);
+            expect(response.body.metadata).toEqual({ year: 2022, startYear: 2020, endYear: 2022, method: 'median' });
+            expect(mockedAggregateService.getAreaAggregates).toHaveBeenCalledWith(2020, 2022, 'median');
+        });
+
+        it('should default to transaction-weighted prices', async () => {
+            mockedAggregateService.getAreaAggregates.mockResolvedValue(mockAggregates);
+
+            const response = await request(app).get('/api/property-prices/aggregates?endYear=2022');
+
+            expect(response.status).toBe(200);
+            expect(mockedAggregateService.getAreaAggregates).toHaveBeenCalledWith(2018, 2022, 'weighted');
+        });
+
+        it('should return 400 for an unknown method or an invalid period', async () => {
+            const badMethod = await request(app).get('/api/property-prices/aggregates?method=mean');
+            const badPeriod = await request(app).get('/api/property-prices/aggregates?endYear=2022&period=7');
+
+            expect(badMethod.status).toBe(400);
+            expect(badMethod.body.error).toContain('Allowed values: weighted, median');
+            expect(badPeriod.status).toBe(400);
+            expect(mockedAggregateService.getAreaAggregates).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the aggregation fails', async () => {
+            mockedAggregateService.getAreaAggregates.mockRejectedValue(new Error('API Error'));
+
+            const response = await request(app).get('/api/property-prices/aggregates?endYear=2022');
+
+            expect(response.status).toBe(500);
+            expect(response.body.error).toBe('API Error');
+        });
+    });
+
+    describe('GET /api/property-prices/:postalCode/history', () => {
+        it('should return 200 and the price history of the postal code', async () => {
+            const mockHistory = {
+                postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)',
+                years: [2010, 2011, 2012],
+                prices: { 'Kerrostalo yksiöt': [3000, null, 3200] }
+            };
+            mockedStatFiService.getPostalCodePriceHistory.mockResolvedValue(mockHistory);
+
+            const response = await request(app).get('/api/property-prices/00100/history');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(mockHistory);
+            expect(mockedStatFiService.getPostalCodePriceHistory).toHaveBeenCalledWith('00100');
+        });
+
+        it('should return 400 for an invalid postal code', async () => {
+            const response = await request(app).get('/api/property-prices/abc/history');
+            expect(response.status).toBe(400);
+            expect(mockedStatFiService.getPostalCodePriceHistory).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 if the postal code has no data', async () => {
+            mockedStatFiService.getPostalCodePriceHistory.mockResolvedValue(null);
+            const response = await request(app).get('/api/property-prices/99999/history');
+            expect(response.status).toBe(404);
+        });
+
+        it('should return 500 if the service throws an error', async () => {
+            mockedStatFiService.getPostalCodePriceHistory.mockRejectedValue(new Error('StatFin API unavailable'));
+            const response = await request(app).get('/api/property-prices/00100/history');
+            expect(response.status).toBe(500);
+            expect(response.body.error).toBe('StatFin API unavailable');
+        });
+    });
 
 }); 
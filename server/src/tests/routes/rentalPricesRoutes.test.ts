@@ -0,0 +1,82 @@
+import request from 'supertest';
+import express from 'express';
+import rentalPricesRouter from '../../routes/rentalPricesRoutes';
+import * as statFiRentalService from '../../services/statFiRentalService';
+import { RentalPostalCodeData, RentalYield } from '../../types/statfi.types';
+
+// Mock the entire service module
+jest.mock('../../services/statFiRentalService');
+const mockedRentalService = statFiRentalService as jest.Mocked<typeof statFiRentalService>;
+
+const app = express();
+app.use('/api/rental-prices', rentalPricesRouter);
+
+describe('Rental Prices Routes', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('GET /api/rental-prices', () => {
+        it('should return 200 and the rents for a valid year', async () => {
+            const mockRents: RentalPostalCodeData[] = [
+                { postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', rents: { 'Yksiöt': 30.5 }, rentals: { 'Yksiöt': 410 } }
+            ];
+            mockedRentalService.fetchStatFiRentalData.mockResolvedValue(mockRents);
+
+            const response = await request(app).get('/api/rental-prices?year=2022');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(mockRents);
+            expect(response.body.metadata).toEqual({
+                year: 2022,
+                sourceTable: 'statfin_asvu_pxt_13eb.px',
+                metrics: { rents: 'keskivuokra', rentals: 'lkm_julk20' }
+            });
+            expect(mockedRentalService.fetchStatFiRentalData).toHaveBeenCalledWith('2022');
+        });
+
+        it('should return 400 for a missing or out-of-range year', async () => {
+            const missing = await request(app).get('/api/rental-prices');
+            const tooEarly = await request(app).get('/api/rental-prices?year=2012');
+
+            expect(missing.status).toBe(400);
+            expect(tooEarly.status).toBe(400);
+            expect(tooEarly.body.error).toContain('2015');
+            expect(mockedRentalService.fetchStatFiRentalData).not.toHaveBeenCalled();
+        });
+
+        it('should return 500 if the service throws an error', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedRentalService.fetchStatFiRentalData.mockRejectedValue(new Error('StatFin API unavailable'));
+
+            const response = await request(app).get('/api/rental-prices?year=2022');
+
+            expect(response.status).toBe(500);
+            expect(response.body.error).toBe('StatFin API unavailable');
+        });
+    });
+
+    describe('GET /api/rental-prices/yield', () => {
+        it('should return 200 and the yields for a valid year', async () => {
+            const mockYields: RentalYield[] = [
+                {
+                    postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)',
+                    yields: { 'Yksiöt': { buildingType: 'Kerrostalo yksiöt', monthlyRent: 30, salePrice: 7200, grossYield: 5 } }
+                }
+            ];
+            mockedRentalService.getRentalYields.mockResolvedValue(mockYields);
+
+            const response = await request(app).get('/api/rental-prices/yield?year=2022');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(mockYields);
+            expect(response.body.metadata).toEqual({ year: 2022 });
+        });
+
+        it('should return 400 for an invalid year', async () => {
+            const response = await request(app).get('/api/rental-prices/yield?year=abcd');
+            expect(response.status).toBe(400);
+            expect(mockedRentalService.getRentalYields).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import express from 'express';
+import tileRoutes from '../../routes/tileRoutes';
+import * as vectorTileService from '../../services/vectorTileService';
+
+// Mock the tile generation, keep the layer list
+jest.mock('../../services/vectorTileService', () => ({
+    ...jest.requireActual<typeof vectorTileService>('../../services/vectorTileService'),
+    getVectorTile: jest.fn()
+}));
+const mockedVectorTileService = vectorTileService as jest.Mocked<typeof vectorTileService>;
+
+const app = express();
+app.use('/api/tiles', tileRoutes);
+
+const lastYear = new Date().getFullYear() - 1;
+
+describe('Tile Routes API (/api/tiles)', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should return the encoded tile as a Mapbox Vector Tile', async () => {
+        const tile = Buffer.from([0x1a, 0x02, 0x78, 0x02]);
+        mockedVectorTileService.getVectorTile.mockResolvedValue(tile);
+
+        const response = await request(app).get('/api/tiles/postcodes/10/582/296.mvt?year=2023').responseType('blob');
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/vnd.mapbox-vector-tile');
+        expect(response.body).toEqual(tile);
+        expect(mockedVectorTileService.getVectorTile).toHaveBeenCalledWith('postcodes', { z: 10, x: 582, y: 296 }, 2023);
+    });
+
+    it('should default to the prices of last year', async () => {
+        mockedVectorTileService.getVectorTile.mockResolvedValue(Buffer.from([0x1a, 0x00]));
+
+        const response = await request(app).get('/api/tiles/green-spaces/12/2331/1185.mvt');
+
+        expect(response.status).toBe(200);
+        expect(mockedVectorTileService.getVectorTile).toHaveBeenCalledWith('green-spaces', { z: 12, x: 2331, y: 1185 }, lastYear);
+    });
+
+    it('should return 204 for tiles without features', async () => {
+        mockedVectorTileService.getVectorTile.mockResolvedValue(null);
+
+        const response = await request(app).get('/api/tiles/postcodes/10/0/0.mvt');
+
+        expect(response.status).toBe(204);
+    });
+
+    it.each([
+        ['/api/tiles/buildings/10/582/296.mvt', 'Invalid tile layer'],
+        ['/api/tiles/postcodes/10/1024/296.mvt', 'Invalid tile coordinates'],
+        ['/api/tiles/postcodes/19/0/0.mvt', 'Invalid tile coordinates'],
+        ['/api/tiles/postcodes/10/5e2/296.mvt', 'Invalid tile coordinates'],
+        [`/api/tiles/postcodes/10/582/296.mvt?year=${lastYear + 1}`, 'Invalid year query parameter'],
+        ['/api/tiles/postcodes/10/582/296.mvt?year=2009', 'Invalid year query parameter']
+    ])('should return 400 for %s', async (url, message) => {
+        const response = await request(app).get(url);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain(message);
+        expect(mockedVectorTileService.getVectorTile).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the tile cannot be generated', async () => {
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+        mockedVectorTileService.getVectorTile.mockRejectedValue(new Error('Postcode boundaries are not available.'));
+
+        const response = await request(app).get('/api/tiles/postcodes/10/582/296.mvt');
+
+        expect(response.status).toBe(500);
+        expect(response.body).toEqual({ error: 'Postcode boundaries are not available.' });
+
+        consoleErrorSpy.mockRestore();
+    });
+});
@@ -0,0 +1,157 @@
+import cron from 'node-cron';
+import {
+    getJobStatuses,
+    getStatFiWarmUpYears,
+    initializeScheduledTasks,
+    refreshAmenityCategories,
+    runJob,
+    warmUpCaches,
+    warmUpStatFiCache
+} from '../scheduledTasks';
+import * as statFiService from '../services/statFiService';
+import * as hsyWfsService from '../services/hsyWfsService';
+import * as overpassService from '../services/overpassService';
+import * as amenityCountService from '../services/amenityCountService';
+import * as travelTimeService from '../services/travelTimeService';
+
+jest.mock('node-cron');
+jest.mock('../services/statFiService');
+jest.mock('../services/hsyWfsService');
+// Keep the category registry, mock the Overpass requests
+jest.mock('../services/overpassService', () => ({
+    ...jest.requireActual<typeof overpassService>('../services/overpassService'),
+    refreshGreenSpaces: jest.fn(),
+    refreshCategory: jest.fn()
+}));
+jest.mock('../services/hsyWmsService');
+jest.mock('../services/transitAccessibilityService');
+jest.mock('../services/walkingZoneCoverageService');
+jest.mock('../services/greenSpaceMetricsService');
+jest.mock('../services/amenityCountService');
+jest.mock('../services/digitransitService');
+jest.mock('../services/travelTimeService');
+
+const mockedCron = cron as jest.Mocked<typeof cron>;
+const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedOverpassService = overpassService as jest.Mocked<typeof overpassService>;
+const mockedAmenityCountService = amenityCountService as jest.Mocked<typeof amenityCountService>;
+const mockedTravelTimeService = travelTimeService as jest.Mocked<typeof travelTimeService>;
+
+describe('scheduledTasks', () => {
+    const lastYear = new Date().getFullYear() - 1;
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        mockedStatFiService.refreshStatFiPropertyDataRange.mockResolvedValue([]);
+        mockedHsyWfsService.refreshPostcodeBoundaries.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+        mockedOverpassService.refreshGreenSpaces.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getStatFiWarmUpYears', () => {
+        it('should cover every year from 2010 to last year', () => {
+            const years = getStatFiWarmUpYears();
+            expect(years[0]).toBe('2010');
+            expect(years[years.length - 1]).toBe(lastYear.toString());
+            expect(years).toHaveLength(lastYear - 2010 + 1);
+        });
+    });
+
+    describe('warmUpStatFiCache', () => {
+        it('should refresh every year with one batched query', async () => {
+            const failedYears = await warmUpStatFiCache();
+
+            expect(mockedStatFiService.refreshStatFiPropertyDataRange).toHaveBeenCalledTimes(1);
+            expect(mockedStatFiService.refreshStatFiPropertyDataRange).toHaveBeenCalledWith(2010, lastYear);
+            expect(failedYears).toEqual([]);
+        });
+
+        it('should report every year as failed if the query fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedStatFiService.refreshStatFiPropertyDataRange.mockRejectedValue(new Error('StatFin API unavailable'));
+
+            const failedYears = await warmUpStatFiCache();
+
+            expect(failedYears).toEqual(getStatFiWarmUpYears());
+            expect(consoleErrorSpy).toHaveBeenCalledWith(`Warm-up failed for StatFi years 2010-${lastYear}:`, 'StatFin API unavailable');
+        });
+    });
+
+    describe('warmUpCaches', () => {
+        it('should refresh boundaries, prices and green spaces even if one of them fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedHsyWfsService.refreshPostcodeBoundaries.mockRejectedValue(new Error('WFS down'));
+
+            await expect(warmUpCaches()).rejects.toThrow('Warm-up failed for: postcode boundaries');
+
+            expect(mockedHsyWfsService.refreshPostcodeBoundaries).toHaveBeenCalledTimes(1);
+            expect(mockedStatFiService.refreshStatFiPropertyDataRange).toHaveBeenCalledTimes(1);
+            expect(mockedOverpassService.refreshGreenSpaces).toHaveBeenCalledTimes(1);
+            expect(consoleErrorSpy).toHaveBeenCalledWith('Warm-up failed for postcode boundaries:', 'WFS down');
+        });
+    });
+
+    describe('refreshAmenityCategories', () => {
+        it('should refresh every category but green spaces and report the ones that failed', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedOverpassService.refreshCategory.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+            mockedAmenityCountService.refreshAmenityCounts.mockImplementation(async category => {
+                if (category === 'schools') throw new Error('Schools are not available.');
+                return [];
+            });
+
+            const failedCategories = await refreshAmenityCategories();
+
+            expect(mockedOverpassService.refreshCategory).not.toHaveBeenCalledWith('green-spaces');
+            expect(mockedOverpassService.refreshCategory).toHaveBeenCalledWith('playgrounds');
+            expect(mockedAmenityCountService.refreshAmenityCounts).toHaveBeenCalledTimes(overpassService.OVERPASS_CATEGORY_IDS.length - 1);
+            expect(failedCategories).toEqual(['schools']);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('schools'), 'Schools are not available.');
+        });
+    });
+
+    describe('runJob', () => {
+        it('should record the run time, duration and outcome of a job', async () => {
+            const status = await runJob('refresh-green-spaces');
+
+            expect(status.lastOutcome).toBe('success');
+            expect(status.lastRunAt).not.toBeNull();
+            expect(status.lastDurationMs).toBeGreaterThanOrEqual(0);
+            expect(getJobStatuses().find(job => job.name === 'refresh-green-spaces')).toEqual(status);
+        });
+
+        it('should record failures without throwing', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedOverpassService.refreshGreenSpaces.mockRejectedValue(new Error('Overpass timeout'));
+
+            const status = await runJob('refresh-green-spaces');
+
+            expect(status.lastOutcome).toBe('failure');
+            expect(status.lastError).toBe('Overpass timeout');
+        });
+
+        it('should reject unknown jobs', async () => {
+            await expect(runJob('does-not-exist')).rejects.toThrow('Unknown job: does-not-exist');
+        });
+    });
+
+    describe('initializeScheduledTasks', () => {
+        it('should schedule the refresh jobs, warm up the caches once and then the travel times', async () => {
+            initializeScheduledTasks();
+            await new Promise(resolve => setImmediate(resolve));
+
+            expect(mockedCron.schedule).toHaveBeenCalledTimes(10);
+            expect(mockedHsyWfsService.refreshPostcodeBoundaries).toHaveBeenCalledTimes(1);
+            expect(mockedOverpassService.refreshGreenSpaces).toHaveBeenCalledTimes(1);
+            expect(getJobStatuses().find(job => job.name === 'warm-up-caches')?.lastRunAt).not.toBeNull();
+            expect(mockedTravelTimeService.getTravelTimes).toHaveBeenCalledTimes(1);
+            expect(mockedTravelTimeService.getTravelTimes.mock.invocationCallOrder[0])
+                .toBeGreaterThan(mockedHsyWfsService.refreshPostcodeBoundaries.mock.invocationCallOrder[0]);
+        });
+    });
+});
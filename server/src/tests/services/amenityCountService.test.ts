@@ -0,0 +1,94 @@
+/// <reference types="jest" />
+import { FeatureCollection } from 'geojson';
+import { clearAmenityCountCache, getAmenityCounts, refreshAmenityCounts } from '../../services/amenityCountService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import * as overpassService from '../../services/overpassService';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+
+jest.mock('../../services/hsyWfsService');
+jest.mock('../../services/overpassService', () => ({
+    ...jest.requireActual<typeof overpassService>('../../services/overpassService'),
+    fetchCategory: jest.fn()
+}));
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedOverpassService = overpassService as jest.Mocked<typeof overpassService>;
+
+const rectangle = (x: number, y: number, width: number, height: number): number[][][] =>
+    [[[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]]];
+
+// Two postcode areas side by side in WGS84, with the areas hsyWfsService adds
+const boundaries: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(24.9, 60.1, 0.02, 0.02) }, properties: { postalCode: '00100', areaKm2: 2.5 } },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(24.92, 60.1, 0.02, 0.02) }, properties: { postalCode: '00120', areaKm2: 0 } }
+    ]
+};
+
+const schools: FeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        // Two school nodes in 00100
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [24.905, 60.105] }, properties: { amenity: 'school' } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [24.915, 60.115] }, properties: { amenity: 'school' } },
+        // A school building whose outline lies in 00120
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(24.93, 60.11, 0.002, 0.001) }, properties: { amenity: 'school' } },
+        // A school outside every postcode area
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [25.2, 60.3] }, properties: { amenity: 'school' } }
+    ]
+};
+
+describe('amenityCountService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearAmenityCountCache();
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries);
+        mockedOverpassService.fetchCategory.mockResolvedValue(schools);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should count the features of a category in the area holding their location', async () => {
+        const counts = await getAmenityCounts('schools');
+
+        expect(mockedOverpassService.fetchCategory).toHaveBeenCalledWith('schools');
+        expect(counts).toEqual([
+            { postalCode: '00100', count: 2, perKm2: 0.8 },
+            { postalCode: '00120', count: 1, perKm2: 0 } // No area to divide by
+        ]);
+    });
+
+    it('should cache the counts per category', async () => {
+        await getAmenityCounts('schools');
+        await getAmenityCounts('schools');
+        await getAmenityCounts('playgrounds');
+
+        expect(mockedOverpassService.fetchCategory).toHaveBeenCalledTimes(2);
+        expect(mockedOverpassService.fetchCategory).toHaveBeenNthCalledWith(2, 'playgrounds');
+    });
+
+    it('should rebuild the counts on refresh', async () => {
+        await getAmenityCounts('schools');
+        mockedOverpassService.fetchCategory.mockResolvedValue({ type: 'FeatureCollection', features: schools.features.slice(0, 1) });
+
+        const counts = await refreshAmenityCounts('schools');
+
+        expect(counts[0].count).toBe(1);
+        expect(await getAmenityCounts('schools')).toEqual(counts);
+    });
+
+    it('should reject if the category has no features', async () => {
+        mockedOverpassService.fetchCategory.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+
+        await expect(getAmenityCounts('kindergartens')).rejects.toThrow('Kindergartens are not available.');
+    });
+
+    it('should reject if the postcode boundaries are not available', async () => {
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(null);
+
+        await expect(getAmenityCounts('schools')).rejects.toThrow('Postcode boundaries are not available.');
+    });
+});
@@ -0,0 +1,161 @@
+/// <reference types="jest" />
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+    clearDigitransitCache,
+    getTransitStopCounts,
+    getTransitStops,
+    refreshTransitStops
+} from '../../services/digitransitService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+import stopsFixture from '../fixtures/digitransit/stops.json';
+
+jest.mock('../../services/hsyWfsService');
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+
+const API_KEY = 'test-subscription-key';
+
+// Local stand-in for the Digitransit GraphQL endpoint, answering the stops query with a recorded response
+let standInResponse: unknown = stopsFixture;
+const receivedRequests: { key: string | undefined; query: string }[] = [];
+const standIn = express();
+standIn.use(express.json());
+standIn.post('/graphql', (req, res) => {
+    const key = req.header('digitransit-subscription-key');
+    receivedRequests.push({ key, query: String(req.body?.query) });
+    if (key !== API_KEY) {
+        res.status(401).json({ statusCode: 401, message: 'Access denied due to missing subscription key.' });
+        return;
+    }
+    res.json(standInResponse);
+});
+
+const rectangle = (x: number, y: number, width: number, height: number): number[][][] =>
+    [[[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]]];
+
+// Postcode areas in WGS84: two in central Helsinki and one without stops; Tapiola lies outside all of them
+const boundaries: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(24.92, 60.16, 0.02, 0.02) }, properties: { postalCode: '00100' } },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(24.94, 60.16, 0.02, 0.02) }, properties: { postalCode: '00170' } },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(25.1, 60.2, 0.02, 0.02) }, properties: { postalCode: '00940' } }
+    ]
+};
+
+describe('digitransitService', () => {
+    let server: Server;
+    const originalEnv = { ...process.env };
+
+    beforeAll(done => {
+        server = standIn.listen(0, '127.0.0.1', done);
+    });
+
+    afterAll(done => {
+        process.env = originalEnv;
+        server.close(done);
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearDigitransitCache();
+        standInResponse = stopsFixture;
+        receivedRequests.length = 0;
+        process.env.DIGITRANSIT_API_KEY = API_KEY;
+        process.env.DIGITRANSIT_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getTransitStops', () => {
+        it('should query the stops with their routes and convert them to GeoJSON points', async () => {
+            const stops = await getTransitStops();
+
+            expect(receivedRequests).toHaveLength(1);
+            expect(receivedRequests[0].key).toBe(API_KEY);
+            expect(receivedRequests[0].query).toContain('stops');
+            expect(receivedRequests[0].query).toContain('mode');
+            expect(stops.features).toHaveLength(5);
+            expect(stops.features[0]).toEqual({
+                type: 'Feature',
+                id: 'HSL:1040601',
+                geometry: { type: 'Point', coordinates: [24.93162, 60.16882] },
+                properties: {
+                    gtfsId: 'HSL:1040601',
+                    name: 'Kamppi',
+                    code: 'H0014',
+                    modes: ['SUBWAY'],
+                    routes: ['M1', 'M2'], // Both directions of M1 count once
+                    routeIds: ['HSL:31M1', 'HSL:31M2']
+                }
+            });
+        });
+
+        it('should sort route names and fall back to the vehicle mode of stops without routes', async () => {
+            const stops = await getTransitStops();
+
+            expect(stops.features[1].properties).toEqual(expect.objectContaining({ modes: ['BUS'], routes: [], routeIds: [] }));
+            expect(stops.features[3].properties.routes).toEqual(['7', '9']);
+        });
+
+        it('should cache the stops', async () => {
+            await getTransitStops();
+            await getTransitStops();
+
+            expect(receivedRequests).toHaveLength(1);
+        });
+
+        it('should re-query the stops on refresh', async () => {
+            await getTransitStops();
+            standInResponse = { data: { stops: stopsFixture.data.stops.slice(0, 1) } };
+
+            const stops = await refreshTransitStops();
+
+            expect(receivedRequests).toHaveLength(2);
+            expect(stops.features).toHaveLength(1);
+            expect(await getTransitStops()).toEqual(stops);
+        });
+
+        it('should reject on GraphQL errors', async () => {
+            standInResponse = { errors: [{ message: 'Validation error of type FieldUndefined' }] };
+
+            await expect(getTransitStops()).rejects.toThrow('Digitransit GraphQL errors: Validation error of type FieldUndefined');
+        });
+
+        it('should reject if the API rejects the subscription key', async () => {
+            process.env.DIGITRANSIT_API_KEY = 'wrong-key';
+
+            await expect(getTransitStops()).rejects.toThrow('Request failed with status code 401');
+        });
+
+        it('should reject without querying if no API key is set', async () => {
+            delete process.env.DIGITRANSIT_API_KEY;
+
+            await expect(getTransitStops()).rejects.toThrow('DIGITRANSIT_API_KEY is not set.');
+            expect(receivedRequests).toHaveLength(0);
+        });
+    });
+
+    describe('getTransitStopCounts', () => {
+        it('should count the stops and distinct routes in every postcode area', async () => {
+            const counts = await getTransitStopCounts();
+
+            expect(counts).toEqual([
+                { postalCode: '00100', stopCount: 2, routeCount: 2, modes: ['BUS', 'SUBWAY'] },
+                { postalCode: '00170', stopCount: 2, routeCount: 4, modes: ['BUS', 'TRAM'] },
+                { postalCode: '00940', stopCount: 0, routeCount: 0, modes: [] }
+            ]);
+        });
+
+        it('should reject if the postcode boundaries are not available', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(null);
+
+            await expect(getTransitStopCounts()).rejects.toThrow('Postcode boundaries are not available.');
+        });
+    });
+});
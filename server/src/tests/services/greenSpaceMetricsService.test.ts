@@ -0,0 +1,109 @@
+/// <reference types="jest" />
+import { FeatureCollection } from 'geojson';
+import {
+    clearGreenSpaceMetricsCache,
+    getGreenSpaceMetrics,
+    refreshGreenSpaceMetrics
+} from '../../services/greenSpaceMetricsService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import * as overpassService from '../../services/overpassService';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+import { reprojectGeometry } from '../../utils/projection';
+
+jest.mock('../../services/hsyWfsService');
+jest.mock('../../services/overpassService');
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedOverpassService = overpassService as jest.Mocked<typeof overpassService>;
+
+const X = 25496000;
+const Y = 6672000;
+const rectangle = (x: number, y: number, width: number, height: number): number[][][] =>
+    [[[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]]];
+
+// Two 1 km postcode squares side by side in EPSG:3879, with the interior points hsyWfsService adds
+const boundaries: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(X, Y, 1000, 1000) }, properties: { postalCode: '00100', interiorPoint: [X + 500, Y + 500] } },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: rectangle(X + 1000, Y, 1000, 1000) }, properties: { postalCode: '00120', interiorPoint: [X + 1500, Y + 500] } }
+    ]
+};
+
+// Green spaces as Overpass returns them, in WGS84
+const greenSpace = (coordinates: number[][][], properties: Record<string, string>) => ({
+    type: 'Feature' as const,
+    geometry: reprojectGeometry({ type: 'Polygon', coordinates }, 'EPSG:3879', 'EPSG:4326') as FeatureCollection['features'][number]['geometry'],
+    properties
+});
+const greenSpaces: FeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        // A 200 x 200 m park in 00100, with a lawn inside it that must not be counted twice
+        greenSpace(rectangle(X + 100, Y + 100, 200, 200), { leisure: 'park', name: 'Large park' }),
+        greenSpace(rectangle(X + 150, Y + 150, 50, 50), { landuse: 'grass' }),
+        // A 50 x 50 m park in 00120, too small to count as large
+        greenSpace(rectangle(X + 1400, Y + 400, 50, 50), { leisure: 'park', name: 'Pocket park' }),
+        // A forest straddling the two areas: 100 m in each
+        greenSpace(rectangle(X + 900, Y + 800, 200, 100), { landuse: 'forest' })
+    ]
+};
+
+describe('greenSpaceMetricsService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearGreenSpaceMetricsCache();
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries);
+        mockedOverpassService.fetchGreenSpaces.mockResolvedValue(greenSpaces);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should compute the green area, share, park count and distance to the nearest large park', async () => {
+        const metrics = await getGreenSpaceMetrics();
+
+        expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledWith({ crs: 'EPSG:3879' });
+        expect(metrics).toHaveLength(2);
+        expect(metrics[0]).toEqual({
+            postalCode: '00100',
+            areaKm2: 1,
+            greenAreaM2: expect.closeTo(50000, -1) as number,
+            greenShare: 5,
+            parkCount: 1,
+            nearestLargeParkM: expect.closeTo(283, -1) as number // From (500, 500) to the park corner at (300, 300)
+        });
+        expect(metrics[1]).toEqual({
+            postalCode: '00120',
+            areaKm2: 1,
+            greenAreaM2: expect.closeTo(12500, -1) as number,
+            greenShare: 1.3,
+            parkCount: 1,
+            nearestLargeParkM: expect.closeTo(1217, -1) as number // From (1500, 500) to the same corner
+        });
+    });
+
+    it('should serve the cached dataset until it is refreshed', async () => {
+        const first = await getGreenSpaceMetrics();
+        const second = await getGreenSpaceMetrics();
+        const refreshed = await refreshGreenSpaceMetrics();
+
+        expect(second).toBe(first);
+        expect(refreshed).not.toBe(first);
+        expect(refreshed).toEqual(first);
+        expect(mockedOverpassService.fetchGreenSpaces).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject rather than report no green spaces when Overpass returned nothing', async () => {
+        mockedOverpassService.fetchGreenSpaces.mockResolvedValue({ type: 'FeatureCollection', features: [] });
+
+        await expect(getGreenSpaceMetrics()).rejects.toThrow('Green spaces are not available.');
+    });
+
+    it('should reject when the postcode boundaries are not available', async () => {
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(null);
+
+        await expect(getGreenSpaceMetrics()).rejects.toThrow('Postcode boundaries are not available.');
+    });
+});
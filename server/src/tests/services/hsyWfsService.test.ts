@@ -24,32 +24,71 @@ const mockGeoJsonResponse: MockGeoJSON = {
     ]
 };
 
+// Summary attributes added to each feature; the sample geometry above is empty, so they are empty too
+const mockGeoJsonBoundaries: MockGeoJSON = {
+    ...mockGeoJsonResponse,
+    features: mockGeoJsonResponse.features.map(feature => ({
+        ...feature,
+        properties: { ...feature.properties, areaKm2: 0, interiorPoint: null, bbox: null, neighbours: [] }
+    }))
+};
+
 // Define the shape of the service module for dynamic import typing
 interface HsyWfsServiceModule {
-    getPostcodeBoundaries: () => Promise<MockGeoJSON | null>;
+    getPostcodeBoundaries: (options?: { crs?: 'EPSG:4326' | 'EPSG:3879'; tolerance?: number; format?: 'geojson' | 'topojson' }) => Promise<any>;
+    refreshPostcodeBoundaries: () => Promise<MockGeoJSON>;
+    findPostcodeAt: (x: number, y: number, crs?: 'EPSG:4326' | 'EPSG:3879') => Promise<any>;
+    getPostcodeSummaries: (crs?: 'EPSG:4326' | 'EPSG:3879') => Promise<any[] | null>;
+    getWalkingZones: (zone: '5min' | '10min' | '15min') => Promise<MockGeoJSON>;
+    refreshWalkingZones: () => Promise<void>;
     clearPostcodeCache: () => void;
 }
 
+// Cache key of the source boundaries and of the default variant (WGS84, unsimplified GeoJSON)
+const SOURCE_KEY = 'all_postcodes';
+const DEFAULT_VARIANT_KEY = 'all_postcodes:EPSG:4326:full:geojson';
+
 describe('hsyWfsService', () => {
     // Variables to hold mocks and dynamically imported functions
     let mockCacheInstance: any;
+    let cacheEntries: Map<string, unknown>;
     let mockedAxiosGet: jest.Mock;
     let getPostcodeBoundaries: HsyWfsServiceModule['getPostcodeBoundaries'];
+    let refreshPostcodeBoundaries: HsyWfsServiceModule['refreshPostcodeBoundaries'];
+    let findPostcodeAt: HsyWfsServiceModule['findPostcodeAt'];
+    let getPostcodeSummaries: HsyWfsServiceModule['getPostcodeSummaries'];
+    let getWalkingZones: HsyWfsServiceModule['getWalkingZones'];
+    let refreshWalkingZones: HsyWfsServiceModule['refreshWalkingZones'];
     let clearPostcodeCache: HsyWfsServiceModule['clearPostcodeCache'];
 
     beforeEach(() => {
         // 1. Reset Jest's module cache before each test
         jest.resetModules();
 
-        // 2. Define the mock cache instance structure
+        // 2. Define the mock cache instance structure, backed by a Map so each key holds its own value
+        cacheEntries = new Map();
         mockCacheInstance = {
-            get: jest.fn(),
-            set: jest.fn(),
+            get: jest.fn((key: string) => cacheEntries.get(key)),
+            set: jest.fn((key: string, value: unknown) => { cacheEntries.set(key, value); }),
             clear: jest.fn(),
-            delete: jest.fn(),
+            delete: jest.fn((key: string) => cacheEntries.delete(key)),
+            keys: jest.fn(() => Array.from(cacheEntries.keys())),
             size: jest.fn(),
             name: 'Mocked HSY WFS Cache'
         };
+        // Mirror SimpleCache.getOrFetch for fresh hits and misses on top of the mocked get/set
+        mockCacheInstance.getOrFetch = jest.fn(async (key: string, fetcher: () => Promise<unknown>) => {
+            const cached = mockCacheInstance.get(key);
+            if (cached !== undefined) return cached;
+            const value = await fetcher();
+            mockCacheInstance.set(key, value);
+            return value;
+        });
+        mockCacheInstance.refresh = jest.fn(async (key: string, fetcher: () => Promise<unknown>) => {
+            const value = await fetcher();
+            mockCacheInstance.set(key, value);
+            return value;
+        });
 
         // 3. Define the mock axios get function
         mockedAxiosGet = jest.fn();
@@ -71,6 +110,11 @@ describe('hsyWfsService', () => {
         // 5. Dynamically import the service module *after* setting up mocks
         const serviceModule = require('../../services/hsyWfsService') as HsyWfsServiceModule;
         getPostcodeBoundaries = serviceModule.getPostcodeBoundaries;
+        refreshPostcodeBoundaries = serviceModule.refreshPostcodeBoundaries;
+        findPostcodeAt = serviceModule.findPostcodeAt;
+        getPostcodeSummaries = serviceModule.getPostcodeSummaries;
+        getWalkingZones = serviceModule.getWalkingZones;
+        refreshWalkingZones = serviceModule.refreshWalkingZones;
         clearPostcodeCache = serviceModule.clearPostcodeCache;
     });
 
@@ -84,14 +128,13 @@ describe('hsyWfsService', () => {
 
         it('should fetch postcode boundaries from HSY WFS API if cache is empty', async () => {
             // Arrange: Set mock behaviors for this specific test
-            mockCacheInstance.get.mockReturnValue(undefined);
-            mockedAxiosGet.mockResolvedValueOnce({ status: 200, data: mockGeoJsonResponse });
+                        mockedAxiosGet.mockResolvedValueOnce({ status: 200, data: mockGeoJsonResponse });
 
             // Act
             const result = await getPostcodeBoundaries();
 
             // Assert
-            expect(mockCacheInstance.get).toHaveBeenCalledWith('all_postcodes');
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(SOURCE_KEY);
             expect(mockedAxiosGet).toHaveBeenCalledTimes(1);
             expect(mockedAxiosGet).toHaveBeenCalledWith(expect.stringContaining('https://kartta.hsy.fi/geoserver/wfs'), expect.objectContaining({
                 params: expect.objectContaining({
@@ -103,29 +146,29 @@ describe('hsyWfsService', () => {
                     SRSNAME: 'EPSG:3879'
                 })
             }));
-            expect(mockCacheInstance.set).toHaveBeenCalledWith('all_postcodes', mockGeoJsonResponse);
-            expect(result).toEqual(mockGeoJsonResponse);
+            expect(mockCacheInstance.set).toHaveBeenCalledWith(SOURCE_KEY, mockGeoJsonResponse);
+            expect(mockCacheInstance.set).toHaveBeenCalledWith(DEFAULT_VARIANT_KEY, result);
+            expect(result).toEqual(mockGeoJsonBoundaries);
         });
 
         it('should return cached postcode boundaries if available', async () => {
             // Arrange
-            mockCacheInstance.get.mockReturnValue(mockGeoJsonResponse);
+            cacheEntries.set(SOURCE_KEY, mockGeoJsonResponse);
 
             // Act
             const result = await getPostcodeBoundaries();
 
             // Assert
-            expect(mockCacheInstance.get).toHaveBeenCalledWith('all_postcodes');
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(SOURCE_KEY);
             expect(mockedAxiosGet).not.toHaveBeenCalled();
-            expect(mockCacheInstance.set).not.toHaveBeenCalled();
-            expect(result).toEqual(mockGeoJsonResponse);
+            expect(mockCacheInstance.set).not.toHaveBeenCalledWith(SOURCE_KEY, expect.anything());
+            expect(result).toEqual(mockGeoJsonBoundaries);
         });
 
         it('should handle API errors gracefully and return null', async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
-            mockCacheInstance.get.mockReturnValue(undefined);
-            const apiError = new Error('Network Error');
+                        const apiError = new Error('Network Error');
             // Simulate axios throwing an error that is NOT an AxiosError
             mockedAxiosGet.mockRejectedValueOnce(apiError);
 
@@ -133,7 +176,7 @@ describe('hsyWfsService', () => {
             const result = await getPostcodeBoundaries();
 
             // Assert
-            expect(mockCacheInstance.get).toHaveBeenCalledWith('all_postcodes');
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(SOURCE_KEY);
             expect(mockedAxiosGet).toHaveBeenCalledTimes(1);
             expect(mockCacheInstance.set).not.toHaveBeenCalled();
             expect(result).toBeNull();
@@ -149,8 +192,7 @@ describe('hsyWfsService', () => {
         it('should handle Axios API errors gracefully and return null', async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
-            mockCacheInstance.get.mockReturnValue(undefined);
-            const axiosApiError = new Error('Request failed') as import('axios').AxiosError;
+                        const axiosApiError = new Error('Request failed') as import('axios').AxiosError;
             axiosApiError.isAxiosError = true; // Mark it as an AxiosError
             axiosApiError.response = { status: 503, statusText: 'Service Unavailable' } as any;
             mockedAxiosGet.mockRejectedValueOnce(axiosApiError);
@@ -159,7 +201,7 @@ describe('hsyWfsService', () => {
             const result = await getPostcodeBoundaries();
 
             // Assert
-            expect(mockCacheInstance.get).toHaveBeenCalledWith('all_postcodes');
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(SOURCE_KEY);
             expect(mockedAxiosGet).toHaveBeenCalledTimes(1);
             expect(mockCacheInstance.set).not.toHaveBeenCalled();
             expect(result).toBeNull();
@@ -171,14 +213,13 @@ describe('hsyWfsService', () => {
         it('should handle non-200 responses gracefully and return null', async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
-            mockCacheInstance.get.mockReturnValue(undefined);
-            mockedAxiosGet.mockResolvedValueOnce({ status: 404, statusText: 'Not Found', data: 'Not Found Error Page', headers: {}, config: {} as any });
+                        mockedAxiosGet.mockResolvedValueOnce({ status: 404, statusText: 'Not Found', data: 'Not Found Error Page', headers: {}, config: {} as any });
 
             // Act
             const result = await getPostcodeBoundaries();
 
             // Assert
-            expect(mockCacheInstance.get).toHaveBeenCalledWith('all_postcodes');
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(SOURCE_KEY);
             expect(mockedAxiosGet).toHaveBeenCalledTimes(1);
             expect(mockCacheInstance.set).not.toHaveBeenCalled();
             expect(result).toBeNull();
@@ -188,6 +229,328 @@ describe('hsyWfsService', () => {
         });
     });
 
+    describe('reprojection', () => {
+        // HSY publishes the boundaries in EPSG:3879 with the postal code in `posno`
+        const hsyResponse: MockGeoJSON = {
+            type: 'FeatureCollection',
+            features: [
+                {
+                    type: 'Feature',
+                    geometry: { type: 'Polygon', coordinates: [[[25496750, 6673000], [25496850, 6673000], [25496850, 6673100], [25496750, 6673000]]] },
+                    properties: { posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö' }
+                }
+            ]
+        };
+
+        it('should return WGS84 coordinates with a postalCode property by default', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const result = await getPostcodeBoundaries();
+            const [lon, lat] = result?.features[0].geometry.coordinates[0][0];
+
+            expect(lon).toBeCloseTo(24.94146, 5);
+            expect(lat).toBeCloseTo(60.16987, 5);
+            expect(result?.features[0].properties).toEqual(expect.objectContaining({ posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö', postalCode: '00100' }));
+            // The cached source collection is left untouched
+            expect(hsyResponse.features[0].geometry.coordinates[0][0]).toEqual([25496750, 6673000]);
+            expect(hsyResponse.features[0].properties.postalCode).toBeUndefined();
+        });
+
+        it('should return the source coordinates for EPSG:3879', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const result = await getPostcodeBoundaries({ crs: 'EPSG:3879' });
+
+            expect(result?.features[0].geometry.coordinates[0][0]).toEqual([25496750, 6673000]);
+            expect(result?.features[0].properties.postalCode).toBe('00100');
+        });
+
+        it('should cache each variant under its own key', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+            const first = await getPostcodeBoundaries();
+            const second = await getPostcodeBoundaries();
+            const helsinki = await getPostcodeBoundaries({ crs: 'EPSG:3879', tolerance: 12.34, format: 'topojson' });
+
+            expect(second).toBe(first);
+            expect(cacheEntries.get(DEFAULT_VARIANT_KEY)).toBe(first);
+            expect(cacheEntries.get('all_postcodes:EPSG:3879:z13:topojson')).toBe(helsinki); // 12.34 m snaps to zoom 13
+        });
+
+        it('should share one variant between tolerances that snap to the same zoom level', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+            const first = await getPostcodeBoundaries({ tolerance: 38 });
+            const second = await getPostcodeBoundaries({ tolerance: 38.2 });
+            await getPostcodeBoundaries({ tolerance: 0.0001 });
+            await getPostcodeBoundaries({ tolerance: 1e6 });
+
+            expect(second).toBe(first);
+            expect(cacheEntries.get('all_postcodes:EPSG:4326:z11:geojson')).toBe(first);
+            expect(cacheEntries.has('all_postcodes:EPSG:4326:z22:geojson')).toBe(true);
+            expect(cacheEntries.has('all_postcodes:EPSG:4326:z0:geojson')).toBe(true);
+        });
+
+        it('should rebuild the variants after the source boundaries are refreshed', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+            const before = await getPostcodeBoundaries();
+            mockedAxiosGet.mockResolvedValueOnce({ status: 200, data: { ...hsyResponse } });
+
+            await refreshPostcodeBoundaries();
+            const after = await getPostcodeBoundaries();
+
+            expect(after).not.toBe(before);
+            expect(after).toEqual(before);
+        });
+
+        it('should rebuild the variants when the cache returns new source boundaries', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+            const before = await getPostcodeBoundaries();
+
+            // As a background refresh by getOrFetch would
+            cacheEntries.set(SOURCE_KEY, { ...hsyResponse, features: [...hsyResponse.features] });
+            const after = await getPostcodeBoundaries();
+
+            expect(after).not.toBe(before);
+            expect(after).toEqual(before);
+            expect(await getPostcodeBoundaries()).toBe(after);
+        });
+    });
+
+    describe('simplification and TopoJSON', () => {
+        // Two squares sharing their middle edge, which has an extra vertex 2 m off the straight line
+        const square = (x: number, middle: number[][]): number[][] => [[x, 6673000], ...middle, [x, 6673100], [x, 6673000]];
+        const sharedEdge = [[25496850, 6673000], [25496852, 6673050], [25496850, 6673100]];
+        const adjacentResponse: MockGeoJSON = {
+            type: 'FeatureCollection',
+            features: [
+                {
+                    type: 'Feature',
+                    geometry: { type: 'Polygon', coordinates: [square(25496750, sharedEdge)] },
+                    properties: { posno: '00100' }
+                },
+                {
+                    type: 'Feature',
+                    geometry: { type: 'Polygon', coordinates: [square(25496950, sharedEdge)] },
+                    properties: { posno: '00120' }
+                }
+            ]
+        };
+        const vertexCount = (collection: MockGeoJSON): number =>
+            collection.features.reduce((sum, feature) => sum + feature.geometry.coordinates[0].length, 0);
+
+        it('should drop vertices below the tolerance and keep the shared edge identical', async () => {
+            cacheEntries.set(SOURCE_KEY, adjacentResponse);
+
+            const full = await getPostcodeBoundaries({ crs: 'EPSG:3879' });
+            const simplified = await getPostcodeBoundaries({ crs: 'EPSG:3879', tolerance: 20 });
+            const [west, east] = simplified.features.map((feature: any) => feature.geometry.coordinates[0]);
+
+            expect(vertexCount(simplified)).toBeLessThan(vertexCount(full));
+            expect(west).not.toContainEqual([25496852, 6673050]);
+            expect(east).not.toContainEqual([25496852, 6673050]);
+            expect(west).toEqual(expect.arrayContaining([[25496850, 6673000], [25496850, 6673100]]));
+            expect(east).toEqual(expect.arrayContaining([[25496850, 6673000], [25496850, 6673100]]));
+            expect(simplified.features[1].properties.postalCode).toBe('00120');
+        });
+
+        it('should keep vertices above the tolerance', async () => {
+            cacheEntries.set(SOURCE_KEY, adjacentResponse);
+
+            const simplified = await getPostcodeBoundaries({ crs: 'EPSG:3879', tolerance: 1 });
+
+            expect(simplified.features[0].geometry.coordinates[0]).toContainEqual([25496852, 6673050]);
+        });
+
+        it('should encode the boundaries as TopoJSON with the shared edge stored once', async () => {
+            cacheEntries.set(SOURCE_KEY, adjacentResponse);
+
+            const topology = await getPostcodeBoundaries({ format: 'topojson' });
+
+            expect(topology.type).toBe('Topology');
+            expect(topology.transform).toBeDefined();
+            const geometries = topology.objects.postcodes.geometries;
+            expect(geometries.map((geometry: any) => geometry.properties.postalCode)).toEqual(['00100', '00120']);
+            // Each square is one arc of its own plus the shared edge (referenced reversed by one of them)
+            expect(topology.arcs).toHaveLength(3);
+        });
+    });
+
+    describe('findPostcodeAt', () => {
+        const hsyResponse: MockGeoJSON = {
+            type: 'FeatureCollection',
+            features: [
+                {
+                    type: 'Feature',
+                    geometry: { type: 'Polygon', coordinates: [[[25496750, 6673000], [25496850, 6673000], [25496850, 6673100], [25496750, 6673100], [25496750, 6673000]]] },
+                    properties: { posno: '00100' }
+                },
+                {
+                    type: 'Feature',
+                    geometry: { type: 'Polygon', coordinates: [[[25496850, 6673000], [25496950, 6673000], [25496950, 6673100], [25496850, 6673100], [25496850, 6673000]]] },
+                    properties: { posno: '00120' }
+                }
+            ]
+        };
+
+        it('should find the postcode area containing a WGS84 point', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            // Just east of the corner at (25496850, 6673000), see the projection tests
+            const feature = await findPostcodeAt(24.9433, 60.1703);
+
+            expect(feature?.properties).toEqual(expect.objectContaining({ posno: '00120', postalCode: '00120' }));
+        });
+
+        it('should return the geometry, interior point and bounding box of a WGS84 lookup in WGS84', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const feature = await findPostcodeAt(24.9433, 60.1703);
+            const [lon, lat] = feature?.properties.interiorPoint;
+            const [minLon, minLat, maxLon, maxLat] = feature?.properties.bbox;
+
+            expect(lon).toBeGreaterThan(24.9);
+            expect(lon).toBeLessThan(25);
+            expect(lat).toBeGreaterThan(60.1);
+            expect(lat).toBeLessThan(60.2);
+            expect(minLon).toBeLessThan(lon);
+            expect(maxLon).toBeGreaterThan(lon);
+            expect(minLat).toBeLessThan(lat);
+            expect(maxLat).toBeGreaterThan(lat);
+            expect(feature?.geometry.coordinates[0][0][0]).toBeLessThan(180);
+        });
+
+        it('should find the postcode area containing an EPSG:3879 point', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const feature = await findPostcodeAt(25496800, 6673050, 'EPSG:3879');
+            expect(feature?.properties.postalCode).toBe('00100');
+            expect(feature?.properties.interiorPoint).toEqual([25496800, 6673050]);
+            expect(await findPostcodeAt(25497000, 6673050, 'EPSG:3879')).toBeNull();
+        });
+
+        it('should look up points in the current source boundaries once the cache returns new ones', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+            expect((await findPostcodeAt(25496800, 6673050, 'EPSG:3879'))?.properties.postalCode).toBe('00100');
+
+            const [renumbered, ...rest] = hsyResponse.features;
+            cacheEntries.set(SOURCE_KEY, { ...hsyResponse, features: [{ ...renumbered, properties: { posno: '00130' } }, ...rest] });
+
+            expect((await findPostcodeAt(25496800, 6673050, 'EPSG:3879'))?.properties.postalCode).toBe('00130');
+        });
+
+        it('should reject when the boundaries cannot be fetched', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxiosGet.mockRejectedValueOnce(new Error('Network Error'));
+
+            await expect(findPostcodeAt(24.9433, 60.1703)).rejects.toThrow('Postcode boundaries are not available.');
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('summary attributes', () => {
+        // Two 100 m squares sharing an edge, and a third one touching the second only at a corner
+        const square = (x: number, y: number): number[][][] => [[[x, y], [x + 100, y], [x + 100, y + 100], [x, y + 100], [x, y]]];
+        const hsyResponse: MockGeoJSON = {
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', geometry: { type: 'Polygon', coordinates: square(25496750, 6673000) }, properties: { posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö' } },
+                { type: 'Feature', geometry: { type: 'Polygon', coordinates: square(25496850, 6673000) }, properties: { posno: '00120', nimi: 'Punavuori' } },
+                { type: 'Feature', geometry: { type: 'Polygon', coordinates: square(25496950, 6673100) }, properties: { posno: '00130', nimi: 'Kaartinkaupunki' } }
+            ]
+        };
+
+        it('should add the area, interior point, bounding box and neighbours to each feature', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const result = await getPostcodeBoundaries({ crs: 'EPSG:3879' });
+
+            expect(result.features[0].properties).toEqual({
+                posno: '00100',
+                nimi: 'Helsinki keskusta - Etu-Töölö',
+                postalCode: '00100',
+                areaKm2: 0.01,
+                interiorPoint: [25496800, 6673050],
+                bbox: [25496750, 6673000, 25496850, 6673100],
+                neighbours: ['00120']
+            });
+            expect(result.features[1].properties.neighbours).toEqual(['00100']);
+            // Touching at a single corner does not make areas neighbours
+            expect(result.features[2].properties.neighbours).toEqual([]);
+        });
+
+        it('should keep the attributes of the unsimplified boundaries in simplified variants', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const simplified = await getPostcodeBoundaries({ crs: 'EPSG:3879', tolerance: 1000, format: 'topojson' });
+
+            expect(simplified.objects.postcodes.geometries[0].properties).toEqual(expect.objectContaining({
+                areaKm2: 0.01,
+                interiorPoint: [25496800, 6673050],
+                neighbours: ['00120']
+            }));
+        });
+
+        it('should list the summaries without geometries, in the requested CRS', async () => {
+            cacheEntries.set(SOURCE_KEY, hsyResponse);
+
+            const summaries = await getPostcodeSummaries();
+
+            expect(summaries).toHaveLength(3);
+            expect(summaries?.[0]).toEqual({
+                postalCode: '00100',
+                name: 'Helsinki keskusta - Etu-Töölö',
+                areaKm2: 0.01,
+                interiorPoint: [expect.closeTo(24.94236, 5), expect.closeTo(60.17032, 5)],
+                bbox: [expect.closeTo(24.9415, 4), expect.closeTo(60.1699, 4), expect.closeTo(24.9433, 4), expect.closeTo(60.1708, 4)],
+                neighbours: ['00120']
+            });
+            expect(mockCacheInstance.get).toHaveBeenCalledWith(DEFAULT_VARIANT_KEY);
+        });
+
+        it('should return null when the boundaries cannot be fetched', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxiosGet.mockRejectedValueOnce(new Error('Network Error'));
+
+            expect(await getPostcodeSummaries()).toBeNull();
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('walking zones', () => {
+        const zoneResponse: MockGeoJSON = {
+            type: 'FeatureCollection',
+            features: [{ type: 'Feature', geometry: { type: 'Polygon', coordinates: [[[25496750, 6673000], [25496850, 6673000], [25496850, 6673100], [25496750, 6673000]]] }, properties: {} }]
+        };
+
+        it('should fetch the polygons of a zone from the WFS layer of the same name, in EPSG:3879', async () => {
+            mockedAxiosGet.mockResolvedValueOnce({ status: 200, data: zoneResponse });
+
+            const zones = await getWalkingZones('10min');
+
+            expect(zones).toBe(zoneResponse);
+            expect(mockedAxiosGet).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+                params: expect.objectContaining({ TYPENAMES: 'asuminen_ja_maankaytto:kavely_10min', SRSNAME: 'EPSG:3879' })
+            }));
+            expect(mockCacheInstance.set).toHaveBeenCalledWith('10min', zoneResponse);
+        });
+
+        it('should refresh every zone and report the ones that failed', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxiosGet.mockImplementation((url: string, { params }: { params: { TYPENAMES: string } }) =>
+                params.TYPENAMES.endsWith('15min')
+                    ? Promise.reject(new Error('Network Error'))
+                    : Promise.resolve({ status: 200, data: zoneResponse }));
+
+            await expect(refreshWalkingZones()).rejects.toThrow('Failed to refresh walking zones: 15min');
+            expect(cacheEntries.get('5min')).toBe(zoneResponse);
+            expect(cacheEntries.get('10min')).toBe(zoneResponse);
+            expect(consoleErrorSpy).toHaveBeenCalledWith('Error fetching 15min walking zones: An unexpected error occurred', 'Network Error');
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
     describe('clearPostcodeCache', () => {
         it('should call cache.clear', () => {
             // Arrange (mocks are set in beforeEach)
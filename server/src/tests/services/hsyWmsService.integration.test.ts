@@ -89,7 +89,7 @@ describe('hsyWmsService Integration', () => {
 
             const result = await getWalkingDistance(sampleCoords.x, sampleCoords.y);
             expect(result).toBeNull();
-            expect(mockedAxios.get).toHaveBeenCalledTimes(3); // Expect 3 calls as it tries all layers
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1); // The lookup stops at the failed layer
 
             // Restore console.error
             consoleErrorSpy.mockRestore();
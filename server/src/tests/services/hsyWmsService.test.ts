@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { getWalkingDistance, clearWalkingDistanceCache } from '../../services/hsyWmsService'; // Import clear cache function
+import { getWalkingDistance, getWalkingDistances, clearWalkingDistanceCache } from '../../services/hsyWmsService'; // Import clear cache function
 
 // Mock axios
 jest.mock('axios');
@@ -92,10 +92,79 @@ describe('hsyWmsService', () => {
 
             const result = await getWalkingDistance(sampleCoords.x, sampleCoords.y);
             expect(result).toBeNull();
-            expect(mockedAxios.get).toHaveBeenCalledTimes(3); // Expect 3 calls as it tries all layers
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1); // The lookup stops at the failed layer
 
             // Restore console.error
             consoleErrorSpy.mockRestore();
         });
+
+        it('should not cache a failed lookup', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxios.get
+                .mockRejectedValueOnce(new Error('Network failure'))
+                .mockResolvedValueOnce({ data: mockGeoJsonFeature });
+
+            expect(await getWalkingDistance(sampleCoords.x, sampleCoords.y)).toBeNull();
+            expect(await getWalkingDistance(sampleCoords.x, sampleCoords.y)).toBe('5min');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('getWalkingDistances', () => {
+        // A point is inside a zone if the query is for that zone's layer around the point's x coordinate
+        const zonesByX: Record<number, string> = { 25496600: 'kavely_5min', 25496700: 'kavely_10min' };
+        const respondByZone = (url: string) => {
+            const inZone = Object.entries(zonesByX).some(([x, layer]) => url.includes(layer) && url.includes(`BBOX=${Number(x) - 10}`));
+            return Promise.resolve({ data: inZone ? mockGeoJsonFeature : mockEmptyGeoJson });
+        };
+
+        beforeEach(() => {
+            mockedAxios.get.mockReset();
+            clearWalkingDistanceCache();
+        });
+
+        it('should return the zone and accessibility class of each point in order', async () => {
+            mockedAxios.get.mockImplementation(respondByZone);
+
+            const results = await getWalkingDistances([
+                { x: 25496700, y: 6672900 },
+                { x: 25496600, y: 6672900 },
+                { x: 25496800, y: 6672900 }
+            ]);
+
+            expect(results).toEqual([
+                { x: 25496700, y: 6672900, walkingDistance: '10min', accessibility: 'medium' },
+                { x: 25496600, y: 6672900, walkingDistance: '5min', accessibility: 'high' },
+                { x: 25496800, y: 6672900, walkingDistance: null, accessibility: 'none' }
+            ]);
+            // 2 requests for the 10min point, 1 for the 5min point and 3 for the point outside all zones
+            expect(mockedAxios.get).toHaveBeenCalledTimes(6);
+        });
+
+        it('should reuse the cached zone of a point', async () => {
+            mockedAxios.get.mockImplementation(respondByZone);
+
+            await getWalkingDistance(25496600, 6672900);
+            const [result] = await getWalkingDistances([{ x: 25496600, y: 6672900 }]);
+
+            expect(result.walkingDistance).toBe('5min');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject the batch if a WMS request fails, keeping the points resolved so far', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxios.get
+                .mockResolvedValueOnce({ data: mockGeoJsonFeature }) // First point, 5min layer
+                .mockRejectedValueOnce(new Error('Network failure')); // Second point, 5min layer
+
+            await expect(getWalkingDistances([{ x: 25496600, y: 6672900 }, { x: 25496700, y: 6672900 }], 1))
+                .rejects.toThrow('Walking distance query failed for point 25496700,6672900: Network failure');
+            expect(await getWalkingDistance(25496600, 6672900)).toBe('5min');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+
+            consoleErrorSpy.mockRestore();
+        });
     });
-}); 
+});
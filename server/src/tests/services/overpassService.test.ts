@@ -1,5 +1,13 @@
 import axios from 'axios';
-import { fetchGreenSpaces, clearOverpassCache } from '../../services/overpassService';
+import {
+    fetchCategory,
+    fetchCategoryInBoundingBox,
+    fetchGreenSpaces,
+    clearOverpassCache,
+    getOverpassTiles,
+    isOverpassCategory,
+    refreshCategory
+} from '../../services/overpassService';
 import { FeatureCollection, Feature } from 'geojson';
 import querystring from 'querystring';
 import osm2geojson from 'osm2geojson-lite';
@@ -76,14 +84,21 @@ describe('overpassService', () => {
             expect(mockOsm2geojsonImplementation).toHaveBeenCalledWith(mockApiResponse, { completeFeature: true }); // Check the specific mock
         });
 
-        it('should return an empty FeatureCollection if API response format is unexpected (missing elements)', async () => {
+        it('should return an empty FeatureCollection without caching it if API response format is unexpected (missing elements)', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
             const badResponse = { version: 0.6 };
-            mockedAxios.post.mockResolvedValue({ data: badResponse });
+            mockedAxios.post
+                .mockResolvedValueOnce({ data: badResponse })
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement1Data]) });
 
             const result = await fetchGreenSpaces();
             expect(result).toEqual({ type: 'FeatureCollection', features: [] });
-            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
             expect(mockOsm2geojsonImplementation).not.toHaveBeenCalled(); // Check the specific mock
+
+            const retried = await fetchGreenSpaces();
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(retried.features).toEqual([mockFeature1]);
+            consoleErrorSpy.mockRestore();
         });
 
         it('should handle Overpass API errors gracefully and return empty FeatureCollection', async () => {
@@ -162,4 +177,168 @@ describe('overpassService', () => {
             expect(mockOsm2geojsonImplementation).toHaveBeenCalledTimes(1); // Check the specific mock
         });
     });
-}); 
+    describe('fetchCategory', () => {
+        beforeEach(() => {
+            mockedAxios.post.mockClear();
+            mockOsm2geojsonImplementation.mockClear();
+            clearOverpassCache();
+        });
+
+        it('should query the tags of the category', async () => {
+            mockedAxios.post.mockResolvedValue({ data: createMockOverpassApiResponse([mockElement1Data]) });
+
+            const result = await fetchCategory('schools');
+
+            const query = mockedAxios.post.mock.calls[0][1] as string;
+            expect(query).toContain('node["amenity"="school"]');
+            expect(query).toContain('bbox:59.9,24.4,60.5,25.4');
+            expect(query).not.toContain('leisure');
+            expect(result.features).toEqual([mockFeature1]);
+        });
+
+        it('should cache every category under its own key', async () => {
+            mockedAxios.post
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement1Data]) })
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement2Data]) });
+
+            const schools = await fetchCategory('schools');
+            const greenSpaces = await fetchGreenSpaces();
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(schools.features).toEqual([mockFeature1]);
+            expect(greenSpaces.features).toEqual([mockFeature2]);
+            expect(await fetchCategory('schools')).toEqual(schools);
+            expect(await fetchCategory('green-spaces')).toEqual(greenSpaces);
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('should re-query the category on refresh', async () => {
+            mockedAxios.post
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement1Data]) })
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement2Data]) });
+
+            await fetchCategory('playgrounds');
+            const refreshed = await refreshCategory('playgrounds');
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(refreshed.features).toEqual([mockFeature2]);
+            expect(await fetchCategory('playgrounds')).toEqual(refreshed);
+        });
+
+        it('should keep the cached category if a refresh gets an unexpected response', async () => {
+            mockedAxios.post
+                .mockResolvedValueOnce({ data: createMockOverpassApiResponse([mockElement1Data]) })
+                .mockResolvedValueOnce({ data: { version: 0.6 } });
+
+            const cached = await fetchCategory('playgrounds');
+
+            await expect(refreshCategory('playgrounds')).rejects.toThrow('Unexpected Overpass API response format');
+            expect(await fetchCategory('playgrounds')).toEqual(cached);
+        });
+    });
+
+    describe('isOverpassCategory', () => {
+        it('should accept configured categories only', () => {
+            expect(isOverpassCategory('green-spaces')).toBe(true);
+            expect(isOverpassCategory('grocery-stores')).toBe(true);
+            expect(isOverpassCategory('casinos')).toBe(false);
+            expect(isOverpassCategory('toString')).toBe(false);
+        });
+    });
+    describe('getOverpassTiles', () => {
+        it('should return the 0.1° tiles overlapping the box, row by row', () => {
+            expect(getOverpassTiles([24.93, 60.16, 25.05, 60.19])).toEqual([
+                { column: 249, row: 601 },
+                { column: 250, row: 601 }
+            ]);
+        });
+
+        it('should not include the next tile for a box ending on a tile edge', () => {
+            expect(getOverpassTiles([24.9, 60.1, 25, 60.2])).toEqual([{ column: 249, row: 601 }]);
+        });
+    });
+
+    describe('fetchCategoryInBoundingBox', () => {
+        const mockTileResponses = (...tiles: any[][]) => {
+            tiles.forEach(elements => mockedAxios.post.mockResolvedValueOnce({ data: createMockOverpassApiResponse(elements) }));
+        };
+
+        beforeEach(() => {
+            mockedAxios.post.mockReset();
+            mockOsm2geojsonImplementation.mockClear();
+            clearOverpassCache();
+        });
+
+        it('should query every tile of the box and merge the tiles', async () => {
+            mockTileResponses([mockElement1Data], [mockElement2Data]);
+
+            const result = await fetchCategoryInBoundingBox('green-spaces', [24.93, 60.16, 25.05, 60.19]);
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            const queries = mockedAxios.post.mock.calls.map(call => call[1] as string);
+            expect(queries).toEqual(expect.arrayContaining([
+                expect.stringContaining('bbox:60.1,24.9,60.2,25]'),
+                expect.stringContaining('bbox:60.1,25,60.2,25.1]')
+            ]));
+            expect(result.features).toEqual(expect.arrayContaining([mockFeature1, mockFeature2]));
+            expect(result.features).toHaveLength(2);
+        });
+
+        it('should include features spanning several tiles once', async () => {
+            // Keep the element ids, as osm2geojson-lite does ('way/2')
+            const withIds = (data: any) => ({
+                type: 'FeatureCollection',
+                features: data.elements.map((el: any) => ({ type: 'Feature', id: el.id, properties: el.tags, geometry: { type: 'Point', coordinates: [0, 0] } }))
+            });
+            mockOsm2geojsonImplementation.mockImplementationOnce(withIds).mockImplementationOnce(withIds);
+            const spanning = { ...mockElement2Data, id: 'way/2' };
+            mockTileResponses([spanning, { ...mockElement1Data, id: 'node/1' }], [spanning]);
+
+            const result = await fetchCategoryInBoundingBox('green-spaces', [24.93, 60.16, 25.05, 60.19]);
+
+            expect(result.features.map(feature => feature.id)).toEqual(['way/2', 'node/1']);
+        });
+
+        it('should reuse cached tiles for overlapping boxes', async () => {
+            mockTileResponses([mockElement1Data], [mockElement2Data]);
+            await fetchCategoryInBoundingBox('green-spaces', [24.93, 60.16, 24.97, 60.19]);
+
+            const result = await fetchCategoryInBoundingBox('green-spaces', [24.95, 60.15, 25.05, 60.18]);
+
+            // The second box adds one tile to the east, the shared tile comes from the cache
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(result.features).toEqual([mockFeature1, mockFeature2]);
+        });
+
+        it('should keep tiles of different categories apart', async () => {
+            mockTileResponses([mockElement1Data], [mockElement2Data]);
+
+            await fetchCategoryInBoundingBox('green-spaces', [24.93, 60.16, 24.97, 60.19]);
+            const schools = await fetchCategoryInBoundingBox('schools', [24.93, 60.16, 24.97, 60.19]);
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+            expect(schools.features).toEqual([mockFeature2]);
+        });
+
+        it('should return an empty FeatureCollection if a tile fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxios.post.mockRejectedValue(new Error('Overpass timeout'));
+
+            const result = await fetchCategoryInBoundingBox('green-spaces', [24.93, 60.16, 25.05, 60.19]);
+
+            expect(result).toEqual({ type: 'FeatureCollection', features: [] });
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should not query boxes spanning too many tiles', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+            const result = await fetchCategoryInBoundingBox('green-spaces', [20, 60, 30, 70]);
+
+            expect(result).toEqual({ type: 'FeatureCollection', features: [] });
+            expect(mockedAxios.post).not.toHaveBeenCalled();
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+});
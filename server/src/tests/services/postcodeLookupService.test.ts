@@ -0,0 +1,71 @@
+/// <reference types="jest" />
+import { lookupPostcode } from '../../services/postcodeLookupService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import * as statFiService from '../../services/statFiService';
+import { PostalCodeData } from '../../types/statfi.types';
+
+jest.mock('../../services/hsyWfsService');
+// Keep the real trend calculation, mock only the StatFin fetch
+jest.mock('../../services/statFiService', () => ({
+    ...jest.requireActual<typeof statFiService>('../../services/statFiService'),
+    fetchStatFiPropertyDataRange: jest.fn()
+}));
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+
+const lastYear = new Date().getFullYear() - 1;
+
+const postalCodeData = (postalCode: string, price: number): PostalCodeData => ({
+    postalCode,
+    district: `District ${postalCode}`,
+    municipality: 'Helsinki',
+    fullLabel: `${postalCode} District ${postalCode} (Helsinki)`,
+    prices: { 'Kerrostalo yksiöt': price },
+    transactions: { 'Kerrostalo yksiöt': 20 }
+});
+
+describe('postcodeLookupService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should join the containing postcode with its latest prices and five-year trend', async () => {
+        mockedHsyWfsService.findPostcodeAt.mockResolvedValue({
+            type: 'Feature',
+            geometry: null,
+            properties: { posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö', postalCode: '00100' }
+        });
+        mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(
+            [8000, 8200, 8400, 8600, 8800].map(price => [postalCodeData('00100', price), postalCodeData('00120', price * 2)])
+        );
+
+        const lookup = await lookupPostcode(24.9414, 60.1699, 'EPSG:4326');
+
+        expect(mockedHsyWfsService.findPostcodeAt).toHaveBeenCalledWith(24.9414, 60.1699, 'EPSG:4326');
+        expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(lastYear - 4, lastYear);
+        expect(lookup).toEqual(expect.objectContaining({
+            postalCode: '00100',
+            properties: { posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö', postalCode: '00100' },
+            prices: postalCodeData('00100', 8800),
+            year: lastYear,
+            startYear: lastYear - 4
+        }));
+        expect(lookup?.trend?.trends['Kerrostalo yksiöt']).toEqual(expect.objectContaining({ percentChange: 10, direction: 'up' }));
+    });
+
+    it('should return null prices and trend for postcodes StatFin does not publish', async () => {
+        mockedHsyWfsService.findPostcodeAt.mockResolvedValue({ type: 'Feature', geometry: null, properties: { postalCode: '00190' } });
+        mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([[postalCodeData('00100', 8000)], [postalCodeData('00100', 8800)]]);
+
+        const lookup = await lookupPostcode(25496800, 6673050, 'EPSG:3879');
+
+        expect(lookup).toEqual(expect.objectContaining({ postalCode: '00190', prices: null, trend: null }));
+    });
+
+    it('should return null for points outside every postcode area', async () => {
+        mockedHsyWfsService.findPostcodeAt.mockResolvedValue(null);
+
+        expect(await lookupPostcode(24.0, 61.0, 'EPSG:4326')).toBeNull();
+        expect(mockedStatFiService.fetchStatFiPropertyDataRange).not.toHaveBeenCalled();
+    });
+});
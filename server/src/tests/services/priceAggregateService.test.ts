@@ -0,0 +1,162 @@
+/// <reference types="jest" />
+import {
+    aggregatePrices,
+    calculateAreaAggregates,
+    addPriceIndexes,
+    addQuarterlyPriceIndexes,
+    addTrendPriceIndexes,
+    getAreaAggregates,
+    CAPITAL_REGION_NAME
+} from '../../services/priceAggregateService';
+import * as statFiService from '../../services/statFiService';
+import { PostalCodeData } from '../../types/statfi.types';
+
+// Keep the real trend calculation, mock only the StatFin fetch
+jest.mock('../../services/statFiService', () => ({
+    ...jest.requireActual<typeof statFiService>('../../services/statFiService'),
+    fetchStatFiPropertyDataRange: jest.fn()
+}));
+const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+
+const postalCode = (
+    code: string,
+    municipality: string,
+    price: number | string,
+    sales?: number | string
+): PostalCodeData => ({
+    postalCode: code,
+    district: `District ${code}`,
+    municipality,
+    fullLabel: `${code} District ${code} (${municipality})`,
+    prices: { 'Kerrostalo yksiöt': price },
+    ...(sales !== undefined ? { transactions: { 'Kerrostalo yksiöt': sales } } : {})
+});
+
+describe('priceAggregateService', () => {
+    describe('aggregatePrices', () => {
+        const data = [
+            postalCode('02100', 'Espoo', 6000, 30),
+            postalCode('02200', 'Espoo', 4000, 10),
+            postalCode('02300', 'Espoo', 3000, 'N/A'),
+            postalCode('02400', 'Espoo', 'N/A', 2)
+        ];
+
+        it('should weight prices by the number of sales', () => {
+            const { prices, transactions } = aggregatePrices(data, 'weighted');
+
+            // (6000 * 30 + 4000 * 10) / 40; 02300 has no sales count to weight by
+            expect(prices['Kerrostalo yksiöt']).toBe(5500);
+            expect(transactions['Kerrostalo yksiöt']).toBe(42);
+        });
+
+        it('should take the median of the postal code prices', () => {
+            expect(aggregatePrices(data, 'median').prices['Kerrostalo yksiöt']).toBe(4000);
+            expect(aggregatePrices(data.slice(0, 2), 'median').prices['Kerrostalo yksiöt']).toBe(5000);
+        });
+
+        it('should return N/A when no postal code has a price', () => {
+            const { prices, transactions } = aggregatePrices([postalCode('02400', 'Espoo', 'N/A')], 'weighted');
+
+            expect(prices['Kerrostalo yksiöt']).toBe('N/A');
+            expect(transactions['Kerrostalo yksiöt']).toBe('N/A');
+        });
+    });
+
+    describe('calculateAreaAggregates', () => {
+        const yearlyData = [
+            [postalCode('00100', 'Helsinki', 8000, 10), postalCode('02100', 'Espoo', 5000, 10), postalCode('20100', 'Turku', 3000, 10)],
+            [postalCode('00100', 'Helsinki', 8400, 10), postalCode('02100', 'Espoo', 5250, 10), postalCode('20100', 'Turku', 3000, 10)],
+            [postalCode('00100', 'Helsinki', 8800, 10), postalCode('02100', 'Espoo', 5500, 10), postalCode('20100', 'Turku', 3000, 10)]
+        ];
+
+        it('should aggregate the last year per municipality with trends over every year', () => {
+            const { municipalities } = calculateAreaAggregates(yearlyData, 'weighted');
+
+            expect(municipalities.map(m => m.area)).toEqual(['Espoo', 'Helsinki', 'Turku']);
+            const espoo = municipalities[0];
+            expect(espoo).toEqual(expect.objectContaining({
+                level: 'municipality',
+                postalCodeCount: 1,
+                prices: { 'Kerrostalo yksiöt': 5500 },
+                transactions: { 'Kerrostalo yksiöt': 10 }
+            }));
+            expect(espoo.trends['Kerrostalo yksiöt']).toEqual(expect.objectContaining({ percentChange: 10, direction: 'up' }));
+            expect(municipalities[2].trends['Kerrostalo yksiöt']).toEqual(expect.objectContaining({ direction: 'stable' }));
+        });
+
+        it('should aggregate the capital region without other municipalities', () => {
+            const { region } = calculateAreaAggregates(yearlyData, 'weighted');
+
+            expect(region.area).toBe(CAPITAL_REGION_NAME);
+            expect(region.level).toBe('region');
+            expect(region.postalCodeCount).toBe(2);
+            expect(region.prices['Kerrostalo yksiöt']).toBe(7150); // (8800 + 5500) / 2, Turku left out
+        });
+    });
+
+    describe('getAreaAggregates', () => {
+        it('should aggregate the fetched period', async () => {
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValueOnce([
+                [postalCode('00100', 'Helsinki', 8000, 10)],
+                [postalCode('00100', 'Helsinki', 8800, 10)]
+            ]);
+
+            const aggregates = await getAreaAggregates(2022, 2023, 'median');
+
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2022, 2023);
+            expect(aggregates.region.prices['Kerrostalo yksiöt']).toBe(8800);
+        });
+    });
+
+    describe('addPriceIndexes', () => {
+        it('should index each price against its municipality and the capital region', () => {
+            const data = [
+                postalCode('00100', 'Helsinki', 9000, 10),
+                postalCode('00200', 'Helsinki', 6000, 20),
+                postalCode('02100', 'Espoo', 5000, 10),
+                postalCode('02200', 'Espoo', 'N/A')
+            ];
+
+            const indexed = addPriceIndexes(data);
+
+            // Helsinki average 7000, capital region average (9000*10 + 6000*20 + 5000*10) / 40 = 6500
+            expect(indexed[0].priceIndex).toEqual({
+                municipality: { 'Kerrostalo yksiöt': 128.6 },
+                region: { 'Kerrostalo yksiöt': 138.5 }
+            });
+            expect(indexed[2].priceIndex?.municipality['Kerrostalo yksiöt']).toBe(100);
+            expect(indexed[3].priceIndex?.municipality['Kerrostalo yksiöt']).toBeNull();
+            expect(data[0].priceIndex).toBeUndefined();
+        });
+    });
+
+    describe('addQuarterlyPriceIndexes', () => {
+        it('should count each municipality once in the capital region average', () => {
+            const indexed = addQuarterlyPriceIndexes([
+                postalCode('00100', 'Helsinki', 6000, 300),
+                postalCode('00200', 'Helsinki', 6000, 300),
+                postalCode('02100', 'Espoo', 4000, 100)
+            ]);
+
+            // (6000 * 300 + 4000 * 100) / 400 = 5500
+            expect(indexed.map(data => data.priceIndex?.region['Kerrostalo yksiöt'])).toEqual([109.1, 109.1, 72.7]);
+            expect(indexed.map(data => data.priceIndex?.municipality['Kerrostalo yksiöt'])).toEqual([100, 100, 100]);
+        });
+    });
+
+    describe('addTrendPriceIndexes', () => {
+        it('should add the end year price index to the trend of each postal code', () => {
+            const trend = (code: string) => ({
+                postalCode: code, district: code, municipality: 'Helsinki', fullLabel: code, startYear: 2019, endYear: 2023, trends: {}
+            });
+
+            const indexed = addTrendPriceIndexes([trend('00100'), trend('00300')], [
+                postalCode('00100', 'Helsinki', 9000, 10),
+                postalCode('00200', 'Helsinki', 6000, 20)
+            ]);
+
+            expect(indexed[0].priceIndex?.municipality['Kerrostalo yksiöt']).toBe(128.6);
+            expect(indexed[1].priceIndex).toBeNull();
+        });
+    });
+});
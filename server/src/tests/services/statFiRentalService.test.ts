@@ -0,0 +1,153 @@
+/// <reference types="jest" />
+import axios from 'axios';
+import {
+    fetchStatFiRentalData,
+    clearStatFiRentalCache,
+    calculateRentalYields,
+    getRentalYields
+} from '../../services/statFiRentalService';
+import * as statFiService from '../../services/statFiService';
+import { JsonStatResponse, PostalCodeData, RentalPostalCodeData } from '../../types/statfi.types';
+
+// Mock axios and the sale price service
+jest.mock('axios');
+jest.mock('../../services/statFiService');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+
+// Two postal codes x two room counts x two metrics, metric varying fastest
+function createMockRentalResponse(year: string = "2023"): JsonStatResponse {
+    return {
+        dimension: {
+            Vuosi: {
+                label: "Vuosi",
+                category: { label: { [year]: year }, index: { [year]: 0 } }
+            },
+            Postinumero: {
+                label: "Postinumero",
+                category: {
+                    label: { "00100": "00100 Helsinki Keskusta (Helsinki)", "00200": "00200 Lauttasaari (Helsinki)" },
+                    index: { "00100": 0, "00200": 1 }
+                }
+            },
+            Huoneluku: {
+                label: "Huoneluku",
+                category: {
+                    label: { "01": "Yksiöt", "02": "Kaksiot" },
+                    index: { "01": 0, "02": 1 }
+                }
+            },
+            Tiedot: {
+                label: "Tiedot",
+                category: {
+                    label: { "keskivuokra": "Neliövuokra (eur/m2)", "lkm_julk20": "Lukumäärä" },
+                    index: { "keskivuokra": 0, "lkm_julk20": 1 }
+                }
+            }
+        },
+        id: ["Vuosi", "Postinumero", "Huoneluku", "Tiedot"],
+        size: [1, 2, 2, 2],
+        value: [30.5, 410, 24.8, 530, '...', '...', 21.2, 95]
+    };
+}
+
+const rentalData = (rents: RentalPostalCodeData['rents']): RentalPostalCodeData => ({
+    postalCode: '00100', district: 'Helsinki Keskusta', municipality: 'Helsinki',
+    fullLabel: '00100 Helsinki Keskusta (Helsinki)', rents, rentals: {}
+});
+
+const saleData = (prices: PostalCodeData['prices']): PostalCodeData => ({
+    postalCode: '00100', district: 'Helsinki Keskusta', municipality: 'Helsinki',
+    fullLabel: '00100 Helsinki Keskusta (Helsinki)', prices
+});
+
+describe('statFiRentalService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        clearStatFiRentalCache();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('fetchStatFiRentalData', () => {
+        it('should normalise rents and rental counts per postal code and room count', async () => {
+            mockedAxios.post.mockResolvedValue({ data: createMockRentalResponse('2023') });
+
+            const result = await fetchStatFiRentalData('2023');
+
+            expect(mockedAxios.post).toHaveBeenCalledWith(
+                expect.stringContaining('statfin_asvu_pxt_13eb.px'),
+                expect.anything(),
+                expect.anything()
+            );
+            expect(result).toEqual([
+                {
+                    postalCode: '00100', district: 'Helsinki Keskusta', municipality: 'Helsinki',
+                    fullLabel: '00100 Helsinki Keskusta (Helsinki)',
+                    rents: { 'Yksiöt': 30.5, 'Kaksiot': 24.8 },
+                    rentals: { 'Yksiöt': 410, 'Kaksiot': 530 }
+                },
+                {
+                    postalCode: '00200', district: 'Lauttasaari', municipality: 'Helsinki',
+                    fullLabel: '00200 Lauttasaari (Helsinki)',
+                    rents: { 'Yksiöt': 'N/A', 'Kaksiot': 21.2 },
+                    rentals: { 'Yksiöt': 'N/A', 'Kaksiot': 95 }
+                }
+            ]);
+        });
+
+        it('should cache successful responses per year', async () => {
+            mockedAxios.post.mockResolvedValue({ data: createMockRentalResponse('2023') });
+
+            await fetchStatFiRentalData('2023');
+            await fetchStatFiRentalData('2023');
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject responses without a room count dimension', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            const response = createMockRentalResponse('2023');
+            delete (response.dimension as Partial<JsonStatResponse['dimension']>).Huoneluku;
+            mockedAxios.post.mockResolvedValue({ data: response });
+
+            await expect(fetchStatFiRentalData('2023')).rejects.toThrow('missing expected properties');
+        });
+    });
+
+    describe('calculateRentalYields', () => {
+        it('should calculate the gross yield against the matching building type', () => {
+            const yields = calculateRentalYields(
+                [rentalData({ 'Yksiöt': 30, 'Kaksiot': 25, 'Kolmiot+': 'N/A' })],
+                [saleData({ 'Kerrostalo yksiöt': 7200, 'Kerrostalo kaksiot': 'N/A', 'Kerrostalo kolmiot+': 5000 })]
+            );
+
+            expect(yields).toHaveLength(1);
+            expect(yields[0].yields['Yksiöt']).toEqual({
+                buildingType: 'Kerrostalo yksiöt', monthlyRent: 30, salePrice: 7200, grossYield: 5
+            });
+            expect(yields[0].yields['Kaksiot']).toBeNull();
+            expect(yields[0].yields['Kolmiot+']).toBeNull();
+        });
+
+        it('should skip postal codes without sale prices', () => {
+            expect(calculateRentalYields([rentalData({ 'Yksiöt': 30 })], [])).toEqual([]);
+        });
+    });
+
+    describe('getRentalYields', () => {
+        it('should join the same year of rents and sale prices', async () => {
+            mockedAxios.post.mockResolvedValue({ data: createMockRentalResponse('2022') });
+            mockedStatFiService.fetchStatFiPropertyData.mockResolvedValue([saleData({ 'Kerrostalo kaksiot': 6000 })]);
+
+            const yields = await getRentalYields('2022');
+
+            expect(mockedStatFiService.fetchStatFiPropertyData).toHaveBeenCalledWith('2022');
+            expect(yields).toHaveLength(1);
+            expect(yields[0].yields['Kaksiot']?.grossYield).toBeCloseTo(24.8 * 12 / 6000 * 100);
+        });
+    });
+});
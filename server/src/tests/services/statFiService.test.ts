@@ -1,7 +1,17 @@
 /// <reference types="jest" />
 import axios from 'axios';
-import { fetchStatFiPropertyData, clearStatFiCache } from '../../services/statFiService';
-import { JsonStatResponse } from '../../types/statfi.types';
+import {
+    fetchStatFiPropertyData,
+    clearStatFiCache,
+    getPostalCodePriceHistory,
+    calculatePriceTrends,
+    fetchStatFiQuarterlyPostalCodeData,
+    fetchStatFiPropertyDataRange,
+    refreshStatFiPropertyDataRange
+} from '../../services/statFiService';
+import { JsonStatResponse, PostalCodeData } from '../../types/statfi.types';
+import { JsonStatDataset } from '../../utils/jsonStat';
+import annualFixture from '../fixtures/statfi/ashi_13mu_2022-2023.json';
 
 // Mock axios
 jest.mock('axios');
@@ -35,8 +45,8 @@ function createMockResponse(year: string = "2023"): JsonStatResponse {
             Tiedot: {
                 label: "Tiedot",
                 category: {
-                    label: { "price": "Price" },
-                    index: { "price": 0 }
+                    label: { "keskihinta_aritm_nw": "Neliöhinta (EUR/m2)" },
+                    index: { "keskihinta_aritm_nw": 0 }
                 }
             }
         },
@@ -46,6 +56,18 @@ function createMockResponse(year: string = "2023"): JsonStatResponse {
     };
 }
 
+// Helper to create a response with one price per requested year
+function createMultiYearResponse(years: string[], priceFor: (year: string) => number | string): JsonStatResponse {
+    const response = createMockResponse(years[0]);
+    response.dimension.Vuosi.category = {
+        label: Object.fromEntries(years.map(year => [year, year])),
+        index: Object.fromEntries(years.map((year, index) => [year, index]))
+    };
+    response.size = [years.length, 1, 1, 1];
+    response.value = years.map(priceFor);
+    return response;
+}
+
 describe('statFiService', () => {
     beforeEach(() => {
         // Clear mocks and cache before each test
@@ -118,5 +140,386 @@ describe('statFiService', () => {
             // Restore console.error
             consoleErrorSpy.mockRestore();
         });
+
+        it('should reject and cache nothing when the response has no data for the year', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            mockedAxios.post
+                .mockResolvedValueOnce({ data: createMockResponse("2022") })
+                .mockResolvedValueOnce({ data: createMockResponse("2023") });
+
+            await expect(fetchStatFiPropertyData("2023")).rejects.toThrow('StatFin API response has no data for year 2023.');
+            await expect(fetchStatFiPropertyData("2023")).resolves.toHaveLength(1);
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should share one API call between concurrent requests for the same year', async () => {
+            mockedAxios.post.mockResolvedValue({ data: createMockResponse("2021") });
+
+            await Promise.all([
+                fetchStatFiPropertyData("2021"),
+                fetchStatFiPropertyData("2021"),
+                fetchStatFiPropertyData("2021")
+            ]);
+            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fall back to the last good data when a refresh of expired data fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            const dateNowSpy = jest.spyOn(Date, 'now');
+            const start = 1_700_000_000_000;
+            dateNowSpy.mockReturnValue(start);
+
+            mockedAxios.post.mockResolvedValueOnce({ data: createMockResponse("2020") });
+            const firstResult = await fetchStatFiPropertyData("2020");
+
+            // Expire the entry and make the refresh fail
+            dateNowSpy.mockReturnValue(start + 1000 * 60 * 60 * 25);
+            mockedAxios.post.mockRejectedValueOnce(new Error('API Failed'));
+
+            await expect(fetchStatFiPropertyData("2020")).resolves.toEqual(firstResult);
+            expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+
+            dateNowSpy.mockRestore();
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('transaction counts', () => {
+        it('should read prices and transaction counts from their own metric', async () => {
+            // Two postal codes x two building types x two metrics, metric varying fastest
+            const response = createMockResponse('2022');
+            response.dimension.Postinumero.category = {
+                label: { "00100": "00100 Helsinki Keskusta (Helsinki)", "00200": "00200 Lauttasaari (Helsinki)" },
+                index: { "00100": 0, "00200": 1 }
+            };
+            response.dimension.Talotyyppi.category = {
+                label: { "1": "Kerrostalo yksiöt", "5": "Rivitalot yhteensä" },
+                index: { "1": 0, "5": 1 }
+            };
+            response.dimension.Tiedot.category = {
+                label: { "keskihinta_aritm_nw": "Neliöhinta (EUR/m2)", "lkm_julk20": "Kauppojen lukumäärä" },
+                index: { "keskihinta_aritm_nw": 0, "lkm_julk20": 1 }
+            };
+            response.size = [1, 2, 2, 2];
+            response.value = [8000, 120, 6500, 4, 7000, 85, '.', '.'];
+            mockedAxios.post.mockResolvedValue({ data: response });
+
+            const result = await fetchStatFiPropertyData('2022');
+
+            const payload = mockedAxios.post.mock.calls[0][1] as { query: { code: string; selection: { values: string[] } }[] };
+            expect(payload.query.find(q => q.code === 'Tiedot')?.selection.values).toEqual(['keskihinta_aritm_nw', 'lkm_julk20']);
+            expect(result).toEqual([
+                expect.objectContaining({
+                    postalCode: '00100',
+                    prices: { 'Kerrostalo yksiöt': 8000, 'Rivitalot yhteensä': 6500 },
+                    transactions: { 'Kerrostalo yksiöt': 120, 'Rivitalot yhteensä': 4 }
+                }),
+                expect.objectContaining({
+                    postalCode: '00200',
+                    prices: { 'Kerrostalo yksiöt': 7000, 'Rivitalot yhteensä': 'N/A' },
+                    transactions: { 'Kerrostalo yksiöt': 85, 'Rivitalot yhteensä': 'N/A' }
+                })
+            ]);
+        });
+    });
+
+    describe('fetchStatFiQuarterlyPostalCodeData', () => {
+        function createQuarterlyResponse(): JsonStatResponse {
+            return {
+                dimension: {
+                    'Vuosineljännes': { label: 'Vuosineljännes', category: { label: { '2023Q2': '2023Q2' }, index: { '2023Q2': 0 } } },
+                    Alue: { label: 'Alue', category: { label: { '091': 'Helsinki', '049': 'Espoo' }, index: { '091': 0, '049': 1 } } },
+                    Talotyyppi: { label: 'Talotyyppi', category: { label: { '1': 'Kerrostalo yksiöt' }, index: { '1': 0 } } },
+                    Tiedot: {
+                        label: 'Tiedot',
+                        category: {
+                            label: { 'keskihinta_aritm_nw': 'Neliöhinta (EUR/m2)', 'lkm_julk20': 'Kauppojen lukumäärä' },
+                            index: { 'keskihinta_aritm_nw': 0, 'lkm_julk20': 1 }
+                        }
+                    }
+                },
+                id: ['Vuosineljännes', 'Alue', 'Talotyyppi', 'Tiedot'],
+                size: [1, 2, 1, 2],
+                value: [6100, 850, 4700, 420]
+            };
+        }
+
+        function createAnnualResponse(): JsonStatResponse {
+            const response = createMockResponse('2023');
+            response.dimension.Postinumero.category = {
+                label: {
+                    '00100': '00100 Keskusta (Helsinki)',
+                    '02100': '02100 Tapiola (Espoo)',
+                    '05800': '05800 Hyvinkää (Hyvinkää)'
+                },
+                index: { '00100': 0, '02100': 1, '05800': 2 }
+            };
+            response.size = [1, 3, 1, 1];
+            response.value = [8000, 5500, 2500];
+            return response;
+        }
+
+        it('should give every postal code the quarterly prices of its municipality', async () => {
+            mockedAxios.post.mockImplementation(async (url: string) => ({
+                data: url.includes('112l') ? createQuarterlyResponse() : createAnnualResponse()
+            }));
+
+            const result = await fetchStatFiQuarterlyPostalCodeData('2023Q2');
+
+            expect(result).toEqual([
+                expect.objectContaining({
+                    postalCode: '00100', municipality: 'Helsinki',
+                    prices: { 'Kerrostalo yksiöt': 6100 }, transactions: { 'Kerrostalo yksiöt': 850 }
+                }),
+                expect.objectContaining({
+                    postalCode: '02100', municipality: 'Espoo',
+                    prices: { 'Kerrostalo yksiöt': 4700 }, transactions: { 'Kerrostalo yksiöt': 420 }
+                })
+            ]);
+            const quarterlyPayload = mockedAxios.post.mock.calls.find(([url]) => url.includes('112l'))![1] as {
+                query: { code: string; selection: { values: string[] } }[]
+            };
+            expect(quarterlyPayload.query[0]).toMatchObject({ code: 'Vuosineljännes', selection: { values: ['2023Q2'] } });
+        });
+
+        it('should reject period keys that are not quarters', async () => {
+            await expect(fetchStatFiQuarterlyPostalCodeData('2023')).rejects.toThrow('Invalid quarter: 2023');
+        });
+    });
+
+    describe('fetchStatFiPropertyDataRange', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => { });
+            mockedAxios.post.mockImplementation(async (_url: string, payload: any) => ({
+                data: createMultiYearResponse(payload.query[0].selection.values, year => Number(year))
+            }));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should fetch every year of the range with one request and split it by year', async () => {
+            const yearlyData = await fetchStatFiPropertyDataRange(2018, 2022);
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+            const payload = mockedAxios.post.mock.calls[0][1] as { query: { selection: { values: string[] } }[] };
+            expect(payload.query[0].selection.values).toEqual(['2018', '2019', '2020', '2021', '2022']);
+            expect(yearlyData.map(data => data[0].prices['Kerrostalo'])).toEqual([2018, 2019, 2020, 2021, 2022]);
+        });
+
+        it('should store each year in the per-year cache', async () => {
+            await fetchStatFiPropertyDataRange(2018, 2020);
+            mockedAxios.post.mockClear();
+
+            const data2019 = await fetchStatFiPropertyData('2019');
+
+            expect(mockedAxios.post).not.toHaveBeenCalled();
+            expect(data2019[0].prices['Kerrostalo']).toBe(2019);
+        });
+
+        it('should only request the years that are not cached', async () => {
+            await fetchStatFiPropertyData('2020');
+            mockedAxios.post.mockClear();
+
+            await fetchStatFiPropertyDataRange(2019, 2021);
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+            const payload = mockedAxios.post.mock.calls[0][1] as { query: { selection: { values: string[] } }[] };
+            expect(payload.query[0].selection.values).toEqual(['2019', '2021']);
+        });
+
+        it('should not call the API when every year is cached', async () => {
+            await fetchStatFiPropertyDataRange(2019, 2021);
+            mockedAxios.post.mockClear();
+
+            await fetchStatFiPropertyDataRange(2019, 2021);
+
+            expect(mockedAxios.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('refreshStatFiPropertyDataRange', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => { });
+            mockedAxios.post.mockImplementation(async (_url: string, payload: any) => ({
+                data: createMultiYearResponse(payload.query[0].selection.values, year => Number(year))
+            }));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should re-fetch every year of the range with one request, cached or not', async () => {
+            await fetchStatFiPropertyData('2020');
+            mockedAxios.post.mockClear();
+
+            const yearlyData = await refreshStatFiPropertyDataRange(2019, 2021);
+
+            expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+            const payload = mockedAxios.post.mock.calls[0][1] as { query: { selection: { values: string[] } }[] };
+            expect(payload.query[0].selection.values).toEqual(['2019', '2020', '2021']);
+            expect(yearlyData.map(data => data[0].prices['Kerrostalo'])).toEqual([2019, 2020, 2021]);
+        });
+
+        it('should keep the cached years if the request fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            const cached = await fetchStatFiPropertyData('2020');
+            mockedAxios.post.mockRejectedValue(new Error('StatFin API unavailable'));
+
+            await expect(refreshStatFiPropertyDataRange(2019, 2021)).rejects.toThrow('StatFin API unavailable');
+            expect(await fetchStatFiPropertyData('2020')).toEqual(cached);
+        });
+    });
+
+    describe('with a multi-year StatFin response', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => { });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should split prices and transaction counts by year and postal code', async () => {
+            mockedAxios.post.mockResolvedValue({ data: annualFixture });
+
+            const [data2022, data2023] = await fetchStatFiPropertyDataRange(2022, 2023);
+
+            expect(data2022).toEqual([
+                expect.objectContaining({
+                    postalCode: '00100',
+                    district: 'Helsinki keskusta - Etu-Töölö',
+                    prices: { 'Kerrostalo yksiöt': 9120, 'Kerrostalo kaksiot': 8105 },
+                    transactions: { 'Kerrostalo yksiöt': 85, 'Kerrostalo kaksiot': 120 }
+                }),
+                expect.objectContaining({
+                    postalCode: '00920',
+                    prices: { 'Kerrostalo yksiöt': 'N/A', 'Kerrostalo kaksiot': 3950 },
+                    transactions: { 'Kerrostalo yksiöt': 4, 'Kerrostalo kaksiot': 41 }
+                })
+            ]);
+            expect(data2023[1]).toEqual(expect.objectContaining({
+                postalCode: '00920',
+                prices: { 'Kerrostalo yksiöt': 3460, 'Kerrostalo kaksiot': 'N/A' },
+                transactions: { 'Kerrostalo yksiöt': 12, 'Kerrostalo kaksiot': 'N/A' }
+            }));
+        });
+
+        it('should not depend on the order of the dimensions', async () => {
+            mockedAxios.post.mockResolvedValue({ data: annualFixture });
+            const expected = await fetchStatFiPropertyDataRange(2022, 2023);
+            clearStatFiCache();
+
+            // Same values with the metric varying slowest and the year fastest
+            const reordered = new JsonStatDataset(annualFixture);
+            const order = ['Tiedot', 'Talotyyppi', 'Postinumero', 'Vuosi'];
+            const size = order.map(id => reordered.categories(id).length);
+            const value: (number | null)[] = [];
+            reordered.categories('Tiedot').forEach(metric => {
+                reordered.categories('Talotyyppi').forEach(buildingType => {
+                    reordered.categories('Postinumero').forEach(postalCode => {
+                        reordered.categories('Vuosi').forEach(year => {
+                            value.push(reordered.get({ Tiedot: metric, Talotyyppi: buildingType, Postinumero: postalCode, Vuosi: year }));
+                        });
+                    });
+                });
+            });
+            mockedAxios.post.mockResolvedValue({ data: { ...annualFixture, id: order, size, value, status: undefined } });
+
+            expect(await fetchStatFiPropertyDataRange(2022, 2023)).toEqual(expected);
+        });
+    });
+
+    describe('getPostalCodePriceHistory', () => {
+        const lastYear = new Date().getFullYear() - 1;
+
+        beforeEach(() => {
+            // Return a price for every year except 2012, which has no published value
+            mockedAxios.post.mockImplementation(async (_url: string, payload: any) => {
+                const years: string[] = payload.query[0].selection.values;
+                return { data: createMultiYearResponse(years, year => (year === '2012' ? '...' : Number(year))) };
+            });
+        });
+
+        it('should return every year since 2010 with nulls for missing years', async () => {
+            const history = await getPostalCodePriceHistory('00100');
+
+            expect(history).not.toBeNull();
+            expect(history!.years[0]).toBe(2010);
+            expect(history!.years[history!.years.length - 1]).toBe(lastYear);
+            expect(history!.municipality).toBe('N/A');
+            const series = history!.prices['Kerrostalo'];
+            expect(series).toHaveLength(history!.years.length);
+            expect(series[0]).toBe(2010);
+            expect(series[2]).toBeNull();
+            expect(series[series.length - 1]).toBe(lastYear);
+        });
+
+        it('should reuse the cached yearly data', async () => {
+            await getPostalCodePriceHistory('00100');
+            const callCount = mockedAxios.post.mock.calls.length;
+            await getPostalCodePriceHistory('00100');
+            expect(mockedAxios.post).toHaveBeenCalledTimes(callCount);
+        });
+
+        it('should return null for a postal code without data', async () => {
+            await expect(getPostalCodePriceHistory('99999')).resolves.toBeNull();
+        });
+    });
+
+    describe('calculatePriceTrends', () => {
+        const priceFor = (price: number): PostalCodeData[] => [
+            { postalCode: '00100', district: 'A', municipality: 'Hki', fullLabel: '00100 A (Hki)', prices: { 'Kerrostalo yksiöt': price } }
+        ];
+
+        it('should label each trend with the requested period', () => {
+            const trends = calculatePriceTrends([priceFor(3000), priceFor(3300), priceFor(3600)], 2020, 2022);
+
+            expect(trends).toHaveLength(1);
+            expect(trends[0]).toMatchObject({ postalCode: '00100', startYear: 2020, endYear: 2022 });
+            expect(trends[0].trends['Kerrostalo yksiöt']).toMatchObject({ startPrice: 3000, endPrice: 3600, percentChange: 20 });
+        });
+
+        it('should fit the direction over every year instead of only the endpoints', () => {
+            // Steady decline with a spike in the last year: endpoints say up, regression says down
+            const trends = calculatePriceTrends(
+                [priceFor(4000), priceFor(3800), priceFor(3600), priceFor(3400), priceFor(4100)], 2018, 2022);
+            const trend = trends[0].trends['Kerrostalo yksiöt']!;
+
+            expect(trend.percentChange).toBeCloseTo(2.5);
+            expect(trend.direction).toBe('down');
+            expect(trend.slope).toBeCloseTo(-20);
+            expect(trend.rSquared).toBeGreaterThan(0);
+            expect(trend.rSquared).toBeLessThan(0.5);
+            expect(trend.yearsWithData).toBe(5);
+        });
+
+        it('should calculate CAGR, a perfect fit and volatility for steady growth', () => {
+            const trends = calculatePriceTrends([priceFor(1000), priceFor(1100), priceFor(1210)], 2020, 2022);
+            const trend = trends[0].trends['Kerrostalo yksiöt']!;
+
+            expect(trend.cagr).toBeCloseTo(10);
+            expect(trend.rSquared).toBeCloseTo(0.998, 2);
+            expect(trend.volatility).toBeCloseTo(0);
+            expect(trend.direction).toBe('up');
+        });
+
+        it('should use the first and last years with data and skip gaps', () => {
+            const trends = calculatePriceTrends([[], priceFor(2000), [], priceFor(2400)], 2019, 2022);
+            const trend = trends[0].trends['Kerrostalo yksiöt']!;
+
+            expect(trend).toMatchObject({ startPrice: 2000, endPrice: 2400, yearsWithData: 2, rSquared: 1 });
+            expect(trend.averageYearlyChange).toBeCloseTo(200);
+            expect(trend.cagr).toBeCloseTo((Math.sqrt(1.2) - 1) * 100);
+            expect(trend.volatility).toBeNull();
+        });
+
+        it('should skip postal codes with fewer than two years of data', () => {
+            expect(calculatePriceTrends([priceFor(3000), []], 2021, 2022)).toEqual([]);
+        });
     });
-}); 
+});
@@ -0,0 +1,96 @@
+/// <reference types="jest" />
+import {
+    clearTransitAccessibilityCache,
+    getPostcodeTransitAccessibility,
+    refreshPostcodeTransitAccessibility
+} from '../../services/transitAccessibilityService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import * as hsyWmsService from '../../services/hsyWmsService';
+import { PostcodeSummary } from '../../types/geojson.types';
+
+jest.mock('../../services/hsyWfsService');
+jest.mock('../../services/hsyWmsService');
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedHsyWmsService = hsyWmsService as jest.Mocked<typeof hsyWmsService>;
+
+const summary = (postalCode: string, interiorPoint: number[] | null): PostcodeSummary => ({
+    postalCode,
+    name: null,
+    areaKm2: 1,
+    interiorPoint,
+    bbox: null,
+    neighbours: []
+});
+
+describe('transitAccessibilityService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearTransitAccessibilityCache();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should query the interior point of every postcode area in EPSG:3879', async () => {
+        mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue([
+            summary('00100', [25496800, 6673050]),
+            summary('00120', null),
+            summary('00130', [25497000, 6672800])
+        ]);
+        mockedHsyWmsService.getWalkingDistances.mockResolvedValue([
+            { x: 25496800, y: 6673050, walkingDistance: '5min', accessibility: 'high' },
+            { x: 25497000, y: 6672800, walkingDistance: null, accessibility: 'none' }
+        ]);
+
+        const dataset = await getPostcodeTransitAccessibility();
+
+        expect(mockedHsyWfsService.getPostcodeSummaries).toHaveBeenCalledWith('EPSG:3879');
+        expect(mockedHsyWmsService.getWalkingDistances).toHaveBeenCalledWith([{ x: 25496800, y: 6673050 }, { x: 25497000, y: 6672800 }]);
+        expect(dataset).toEqual([
+            { postalCode: '00100', point: [25496800, 6673050], walkingDistance: '5min', accessibility: 'high' },
+            { postalCode: '00120', point: null, walkingDistance: null, accessibility: 'none' },
+            { postalCode: '00130', point: [25497000, 6672800], walkingDistance: null, accessibility: 'none' }
+        ]);
+    });
+
+    it('should serve the cached dataset until it is refreshed', async () => {
+        mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue([summary('00100', [25496800, 6673050])]);
+        mockedHsyWmsService.getWalkingDistances.mockResolvedValueOnce([
+            { x: 25496800, y: 6673050, walkingDistance: '10min', accessibility: 'medium' }
+        ]);
+        const first = await getPostcodeTransitAccessibility();
+        const second = await getPostcodeTransitAccessibility();
+
+        mockedHsyWmsService.getWalkingDistances.mockResolvedValueOnce([
+            { x: 25496800, y: 6673050, walkingDistance: '5min', accessibility: 'high' }
+        ]);
+        await refreshPostcodeTransitAccessibility();
+        const refreshed = await getPostcodeTransitAccessibility();
+
+        expect(second).toBe(first);
+        expect(mockedHsyWmsService.getWalkingDistances).toHaveBeenCalledTimes(2);
+        expect(refreshed[0].accessibility).toBe('high');
+    });
+
+    it('should keep the cached dataset if a refresh fails', async () => {
+        mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue([summary('00100', [25496800, 6673050])]);
+        mockedHsyWmsService.getWalkingDistances.mockResolvedValueOnce([
+            { x: 25496800, y: 6673050, walkingDistance: '10min', accessibility: 'medium' }
+        ]);
+        const before = await getPostcodeTransitAccessibility();
+
+        mockedHsyWmsService.getWalkingDistances.mockRejectedValueOnce(new Error('Walking distance query failed'));
+
+        await expect(refreshPostcodeTransitAccessibility()).rejects.toThrow('Walking distance query failed');
+        expect(await getPostcodeTransitAccessibility()).toBe(before);
+    });
+
+    it('should reject when the postcode boundaries are not available', async () => {
+        mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(null);
+
+        await expect(getPostcodeTransitAccessibility()).rejects.toThrow('Postcode boundaries are not available.');
+        expect(mockedHsyWmsService.getWalkingDistances).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,214 @@
+/// <reference types="jest" />
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+    DEFAULT_TRAVEL_TIME_DESTINATION,
+    clearTravelTimeCache,
+    getNextWeekday,
+    getTravelTimeDestination,
+    getTravelTimes,
+    refreshTravelTimes
+} from '../../services/travelTimeService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import { PostcodeSummary } from '../../types/geojson.types';
+
+jest.mock('../../services/hsyWfsService');
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+
+const API_KEY = 'test-subscription-key';
+
+// Itinerary durations in seconds by origin latitude, as recorded from the planner
+const recordedDurations = new Map<number, number[]>([
+    [60.1688, [540, 600, 660, 1500, 570]], // Kamppi: median 10 min
+    [60.2219, [1320, 1500]],               // Pasila, only two itineraries: mean of both, 24 min
+    [60.1520, []]                          // Suomenlinna: no itineraries found
+]);
+
+// Local stand-in for the Digitransit GraphQL endpoint, answering plan queries from the recorded durations
+interface PlanRequest {
+    query: string;
+    variables: { from: { lat: number; lon: number }; to: { lat: number; lon: number }; date: string; time: string; numItineraries: number };
+}
+const receivedRequests: PlanRequest[] = [];
+let failPlans = false;
+let failingOrigin: number | null = null; // Latitude of an origin whose plan query fails
+const standIn = express();
+standIn.use(express.json());
+standIn.post('/graphql', (req, res) => {
+    if (req.header('digitransit-subscription-key') !== API_KEY) {
+        res.status(401).json({ statusCode: 401, message: 'Access denied due to missing subscription key.' });
+        return;
+    }
+    const request = req.body as PlanRequest;
+    receivedRequests.push(request);
+    if (failPlans || request.variables.from.lat === failingOrigin) {
+        res.json({ errors: [{ message: 'Service unavailable' }] });
+        return;
+    }
+    const durations = recordedDurations.get(request.variables.from.lat) ?? [];
+    const start = Date.parse(`${request.variables.date}T${request.variables.time}+03:00`);
+    res.json({
+        data: {
+            plan: {
+                itineraries: durations.map((duration, i) => ({
+                    startTime: start + i * 300000,
+                    endTime: start + i * 300000 + duration * 1000,
+                    duration
+                }))
+            }
+        }
+    });
+});
+
+const summary = (postalCode: string, interiorPoint: [number, number] | null): PostcodeSummary => ({
+    postalCode, name: postalCode, areaKm2: 1, interiorPoint, bbox: null, neighbours: []
+});
+const summaries: PostcodeSummary[] = [
+    summary('00100', [24.9316, 60.1688]),
+    summary('00520', [24.9336, 60.2219]),
+    summary('00190', [24.9881, 60.1520]),
+    summary('00000', null)
+];
+
+describe('travelTimeService', () => {
+    let server: Server;
+    const originalEnv = { ...process.env };
+
+    beforeAll(done => {
+        server = standIn.listen(0, '127.0.0.1', done);
+    });
+
+    afterAll(done => {
+        process.env = originalEnv;
+        server.close(done);
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearTravelTimeCache();
+        receivedRequests.length = 0;
+        failPlans = false;
+        failingOrigin = null;
+        process.env.DIGITRANSIT_API_KEY = API_KEY;
+        process.env.DIGITRANSIT_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+        delete process.env.TRAVEL_TIME_DESTINATION;
+        delete process.env.TRAVEL_TIME_DESTINATION_NAME;
+        mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(summaries);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getTravelTimes', () => {
+        it('should plan a weekday morning trip from every postcode area to the central station', async () => {
+            const dataset = await getTravelTimes();
+
+            expect(mockedHsyWfsService.getPostcodeSummaries).toHaveBeenCalledWith('EPSG:4326');
+            expect(receivedRequests).toHaveLength(3); // The area without an interior point is not planned
+            const { variables, query } = receivedRequests[0];
+            expect(query).toContain('plan(');
+            expect(variables).toEqual({
+                from: { lat: 60.1688, lon: 24.9316 },
+                to: { lat: 60.17116, lon: 24.94143 },
+                date: getNextWeekday(),
+                time: '08:00:00',
+                numItineraries: 5
+            });
+            expect(dataset).toEqual({
+                destination: DEFAULT_TRAVEL_TIME_DESTINATION,
+                departure: `${getNextWeekday()}T08:00`,
+                travelTimes: [
+                    { postalCode: '00100', minutes: 10, itineraryCount: 5 },
+                    { postalCode: '00520', minutes: 24, itineraryCount: 2 },
+                    { postalCode: '00190', minutes: null, itineraryCount: 0 },
+                    { postalCode: '00000', minutes: null, itineraryCount: 0 }
+                ]
+            });
+        });
+
+        it('should cache the dataset per destination', async () => {
+            await getTravelTimes();
+            await getTravelTimes();
+            expect(receivedRequests).toHaveLength(3);
+
+            const dataset = await getTravelTimes({ name: 'Aalto University', lat: 60.1847, lon: 24.8262 });
+
+            expect(receivedRequests).toHaveLength(6);
+            expect(receivedRequests[5].variables.to).toEqual({ lat: 60.1847, lon: 24.8262 });
+            expect(dataset.destination.name).toBe('Aalto University');
+        });
+
+        it('should record no travel time for an area whose planner query fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            jest.spyOn(console, 'warn').mockImplementation(() => { });
+            failingOrigin = 60.2219;
+
+            const dataset = await getTravelTimes();
+
+            expect(receivedRequests).toHaveLength(3);
+            expect(dataset.travelTimes).toEqual([
+                { postalCode: '00100', minutes: 10, itineraryCount: 5 },
+                { postalCode: '00520', minutes: null, itineraryCount: 0 },
+                { postalCode: '00190', minutes: null, itineraryCount: 0 },
+                { postalCode: '00000', minutes: null, itineraryCount: 0 }
+            ]);
+        });
+
+        it('should reject if every planner query fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            failPlans = true;
+
+            await expect(getTravelTimes()).rejects.toThrow('Digitransit GraphQL errors: Service unavailable');
+        });
+
+        it('should reject if the postcode boundaries are not available', async () => {
+            mockedHsyWfsService.getPostcodeSummaries.mockResolvedValue(null);
+
+            await expect(getTravelTimes()).rejects.toThrow('Postcode boundaries are not available.');
+        });
+    });
+
+    describe('refreshTravelTimes', () => {
+        it('should keep the cached dataset if the rebuild fails', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => { });
+            const dataset = await getTravelTimes();
+            failPlans = true;
+
+            await expect(refreshTravelTimes()).rejects.toThrow('Service unavailable');
+            expect(await getTravelTimes()).toEqual(dataset);
+        });
+    });
+
+    describe('getTravelTimeDestination', () => {
+        it('should default to Helsinki Central Station', () => {
+            expect(getTravelTimeDestination()).toEqual(DEFAULT_TRAVEL_TIME_DESTINATION);
+        });
+
+        it('should read the destination from the environment', () => {
+            process.env.TRAVEL_TIME_DESTINATION = '60.1847, 24.8262';
+            process.env.TRAVEL_TIME_DESTINATION_NAME = 'Aalto University';
+
+            expect(getTravelTimeDestination()).toEqual({ name: 'Aalto University', lat: 60.1847, lon: 24.8262 });
+        });
+
+        it('should fall back to the default for an invalid destination', () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => { });
+            process.env.TRAVEL_TIME_DESTINATION = 'Kamppi';
+
+            expect(getTravelTimeDestination()).toEqual(DEFAULT_TRAVEL_TIME_DESTINATION);
+        });
+    });
+
+    describe('getNextWeekday', () => {
+        it.each([
+            ['2026-10-19T10:00:00Z', '2026-10-20'], // Monday to Tuesday
+            ['2026-10-23T10:00:00Z', '2026-10-26'], // Friday to Monday
+            ['2026-10-24T10:00:00Z', '2026-10-26'], // Saturday to Monday
+            ['2026-10-22T22:30:00Z', '2026-10-26']  // Already Friday in Helsinki
+        ])('should return the weekday after %s', (now, expected) => {
+            expect(getNextWeekday(new Date(now))).toBe(expected);
+        });
+    });
+});
@@ -0,0 +1,180 @@
+/// <reference types="jest" />
+import { VectorTile } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import { FeatureCollection } from 'geojson';
+import { clearVectorTileCache, getVectorTile } from '../../services/vectorTileService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import * as overpassService from '../../services/overpassService';
+import * as statFiService from '../../services/statFiService';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+import { getRegisteredCache } from '../../utils/cache';
+import { PostalCodeData } from '../../types/statfi.types';
+
+jest.mock('../../services/hsyWfsService');
+jest.mock('../../services/overpassService');
+// Keep the real trend calculation, mock only the StatFin fetch
+jest.mock('../../services/statFiService', () => ({
+    ...jest.requireActual<typeof statFiService>('../../services/statFiService'),
+    fetchStatFiPropertyDataRange: jest.fn()
+}));
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+const mockedOverpassService = overpassService as jest.Mocked<typeof overpassService>;
+const mockedStatFiService = statFiService as jest.Mocked<typeof statFiService>;
+
+// A small square in central Helsinki, inside tile 10/582/296
+const square = [[[24.94, 60.17], [24.95, 60.17], [24.95, 60.175], [24.94, 60.175], [24.94, 60.17]]];
+const TILE = { z: 10, x: 582, y: 296 };
+
+const boundaries = (): GeoJSONFeatureCollection => ({
+    type: 'FeatureCollection',
+    features: [{
+        type: 'Feature',
+        id: 'pks_postinumeroalueet_2022.1',
+        geometry: { type: 'Polygon', coordinates: square },
+        properties: { posno: '00100', nimi: 'Helsinki keskusta - Etu-Töölö', postalCode: '00100' }
+    }]
+});
+
+const postalCodeData = (price: number): PostalCodeData => ({
+    postalCode: '00100',
+    district: 'Helsinki Keskusta',
+    municipality: 'Helsinki',
+    fullLabel: '00100 Helsinki Keskusta (Helsinki)',
+    prices: { 'Kerrostalo yksiöt': price, 'Rivitalot yhteensä': 'N/A' },
+    transactions: { 'Kerrostalo yksiöt': 20, 'Rivitalot yhteensä': 'N/A' }
+});
+
+const yearlyData = (): PostalCodeData[][] => [8000, 8200, 8400, 8600, 8800].map(price => [postalCodeData(price)]);
+
+const decode = (tile: Buffer | null, layer: string) => {
+    expect(tile).not.toBeNull();
+    return new VectorTile(new Protobuf(tile as Buffer)).layers[layer];
+};
+
+describe('vectorTileService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearVectorTileCache();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('postcode tiles', () => {
+        it('should carry the prices of the year and the trend over the five years up to it', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(yearlyData());
+
+            const layer = decode(await getVectorTile('postcodes', TILE, 2023), 'postcodes');
+
+            expect(mockedStatFiService.fetchStatFiPropertyDataRange).toHaveBeenCalledWith(2019, 2023);
+            expect(layer.length).toBe(1);
+            expect(layer.feature(0).id).toBe(100);
+            expect(layer.feature(0).properties).toEqual({
+                postalCode: '00100',
+                district: 'Helsinki Keskusta',
+                municipality: 'Helsinki',
+                'price:Kerrostalo yksiöt': 8800,
+                'trend:Kerrostalo yksiöt': 10
+            });
+        });
+
+        it('should cache tiles per layer variant and tile coordinates', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(yearlyData());
+
+            const first = await getVectorTile('postcodes', TILE, 2023);
+            const second = await getVectorTile('postcodes', TILE, 2023);
+            const otherYear = await getVectorTile('postcodes', TILE, 2022);
+
+            expect(second).toBe(first);
+            expect(otherYear).not.toBe(first);
+        });
+
+        it('should cut new tiles once the cached source data is replaced', async () => {
+            const source = boundaries();
+            const data = yearlyData();
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(source);
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(data);
+            const before = await getVectorTile('postcodes', TILE, 2023);
+
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue([...data.slice(0, 4), [postalCodeData(9680)]]);
+            const layer = decode(await getVectorTile('postcodes', TILE, 2023), 'postcodes');
+
+            expect(decode(before, 'postcodes').feature(0).properties['price:Kerrostalo yksiöt']).toBe(8800);
+            expect(layer.feature(0).properties['price:Kerrostalo yksiöt']).toBe(9680);
+        });
+
+        it('should return null for tiles without postal code areas', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(yearlyData());
+
+            expect(await getVectorTile('postcodes', { z: 10, x: 0, y: 0 }, 2023)).toBeNull();
+        });
+
+        it('should cache non-empty tiles without a fetcher and leave empty tiles out', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(yearlyData());
+
+            await getVectorTile('postcodes', TILE, 2023);
+            await getVectorTile('postcodes', { z: 10, x: 0, y: 0 }, 2023);
+
+            expect(getRegisteredCache('Vector Tiles')?.getStats().entries).toEqual([
+                expect.objectContaining({ key: 'postcodes:2023/10/582/296', refreshable: false })
+            ]);
+        });
+
+        it('should keep only the most recently used tile indexes', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockImplementation(async () => yearlyData());
+
+            for (let year = 2015; year <= 2023; year++) {
+                await getVectorTile('postcodes', TILE, year);
+            }
+
+            const indexes = getRegisteredCache('Vector Tile Indexes');
+            expect(indexes?.size()).toBe(6);
+            expect(indexes?.keys()).not.toContain('postcodes:2015');
+        });
+
+        it('should cut tiles below the index zoom on demand', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries());
+            mockedStatFiService.fetchStatFiPropertyDataRange.mockResolvedValue(yearlyData());
+
+            // Tile 16/37309/18968 lies inside the square
+            const layer = decode(await getVectorTile('postcodes', { z: 16, x: 37309, y: 18968 }, 2023), 'postcodes');
+
+            expect(layer.feature(0).properties.postalCode).toBe('00100');
+        });
+
+        it('should reject when the postcode boundaries cannot be fetched', async () => {
+            mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(null);
+
+            await expect(getVectorTile('postcodes', TILE, 2023)).rejects.toThrow('Postcode boundaries are not available.');
+        });
+    });
+
+    describe('green-space tiles', () => {
+        it('should keep the OSM id, name and type tags of each green space', async () => {
+            const greenSpaces: FeatureCollection = {
+                type: 'FeatureCollection',
+                features: [{
+                    type: 'Feature',
+                    id: 'way/4253301',
+                    geometry: { type: 'Polygon', coordinates: square },
+                    properties: { id: 'way/4253301', leisure: 'park', name: 'Esplanadin puisto', wikidata: 'Q1148436' }
+                }]
+            };
+            mockedOverpassService.fetchGreenSpaces.mockResolvedValue(greenSpaces);
+
+            const layer = decode(await getVectorTile('green-spaces', TILE, 2023), 'green-spaces');
+
+            expect(layer.length).toBe(1);
+            expect(layer.feature(0).id).toBeUndefined();
+            expect(layer.feature(0).properties).toEqual({ osmId: 'way/4253301', name: 'Esplanadin puisto', leisure: 'park' });
+            expect(mockedHsyWfsService.getPostcodeBoundaries).not.toHaveBeenCalled();
+        });
+    });
+});
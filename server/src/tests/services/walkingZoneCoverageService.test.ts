@@ -0,0 +1,89 @@
+/// <reference types="jest" />
+import {
+    clearWalkingZoneCoverageCache,
+    getWalkingZoneCoverage,
+    refreshWalkingZoneCoverage
+} from '../../services/walkingZoneCoverageService';
+import * as hsyWfsService from '../../services/hsyWfsService';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+
+// Mock the WFS fetches, keep the real walking zone layer list
+jest.mock('../../services/hsyWfsService');
+const mockedHsyWfsService = hsyWfsService as jest.Mocked<typeof hsyWfsService>;
+
+const square = (x: number, y: number, size: number): number[][] =>
+    [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+const collection = (features: Array<{ coordinates: number[][][]; properties?: Record<string, unknown> }>): GeoJSONFeatureCollection => ({
+    type: 'FeatureCollection',
+    features: features.map(({ coordinates, properties = {} }) => ({
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates },
+        properties
+    }))
+});
+
+// Two 1 km postcode squares side by side in EPSG:3879
+const X = 25496000;
+const Y = 6672000;
+const boundaries = collection([
+    { coordinates: [square(X, Y, 1000)], properties: { posno: '00100', postalCode: '00100' } },
+    { coordinates: [square(X + 1000, Y, 1000)], properties: { posno: '00120', postalCode: '00120' } }
+]);
+
+// The 5 minute zone covers the western quarter of 00100, the 10 minute zone its western half
+// (overlapping the 5 minute zone) and the 15 minute zone a strip along the shared edge
+const zones: Record<string, GeoJSONFeatureCollection> = {
+    '5min': collection([{ coordinates: [[[X, Y], [X + 250, Y], [X + 250, Y + 1000], [X, Y + 1000], [X, Y]]] }]),
+    '10min': collection([{ coordinates: [[[X, Y], [X + 500, Y], [X + 500, Y + 1000], [X, Y + 1000], [X, Y]]] }]),
+    '15min': collection([{ coordinates: [[[X + 900, Y], [X + 1100, Y], [X + 1100, Y + 1000], [X + 900, Y + 1000], [X + 900, Y]]] }])
+};
+
+describe('walkingZoneCoverageService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        clearWalkingZoneCoverageCache();
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(boundaries);
+        mockedHsyWfsService.getWalkingZones.mockImplementation(zone => Promise.resolve(zones[zone]));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should report the cumulative share of each postcode area within each walking zone', async () => {
+        const coverage = await getWalkingZoneCoverage();
+
+        expect(mockedHsyWfsService.getPostcodeBoundaries).toHaveBeenCalledWith({ crs: 'EPSG:3879' });
+        expect(coverage).toEqual([
+            { postalCode: '00100', areaKm2: 1, coverage: { '5min': 25, '10min': 50, '15min': 60 } },
+            { postalCode: '00120', areaKm2: 1, coverage: { '5min': 0, '10min': 0, '15min': 10 } }
+        ]);
+    });
+
+    it('should refresh the zone polygons before rebuilding the dataset', async () => {
+        mockedHsyWfsService.refreshWalkingZones.mockResolvedValue();
+        const before = await getWalkingZoneCoverage();
+
+        const refreshed = await refreshWalkingZoneCoverage();
+
+        expect(mockedHsyWfsService.refreshWalkingZones).toHaveBeenCalledTimes(1);
+        expect(refreshed).not.toBe(before);
+        expect(await getWalkingZoneCoverage()).toBe(refreshed);
+    });
+
+    it('should keep the cached dataset if the zones cannot be refreshed', async () => {
+        const before = await getWalkingZoneCoverage();
+        mockedHsyWfsService.refreshWalkingZones.mockRejectedValue(new Error('Failed to refresh walking zones: 15min'));
+
+        await expect(refreshWalkingZoneCoverage()).rejects.toThrow('Failed to refresh walking zones: 15min');
+        expect(await getWalkingZoneCoverage()).toBe(before);
+    });
+
+    it('should reject when the postcode boundaries are not available', async () => {
+        mockedHsyWfsService.getPostcodeBoundaries.mockResolvedValue(null);
+
+        await expect(getWalkingZoneCoverage()).rejects.toThrow('Postcode boundaries are not available.');
+    });
+});
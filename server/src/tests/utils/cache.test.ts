@@ -0,0 +1,240 @@
+import { SimpleCache } from '../../utils/cache';
+
+const TTL = 60_000;
+
+describe('SimpleCache', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1_700_000_000_000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getOrFetch', () => {
+        it('should fetch on a miss and serve the cached value afterwards', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            const fetcher = jest.fn().mockResolvedValue('fresh');
+
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('fresh');
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('fresh');
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        it('should share one in-flight request between concurrent misses', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            let resolveFetch: (value: string) => void = () => { };
+            const fetcher = jest.fn(() => new Promise<string>(resolve => { resolveFetch = resolve; }));
+
+            const requests = Array.from({ length: 10 }, () => cache.getOrFetch('key', fetcher));
+            resolveFetch('shared');
+
+            await expect(Promise.all(requests)).resolves.toEqual(new Array(10).fill('shared'));
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        it('should serve the stale value while refreshing in the background', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            cache.set('key', 'old');
+            now += TTL + 1;
+
+            const fetcher = jest.fn().mockResolvedValue('new');
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('old');
+            expect(fetcher).toHaveBeenCalledTimes(1);
+
+            // Let the background refresh settle
+            await Promise.resolve();
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('new');
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep the last good value when a background refresh fails', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            cache.set('key', 'last-good');
+            now += TTL + 1;
+
+            const fetcher = jest.fn().mockRejectedValue(new Error('Upstream down'));
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('last-good');
+            await new Promise(resolve => setImmediate(resolve));
+
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('last-good');
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('keeping last good value'), 'Upstream down');
+        });
+
+        it('should reject and cache nothing when a miss cannot be fetched', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            const fetcher = jest.fn()
+                .mockRejectedValueOnce(new Error('Upstream down'))
+                .mockResolvedValueOnce('recovered');
+
+            await expect(cache.getOrFetch('key', fetcher)).rejects.toThrow('Upstream down');
+            expect(cache.size()).toBe(0);
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('recovered');
+        });
+    });
+
+    describe('refresh', () => {
+        it('should not store a refresh that completes after the cache is cleared', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            let resolveFetch: (value: string) => void = () => { };
+            const fetcher = jest.fn(() => new Promise<string>(resolve => { resolveFetch = resolve; }));
+
+            const pending = cache.refresh('key', fetcher);
+            cache.clear();
+            resolveFetch('before-clear');
+
+            await expect(pending).resolves.toBe('before-clear');
+            expect(cache.has('key')).toBe(false);
+            await expect(cache.refresh('key')).rejects.toThrow('No fetcher known for key "key"');
+        });
+
+        it('should not store a refresh that completes after its key is deleted, nor block the next fetch', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            const resolvers: ((value: string) => void)[] = [];
+            const fetcher = jest.fn(() => new Promise<string>(resolve => { resolvers.push(resolve); }));
+
+            const first = cache.refresh('key', fetcher);
+            cache.delete('key');
+            const second = cache.refresh('key', fetcher);
+            resolvers[1]('after-delete');
+            resolvers[0]('before-delete');
+
+            await expect(Promise.all([first, second])).resolves.toEqual(['before-delete', 'after-delete']);
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            expect(cache.get('key')).toBe('after-delete');
+        });
+
+        it('should not store a batch that completes after the cache is cleared', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            let resolveBatch: (values: Map<string, string>) => void = () => { };
+            const batch = cache.refreshMany(['a', 'b'], () => new Promise(resolve => { resolveBatch = resolve; }));
+
+            cache.clear();
+            resolveBatch(new Map([['a', 'A'], ['b', 'B']]));
+
+            await expect(batch).resolves.toEqual(new Map([['a', 'A'], ['b', 'B']]));
+            expect(cache.size()).toBe(0);
+        });
+    });
+
+    describe('refreshMany', () => {
+        it('should fetch several keys with one call and store each of them', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            const fetchMany = jest.fn(async (keys: string[]) => new Map(keys.map(key => [key, `value-${key}`])));
+
+            const values = await cache.refreshMany(['a', 'b'], fetchMany);
+
+            expect(fetchMany).toHaveBeenCalledTimes(1);
+            expect(fetchMany).toHaveBeenCalledWith(['a', 'b']);
+            expect(values).toEqual(new Map([['a', 'value-a'], ['b', 'value-b']]));
+            expect(cache.get('a')).toBe('value-a');
+            expect(cache.isFresh('b')).toBe(true);
+        });
+
+        it('should join in-flight requests and let single-key fetches join the batch', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            let resolveSingle: (value: string) => void = () => { };
+            const single = jest.fn(() => new Promise<string>(resolve => { resolveSingle = resolve; }));
+            const pendingA = cache.getOrFetch('a', single);
+
+            const fetchMany = jest.fn(async (keys: string[]) => new Map(keys.map(key => [key, `batch-${key}`])));
+            const batch = cache.refreshMany(['a', 'b'], fetchMany);
+            const joinedB = cache.refresh('b', jest.fn().mockResolvedValue('single-b'));
+            resolveSingle('single-a');
+
+            await expect(batch).resolves.toEqual(new Map([['a', 'single-a'], ['b', 'batch-b']]));
+            await expect(pendingA).resolves.toBe('single-a');
+            await expect(joinedB).resolves.toBe('batch-b');
+            expect(fetchMany).toHaveBeenCalledWith(['b']);
+        });
+
+        it('should reject keys missing from the batch result without caching them', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+
+            await expect(cache.refreshMany(['a', 'b'], async () => new Map([['a', 'A']])))
+                .rejects.toThrow('Batch fetch returned no value for key "b"');
+            expect(cache.has('a')).toBe(true);
+            expect(cache.has('b')).toBe(false);
+        });
+    });
+
+    describe('get', () => {
+        it('should return undefined for expired entries without dropping them', () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            cache.set('key', 'value');
+            now += TTL + 1;
+
+            expect(cache.get('key')).toBeUndefined();
+            expect(cache.size()).toBe(1);
+        });
+    });
+
+    describe('keys', () => {
+        it('should list fresh and expired entries', () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+            cache.set('old', 'value');
+            now += TTL + 1;
+            cache.set('new', 'value');
+
+            expect(cache.keys()).toEqual(['old', 'new']);
+        });
+    });
+
+    describe('eviction', () => {
+        it('should evict the least recently used entries beyond the maximum count', () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL, undefined, { maxEntries: 2 });
+            cache.set('a', 'A');
+            cache.set('b', 'B');
+            cache.get('a');
+            cache.set('c', 'C');
+
+            expect(cache.keys()).toEqual(['a', 'c']);
+        });
+
+        it('should evict entries past the maximum stale age and fetch them again', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL, undefined, { maxStaleMs: TTL });
+            await cache.getOrFetch('key', jest.fn().mockResolvedValue('old'));
+            now += 2 * TTL + 1;
+
+            const fetcher = jest.fn().mockResolvedValue('new');
+            await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('new');
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        it('should drop expired entries past the maximum stale age when another key is set', () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL, undefined, { maxStaleMs: TTL });
+            cache.set('old', 'value');
+            now += 2 * TTL + 1;
+            cache.set('new', 'value');
+
+            expect(cache.keys()).toEqual(['new']);
+        });
+
+        it('should forget the fetchers of evicted, deleted and cleared keys', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL, undefined, { maxEntries: 1 });
+            await cache.getOrFetch('a', jest.fn().mockResolvedValue('A'));
+            await cache.getOrFetch('b', jest.fn().mockResolvedValue('B'));
+            await expect(cache.refresh('a')).rejects.toThrow('No fetcher known for key "a"');
+
+            cache.delete('b');
+            await expect(cache.refresh('b')).rejects.toThrow('No fetcher known for key "b"');
+
+            await cache.getOrFetch('c', jest.fn().mockResolvedValue('C'));
+            cache.clear();
+            await expect(cache.refreshAll()).resolves.toEqual({ refreshed: [], failed: [] });
+        });
+
+        it('should not remember the fetcher of a key that could not be fetched', async () => {
+            const cache = new SimpleCache<string>('Test Cache', TTL);
+
+            await expect(cache.getOrFetch('key', jest.fn().mockRejectedValue(new Error('Upstream down')))).rejects.toThrow();
+            expect(cache.getStats().entries).toEqual([]);
+            await expect(cache.refresh('key')).rejects.toThrow('No fetcher known for key "key"');
+        });
+    });
+});
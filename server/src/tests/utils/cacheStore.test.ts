@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileCacheStore, MemoryCacheStore, createCacheStore, resolveCacheStoreType } from '../../utils/cacheStore';
+import { SimpleCache } from '../../utils/cache';
+
+describe('cacheStore', () => {
+    let tempDir: string;
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ecoestate-cache-'));
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        process.env = { ...originalEnv };
+        jest.restoreAllMocks();
+    });
+
+    describe('FileCacheStore', () => {
+        it('should persist entries with their timestamps across instances', () => {
+            const store = new FileCacheStore<{ price: number }>(tempDir);
+            store.set('2023', { value: { price: 4200 }, timestamp: 1700000000000 });
+
+            const restored = new FileCacheStore<{ price: number }>(tempDir);
+            expect(restored.size()).toBe(1);
+            expect(restored.keys()).toEqual(['2023']);
+            expect(restored.get('2023')).toEqual({ value: { price: 4200 }, timestamp: 1700000000000 });
+        });
+
+        it('should remove persisted entries on delete and clear', () => {
+            const store = new FileCacheStore<string>(tempDir);
+            store.set('a', { value: 'A', timestamp: 1 });
+            store.set('b', { value: 'B', timestamp: 2 });
+
+            expect(store.delete('a')).toBe(true);
+            expect(new FileCacheStore<string>(tempDir).keys()).toEqual(['b']);
+
+            store.clear();
+            expect(store.size()).toBe(0);
+            expect(new FileCacheStore<string>(tempDir).size()).toBe(0);
+        });
+
+        it('should discard unreadable entry files on load', () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { });
+            fs.writeFileSync(path.join(tempDir, 'broken.json'), '{ not json');
+
+            const store = new FileCacheStore<string>(tempDir);
+
+            expect(store.size()).toBe(0);
+            expect(fs.existsSync(path.join(tempDir, 'broken.json'))).toBe(false);
+            expect(consoleWarnSpy).toHaveBeenCalled();
+        });
+
+        it('should let SimpleCache serve persisted entries after a restart', () => {
+            const cache = new SimpleCache<string>('Test Cache', 60_000, new FileCacheStore<string>(tempDir));
+            cache.set('key', 'value');
+
+            const restartedCache = new SimpleCache<string>('Test Cache', 60_000, new FileCacheStore<string>(tempDir));
+            expect(restartedCache.get('key')).toBe('value');
+        });
+    });
+
+    describe('createCacheStore', () => {
+        it('should default to the memory store', () => {
+            delete process.env.CACHE_STORE;
+            expect(resolveCacheStoreType('STATFI')).toBe('memory');
+            expect(createCacheStore('STATFI')).toBeInstanceOf(MemoryCacheStore);
+        });
+
+        it('should prefer the per-cache setting over the global one', () => {
+            process.env.CACHE_STORE = 'memory';
+            process.env.CACHE_STORE_STATFI = 'file';
+            process.env.CACHE_DIR = tempDir;
+
+            expect(createCacheStore('STATFI')).toBeInstanceOf(FileCacheStore);
+            expect(createCacheStore('OVERPASS')).toBeInstanceOf(MemoryCacheStore);
+            expect(fs.existsSync(path.join(tempDir, 'statfi'))).toBe(true);
+        });
+
+        it('should fall back to memory for unknown store types', () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { });
+            process.env.CACHE_STORE = 'redis';
+
+            expect(resolveCacheStoreType('HSY_WFS')).toBe('memory');
+            expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown cache store "redis"'));
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import { mapWithConcurrency } from '../../utils/concurrency';
+
+// Resolves after the given number of milliseconds
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+    it('should keep the order of the items', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+            await delay(ms);
+            return `${index}:${ms}`;
+        });
+
+        expect(results).toEqual(['0:30', '1:10', '2:20']);
+    });
+
+    it('should run at most the given number of calls at a time', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(1);
+            running--;
+        });
+
+        expect(maxRunning).toBe(3);
+    });
+
+    it('should reject with the first error and start no further calls', async () => {
+        const mapper = jest.fn(async (item: number) => {
+            await delay(1);
+            if (item === 1) throw new Error('Failed item 1');
+            return item;
+        });
+
+        await expect(mapWithConcurrency([0, 1, 2, 3, 4], 1, mapper)).rejects.toThrow('Failed item 1');
+        expect(mapper).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve to an empty array for no items', async () => {
+        expect(await mapWithConcurrency([], 4, () => Promise.resolve(1))).toEqual([]);
+    });
+});
@@ -0,0 +1,116 @@
+import {
+    getBoundingBox,
+    getCoveredArea,
+    getDistanceToGeometry,
+    getGeometryArea,
+    getGeometryBoundingBox,
+    getInteriorPoint,
+    isInsidePolygon
+} from '../../utils/geometry';
+
+const square = (x: number, y: number, size: number): number[][] =>
+    [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+// A U shape opening upwards, whose centroid falls in the gap between its arms
+const uShape = [[0, 0], [300, 0], [300, 300], [200, 300], [200, 100], [100, 100], [100, 300], [0, 300], [0, 0]];
+
+describe('geometry', () => {
+    describe('isInsidePolygon', () => {
+        it('should test the outer ring and the holes of a polygon', () => {
+            const polygon = [square(0, 0, 100), square(40, 40, 20)];
+
+            expect(isInsidePolygon([10, 10], polygon)).toBe(true);
+            expect(isInsidePolygon([50, 50], polygon)).toBe(false);
+            expect(isInsidePolygon([150, 50], polygon)).toBe(false);
+            expect(isInsidePolygon([10, 10], [])).toBe(false);
+        });
+    });
+
+    describe('getGeometryArea', () => {
+        it('should sum the polygons and leave out the holes, whatever the winding order', () => {
+            const clockwise = [...square(1000, 0, 100)].reverse();
+
+            expect(getGeometryArea({ type: 'Polygon', coordinates: [square(0, 0, 100), square(40, 40, 20)] })).toBe(9600);
+            expect(getGeometryArea({ type: 'MultiPolygon', coordinates: [[square(0, 0, 100)], [clockwise]] })).toBe(20000);
+            expect(getGeometryArea({ type: 'Point', coordinates: [0, 0] })).toBe(0);
+            expect(getGeometryArea(null)).toBe(0);
+        });
+    });
+
+    describe('getCoveredArea', () => {
+        it('should measure the part of a geometry inside the covering polygons, counting overlaps once', () => {
+            const geometry = { type: 'Polygon', coordinates: [square(0, 0, 100)] };
+
+            expect(getCoveredArea(geometry, [[square(50, 0, 100)]])).toBeCloseTo(5000, 6);
+            expect(getCoveredArea(geometry, [[square(50, 0, 100)], [square(60, 0, 100)]])).toBeCloseTo(5000, 6);
+            expect(getCoveredArea(geometry, [[square(-50, -50, 75)], [square(50, 0, 100)]])).toBeCloseTo(5625, 6);
+        });
+
+        it('should leave out the holes of the geometry and of the covers', () => {
+            const geometry = { type: 'Polygon', coordinates: [square(0, 0, 100), square(0, 0, 50)] };
+
+            expect(getCoveredArea(geometry, [[square(0, 0, 100), square(50, 50, 50)]])).toBeCloseTo(5000, 6);
+        });
+
+        it('should keep its precision at EPSG:3879 coordinates', () => {
+            const geometry = { type: 'Polygon', coordinates: [square(25496750, 6673000, 100)] };
+
+            expect(getCoveredArea(geometry, [[square(25496750.5, 6673000, 100)]])).toBeCloseTo(9950, 3);
+        });
+
+        it('should return 0 without covers or polygons', () => {
+            expect(getCoveredArea({ type: 'Polygon', coordinates: [square(0, 0, 100)] }, [])).toBe(0);
+            expect(getCoveredArea(null, [[square(0, 0, 100)]])).toBe(0);
+        });
+    });
+
+    describe('getDistanceToGeometry', () => {
+        it('should return the distance to the nearest edge, or 0 inside a polygon', () => {
+            const geometry = { type: 'MultiPolygon', coordinates: [[square(0, 0, 100), square(25, 25, 50)], [square(300, 0, 100)]] };
+
+            expect(getDistanceToGeometry([50, 10], geometry)).toBe(0);
+            expect(getDistanceToGeometry([-30, -40], geometry)).toBe(50);
+            expect(getDistanceToGeometry([200, 50], geometry)).toBe(100);
+            // Inside the hole, the nearest edge is the hole's
+            expect(getDistanceToGeometry([50, 40], geometry)).toBe(15);
+        });
+
+        it('should return Infinity for geometries without polygons', () => {
+            expect(getDistanceToGeometry([0, 0], { type: 'Point', coordinates: [0, 0] })).toBe(Infinity);
+        });
+    });
+
+    describe('getBoundingBox', () => {
+        it('should return the extent of the positions', () => {
+            expect(getBoundingBox([[3, 1], [-2, 5], [0, 0]])).toEqual([-2, 0, 3, 5]);
+            expect(getBoundingBox([])).toBeNull();
+        });
+
+        it('should cover every polygon of a geometry', () => {
+            const geometry = { type: 'MultiPolygon', coordinates: [[square(0, 0, 100)], [square(500, -50, 10)]] };
+
+            expect(getGeometryBoundingBox(geometry)).toEqual([0, -50, 510, 100]);
+        });
+    });
+
+    describe('getInteriorPoint', () => {
+        it('should return the centroid of convex polygons', () => {
+            expect(getInteriorPoint({ type: 'Polygon', coordinates: [square(0, 0, 100)] })).toEqual([50, 50]);
+        });
+
+        it('should return a point inside polygons whose centroid is outside them', () => {
+            const point = getInteriorPoint({ type: 'Polygon', coordinates: [uShape] });
+
+            expect(point).not.toBeNull();
+            expect(isInsidePolygon(point as number[], [uShape])).toBe(true);
+        });
+
+        it('should avoid holes and use the largest polygon', () => {
+            const donut = [square(0, 0, 100), square(10, 10, 80)];
+            const point = getInteriorPoint({ type: 'MultiPolygon', coordinates: [[square(1000, 0, 10)], donut] });
+
+            expect(isInsidePolygon(point as number[], donut)).toBe(true);
+            expect(getInteriorPoint({ type: 'LineString', coordinates: [[0, 0], [1, 1]] })).toBeNull();
+        });
+    });
+});
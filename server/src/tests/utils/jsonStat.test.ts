@@ -0,0 +1,137 @@
+import { JsonStatDataset, getDimensionStrides } from '../../utils/jsonStat';
+import { JsonStatResponse } from '../../types/statfi.types';
+import annualFixture from '../fixtures/statfi/ashi_13mu_2022-2023.json';
+import quarterlyFixture from '../fixtures/statfi/ashi_112l_2023Q2.json';
+
+const annualData: JsonStatResponse = annualFixture;
+const quarterlyData: JsonStatResponse = quarterlyFixture;
+
+// Rewrites a dataset with its dimensions in another order, moving every value to its new position
+function reorderDimensions(data: JsonStatResponse, order: string[]): JsonStatResponse {
+    const dataset = new JsonStatDataset(data);
+    const size = order.map(id => data.size[data.id.indexOf(id)]);
+    const strides = getDimensionStrides({ id: order, size });
+    const value: (number | string | null)[] = new Array(size.reduce((a, b) => a * b, 1)).fill(null);
+    const status: Record<string, string> = {};
+
+    dataset.records().forEach(record => {
+        const position = order.reduce((sum, id) => sum + dataset.categories(id).indexOf(record.categories[id]) * strides[id], 0);
+        value[position] = record.value;
+        if (record.status) status[position] = record.status;
+    });
+    return { ...data, id: order, size, value, status };
+}
+
+describe('jsonStat', () => {
+    describe('getDimensionStrides', () => {
+        it('should make the last dimension vary fastest', () => {
+            const data = { id: ['Vuosi', 'Postinumero', 'Talotyyppi', 'Tiedot'], size: [1, 3, 4, 2] };
+            expect(getDimensionStrides(data)).toEqual({ Vuosi: 24, Postinumero: 8, Talotyyppi: 2, Tiedot: 1 });
+        });
+    });
+
+    describe('JsonStatDataset', () => {
+        it('should list categories in index order with their labels', () => {
+            const dataset = new JsonStatDataset(annualData);
+
+            expect(dataset.categories('Postinumero')).toEqual(['00100', '00920']);
+            expect(dataset.label('Postinumero', '00920')).toBe('00920 Myllypuro (Helsinki)');
+            expect(dataset.hasDimension('Alue')).toBe(false);
+            expect(dataset.hasCategory('Tiedot', 'lkm_julk20')).toBe(true);
+        });
+
+        it('should read values by category code across every dimension', () => {
+            const dataset = new JsonStatDataset(annualData);
+
+            expect(dataset.get({ Vuosi: '2022', Postinumero: '00100', Talotyyppi: '2', Tiedot: 'keskihinta_aritm_nw' })).toBe(8105);
+            expect(dataset.get({ Vuosi: '2023', Postinumero: '00920', Talotyyppi: '1', Tiedot: 'lkm_julk20' })).toBe(12);
+        });
+
+        it('should return null with the status code for values StatFin does not publish', () => {
+            const dataset = new JsonStatDataset(annualData);
+            const coordinates = { Vuosi: '2022', Postinumero: '00920', Talotyyppi: '1', Tiedot: 'keskihinta_aritm_nw' };
+
+            expect(dataset.get(coordinates)).toBeNull();
+            expect(dataset.getStatus(coordinates)).toBe('...');
+            expect(dataset.getStatus({ ...coordinates, Tiedot: 'lkm_julk20' })).toBeUndefined();
+        });
+
+        it('should treat markers written in place of the value as status codes', () => {
+            const dataset = new JsonStatDataset(quarterlyData);
+            const coordinates = { Alue: '049', Talotyyppi: '2', Tiedot: 'keskihinta_aritm_nw' };
+
+            expect(dataset.get(coordinates)).toBeNull();
+            expect(dataset.getStatus(coordinates)).toBe('...');
+        });
+
+        it('should not require coordinates for dimensions with a single category', () => {
+            const dataset = new JsonStatDataset(quarterlyData);
+
+            expect(dataset.get({ Alue: '091', Talotyyppi: '1', Tiedot: 'keskihinta_aritm_nw' })).toBe(6120);
+        });
+
+        it('should read the same values whatever the order of the dimensions', () => {
+            const original = new JsonStatDataset(annualData);
+            const reordered = new JsonStatDataset(reorderDimensions(annualData, ['Tiedot', 'Postinumero', 'Talotyyppi', 'Vuosi']));
+
+            original.records().forEach(record => {
+                expect(reordered.get(record.categories)).toBe(record.value);
+                expect(reordered.getStatus(record.categories)).toBe(record.status);
+            });
+        });
+
+        it('should list every value as a record', () => {
+            const records = new JsonStatDataset(quarterlyData).records();
+
+            expect(records).toHaveLength(8);
+            expect(records[0]).toEqual({
+                categories: { 'Vuosineljännes': '2023Q2', Alue: '091', Talotyyppi: '1', Tiedot: 'keskihinta_aritm_nw' },
+                value: 6120
+            });
+            expect(records[6]).toEqual({
+                categories: { 'Vuosineljännes': '2023Q2', Alue: '049', Talotyyppi: '2', Tiedot: 'keskihinta_aritm_nw' },
+                value: null,
+                status: '...'
+            });
+        });
+
+        it('should support array indexes and sparse value objects', () => {
+            const dataset = new JsonStatDataset({
+                id: ['Alue', 'Tiedot'],
+                size: [3, 1],
+                dimension: {
+                    Alue: { label: 'Alue', category: { index: ['091', '049', '092'] } },
+                    Tiedot: { label: 'Tiedot', category: { index: { lkm: 0 }, label: { lkm: 'Lukumäärä' } } }
+                },
+                value: { '0': 10, '2': '7' },
+                status: ['', '..', '']
+            });
+
+            expect(dataset.get({ Alue: '091' })).toBe(10);
+            expect(dataset.get({ Alue: '049' })).toBeNull();
+            expect(dataset.getStatus({ Alue: '049' })).toBe('..');
+            expect(dataset.get({ Alue: '092' })).toBe(7);
+            expect(dataset.label('Alue', '092')).toBe('092');
+        });
+
+        it('should reject coordinates that do not address a single value', () => {
+            const dataset = new JsonStatDataset(annualData);
+
+            expect(() => dataset.get({ Postinumero: '00100', Talotyyppi: '1', Tiedot: 'lkm_julk20' }))
+                .toThrow('A category of dimension "Vuosi" is required');
+            expect(() => dataset.get({ Vuosi: '2021', Postinumero: '00100', Talotyyppi: '1', Tiedot: 'lkm_julk20' }))
+                .toThrow('JSON-stat dimension "Vuosi" has no category "2021".');
+            expect(() => dataset.get({ Vuosi: '2022', Postinumero: '00100', Talotyyppi: '1', Tiedot: 'lkm_julk20', Alue: '091' }))
+                .toThrow('JSON-stat dataset has no dimension "Alue".');
+        });
+
+        it('should reject malformed datasets', () => {
+            expect(() => new JsonStatDataset({ ...annualData, size: [2, 2, 2] }))
+                .toThrow('4 dimension ids but 3 sizes');
+            expect(() => new JsonStatDataset({ ...annualData, size: [2, 3, 2, 2] }))
+                .toThrow('dimension "Postinumero" has 2 categories but size 3');
+            expect(() => new JsonStatDataset({ ...annualData, value: [1, 2, 3] }))
+                .toThrow('expected 16 values but got 3');
+        });
+    });
+});
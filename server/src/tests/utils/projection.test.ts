@@ -0,0 +1,106 @@
+import {
+    HELSINKI_CRS,
+    WGS84_CRS,
+    isSupportedCrs,
+    reprojectFeatureCollection,
+    reprojectGeometry,
+    reprojectPoint
+} from '../../utils/projection';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+
+// A square around Helsinki central railway station in EPSG:3879
+const ring = [[25496750, 6673000], [25496850, 6673000], [25496850, 6673100], [25496750, 6673000]];
+
+describe('projection', () => {
+    describe('reprojectGeometry', () => {
+        it('should transform EPSG:3879 positions to WGS84 longitude and latitude', () => {
+            const geometry = reprojectGeometry({ type: 'Point', coordinates: [25496750, 6673000] }, HELSINKI_CRS, WGS84_CRS);
+            const [lon, lat] = geometry.coordinates as number[];
+
+            expect(lon).toBeCloseTo(24.94146, 5);
+            expect(lat).toBeCloseTo(60.16987, 5);
+        });
+
+        it('should transform the central meridian without an easting offset', () => {
+            const geometry = reprojectGeometry({ type: 'Point', coordinates: [25500000, 6680000] }, HELSINKI_CRS, WGS84_CRS);
+
+            expect((geometry.coordinates as number[])[0]).toBeCloseTo(25, 9);
+        });
+
+        it('should transform every position of nested coordinate arrays and keep extra dimensions', () => {
+            const geometry = reprojectGeometry({
+                type: 'MultiPolygon',
+                coordinates: [[ring], [ring.map(([x, y]) => [x, y, 12])]]
+            }, HELSINKI_CRS, WGS84_CRS);
+            const polygons = geometry.coordinates as number[][][][];
+
+            expect(polygons).toHaveLength(2);
+            expect(polygons[0][0]).toHaveLength(4);
+            expect(polygons[0][0][0][1]).toBeCloseTo(60.16987, 5);
+            expect(polygons[1][0][0][2]).toBe(12);
+        });
+
+        it('should round-trip between the coordinate systems', () => {
+            const there = reprojectGeometry({ type: 'Point', coordinates: [25496750, 6673000] }, HELSINKI_CRS, WGS84_CRS);
+            const back = reprojectGeometry(there, WGS84_CRS, HELSINKI_CRS);
+            const [x, y] = back.coordinates as number[];
+
+            expect(x).toBeCloseTo(25496750, 3);
+            expect(y).toBeCloseTo(6673000, 3);
+        });
+    });
+
+    describe('reprojectFeatureCollection', () => {
+        const collection: GeoJSONFeatureCollection = {
+            type: 'FeatureCollection',
+            bbox: [25496750, 6673000, 25496850, 6673100],
+            crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3879' } },
+            features: [
+                { type: 'Feature', geometry: { type: 'Polygon', coordinates: [ring] }, properties: { posno: '00100' } },
+                { type: 'Feature', geometry: null, properties: null }
+            ]
+        };
+
+        it('should transform every feature without modifying the collection', () => {
+            const reprojected = reprojectFeatureCollection(collection, HELSINKI_CRS, WGS84_CRS);
+
+            expect((reprojected.features[0].geometry?.coordinates as number[][][])[0][0][0]).toBeCloseTo(24.94146, 5);
+            expect(reprojected.features[0].properties).toEqual({ posno: '00100' });
+            expect(reprojected.features[1].geometry).toBeNull();
+            expect((collection.features[0].geometry?.coordinates as number[][][])[0][0]).toEqual([25496750, 6673000]);
+        });
+
+        it('should drop the source crs and bbox members', () => {
+            const reprojected = reprojectFeatureCollection(collection, HELSINKI_CRS, WGS84_CRS);
+
+            expect(reprojected.crs).toBeUndefined();
+            expect(reprojected.bbox).toBeUndefined();
+            expect(collection.crs).toBeDefined();
+        });
+
+        it('should return a copy when the coordinate systems are the same', () => {
+            const copy = reprojectFeatureCollection(collection, HELSINKI_CRS, HELSINKI_CRS);
+
+            expect(copy).toEqual(collection);
+            expect(copy).not.toBe(collection);
+        });
+    });
+
+    describe('reprojectPoint', () => {
+        it('should transform WGS84 longitude and latitude to EPSG:3879', () => {
+            const [x, y] = reprojectPoint(24.94146, 60.16987, WGS84_CRS, HELSINKI_CRS);
+
+            expect(x).toBeCloseTo(25496750, 0);
+            expect(y).toBeCloseTo(6673000, 0);
+            expect(reprojectPoint(1, 2, WGS84_CRS, WGS84_CRS)).toEqual([1, 2]);
+        });
+    });
+
+    describe('isSupportedCrs', () => {
+        it('should accept WGS84 and the Helsinki CRS only', () => {
+            expect(isSupportedCrs('EPSG:4326')).toBe(true);
+            expect(isSupportedCrs('EPSG:3879')).toBe(true);
+            expect(isSupportedCrs('EPSG:3067')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { findNeighbours, simplifyFeatureCollection, toTopoJSON, toleranceForZoom, zoomForTolerance } from '../../utils/simplification';
+import { GeoJSONFeatureCollection } from '../../types/geojson.types';
+
+// A square with a vertex 1 m off its southern edge, plus a feature without geometry
+const collection: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        {
+            type: 'Feature',
+            id: 'pks_postinumeroalueet_2022.1',
+            geometry: {
+                type: 'Polygon',
+                coordinates: [[[0, 0], [50, -1], [100, 0], [100, 100], [0, 100], [0, 0]]]
+            },
+            properties: { posno: '00100' }
+        },
+        { type: 'Feature', geometry: null, properties: { posno: '00200' } }
+    ]
+};
+
+describe('simplification', () => {
+    describe('toleranceForZoom', () => {
+        it('should return the size of a map pixel in the Helsinki region', () => {
+            expect(toleranceForZoom(0)).toBeCloseTo(78271.5, 1);
+            expect(toleranceForZoom(11)).toBeCloseTo(38.22, 2);
+            expect(toleranceForZoom(12)).toBeCloseTo(toleranceForZoom(11) / 2, 9);
+        });
+    });
+
+    describe('zoomForTolerance', () => {
+        it('should return the zoom level with the closest tolerance, from 0 to 22', () => {
+            expect(zoomForTolerance(toleranceForZoom(11))).toBe(11);
+            expect(zoomForTolerance(25)).toBe(12);
+            expect(zoomForTolerance(30)).toBe(11);
+            expect(zoomForTolerance(1e6)).toBe(0);
+            expect(zoomForTolerance(0.001)).toBe(22);
+        });
+    });
+
+    describe('simplifyFeatureCollection', () => {
+        it('should remove vertices below the tolerance and keep ids, properties and empty geometries', () => {
+            const simplified = simplifyFeatureCollection(collection, 10);
+
+            expect(simplified.features[0].geometry?.coordinates).toEqual([[[0, 0], [100, 0], [100, 100], [0, 100], [0, 0]]]);
+            expect(simplified.features[0].id).toBe('pks_postinumeroalueet_2022.1');
+            expect(simplified.features[0].properties).toEqual({ posno: '00100' });
+            expect(simplified.features[1].geometry).toBeNull();
+            expect((collection.features[0].geometry?.coordinates as number[][][])[0]).toHaveLength(6);
+        });
+    });
+
+    describe('findNeighbours', () => {
+        it('should find the features sharing a boundary segment, not just a corner', () => {
+            const square = (x: number, y: number): number[][][] => [[[x, y], [x + 100, y], [x + 100, y + 100], [x, y + 100], [x, y]]];
+            const squares: GeoJSONFeatureCollection = {
+                type: 'FeatureCollection',
+                features: [[0, 0], [100, 0], [200, 100]].map(([x, y]) => ({
+                    type: 'Feature' as const,
+                    geometry: { type: 'Polygon', coordinates: square(x, y) },
+                    properties: null
+                }))
+            };
+
+            expect(findNeighbours(squares)).toEqual([[1], [0], []]);
+        });
+
+        it('should give features without polygons no neighbours', () => {
+            expect(findNeighbours(collection)).toEqual([[], []]);
+        });
+    });
+
+    describe('toTopoJSON', () => {
+        it('should store the features as a quantized topology object', () => {
+            const topology = toTopoJSON(collection, 'postcodes');
+
+            expect(topology.type).toBe('Topology');
+            expect(topology.transform).toBeDefined();
+            expect(Object.keys(topology.objects)).toEqual(['postcodes']);
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { PolygonIndex } from '../../utils/spatialIndex';
+import { GeoJSONFeature, GeoJSONFeatureCollection } from '../../types/geojson.types';
+
+const square = (x: number, y: number, size: number): number[][] =>
+    [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+// A 10 x 10 grid of 100 m squares, the square at (0, 0) with a hole in the middle
+const grid: GeoJSONFeature[] = [];
+for (let row = 0; row < 10; row++) {
+    for (let column = 0; column < 10; column++) {
+        const outer = square(column * 100, row * 100, 100);
+        grid.push({
+            type: 'Feature',
+            geometry: { type: 'Polygon', coordinates: row + column === 0 ? [outer, square(40, 40, 20)] : [outer] },
+            properties: { postalCode: `00${row}${column}0` }
+        });
+    }
+}
+
+describe('spatialIndex', () => {
+    describe('PolygonIndex', () => {
+        const collection: GeoJSONFeatureCollection = {
+            type: 'FeatureCollection',
+            features: [
+                ...grid,
+                {
+                    type: 'Feature',
+                    geometry: { type: 'MultiPolygon', coordinates: [[square(2000, 0, 50)], [square(3000, 0, 50)]] },
+                    properties: { postalCode: '99990' }
+                },
+                { type: 'Feature', geometry: { type: 'Point', coordinates: [5000, 5000] }, properties: { postalCode: '99999' } },
+                { type: 'Feature', geometry: null, properties: null }
+            ]
+        };
+        const index = new PolygonIndex(collection);
+
+        it('should find the feature containing a point', () => {
+            expect(index.findContaining(350, 720)?.properties?.postalCode).toBe('00730');
+            expect(index.findContaining(999, 1)?.properties?.postalCode).toBe('00090');
+        });
+
+        it('should find every part of a multipolygon', () => {
+            expect(index.findContaining(2010, 10)?.properties?.postalCode).toBe('99990');
+            expect(index.findContaining(3040, 40)?.properties?.postalCode).toBe('99990');
+        });
+
+        it('should return undefined for points outside every polygon or inside a hole', () => {
+            expect(index.findContaining(2500, 10)).toBeUndefined();
+            expect(index.findContaining(5000, 5000)).toBeUndefined();
+            expect(index.findContaining(50, 50)).toBeUndefined();
+        });
+
+        it('should find the polygons whose bounding box intersects a box', () => {
+            const polygons = index.findPolygonsInBox([150, 150, 250, 160]);
+
+            expect(polygons).toHaveLength(2);
+            expect(polygons).toContainEqual([square(100, 100, 100)]);
+            expect(index.findPolygonsInBox([2500, 0, 2600, 100])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,31 @@
+import { parsePeriodKey, parsePostalCodeLabel, toPeriodKey } from '../../utils/statFiUtils';
+
+describe('statFiUtils', () => {
+    describe('parsePostalCodeLabel', () => {
+        it('should split the district and municipality', () => {
+            expect(parsePostalCodeLabel('00100 Helsinki Keskusta (Helsinki)')).toEqual({ district: 'Helsinki Keskusta', municipality: 'Helsinki' });
+        });
+
+        it('should return N/A for labels it cannot parse', () => {
+            expect(parsePostalCodeLabel('00100')).toEqual({ district: 'N/A', municipality: 'N/A' });
+        });
+    });
+
+    describe('period keys', () => {
+        it('should parse yearly and quarterly keys', () => {
+            expect(parsePeriodKey('2023')).toEqual({ granularity: 'year', year: 2023 });
+            expect(parsePeriodKey('2023Q2')).toEqual({ granularity: 'quarter', year: 2023, quarter: 2 });
+        });
+
+        it('should reject malformed keys', () => {
+            expect(parsePeriodKey('2023Q5')).toBeNull();
+            expect(parsePeriodKey('23Q1')).toBeNull();
+            expect(parsePeriodKey('2023-Q1')).toBeNull();
+        });
+
+        it('should build keys that parse back', () => {
+            expect(toPeriodKey(2023)).toBe('2023');
+            expect(toPeriodKey(2023, 4)).toBe('2023Q4');
+        });
+    });
+});
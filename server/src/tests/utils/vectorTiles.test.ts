@@ -0,0 +1,77 @@
+import { VectorTile } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import { FeatureCollection } from 'geojson';
+import { MAX_TILE_ZOOM, TILE_INDEX_MAX_ZOOM, createTileIndex, encodeDeepTile, encodeTile, isValidTile } from '../../utils/vectorTiles';
+
+// A small square in central Helsinki, inside tile 10/582/296
+const collection: FeatureCollection = {
+    type: 'FeatureCollection',
+    features: [{
+        type: 'Feature',
+        id: 100,
+        geometry: { type: 'Polygon', coordinates: [[[24.94, 60.17], [24.95, 60.17], [24.95, 60.175], [24.94, 60.175], [24.94, 60.17]]] },
+        properties: { postalCode: '00100', 'price:Kerrostalo yksiöt': 8105 }
+    }]
+};
+
+describe('vectorTiles', () => {
+    describe('isValidTile', () => {
+        it('should accept tiles inside the zoom level grid', () => {
+            expect(isValidTile({ z: 0, x: 0, y: 0 })).toBe(true);
+            expect(isValidTile({ z: 10, x: 1023, y: 1023 })).toBe(true);
+        });
+
+        it('should reject tiles outside the grid or the supported zoom levels', () => {
+            expect(isValidTile({ z: 10, x: 1024, y: 0 })).toBe(false);
+            expect(isValidTile({ z: 1, x: -1, y: 0 })).toBe(false);
+            expect(isValidTile({ z: 1.5, x: 0, y: 0 })).toBe(false);
+            expect(isValidTile({ z: MAX_TILE_ZOOM + 1, x: 0, y: 0 })).toBe(false);
+        });
+    });
+
+    describe('encodeTile', () => {
+        const index = createTileIndex(collection);
+
+        it('should encode the features of a tile as a named layer', () => {
+            const encoded = encodeTile(index, 'postcodes', { z: 10, x: 582, y: 296 });
+            const tile = new VectorTile(new Protobuf(encoded as Buffer));
+            const layer = tile.layers.postcodes;
+
+            expect(layer.length).toBe(1);
+            expect(layer.extent).toBe(4096);
+            const feature = layer.feature(0);
+            expect(feature.id).toBe(100);
+            expect(feature.type).toBe(3); // Polygon
+            expect(feature.properties).toEqual({ postalCode: '00100', 'price:Kerrostalo yksiöt': 8105 });
+            const [lon, lat] = (feature.toGeoJSON(582, 296, 10).geometry as GeoJSON.Polygon).coordinates[0][0];
+            expect(lon).toBeCloseTo(24.94, 3);
+            expect(lat).toBeCloseTo(60.17, 3);
+        });
+
+        it('should return null for tiles without features', () => {
+            expect(encodeTile(index, 'postcodes', { z: 10, x: 0, y: 0 })).toBeNull();
+        });
+    });
+
+    describe('encodeDeepTile', () => {
+        // Tile 16/37309/18968 lies inside the square
+        const DEEP_TILE = { z: 16, x: 37309, y: 18968 };
+
+        it('should leave tiles below the index zoom to encodeDeepTile', () => {
+            expect(encodeTile(createTileIndex(collection), 'postcodes', DEEP_TILE)).toBeNull();
+            expect(DEEP_TILE.z).toBeGreaterThan(TILE_INDEX_MAX_ZOOM);
+        });
+
+        it('should cut a deep tile from the features touching it', () => {
+            const encoded = encodeDeepTile(collection, 'postcodes', DEEP_TILE);
+            const layer = new VectorTile(new Protobuf(encoded as Buffer)).layers.postcodes;
+
+            expect(layer.length).toBe(1);
+            expect(layer.feature(0).properties.postalCode).toBe('00100');
+        });
+
+        it('should return null for deep tiles no feature touches', () => {
+            expect(encodeDeepTile(collection, 'postcodes', { z: 16, x: 0, y: 0 })).toBeNull();
+        });
+    });
+});
@@ -1,7 +1,9 @@
 // Types for Digitransit GraphQL API responses
 
 export interface DigitransitRoute {
+    gtfsId?: string;
     shortName?: string;
+    mode?: string; // Transport mode, e.g. 'BUS', 'TRAM', 'RAIL', 'SUBWAY', 'FERRY'
 }
 
 export interface DigitransitPattern {
@@ -15,10 +17,44 @@ export interface DigitransitStop {
     code?: string;
     lat: number;
     lon: number;
+    vehicleMode?: string;
     patterns?: DigitransitPattern[];
 }
 
 // Structure based on the simplified query result
 export interface DigitransitStopsQueryResult {
     stops: DigitransitStop[];
-} 
+}
+
+export interface DigitransitErrorDetail {
+    message: string;
+}
+
+// Body of a GraphQL response: data, errors, or both for partial results
+export interface DigitransitGraphQLResponse<T> {
+    data?: T | null;
+    errors?: DigitransitErrorDetail[];
+}
+
+// Properties of a stop in the transit stops GeoJSON served to the client
+export interface TransitStopProperties {
+    gtfsId: string;
+    name: string;
+    code: string | null;
+    modes: string[];  // Distinct transport modes of the routes serving the stop
+    routes: string[]; // Distinct route short names, e.g. ['55', '7']
+    routeIds: string[]; // Distinct route GTFS ids; short names are not unique across modes
+}
+
+// Itinerary of a `plan` query; times in epoch milliseconds, duration in seconds
+export interface DigitransitItinerary {
+    startTime: number;
+    endTime: number;
+    duration: number;
+}
+
+export interface DigitransitPlanQueryResult {
+    plan: {
+        itineraries: DigitransitItinerary[];
+    } | null;
+}
@@ -1,3 +1,7 @@
+import type { BoundingBox, Position } from '../utils/geometry';
+import type { SupportedCrs } from '../utils/projection';
+import type { PostalCodeData, PriceTrend } from './statfi.types';
+
 // Define basic GeoJSON types (can be expanded or imported from a library like '@types/geojson')
 
 export interface GeoJSONGeometry {
@@ -19,5 +23,37 @@ export interface GeoJSONFeature {
 export interface GeoJSONFeatureCollection {
     type: 'FeatureCollection';
     features: GeoJSONFeature[];
-    // We might need bbox and crs fields depending on the API response
-} 
+    bbox?: number[];
+    crs?: unknown; // Named CRS member added by GeoServer for coordinates other than WGS84
+}
+
+export type PostcodeBoundaryFormat = 'geojson' | 'topojson';
+
+export interface PostcodeBoundaryOptions {
+    crs?: SupportedCrs;              // Coordinate system of the returned geometries (default WGS84)
+    tolerance?: number;              // Simplification tolerance in metres; unsimplified when left out
+    format?: PostcodeBoundaryFormat; // 'topojson' encodes shared boundaries once (default 'geojson')
+}
+
+// Layers served as Mapbox Vector Tiles, see vectorTileService
+export type TileLayer = 'postcodes' | 'green-spaces';
+
+// The postcode area containing a point, joined with its latest prices and price trend
+export interface PostcodeLookup {
+    postalCode: string;
+    properties: GeoJSONProperties;   // Properties of the boundary feature from HSY
+    prices: PostalCodeData | null;   // Prices of `year`; null if StatFin publishes none for the postcode
+    trend: PriceTrend | null;        // Trend from `startYear` to `year`
+    year: number;
+    startYear: number;
+}
+
+// Summary geometry attributes of a postcode area, also added to the properties of each boundary feature
+export interface PostcodeSummary {
+    postalCode: string;
+    name: string | null;             // Finnish name of the area (HSY's `nimi`)
+    areaKm2: number;                 // Land and water area of the unsimplified boundary
+    interiorPoint: Position | null;  // A point inside the area for placing labels, in the requested CRS
+    bbox: BoundingBox | null;        // [minX, minY, maxX, maxY] in the requested CRS
+    neighbours: string[];            // Postal codes of the areas sharing a boundary with this one
+}
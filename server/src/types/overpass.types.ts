@@ -63,3 +63,16 @@ export interface OverpassResponse {
     elements: OverpassElement[];
     remark?: string; // Sometimes contains error messages
 }
+
+// A named set of OpenStreetMap tags fetched from Overpass as one dataset, see OVERPASS_CATEGORIES
+export interface OverpassCategory {
+    label: string;
+    tags: string[]; // 'key=value' pairs; elements with any of them belong to the category
+}
+
+// A cell of the grid bounding box queries are split into; column and row count tenths of a degree
+// of longitude and latitude, so tile (249, 601) spans 24.9-25.0°E, 60.1-60.2°N
+export interface OverpassTile {
+    column: number;
+    row: number;
+}
@@ -2,8 +2,8 @@
 
 // --- Raw JSON-stat Response Structure ---
 export interface Category {
-    index: { [key: string]: number };
-    label: { [key: string]: string };
+    index: { [key: string]: number } | string[]; // JSON-stat 2.0 allows an array of codes in index order
+    label?: { [key: string]: string };
 }
 
 export interface Dimension {
@@ -11,11 +11,21 @@ export interface Dimension {
     category: Category;
 }
 
+// A single status code for every value, one per value, or a sparse object keyed by value position
+export type JsonStatStatus = string | (string | null)[] | { [position: string]: string };
+
 export interface JsonStatResponse {
+    version?: string;
+    class?: string;
+    label?: string;
+    source?: string;
+    updated?: string;
     id: string[];
     size: number[];
     dimension: { [key: string]: Dimension };
-    value: (number | string)[];
+    // Dense array in row-major order, or a sparse object keyed by value position
+    value: (number | string | null)[] | { [position: string]: number | string | null };
+    status?: JsonStatStatus;
 }
 
 // --- Processed Data Structures ---
@@ -29,6 +39,16 @@ export interface PostalCodeData {
     municipality: string;
     fullLabel: string; // e.g., "00100 Helsinki Keskusta (Helsinki)"
     prices: BuildingPrices;
+    transactions?: BuildingPrices; // Number of sales behind each price; absent in data cached before it was fetched
+    priceIndex?: PriceIndex;       // Only in price responses, see addPriceIndexes and addQuarterlyPriceIndexes
+}
+
+// Prices of a larger area (e.g. a municipality), used where StatFin publishes no postal code level data
+export interface AreaPriceData {
+    areaCode: string;
+    areaName: string;
+    prices: BuildingPrices;
+    transactions?: BuildingPrices;
 }
 
 // Type for the calculated trend data
@@ -37,25 +57,26 @@ export interface PriceTrendData {
     district: string;
     municipality: string;
     fullLabel: string;
+    startYear: number;
+    endYear: number;
     trends: {
-        [buildingType: string]: {
-            percentChange: number;
-            direction: 'up' | 'down' | 'stable';
-            startPrice: number | null;
-            endPrice: number | null;
-            averageYearlyChange: number;
-        } | null; // Allow null if trend couldn't be calculated
+        [buildingType: string]: PriceTrendValue | null; // Allow null if trend couldn't be calculated
     };
 }
 
 // --- Added Price Trend Types --- 
 
 export interface PriceTrendValue {
-    percentChange: number;
-    direction: 'up' | 'down' | 'stable';
+    percentChange: number;              // From the first to the last year with data
+    direction: 'up' | 'down' | 'stable'; // Based on the linear regression
     startPrice: number | null;
     endPrice: number | null;
-    averageYearlyChange: number;
+    averageYearlyChange: number;        // €/m² per year between the first and last year with data
+    cagr: number;                       // Compound annual growth rate, %
+    slope: number;                      // Least-squares slope, €/m² per year
+    rSquared: number;                   // Goodness of fit of the slope (0-1)
+    volatility: number | null;          // Std. deviation of year-over-year changes, percentage points
+    yearsWithData: number;
 }
 
 export interface PriceTrend {
@@ -63,11 +84,86 @@ export interface PriceTrend {
     district: string;
     municipality: string;
     fullLabel: string;
+    startYear: number; // First year of the trend period
+    endYear: number;   // Last year of the trend period
+    trends: {
+        [buildingType: string]: PriceTrendValue | null;
+    };
+    priceIndex?: PriceIndex | null; // End year's price index, only in trend responses (see addTrendPriceIndexes)
+}
+
+// Price time series of a single postal code
+export interface PriceHistory {
+    postalCode: string;
+    district: string;
+    municipality: string;
+    fullLabel: string;
+    years: number[];
+    prices: {
+        // Aligned with years; null where no price was published
+        [buildingType: string]: (number | null)[];
+    };
+}
+
+// --- Rental Prices ---
+
+export interface RoomCountRents {
+    [roomCount: string]: number | string; // Value can be number or 'N/A'
+}
+
+export interface RentalPostalCodeData {
+    postalCode: string;
+    district: string;
+    municipality: string;
+    fullLabel: string;
+    rents: RoomCountRents;    // Average monthly rent, €/m²
+    rentals: RoomCountRents;  // Number of rental agreements behind each rent
+}
+
+export interface RentalYieldValue {
+    buildingType: string; // Sale price building type the rent was joined with
+    monthlyRent: number;  // €/m²
+    salePrice: number;    // €/m²
+    grossYield: number;   // Annual rent as a percentage of the sale price
+}
+
+export interface RentalYield {
+    postalCode: string;
+    district: string;
+    municipality: string;
+    fullLabel: string;
+    yields: {
+        [roomCount: string]: RentalYieldValue | null; // Null if either the rent or the sale price is missing
+    };
+}
+
+// --- Area Aggregates ---
+
+// 'weighted': mean weighted by the number of sales; 'median': median of the postal code prices
+export type AggregationMethod = 'weighted' | 'median';
+
+export interface AreaAggregate {
+    area: string;                      // Municipality name, or CAPITAL_REGION_NAME
+    level: 'municipality' | 'region';
+    postalCodeCount: number;           // Postal codes with prices in the aggregated year
+    prices: BuildingPrices;            // 'N/A' where no postal code of the area has a price
+    transactions: BuildingPrices;      // Total sales behind the prices
     trends: {
         [buildingType: string]: PriceTrendValue | null;
     };
 }
 
+export interface AreaAggregates {
+    municipalities: AreaAggregate[];
+    region: AreaAggregate;
+}
+
+// Postal code prices as a percentage of the area's transaction-weighted average (100 = on par)
+export interface PriceIndex {
+    municipality: { [buildingType: string]: number | null };
+    region: { [buildingType: string]: number | null };
+}
+
 // Type used for the SimpleCache value
 export type StatFiValue = PostalCodeData[];
 
@@ -1,6 +1,7 @@
 /**
- * Generic simple in-memory cache with TTL.
+ * Generic simple cache with TTL. Entries live in a pluggable CacheStore (in-memory by default).
  */
+import { CacheEntry, CacheStore, MemoryCacheStore } from './cacheStore';
 
 // Define potential value types for different caches
 // Remove specific types and allow any type for more flexibility
@@ -11,58 +12,279 @@
 // // Union type for allowed cache values
 // type CacheValue = HsyWmsValue | StatFiValue | OverpassValue;
 
+export interface CacheEntryInfo {
+    key: string;
+    ageMs: number;
+    expired: boolean;
+    refreshable: boolean; // True if the cache knows how to re-fetch this key
+}
+
+export interface CacheStats {
+    name: string;
+    ttlMs: number;
+    maxEntries: number | null;
+    maxStaleMs: number;
+    size: number;
+    hits: number;
+    staleHits: number;
+    misses: number;
+    entries: CacheEntryInfo[];
+}
+
+// Bounds on the entries a cache keeps
+export interface CacheLimits {
+    maxEntries?: number; // Least recently used entries are evicted beyond this count; unbounded by default
+    maxStaleMs?: number; // Entries expired for longer than this are evicted instead of served stale
+}
+
+// Expired entries are served while refreshing for at most a week after their TTL by default
+const DEFAULT_MAX_STALE_MS = 1000 * 60 * 60 * 24 * 7;
 
-// interface CacheEntry<T extends CacheValue> { // Make T less restrictive
-interface CacheEntry<T> {
-    value: T;
-    timestamp: number;
+// All caches created in this process, by name (used for admin introspection)
+const cacheRegistry = new Map<string, SimpleCache<unknown>>();
+
+/**
+ * Returns every cache created in this process.
+ */
+export function getRegisteredCaches(): SimpleCache<unknown>[] {
+    return Array.from(cacheRegistry.values());
+}
+
+/**
+ * Looks up a cache by its name.
+ * @param name The name the cache was created with.
+ * @returns The cache or undefined if there is no cache with that name.
+ */
+export function getRegisteredCache(name: string): SimpleCache<unknown> | undefined {
+    return cacheRegistry.get(name);
 }
 
 // export class SimpleCache<T extends CacheValue> { // Make T less restrictive
 export class SimpleCache<T> {
-    private cache = new Map<string, CacheEntry<T>>();
+    private cache: CacheStore<T>;
     private defaultTtl: number; // TTL in milliseconds
-    private name: string;       // Name for logging
+    readonly name: string;      // Name for logging and the cache registry
+    private inFlight = new Map<string, Promise<T>>(); // Pending fetches, shared by concurrent callers
+    private fetchers = new Map<string, () => Promise<T>>(); // Last fetcher used per cached key, for manual refreshes
+    private recency = new Set<string>(); // Cached keys from least to most recently used
+    private maxEntries: number;
+    private maxStaleMs: number;
+    private hits = 0;
+    private staleHits = 0;
+    private misses = 0;
 
     /**
-     * Creates a new SimpleCache instance.
+     * Creates a new SimpleCache instance and registers it under its name.
      * @param name A descriptive name for the cache (used in logs).
      * @param defaultTtl Default time-to-live for cache entries in milliseconds.
+     * @param store Storage backend for the entries. Defaults to an in-memory store.
+     * @param limits Maximum entry count and stale age. Entries past them are evicted together with their fetchers.
      */
-    constructor(name: string, defaultTtl: number) {
+    constructor(name: string, defaultTtl: number, store: CacheStore<T> = new MemoryCacheStore<T>(), limits: CacheLimits = {}) {
         if (!name) throw new Error("Cache name cannot be empty.");
         if (defaultTtl <= 0) throw new Error("Cache TTL must be positive.");
+        const { maxEntries = Infinity, maxStaleMs = DEFAULT_MAX_STALE_MS } = limits;
+        if (maxEntries < 1) throw new Error("Cache maxEntries must be at least 1.");
+        if (maxStaleMs < 0) throw new Error("Cache maxStaleMs cannot be negative.");
 
         this.name = name;
         this.defaultTtl = defaultTtl;
+        this.maxEntries = maxEntries;
+        this.maxStaleMs = maxStaleMs;
+        this.cache = store;
+        // Restored entries count as used in the order they were stored
+        this.cache.keys()
+            .map(key => ({ key, timestamp: this.cache.get(key)?.timestamp ?? 0 }))
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(({ key }) => this.recency.add(key));
+        cacheRegistry.set(name, this as SimpleCache<unknown>);
         console.log(`Cache initialized: ${this.name} (TTL: ${defaultTtl / 1000}s)`);
+        if (this.cache.size() > 0) {
+            console.log(`Restored ${this.cache.size()} entries into [${this.name}] from its store.`);
+        }
     }
 
     /**
      * Retrieves a value from the cache. Returns undefined if the key is not found or the entry is expired.
+     * Expired entries are kept in the store so they can still be served while a refresh runs (see getOrFetch),
+     * until they are past the maximum stale age.
      * @param key The cache key.
      * @returns The cached value or undefined.
      */
     get(key: string): T | undefined {
-        const entry = this.cache.get(key);
+        const entry = this.getEntry(key);
         if (!entry) {
+            this.misses++;
             return undefined; // Cache miss
         }
 
-        const now = Date.now();
-        if (now - entry.timestamp > this.defaultTtl) {
-            // Expired
-            this.cache.delete(key);
+        if (this.isExpired(entry)) {
+            this.misses++;
             console.log(`Cache expired for key "${key}" in [${this.name}].`);
             return undefined;
         }
 
+        this.hits++;
+        this.touch(key);
         console.log(`Cache hit for key "${key}" in [${this.name}].`);
         return entry.value;
     }
 
+    /**
+     * Returns the cached value for a key, fetching it with the given function when needed.
+     * - Fresh entries are returned directly.
+     * - Expired entries are returned immediately while a refresh runs in the background.
+     *   If that refresh fails, the last good value stays in the cache.
+     * - Missing entries and entries past the maximum stale age are fetched; concurrent callers share the same in-flight request.
+     * The fetcher is remembered while the key is cached so it can later be refreshed on demand.
+     * @param key The cache key.
+     * @param fetcher Function that loads the value from its source. Rejections are not cached.
+     * @returns The cached or freshly fetched value.
+     */
+    async getOrFetch(key: string, fetcher: () => Promise<T>): Promise<T> {
+        const entry = this.getEntry(key);
+        if (entry) {
+            this.fetchers.set(key, fetcher);
+            this.touch(key);
+        }
+        if (entry && !this.isExpired(entry)) {
+            this.hits++;
+            console.log(`Cache hit for key "${key}" in [${this.name}].`);
+            return entry.value;
+        }
+
+        if (entry) {
+            this.staleHits++;
+            console.log(`Serving stale value for key "${key}" in [${this.name}] while refreshing.`);
+            this.refresh(key, fetcher).catch((error: unknown) => {
+                console.error(`Background refresh failed for key "${key}" in [${this.name}], keeping last good value:`,
+                    error instanceof Error ? error.message : error);
+            });
+            return entry.value;
+        }
+
+        this.misses++;
+        console.log(`Cache miss for key "${key}" in [${this.name}].`);
+        return this.refresh(key, fetcher);
+    }
+
+    /**
+     * Fetches a fresh value and stores it once the fetch succeeds. The current entry keeps being
+     * served until then. Concurrent refreshes of the same key share one in-flight request.
+     * If the key is cleared or deleted before the fetch completes, the value is returned but not stored.
+     * @param key The cache key.
+     * @param fetcher Function that loads the value from its source. Defaults to the last fetcher
+     * used for this key; the promise rejects if there is none. It is remembered once its value is stored.
+     * @returns The freshly fetched value.
+     */
+    refresh(key: string, fetcher?: () => Promise<T>): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending;
+        }
+
+        const load = fetcher ?? this.fetchers.get(key);
+        if (!load) {
+            return Promise.reject(new Error(`No fetcher known for key "${key}" in [${this.name}].`));
+        }
+
+        const fetchAndStore = async (): Promise<T> => {
+            const value = await load();
+            // A key cleared or deleted meanwhile is no longer tracked and stays out of the cache
+            if (this.isPending(key, request)) {
+                this.set(key, value);
+                this.fetchers.set(key, load);
+            }
+            return value;
+        };
+        const request = fetchAndStore();
+        this.track(key, request);
+        return request;
+    }
+
+    /**
+     * Fetches several keys with one call and stores each value once the call succeeds.
+     * Keys that are already being fetched join that request instead of being fetched again,
+     * and single-key refreshes started meanwhile join this one. Remembered fetchers are not changed.
+     * @param keys The cache keys.
+     * @param fetchMany Function that loads the values of the given keys with a single request.
+     * Keys missing from its result are rejected.
+     * @returns The freshly fetched value of every key.
+     */
+    async refreshMany(keys: string[], fetchMany: (keys: string[]) => Promise<Map<string, T>>): Promise<Map<string, T>> {
+        const pending = new Map<string, Promise<T>>();
+        const toFetch: string[] = [];
+        for (const key of keys) {
+            const inFlight = this.inFlight.get(key);
+            if (inFlight) {
+                pending.set(key, inFlight);
+            } else {
+                toFetch.push(key);
+            }
+        }
+
+        if (toFetch.length > 0) {
+            const batch = fetchMany(toFetch);
+            for (const key of toFetch) {
+                const fetchAndStore = async (): Promise<T> => {
+                    const values = await batch;
+                    if (!values.has(key)) {
+                        throw new Error(`Batch fetch returned no value for key "${key}" in [${this.name}].`);
+                    }
+                    const value = values.get(key) as T;
+                    if (this.isPending(key, request)) {
+                        this.set(key, value);
+                    }
+                    return value;
+                };
+                const request = fetchAndStore();
+                this.track(key, request);
+                pending.set(key, request);
+            }
+        }
+
+        const results = await Promise.all(
+            Array.from(pending, async ([key, request]) => [key, await request] as const)
+        );
+        return new Map(results);
+    }
+
+    /**
+     * Refreshes every key this cache knows how to fetch.
+     * @returns The keys that were refreshed and the keys whose refresh failed.
+     */
+    async refreshAll(): Promise<{ refreshed: string[]; failed: string[] }> {
+        const keys = Array.from(this.fetchers.keys());
+        const results = await Promise.allSettled(keys.map(key => this.refresh(key)));
+        const refreshed: string[] = [];
+        const failed: string[] = [];
+        results.forEach((result, index) => {
+            // eslint-disable-next-line security/detect-object-injection
+            (result.status === 'fulfilled' ? refreshed : failed).push(keys[index]);
+        });
+        return { refreshed, failed };
+    }
+
+    /**
+     * Checks whether the cache holds an unexpired entry for a key. Does not count as a hit or miss.
+     * @param key The cache key.
+     */
+    isFresh(key: string): boolean {
+        const entry = this.getEntry(key);
+        return entry !== undefined && !this.isExpired(entry);
+    }
+
+    /**
+     * Checks whether the cache holds an entry for a key, fresh or expired within the maximum stale age.
+     * @param key The cache key.
+     */
+    has(key: string): boolean {
+        return this.getEntry(key) !== undefined;
+    }
+
     /**
      * Adds or updates a value in the cache with the current timestamp.
+     * Then evicts the entries past the maximum stale age and the least recently used ones beyond the maximum count.
      * @param key The cache key.
      * @param value The value to store.
      */
@@ -70,35 +292,140 @@ export class SimpleCache<T> {
         const now = Date.now();
         const entry: CacheEntry<T> = { value, timestamp: now };
         this.cache.set(key, entry);
+        this.touch(key);
         console.log(`Cache set for key "${key}" in [${this.name}].`);
+        this.evict();
     }
 
     /**
-     * Clears all entries from the cache.
+     * Clears all entries from the cache and forgets their fetchers.
+     * Refreshes still in flight complete for their callers without storing their values.
      */
     clear(): void {
         this.cache.clear();
+        this.fetchers.clear();
+        this.recency.clear();
+        this.inFlight.clear();
         console.log(`Cache cleared: [${this.name}].`);
     }
 
     /**
-     * Deletes a specific entry from the cache.
+     * Deletes a specific entry from the cache and forgets its fetcher.
+     * A refresh of the key still in flight completes for its callers without storing its value.
      * @param key The key to delete.
      * @returns True if an element in the Map existed and has been removed, or false if the element does not exist.
      */
     delete(key: string): boolean {
+        this.inFlight.delete(key);
+        return this.remove(key);
+    }
+
+    // Removes an entry and its fetcher. Evictions use this so they do not cancel a pending refresh of the key
+    private remove(key: string): boolean {
         const deleted = this.cache.delete(key);
+        this.fetchers.delete(key);
+        this.recency.delete(key);
         if (deleted) {
             console.log(`Cache deleted key "${key}" in [${this.name}].`);
         }
         return deleted;
     }
 
+    /**
+     * Lists the keys of every entry in the cache, fresh or expired.
+     */
+    keys(): string[] {
+        return this.cache.keys();
+    }
+
     /**
      * Gets the current number of entries in the cache.
      * @returns The number of entries.
      */
     size(): number {
-        return this.cache.size;
+        return this.cache.size();
+    }
+
+    /**
+     * Describes the cache contents and its hit/miss counters.
+     * Stale hits are expired entries served while refreshing.
+     */
+    getStats(): CacheStats {
+        const now = Date.now();
+        const entries: CacheEntryInfo[] = [];
+        for (const key of this.cache.keys()) {
+            const entry = this.cache.get(key);
+            if (!entry) continue;
+            entries.push({
+                key,
+                ageMs: now - entry.timestamp,
+                expired: this.isExpired(entry),
+                refreshable: this.fetchers.has(key)
+            });
+        }
+        return {
+            name: this.name,
+            ttlMs: this.defaultTtl,
+            maxEntries: Number.isFinite(this.maxEntries) ? this.maxEntries : null,
+            maxStaleMs: this.maxStaleMs,
+            size: entries.length,
+            hits: this.hits,
+            staleHits: this.staleHits,
+            misses: this.misses,
+            entries
+        };
+    }
+
+    private isExpired(entry: CacheEntry<T>): boolean {
+        return Date.now() - entry.timestamp > this.defaultTtl;
+    }
+
+    private isPastMaxStale(entry: CacheEntry<T>): boolean {
+        return Date.now() - entry.timestamp > this.defaultTtl + this.maxStaleMs;
+    }
+
+    // Reads an entry, evicting it if it is past the maximum stale age
+    private getEntry(key: string): CacheEntry<T> | undefined {
+        const entry = this.cache.get(key);
+        if (entry && this.isPastMaxStale(entry)) {
+            this.remove(key);
+            return undefined;
+        }
+        return entry;
     }
-} 
+
+    // Checks whether a request is still the tracked fetch of a key
+    private isPending(key: string, request: Promise<T>): boolean {
+        return this.inFlight.get(key) === request;
+    }
+
+    // Tracks the fetch of a key until it settles, unless the key is cleared or deleted first
+    private track(key: string, request: Promise<T>): void {
+        this.inFlight.set(key, request);
+        const settle = () => {
+            if (this.isPending(key, request)) {
+                this.inFlight.delete(key);
+            }
+        };
+        request.then(settle, settle);
+    }
+
+    // Marks a key as the most recently used
+    private touch(key: string): void {
+        this.recency.delete(key);
+        this.recency.add(key);
+    }
+
+    private evict(): void {
+        for (const key of this.cache.keys()) {
+            const entry = this.cache.get(key);
+            if (entry && this.isPastMaxStale(entry)) {
+                this.remove(key);
+            }
+        }
+        for (const key of this.recency) {
+            if (this.recency.size <= this.maxEntries) break;
+            this.remove(key);
+        }
+    }
+}
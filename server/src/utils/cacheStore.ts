@@ -0,0 +1,196 @@
+/**
+ * Storage backends for SimpleCache.
+ *
+ * A store only keeps entries and their timestamps; TTL handling and logging stay in SimpleCache.
+ * The backend for each cache is chosen through environment variables:
+ *   CACHE_STORE=memory|file              Default backend for all caches (defaults to 'memory').
+ *   CACHE_STORE_<STORE_ID>=memory|file   Per-cache override, e.g. CACHE_STORE_STATFI=file.
+ *   CACHE_DIR=<path>                     Base directory for the file store (defaults to '.cache').
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface CacheEntry<T> {
+    value: T;
+    timestamp: number;
+}
+
+export interface CacheStore<T> {
+    get(key: string): CacheEntry<T> | undefined;
+    set(key: string, entry: CacheEntry<T>): void;
+    delete(key: string): boolean;
+    clear(): void;
+    keys(): string[];
+    size(): number;
+}
+
+export type CacheStoreType = 'memory' | 'file';
+
+const DEFAULT_CACHE_DIR = '.cache';
+
+/**
+ * Keeps entries in a Map. Contents are lost when the process exits.
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+    private entries = new Map<string, CacheEntry<T>>();
+
+    get(key: string): CacheEntry<T> | undefined {
+        return this.entries.get(key);
+    }
+
+    set(key: string, entry: CacheEntry<T>): void {
+        this.entries.set(key, entry);
+    }
+
+    delete(key: string): boolean {
+        return this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+}
+
+interface PersistedEntry<T> extends CacheEntry<T> {
+    key: string;
+}
+
+/**
+ * Persists every entry as a JSON file in its own directory so the cache survives restarts.
+ * Entries are mirrored in memory; reads never touch the disk after start-up.
+ * Disk errors are logged and do not break the in-memory cache.
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+    private entries = new Map<string, CacheEntry<T>>();
+    private directory: string;
+
+    /**
+     * @param directory Directory that holds the entry files of this cache. Created if missing.
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        fs.mkdirSync(this.directory, { recursive: true });
+        this.load();
+    }
+
+    get(key: string): CacheEntry<T> | undefined {
+        return this.entries.get(key);
+    }
+
+    set(key: string, entry: CacheEntry<T>): void {
+        this.entries.set(key, entry);
+        const persisted: PersistedEntry<T> = { key, value: entry.value, timestamp: entry.timestamp };
+        const filePath = this.filePathFor(key);
+        const tempPath = `${filePath}.tmp`;
+        try {
+            // Write to a temporary file first so a crash never leaves a half-written entry behind
+            // eslint-disable-next-line security/detect-non-literal-fs-filename
+            fs.writeFileSync(tempPath, JSON.stringify(persisted));
+            // eslint-disable-next-line security/detect-non-literal-fs-filename
+            fs.renameSync(tempPath, filePath);
+        } catch (error) {
+            console.error(`Failed to persist cache entry "${key}" to ${filePath}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    delete(key: string): boolean {
+        const existed = this.entries.delete(key);
+        this.removeFile(this.filePathFor(key));
+        return existed;
+    }
+
+    clear(): void {
+        this.entries.clear();
+        for (const fileName of this.entryFileNames()) {
+            this.removeFile(path.join(this.directory, fileName));
+        }
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+
+    private filePathFor(key: string): string {
+        // Hash the key so any string is a safe file name
+        const hash = crypto.createHash('sha256').update(key).digest('hex');
+        return path.join(this.directory, `${hash}.json`);
+    }
+
+    private entryFileNames(): string[] {
+        try {
+            // eslint-disable-next-line security/detect-non-literal-fs-filename
+            return fs.readdirSync(this.directory).filter(fileName => fileName.endsWith('.json'));
+        } catch (error) {
+            console.error(`Failed to list cache directory ${this.directory}:`, error instanceof Error ? error.message : error);
+            return [];
+        }
+    }
+
+    private removeFile(filePath: string): void {
+        try {
+            fs.rmSync(filePath, { force: true });
+        } catch (error) {
+            console.error(`Failed to remove cache file ${filePath}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    private load(): void {
+        for (const fileName of this.entryFileNames()) {
+            const filePath = path.join(this.directory, fileName);
+            try {
+                // eslint-disable-next-line security/detect-non-literal-fs-filename
+                const persisted = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PersistedEntry<T>;
+                if (typeof persisted.key !== 'string' || typeof persisted.timestamp !== 'number') {
+                    throw new Error('Missing key or timestamp.');
+                }
+                this.entries.set(persisted.key, { value: persisted.value, timestamp: persisted.timestamp });
+            } catch (error) {
+                // A corrupt entry is only a cache miss; drop it so it gets rewritten
+                console.warn(`Discarding unreadable cache file ${filePath}:`, error instanceof Error ? error.message : error);
+                this.removeFile(filePath);
+            }
+        }
+    }
+}
+
+/**
+ * Resolves the configured backend type for a cache.
+ * @param storeId Identifier used for the per-cache environment variable (e.g. 'STATFI').
+ */
+export function resolveCacheStoreType(storeId: string): CacheStoreType {
+    const configured = (process.env[`CACHE_STORE_${storeId}`] || process.env.CACHE_STORE || 'memory').toLowerCase();
+    if (configured === 'memory' || configured === 'file') {
+        return configured;
+    }
+    console.warn(`Unknown cache store "${configured}" for ${storeId}, falling back to memory.`);
+    return 'memory';
+}
+
+/**
+ * Creates the configured store for a cache.
+ * @param storeId Identifier of the cache, used for configuration and as the file store directory name.
+ * @returns A store instance for SimpleCache.
+ */
+export function createCacheStore<T>(storeId: string): CacheStore<T> {
+    if (resolveCacheStoreType(storeId) === 'file') {
+        const baseDirectory = process.env.CACHE_DIR || DEFAULT_CACHE_DIR;
+        const directory = path.resolve(baseDirectory, storeId.toLowerCase());
+        console.log(`Using file cache store for ${storeId} at ${directory}`);
+        return new FileCacheStore<T>(directory);
+    }
+    return new MemoryCacheStore<T>();
+}
@@ -0,0 +1,31 @@
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the items. Rejects with the first error; calls that have
+ * already started are left to finish, but no new calls are started after it.
+ * @param items The items to map.
+ * @param limit Maximum number of concurrent calls (at least 1).
+ * @param mapper The async function to apply to each item.
+ * @returns The results in item order.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, mapper: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                // eslint-disable-next-line security/detect-object-injection
+                results[index] = await mapper(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
@@ -0,0 +1,216 @@
+import { MultiPolygon, Polygon, intersection, union } from 'polygon-clipping';
+import { GeoJSONGeometry } from '../types/geojson.types';
+
+export type Position = number[];
+export type Ring = Position[];
+export type PolygonCoordinates = Ring[];
+export type BoundingBox = [number, number, number, number]; // [minX, minY, maxX, maxY]
+
+/**
+ * Returns the polygons of a Polygon or MultiPolygon geometry. Other geometry types have no area.
+ */
+export function getPolygons(geometry: GeoJSONGeometry | null): PolygonCoordinates[] {
+    if (geometry?.type === 'Polygon') {
+        return [geometry.coordinates as PolygonCoordinates];
+    }
+    if (geometry?.type === 'MultiPolygon') {
+        return geometry.coordinates as PolygonCoordinates[];
+    }
+    return [];
+}
+
+/**
+ * Returns the bounding box of a set of positions, or null if there are none.
+ */
+export function getBoundingBox(positions: Position[]): BoundingBox | null {
+    if (positions.length === 0) {
+        return null;
+    }
+    const box: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+    positions.forEach(([x, y]) => {
+        box[0] = Math.min(box[0], x);
+        box[1] = Math.min(box[1], y);
+        box[2] = Math.max(box[2], x);
+        box[3] = Math.max(box[3], y);
+    });
+    return box;
+}
+
+/**
+ * Returns the bounding box of the polygons of a geometry, or null if it has none.
+ */
+export function getGeometryBoundingBox(geometry: GeoJSONGeometry | null): BoundingBox | null {
+    return getBoundingBox(getPolygons(geometry).flatMap(([outer = []]) => outer));
+}
+
+/**
+ * Checks whether a point is inside a ring with the even-odd (ray casting) rule.
+ */
+function isInsideRing([x, y]: Position, ring: Ring): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        // eslint-disable-next-line security/detect-object-injection
+        const [xi, yi] = ring[i];
+        // eslint-disable-next-line security/detect-object-injection
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Checks whether a point is inside a polygon: within its outer ring and outside its holes.
+ */
+export function isInsidePolygon(point: Position, [outer = [], ...holes]: PolygonCoordinates): boolean {
+    return isInsideRing(point, outer) && !holes.some(hole => isInsideRing(point, hole));
+}
+
+// Signed area of a ring (shoelace formula); the sign depends on the winding order
+const ringSignedArea = (ring: Ring): number => {
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        // eslint-disable-next-line security/detect-object-injection
+        sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+    }
+    return sum / 2;
+};
+
+const polygonArea = ([outer = [], ...holes]: PolygonCoordinates): number =>
+    Math.max(0, Math.abs(ringSignedArea(outer)) - holes.reduce((sum, hole) => sum + Math.abs(ringSignedArea(hole)), 0));
+
+/**
+ * Returns the planar area of the polygons of a geometry, holes excluded, in square coordinate units.
+ * Coordinates must be projected (e.g. EPSG:3879 gives square metres).
+ */
+export function getGeometryArea(geometry: GeoJSONGeometry | null): number {
+    return getPolygons(geometry).reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+}
+
+// Distance from a point to the segment between a and b
+const segmentDistance = ([x, y]: Position, [ax, ay]: Position, [bx, by]: Position): number => {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared));
+    return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+};
+
+/**
+ * Returns the planar distance from a point to the nearest polygon of a geometry: 0 inside it,
+ * otherwise the distance to the closest edge (of an outer ring or, for points in a hole, of the hole).
+ * @returns The distance in coordinate units, or Infinity if the geometry has no polygons.
+ */
+export function getDistanceToGeometry(point: Position, geometry: GeoJSONGeometry | null): number {
+    const polygons = getPolygons(geometry);
+    if (polygons.some(polygon => isInsidePolygon(point, polygon))) {
+        return 0;
+    }
+    let distance = Infinity;
+    polygons.forEach(polygon => polygon.forEach(ring => {
+        for (let i = 1; i < ring.length; i++) {
+            // eslint-disable-next-line security/detect-object-injection
+            distance = Math.min(distance, segmentDistance(point, ring[i - 1], ring[i]));
+        }
+    }));
+    return distance;
+}
+
+// Shifts polygon coordinates by an offset; see getCoveredArea
+const translatePolygon = (polygon: PolygonCoordinates, [dx, dy]: Position): Polygon =>
+    polygon.map(ring => ring.map(([x, y]) => [x - dx, y - dy] as [number, number]));
+
+/**
+ * Returns the planar area of a geometry that is covered by any of a set of polygons,
+ * e.g. the part of a postcode area within a walking zone. Overlapping cover polygons count once.
+ * Coordinates must be projected (e.g. EPSG:3879 gives square metres).
+ * @param geometry The polygon or multipolygon to measure.
+ * @param covers The covering polygons, e.g. found through a PolygonIndex.
+ */
+export function getCoveredArea(geometry: GeoJSONGeometry | null, covers: PolygonCoordinates[]): number {
+    const polygons = getPolygons(geometry);
+    const origin = polygons[0]?.[0]?.[0];
+    if (!origin || covers.length === 0) {
+        return 0;
+    }
+    // Clip near the origin: EPSG:3879 eastings are around 25 million metres, which costs the clipping floating point precision
+    const [first, ...rest] = covers.map(polygon => translatePolygon(polygon, origin));
+    const covered: MultiPolygon = intersection(polygons.map(polygon => translatePolygon(polygon, origin)), union(first, ...rest));
+    return covered.reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+}
+
+// Area-weighted centroid of the outer ring of a polygon
+const ringCentroid = (ring: Ring): Position | null => {
+    let area = 0;
+    let x = 0;
+    let y = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        // eslint-disable-next-line security/detect-object-injection
+        const [xi, yi] = ring[i];
+        // eslint-disable-next-line security/detect-object-injection
+        const [xj, yj] = ring[j];
+        const cross = xj * yi - xi * yj;
+        area += cross;
+        x += (xj + xi) * cross;
+        y += (yj + yi) * cross;
+    }
+    return area === 0 ? null : [x / (3 * area), y / (3 * area)];
+};
+
+/**
+ * Finds a point inside a polygon on the horizontal line through the middle of its bounding box,
+ * at the middle of the widest stretch of the line that lies inside the polygon.
+ */
+const scanlinePoint = (polygon: PolygonCoordinates): Position | null => {
+    const box = getBoundingBox(polygon[0] ?? []);
+    if (!box) return null;
+    const y = (box[1] + box[3]) / 2;
+
+    const crossings: number[] = [];
+    polygon.forEach(ring => {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            // eslint-disable-next-line security/detect-object-injection
+            const [xi, yi] = ring[i];
+            // eslint-disable-next-line security/detect-object-injection
+            const [xj, yj] = ring[j];
+            if ((yi > y) !== (yj > y)) {
+                crossings.push(((xj - xi) * (y - yi)) / (yj - yi) + xi);
+            }
+        }
+    });
+    crossings.sort((a, b) => a - b);
+
+    let best: Position | null = null;
+    let bestWidth = 0;
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+        // eslint-disable-next-line security/detect-object-injection
+        const start = crossings[i];
+        const end = crossings[i + 1];
+        if (end - start > bestWidth) {
+            bestWidth = end - start;
+            best = [(start + end) / 2, y];
+        }
+    }
+    return best;
+};
+
+/**
+ * Returns a representative point that is guaranteed to lie inside the geometry, for placing labels.
+ * This is the centroid of the largest polygon when it falls inside it (as it does for convex shapes),
+ * otherwise a point on the polygon's middle scanline.
+ * @returns The point, or null if the geometry has no polygons.
+ */
+export function getInteriorPoint(geometry: GeoJSONGeometry | null): Position | null {
+    const [largest] = getPolygons(geometry)
+        .filter(polygon => polygonArea(polygon) > 0)
+        .sort((a, b) => polygonArea(b) - polygonArea(a));
+    if (!largest) {
+        return null;
+    }
+    const centroid = ringCentroid(largest[0]);
+    if (centroid && isInsidePolygon(centroid, largest)) {
+        return centroid;
+    }
+    return scanlinePoint(largest) ?? largest[0][0];
+}
@@ -0,0 +1,260 @@
+/**
+ * Decoder for JSON-stat 2.0 datasets, the response format of the StatFin PX-Web API.
+ * Values are addressed by category code per dimension, so readers do not depend on
+ * the number or order of the dimensions in a response.
+ */
+import { Dimension, JsonStatResponse } from '../types/statfi.types';
+
+// A decoded value: a number, or null if the value is missing or replaced by a status code
+export type JsonStatValue = number | null;
+
+// Category code per dimension id, e.g. { Vuosi: '2023', Postinumero: '00100' }
+export type JsonStatCoordinates = Record<string, string>;
+
+export interface JsonStatRecord {
+    categories: JsonStatCoordinates; // A category code for every dimension of the dataset
+    value: JsonStatValue;
+    status?: string;                 // E.g. '.' or '...' where StatFin publishes no value
+}
+
+// A value as it appears in the response; undefined for positions left out of a sparse value object
+type RawValue = number | string | null | undefined;
+
+interface DecodedDimension {
+    codes: string[];                // Category codes in index order
+    positions: Map<string, number>; // Category code -> index
+    labels: Record<string, string>;
+    stride: number;
+}
+
+/**
+ * Returns the position of each dimension's category index in the flat JSON-stat value array.
+ */
+export function getDimensionStrides(data: Pick<JsonStatResponse, 'id' | 'size'>): Record<string, number> {
+    const strides: Record<string, number> = {};
+    let stride = 1;
+    for (let i = data.id.length - 1; i >= 0; i--) {
+        // eslint-disable-next-line security/detect-object-injection
+        strides[data.id[i]] = stride;
+        // eslint-disable-next-line security/detect-object-injection
+        stride *= data.size[i];
+    }
+    return strides;
+}
+
+/**
+ * Lists a dimension's category codes in index order. JSON-stat 2.0 allows the index
+ * to be an array or an object, and to be left out for dimensions with a single category.
+ */
+function getCategoryCodes(dimension: Dimension): string[] {
+    const { index, label } = dimension.category;
+    if (Array.isArray(index)) {
+        return [...index];
+    }
+    if (!index) {
+        return Object.keys(label ?? {});
+    }
+    const codes: string[] = [];
+    for (const [code, position] of Object.entries(index)) {
+        // eslint-disable-next-line security/detect-object-injection
+        codes[position] = code;
+    }
+    return codes;
+}
+
+/**
+ * Converts a raw JSON-stat value to a number. Strings that are not numbers
+ * (StatFin's '.', '..' and '...' markers) and nulls are missing values.
+ */
+function parseRawValue(raw: RawValue): JsonStatValue {
+    if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+        return null;
+    }
+    const numValue = Number(raw);
+    return isNaN(numValue) ? null : numValue;
+}
+
+/**
+ * Returns the raw string of a value StatFin replaced by a marker such as '...', or undefined for numbers.
+ */
+function getValueMarker(raw: RawValue): string | undefined {
+    return typeof raw === 'string' && parseRawValue(raw) === null && raw.trim() !== '' ? raw : undefined;
+}
+
+export class JsonStatDataset {
+    readonly id: string[];
+    readonly size: number[];
+    private readonly dimensions = new Map<string, DecodedDimension>();
+    private readonly length: number;
+    private readonly values: RawValue[]; // Dense, also for responses with a sparse value object
+
+    /**
+     * @param data A JSON-stat 2.0 dataset.
+     * @throws If the dataset is malformed, e.g. a dimension's size does not match its categories.
+     */
+    constructor(private readonly data: JsonStatResponse) {
+        if (!data || !Array.isArray(data.id) || !Array.isArray(data.size) || !data.dimension || !data.value) {
+            throw new Error('Invalid JSON-stat dataset: id, size, dimension and value are required.');
+        }
+        if (data.id.length !== data.size.length) {
+            throw new Error(`Invalid JSON-stat dataset: ${data.id.length} dimension ids but ${data.size.length} sizes.`);
+        }
+
+        this.id = data.id;
+        this.size = data.size;
+        const strides = getDimensionStrides(data);
+        const dimensions = new Map(Object.entries(data.dimension));
+
+        data.id.forEach((dimensionId, i) => {
+            const dimension = dimensions.get(dimensionId);
+            if (!dimension?.category) {
+                throw new Error(`Invalid JSON-stat dataset: dimension "${dimensionId}" has no categories.`);
+            }
+            const codes = getCategoryCodes(dimension);
+            // eslint-disable-next-line security/detect-object-injection
+            if (codes.length !== data.size[i]) {
+                // eslint-disable-next-line security/detect-object-injection
+                throw new Error(`Invalid JSON-stat dataset: dimension "${dimensionId}" has ${codes.length} categories but size ${data.size[i]}.`);
+            }
+            this.dimensions.set(dimensionId, {
+                codes,
+                positions: new Map(codes.map((code, position) => [code, position])),
+                labels: dimension.category.label ?? {},
+                // eslint-disable-next-line security/detect-object-injection
+                stride: strides[dimensionId]
+            });
+        });
+
+        this.length = data.size.reduce((product, size) => product * size, 1);
+        if (Array.isArray(data.value)) {
+            if (data.value.length !== this.length) {
+                throw new Error(`Invalid JSON-stat dataset: expected ${this.length} values but got ${data.value.length}.`);
+            }
+            this.values = data.value;
+        } else {
+            this.values = new Array<RawValue>(this.length);
+            for (const [position, value] of Object.entries(data.value)) {
+                this.values[Number(position)] = value;
+            }
+        }
+    }
+
+    hasDimension(dimensionId: string): boolean {
+        return this.dimensions.has(dimensionId);
+    }
+
+    hasCategory(dimensionId: string, code: string): boolean {
+        return this.dimensions.get(dimensionId)?.positions.has(code) ?? false;
+    }
+
+    /**
+     * @returns The dimension's category codes in index order.
+     * @throws If the dataset has no such dimension.
+     */
+    categories(dimensionId: string): string[] {
+        return [...this.getDimension(dimensionId).codes];
+    }
+
+    /**
+     * @returns The category's label, or the code itself if the category has no label.
+     */
+    label(dimensionId: string, code: string): string {
+        const { labels } = this.getDimension(dimensionId);
+        return Object.prototype.hasOwnProperty.call(labels, code)
+            // eslint-disable-next-line security/detect-object-injection
+            ? labels[code]
+            : code;
+    }
+
+    /**
+     * Reads a single value. Dimensions with a single category may be left out of the coordinates.
+     * @throws If a coordinate is unknown, or a dimension with several categories has no coordinate.
+     */
+    get(coordinates: JsonStatCoordinates): JsonStatValue {
+        return parseRawValue(this.values[this.getPosition(coordinates)]);
+    }
+
+    /**
+     * @returns The status code of a value (e.g. '...'), or undefined if the value has none.
+     */
+    getStatus(coordinates: JsonStatCoordinates): string | undefined {
+        return this.getStatusAt(this.getPosition(coordinates));
+    }
+
+    /**
+     * Lists every value of the dataset with the category codes that address it.
+     */
+    records(): JsonStatRecord[] {
+        const records: JsonStatRecord[] = [];
+        for (let position = 0; position < this.length; position++) {
+            const categories: JsonStatCoordinates = {};
+            for (const [dimensionId, dimension] of this.dimensions) {
+                const index = Math.floor(position / dimension.stride) % dimension.codes.length;
+                // eslint-disable-next-line security/detect-object-injection
+                categories[dimensionId] = dimension.codes[index];
+            }
+            // eslint-disable-next-line security/detect-object-injection
+            const record: JsonStatRecord = { categories, value: parseRawValue(this.values[position]) };
+            const status = this.getStatusAt(position);
+            if (status !== undefined) {
+                record.status = status;
+            }
+            records.push(record);
+        }
+        return records;
+    }
+
+    private getDimension(dimensionId: string): DecodedDimension {
+        const dimension = this.dimensions.get(dimensionId);
+        if (!dimension) {
+            throw new Error(`JSON-stat dataset has no dimension "${dimensionId}".`);
+        }
+        return dimension;
+    }
+
+    private getPosition(coordinates: JsonStatCoordinates): number {
+        for (const dimensionId of Object.keys(coordinates)) {
+            this.getDimension(dimensionId);
+        }
+
+        let position = 0;
+        for (const [dimensionId, dimension] of this.dimensions) {
+            const code = Object.prototype.hasOwnProperty.call(coordinates, dimensionId)
+                // eslint-disable-next-line security/detect-object-injection
+                ? coordinates[dimensionId]
+                : undefined;
+            if (code === undefined) {
+                if (dimension.codes.length !== 1) {
+                    throw new Error(`A category of dimension "${dimensionId}" is required to address a JSON-stat value.`);
+                }
+                continue;
+            }
+            const index = dimension.positions.get(code);
+            if (index === undefined) {
+                throw new Error(`JSON-stat dimension "${dimensionId}" has no category "${code}".`);
+            }
+            position += index * dimension.stride;
+        }
+        return position;
+    }
+
+    private getStatusAt(position: number): string | undefined {
+        const { status } = this.data;
+        let code: string | null | undefined;
+        if (typeof status === 'string') {
+            code = status;
+        } else if (Array.isArray(status)) {
+            // eslint-disable-next-line security/detect-object-injection
+            code = status[position];
+        } else if (status) {
+            code = status[position.toString()];
+        }
+        if (code) {
+            return code;
+        }
+
+        // StatFin also writes its markers in place of the value
+        // eslint-disable-next-line security/detect-object-injection
+        return getValueMarker(this.values[position]);
+    }
+}
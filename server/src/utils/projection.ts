@@ -0,0 +1,79 @@
+import proj4 from 'proj4';
+import { GeoJSONFeatureCollection, GeoJSONGeometry } from '../types/geojson.types';
+
+// EPSG:3879 - Helsinki local coordinate system (used by HSY)
+export const HELSINKI_CRS = 'EPSG:3879';
+// EPSG:4326 - WGS84 (used by Leaflet and GeoJSON, RFC 7946)
+export const WGS84_CRS = 'EPSG:4326';
+
+export const SUPPORTED_CRS = [WGS84_CRS, HELSINKI_CRS] as const;
+export type SupportedCrs = typeof SUPPORTED_CRS[number];
+
+proj4.defs(HELSINKI_CRS, '+proj=tmerc +lat_0=0 +lon_0=25 +k=1 +x_0=25500000 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
+proj4.defs(WGS84_CRS, '+proj=longlat +datum=WGS84 +no_defs +type=crs');
+
+export function isSupportedCrs(crs: string): crs is SupportedCrs {
+    return (SUPPORTED_CRS as readonly string[]).includes(crs);
+}
+
+/**
+ * Transforms a GeoJSON coordinate array of any depth (a position, a ring, a polygon, ...).
+ * Returns new arrays; positions keep any coordinates beyond x and y.
+ */
+function transformCoordinates(coordinates: unknown, converter: proj4.Converter): unknown {
+    if (!Array.isArray(coordinates)) {
+        return coordinates;
+    }
+    if (typeof coordinates[0] === 'number') {
+        const [x, y, ...rest] = coordinates as number[];
+        return [...converter.forward([x, y]), ...rest];
+    }
+    return coordinates.map(child => transformCoordinates(child, converter));
+}
+
+/**
+ * Transforms a single position between coordinate systems.
+ * @returns The x and y (or longitude and latitude) in the target coordinate system.
+ */
+export function reprojectPoint(x: number, y: number, fromCrs: SupportedCrs, toCrs: SupportedCrs): [number, number] {
+    if (fromCrs === toCrs) {
+        return [x, y];
+    }
+    const [toX, toY] = proj4(fromCrs, toCrs).forward([x, y]);
+    return [toX, toY];
+}
+
+/**
+ * Transforms a geometry between coordinate systems without modifying it.
+ */
+export function reprojectGeometry(geometry: GeoJSONGeometry, fromCrs: SupportedCrs, toCrs: SupportedCrs): GeoJSONGeometry {
+    return { ...geometry, coordinates: transformCoordinates(geometry.coordinates, proj4(fromCrs, toCrs)) };
+}
+
+/**
+ * Transforms every feature of a collection between coordinate systems without modifying it.
+ * The collection's `crs` and `bbox` members describe the source coordinates, so they are left out.
+ */
+export function reprojectFeatureCollection(
+    collection: GeoJSONFeatureCollection,
+    fromCrs: SupportedCrs,
+    toCrs: SupportedCrs
+): GeoJSONFeatureCollection {
+    if (fromCrs === toCrs) {
+        return { ...collection };
+    }
+
+    const converter = proj4(fromCrs, toCrs);
+    const reprojected: GeoJSONFeatureCollection = {
+        ...collection,
+        features: collection.features.map(feature => ({
+            ...feature,
+            geometry: feature.geometry
+                ? { ...feature.geometry, coordinates: transformCoordinates(feature.geometry.coordinates, converter) }
+                : null
+        }))
+    };
+    delete reprojected.crs;
+    delete reprojected.bbox;
+    return reprojected;
+}
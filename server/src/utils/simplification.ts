@@ -0,0 +1,79 @@
+import type { GeoJsonObject } from 'geojson';
+import type { GeometryCollection, Objects, Topology } from 'topojson-specification';
+import { topology } from 'topojson-server';
+import { presimplify, simplify } from 'topojson-simplify';
+import { feature, neighbors } from 'topojson-client';
+import { GeoJSONFeatureCollection } from '../types/geojson.types';
+import { getPolygons } from './geometry';
+
+// Web Mercator ground resolution at zoom 0 on the equator, in metres per pixel
+const EQUATOR_METRES_PER_PIXEL = 156543.03392;
+// Latitude the zoom tolerances are calculated for (the Helsinki region)
+const REFERENCE_LATITUDE = 60;
+// Highest zoom level simplification tolerances are calculated for
+export const MAX_SIMPLIFICATION_ZOOM = 22;
+// Quantization of TopoJSON output: 1e5 steps across the extent is well below a pixel at street zoom levels
+const TOPOJSON_QUANTIZATION = 1e5;
+
+/**
+ * Returns the simplification tolerance matching a map zoom level: the ground size of one
+ * Web Mercator pixel at the latitude of the Helsinki region.
+ * @param zoom A map zoom level, e.g. 11 for the whole capital region.
+ * @returns The tolerance in metres.
+ */
+export function toleranceForZoom(zoom: number): number {
+    return (EQUATOR_METRES_PER_PIXEL * Math.cos((REFERENCE_LATITUDE * Math.PI) / 180)) / 2 ** zoom;
+}
+
+/**
+ * Returns the zoom level whose tolerance is closest to the given one, so that any tolerance
+ * snaps to one of the zoom levels 0 to MAX_SIMPLIFICATION_ZOOM.
+ * @param tolerance A positive tolerance in metres.
+ * @returns The zoom level; use toleranceForZoom for its tolerance.
+ */
+export function zoomForTolerance(tolerance: number): number {
+    const zoom = Math.round(Math.log2(toleranceForZoom(0) / tolerance));
+    return Math.min(Math.max(zoom, 0), MAX_SIMPLIFICATION_ZOOM);
+}
+
+/**
+ * Simplifies the features of a collection without opening gaps or overlaps between them.
+ * Boundaries shared by neighbouring features are simplified once, as shared TopoJSON arcs
+ * (Visvalingam's algorithm), so neighbours keep matching edges.
+ * Coordinates must be planar and in metres (e.g. EPSG:3879) for the tolerance to apply.
+ * @param collection The features to simplify. Not modified.
+ * @param tolerance Vertices forming a triangle with their neighbours smaller than tolerance² square metres are removed.
+ * @returns A new collection with the simplified geometries and the original ids and properties.
+ */
+export function simplifyFeatureCollection(collection: GeoJSONFeatureCollection, tolerance: number): GeoJSONFeatureCollection {
+    const shared = presimplify(topology({ features: collection as unknown as GeoJsonObject }) as Topology<Objects>);
+    const simplified = simplify(shared, tolerance ** 2);
+    const { features } = feature(simplified, simplified.objects.features) as unknown as GeoJSONFeatureCollection;
+    return { ...collection, features };
+}
+
+/**
+ * Finds the features that share part of their boundary with each feature, i.e. have common
+ * boundary segments (touching at a single corner does not count).
+ * Features without polygons, or with empty rings, have no neighbours.
+ * @returns For each feature, the indexes of its neighbours in the collection.
+ */
+export function findNeighbours(collection: GeoJSONFeatureCollection): number[][] {
+    const features = collection.features.map(({ type, geometry }) => {
+        const polygons = getPolygons(geometry);
+        const isValid = polygons.length > 0 && polygons.every(polygon => polygon.every(ring => ring.length > 0));
+        return { type, properties: null, geometry: isValid ? geometry : null };
+    });
+    const shared = topology({ features: { ...collection, features } as unknown as GeoJsonObject });
+    const { geometries } = shared.objects.features as GeometryCollection;
+    return neighbors(geometries);
+}
+
+/**
+ * Encodes a collection as TopoJSON, storing each boundary shared by neighbouring features once.
+ * @param collection The features to encode.
+ * @param objectName Name of the TopoJSON object holding the features.
+ */
+export function toTopoJSON(collection: GeoJSONFeatureCollection, objectName: string): Topology {
+    return topology({ [objectName]: collection as unknown as GeoJsonObject }, TOPOJSON_QUANTIZATION);
+}
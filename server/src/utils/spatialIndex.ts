@@ -0,0 +1,49 @@
+import RBush from 'rbush';
+import { GeoJSONFeature, GeoJSONFeatureCollection } from '../types/geojson.types';
+import { BoundingBox, PolygonCoordinates, getBoundingBox, getPolygons, isInsidePolygon } from './geometry';
+
+interface IndexedPolygon {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    polygon: PolygonCoordinates;
+    feature: GeoJSONFeature;
+}
+
+/**
+ * Finds the polygon features of a collection that contain a point, or the polygons near an area.
+ * The bounding box of every polygon is kept in an R-tree, so only polygons whose box holds the point are tested.
+ * Coordinates are treated as planar, so projected coordinates (e.g. EPSG:3879) give exact results.
+ */
+export class PolygonIndex {
+    private tree = new RBush<IndexedPolygon>();
+
+    constructor(collection: GeoJSONFeatureCollection) {
+        const items = collection.features.flatMap(feature => getPolygons(feature.geometry)
+            .flatMap(polygon => {
+                const box = getBoundingBox(polygon[0] ?? []);
+                return box ? [{ minX: box[0], minY: box[1], maxX: box[2], maxY: box[3], polygon, feature }] : [];
+            }));
+        this.tree.load(items);
+    }
+
+    /**
+     * Returns the first feature containing the point, or undefined if no feature does.
+     * @param x Easting or longitude.
+     * @param y Northing or latitude.
+     */
+    findContaining(x: number, y: number): GeoJSONFeature | undefined {
+        return this.tree.search({ minX: x, minY: y, maxX: x, maxY: y })
+            .find(item => isInsidePolygon([x, y], item.polygon))
+            ?.feature;
+    }
+
+    /**
+     * Returns the polygons whose bounding box intersects a box. They may still lie outside any shape within the box.
+     * @param box [minX, minY, maxX, maxY].
+     */
+    findPolygonsInBox([minX, minY, maxX, maxY]: BoundingBox): PolygonCoordinates[] {
+        return this.tree.search({ minX, minY, maxX, maxY }).map(item => item.polygon);
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Helpers shared by the services that read Statistics Finland (StatFin) PX-Web tables.
+ */
+export interface ParsedPostalCode {
+    district: string;
+    municipality: string;
+}
+
+/**
+ * Splits a StatFin postal code label such as "00100 Helsinki Keskusta (Helsinki)"
+ * into its district and municipality.
+ * @returns 'N/A' for parts that cannot be parsed.
+ */
+export function parsePostalCodeLabel(postalCodeLabel: string): ParsedPostalCode {
+    // eslint-disable-next-line sonarjs/slow-regex
+    const districtMatch = postalCodeLabel.match(/^(\d+)\s+([^()]+?)\s*\(([^()]+?)\)$/);
+    let district = 'N/A', municipality = 'N/A';
+    if (districtMatch && districtMatch.length >= 3) { // Should be >= 4 due to 3 capture groups + full match
+        district = districtMatch[2].trim();
+        municipality = districtMatch[3].trim();
+    }
+    return { district, municipality };
+}
+
+// --------- Period keys ---------
+
+export type PeriodGranularity = 'year' | 'quarter';
+
+export interface ParsedPeriodKey {
+    granularity: PeriodGranularity;
+    year: number;
+    quarter?: number; // 1-4, only for quarterly keys
+}
+
+/**
+ * Parses a period key: "2023" for a year or "2023Q2" for a quarter.
+ * @returns The parsed key, or null if the key is malformed.
+ */
+export function parsePeriodKey(key: string): ParsedPeriodKey | null {
+    const match = /^(\d{4})(?:Q([1-4]))?$/.exec(key);
+    if (!match) {
+        return null;
+    }
+    const year = parseInt(match[1]);
+    return match[2]
+        ? { granularity: 'quarter', year, quarter: parseInt(match[2]) }
+        : { granularity: 'year', year };
+}
+
+/**
+ * Builds the period key of a year ("2023") or a quarter ("2023Q2").
+ */
+export function toPeriodKey(year: number, quarter?: number): string {
+    return quarter ? `${year}Q${quarter}` : year.toString();
+}
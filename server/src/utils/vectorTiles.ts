@@ -0,0 +1,108 @@
+import geojsonvt from 'geojson-vt';
+import { fromGeojsonVt } from 'vt-pbf';
+import { FeatureCollection, Geometry } from 'geojson';
+import { BoundingBox, Position, getBoundingBox } from './geometry';
+
+export type TileIndex = ReturnType<typeof geojsonvt>;
+
+export interface TileCoordinates {
+    z: number;
+    x: number;
+    y: number;
+}
+
+// Deepest zoom level tiles are cut for
+export const MAX_TILE_ZOOM = 18;
+// Deepest zoom level of the long-lived tile indexes, which keep full detail from here on. An index keeps
+// every tile it cuts, so deeper tiles are cut from a throwaway index instead (see encodeDeepTile)
+export const TILE_INDEX_MAX_ZOOM = 14;
+const TILE_EXTENT = 4096; // Coordinate resolution inside a tile (the MVT default)
+const TILE_BUFFER = 64;   // Extra margin around each tile so polygon outlines do not end at tile edges
+
+/**
+ * Checks that tile coordinates address an existing XYZ tile up to MAX_TILE_ZOOM.
+ */
+export function isValidTile({ z, x, y }: TileCoordinates): boolean {
+    const tileCount = 2 ** z;
+    return [z, x, y].every(Number.isInteger)
+        && z >= 0 && z <= MAX_TILE_ZOOM
+        && x >= 0 && x < tileCount
+        && y >= 0 && y < tileCount;
+}
+
+/**
+ * Cuts a WGS84 collection into Web Mercator tiles. Tiles are generated lazily by encodeTile
+ * and kept in the index, so the index should be reused for as long as the collection is.
+ * @param maxZoom Deepest zoom level of the index; it returns no tiles below it.
+ */
+export function createTileIndex(collection: FeatureCollection, maxZoom: number = TILE_INDEX_MAX_ZOOM): TileIndex {
+    return geojsonvt(collection, {
+        maxZoom,
+        extent: TILE_EXTENT,
+        buffer: TILE_BUFFER
+    });
+}
+
+/**
+ * Encodes one tile of an index as a Mapbox Vector Tile with a single layer.
+ * @returns The protobuf-encoded tile, or null if no feature touches the tile.
+ */
+export function encodeTile(index: TileIndex, layerName: string, { z, x, y }: TileCoordinates): Buffer | null {
+    const tile = index.getTile(z, x, y);
+    if (!tile || tile.features.length === 0) {
+        return null;
+    }
+    // The vt-pbf typings declare the layers as whole indexes, but they are single tiles
+    const layers = { [layerName]: tile } as unknown as Parameters<typeof fromGeojsonVt>[0];
+    return Buffer.from(fromGeojsonVt(layers, { version: 2, extent: TILE_EXTENT }));
+}
+
+// Bounding boxes of the features of each collection, computed once per collection
+const featureBoxes = new WeakMap<FeatureCollection, (BoundingBox | null)[]>();
+
+const getPositions = (geometry: Geometry | null): Position[] => {
+    if (!geometry) return [];
+    switch (geometry.type) {
+        case 'Point': return [geometry.coordinates];
+        case 'MultiPoint':
+        case 'LineString': return geometry.coordinates;
+        case 'MultiLineString':
+        case 'Polygon': return geometry.coordinates.flat();
+        case 'MultiPolygon': return geometry.coordinates.flat(2);
+        case 'GeometryCollection': return geometry.geometries.flatMap(getPositions);
+    }
+};
+
+/**
+ * Returns the WGS84 bounds of a tile, including the buffer cut around it.
+ */
+function getTileBounds({ z, x, y }: TileCoordinates): BoundingBox {
+    const tileCount = 2 ** z;
+    const margin = TILE_BUFFER / TILE_EXTENT;
+    const toLon = (tileX: number): number => (tileX / tileCount) * 360 - 180;
+    const toLat = (tileY: number): number => (Math.atan(Math.sinh(Math.PI * (1 - (2 * tileY) / tileCount))) * 180) / Math.PI;
+    return [toLon(x - margin), toLat(y + 1 + margin), toLon(x + 1 + margin), toLat(y - margin)];
+}
+
+/**
+ * Encodes a tile deeper than TILE_INDEX_MAX_ZOOM as encodeTile does. The tile is cut from an index of only
+ * the features touching it, which is dropped afterwards, so deep tiles do not accumulate in the long-lived index.
+ * @returns The protobuf-encoded tile, or null if no feature touches the tile.
+ */
+export function encodeDeepTile(collection: FeatureCollection, layerName: string, coordinates: TileCoordinates): Buffer | null {
+    let boxes = featureBoxes.get(collection);
+    if (!boxes) {
+        boxes = collection.features.map(feature => getBoundingBox(getPositions(feature.geometry)));
+        featureBoxes.set(collection, boxes);
+    }
+
+    const [minLon, minLat, maxLon, maxLat] = getTileBounds(coordinates);
+    const features = collection.features.filter((_feature, i) => {
+        const box = boxes.at(i);
+        return box !== null && box !== undefined && box[0] <= maxLon && box[2] >= minLon && box[1] <= maxLat && box[3] >= minLat;
+    });
+    if (features.length === 0) {
+        return null;
+    }
+    return encodeTile(createTileIndex({ type: 'FeatureCollection', features }, coordinates.z), layerName, coordinates);
+}